@@ -13,6 +13,7 @@ import { useToast } from "@/hooks/use-toast";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import AuthPage from "@/pages/auth-page";
+import ChangePasswordPage from "@/pages/change-password-page";
 import FormsPage from "@/pages/forms-page";
 import FormEditor from "@/pages/form-editor";
 import FormCapture from "@/pages/form-capture";
@@ -23,6 +24,10 @@ import SettingsPage from "@/pages/settings-page";
 import CapturedFormsPage from "@/pages/captured-forms-page";
 import ProductsPage from "@/pages/products-page-new";
 import EmployeesPage from "@/pages/employees-page-new";
+import RecipesPage from "@/pages/recipes-page";
+import TraceabilityPage from "@/pages/traceability-page";
+import MockRecallsPage from "@/pages/mock-recalls-page";
+import FoliosPage from "@/pages/folios-page";
 import ProductionFormPage from "@/pages/production-form-page";
 import ProcessFormsList from "@/pages/process-forms-list";
 import DulcesFormPage from "@/pages/dulces-form-page";
@@ -101,13 +106,33 @@ function Router() {
       <ProtectedRouteWithLayout 
         path="/settings" 
         component={SettingsPage} 
-        allowedRoles={[UserRole.ADMIN, UserRole.SUPERADMIN]} 
+        allowedRoles={[UserRole.SUPERADMIN]} 
       />
       <ProtectedRouteWithLayout 
         path="/products" 
         component={ProductsPage} 
         allowedRoles={[UserRole.ADMIN, UserRole.SUPERADMIN, UserRole.PRODUCTION_MANAGER]} 
       />
+      <ProtectedRouteWithLayout 
+        path="/recipes" 
+        component={RecipesPage} 
+        allowedRoles={[UserRole.ADMIN, UserRole.SUPERADMIN, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER]} 
+      />
+      <ProtectedRouteWithLayout 
+        path="/traceability" 
+        component={TraceabilityPage} 
+        allowedRoles={[UserRole.ADMIN, UserRole.SUPERADMIN, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER, UserRole.VIEWER]} 
+      />
+      <ProtectedRouteWithLayout 
+        path="/mock-recalls" 
+        component={MockRecallsPage} 
+        allowedRoles={[UserRole.ADMIN, UserRole.SUPERADMIN, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER]} 
+      />
+      <ProtectedRouteWithLayout 
+        path="/folios" 
+        component={FoliosPage} 
+        allowedRoles={[UserRole.ADMIN, UserRole.SUPERADMIN, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER, UserRole.VIEWER]} 
+      />
       <ProtectedRouteWithLayout 
         path="/employees" 
         component={EmployeesPage} 
@@ -129,6 +154,7 @@ function Router() {
         component={(props: any) => <DulcesFormPage params={props.params} />} 
       />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/change-password" component={ChangePasswordPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -2,9 +2,11 @@ import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Edit3, Trash2, Save, X } from "lucide-react";
+import { Edit3, Ban, Save, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
@@ -17,9 +19,19 @@ import {
   AlertDialogFooter,
   AlertDialogHeader,
   AlertDialogTitle,
-  AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    const body = JSON.parse(error.message.slice(separator + 1).trim());
+    return body.details?.[0]?.message ?? body.message;
+  } catch {
+    return error.message;
+  }
+}
+
 interface FolioManagerProps {
   entryId: number;
   folioFields: Array<{
@@ -37,6 +49,8 @@ export default function FolioManager({ entryId, folioFields, onFolioUpdate }: Fo
   const queryClient = useQueryClient();
   const [editingField, setEditingField] = useState<string | null>(null);
   const [editValue, setEditValue] = useState<string>("");
+  const [voidingField, setVoidingField] = useState<{ id: string; label: string } | null>(null);
+  const [voidReason, setVoidReason] = useState<string>("");
 
   // Verificar permisos para editar folios
   const canEditFolios = () => {
@@ -44,8 +58,8 @@ export default function FolioManager({ entryId, folioFields, onFolioUpdate }: Fo
     return ['superadmin', 'gerente_calidad', 'gerente_produccion'].includes(user.role);
   };
 
-  // Verificar permisos para eliminar folios
-  const canDeleteFolios = () => {
+  // Verificar permisos para anular folios
+  const canVoidFolios = () => {
     if (!user) return false;
     return ['superadmin', 'gerente_calidad'].includes(user.role);
   };
@@ -78,24 +92,29 @@ export default function FolioManager({ entryId, folioFields, onFolioUpdate }: Fo
     }
   });
 
-  // Mutación para eliminar folio
-  const deleteFolioMutation = useMutation({
-    mutationFn: async (fieldId: string) => {
-      const response = await apiRequest('DELETE', `/api/form-entries/${entryId}/folio/${fieldId}`);
+  // Mutación para anular folio: el folio anulado queda en el historial de folios con su motivo
+  const voidFolioMutation = useMutation({
+    mutationFn: async ({ fieldId, reason }: { fieldId: string; reason: string }) => {
+      const response = await apiRequest('POST', `/api/form-entries/${entryId}/folio/void`, {
+        fieldId,
+        reason
+      });
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (_data, { fieldId }) => {
       toast({
-        title: "Folio eliminado",
-        description: "El folio se ha eliminado correctamente"
+        title: "Folio anulado",
+        description: "El folio se anuló y quedó registrado en el historial de folios"
       });
-      onFolioUpdate(editingField!, "");
+      onFolioUpdate(fieldId, "");
+      setVoidingField(null);
+      setVoidReason("");
       queryClient.invalidateQueries({ queryKey: ['/api/form-entries'] });
     },
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: `No se pudo eliminar el folio: ${error.message}`,
+        description: `No se pudo anular el folio: ${getServerMessage(error)}`,
         variant: "destructive"
       });
     }
@@ -120,8 +139,15 @@ export default function FolioManager({ entryId, folioFields, onFolioUpdate }: Fo
     setEditValue("");
   };
 
-  const handleDeleteFolio = (fieldId: string) => {
-    deleteFolioMutation.mutate(fieldId);
+  const handleStartVoid = (fieldId: string, label: string) => {
+    setVoidingField({ id: fieldId, label });
+    setVoidReason("");
+  };
+
+  const handleVoidFolio = () => {
+    if (voidingField) {
+      voidFolioMutation.mutate({ fieldId: voidingField.id, reason: voidReason.trim() });
+    }
   };
 
   if (folioFields.length === 0) {
@@ -200,36 +226,15 @@ export default function FolioManager({ entryId, folioFields, onFolioUpdate }: Fo
                   </Button>
                 )}
 
-                {canDeleteFolios() && field.value && (
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button
-                        size="sm"
-                        variant="destructive"
-                        disabled={deleteFolioMutation.isPending}
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>¿Eliminar folio?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          Esta acción eliminará permanentemente el valor del folio "{field.label}".
-                          Esta acción no se puede deshacer.
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => handleDeleteFolio(field.id)}
-                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                        >
-                          Eliminar
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+                {canVoidFolios() && field.value && (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleStartVoid(field.id, field.label)}
+                    disabled={voidFolioMutation.isPending}
+                  >
+                    <Ban className="h-3 w-3" />
+                  </Button>
                 )}
               </div>
             </div>
@@ -241,11 +246,42 @@ export default function FolioManager({ entryId, folioFields, onFolioUpdate }: Fo
           <h4 className="font-medium text-sm mb-2">Permisos de gestión de folios:</h4>
           <div className="space-y-1 text-xs text-muted-foreground">
             <div>• Editar: Gerente de Producción, Gerente de Calidad, Super Admin</div>
-            <div>• Eliminar: Gerente de Calidad, Super Admin</div>
+            <div>• Anular (con motivo): Gerente de Calidad, Super Admin</div>
             <div>• Tu rol actual: <span className="font-medium">{user?.role}</span></div>
           </div>
         </div>
       </CardContent>
+
+      <AlertDialog open={!!voidingField} onOpenChange={(open) => !open && setVoidingField(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Anular folio?</AlertDialogTitle>
+            <AlertDialogDescription>
+              El folio "{voidingField?.label}" dejará de estar asignado a este registro. El folio anulado,
+              el motivo y el usuario quedan registrados en el historial de folios.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">Motivo de la anulación</Label>
+            <Textarea
+              id="void-reason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="Describa por qué se anula el folio"
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={voidFolioMutation.isPending}>Cancelar</AlertDialogCancel>
+            <Button
+              variant="destructive"
+              onClick={handleVoidFolio}
+              disabled={voidFolioMutation.isPending || voidReason.trim().length < 5}
+            >
+              Anular folio
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
\ No newline at end of file
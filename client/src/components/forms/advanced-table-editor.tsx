@@ -66,6 +66,8 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { useToast } from "@/hooks/use-toast";
+import { useRecipes } from "@/hooks/use-recipes";
+import { validateFormula } from "@shared/formula";
 
 // Tipos para la configuración de tabla avanzada 
 interface ColumnDefinition {
@@ -95,6 +97,8 @@ interface ColumnDefinition {
     calculationType?: "price" | "total" | "weight" | "tax"; // Tipo de cálculo a realizar
     factor?: number; // Factor opcional para multiplicar/dividir
   };
+  // Fórmula evaluada por fila (p. ej. "=row.kilos * row.precio"); sustituye a los cálculos fijos
+  formula?: string;
 }
 
 interface TableSection {
@@ -116,177 +120,6 @@ interface AdvancedTableEditorProps {
   preview?: boolean;
 }
 
-// Definición de factores de conversión para cada producto
-// Cada producto define cuántos kilos de cada materia prima se necesitan por 100 litros
-// Los valores están basados en los ejemplos proporcionados por el usuario
-const PRODUCT_MATERIALS = {
-  "Mielmex 65° Brix": {
-    "Leche de Vaca": 0,
-    "Leche de Cabra": 1.0,  // 100/100 litros
-    "Azúcar": 0.20,         // 20/100 litros
-    "Glucosa": 0,
-    "Malto": 0,
-    "Bicarbonato": 0.0016,  // 0.16/100 litros
-    "Sorbato": 0.000626,    // 0.0626/100 litros
-    "Lecitina": 0,
-    "Carragenina": 0,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Coro 68° Brix": {
-    "Leche de Vaca": 0.2,   // 20/100 litros
-    "Leche de Cabra": 0.8,  // 80/100 litros
-    "Azúcar": 0.18,         // 18/100 litros
-    "Glucosa": 0,
-    "Malto": 0,
-    "Bicarbonato": 0.0016,  // 0.16/100 litros
-    "Sorbato": 0,
-    "Lecitina": 0,
-    "Carragenina": 0,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Cajeton Esp Chepo": {
-    "Leche de Vaca": 0,
-    "Leche de Cabra": 1.0,  // 100/100 litros
-    "Azúcar": 0.2,          // 20/100 litros
-    "Glucosa": 0.27,        // 27/100 litros
-    "Malto": 0.05,          // 5.0/100 litros
-    "Bicarbonato": 0.0018,  // 0.18/100 litros
-    "Sorbato": 0.0001,      // 0.01/100 litros  
-    "Lecitina": 0.00001,    // 0.001/100 litros
-    "Carragenina": 0.00001, // 0.001/100 litros
-    "Grasa": 0.00001,       // 0.001/100 litros
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0.00001         // 0.001/100 litros
-  },
-  "Cajeton Tradicional": {
-    "Leche de Vaca": 0,
-    "Leche de Cabra": 1.0,   // 100/100 litros
-    "Azúcar": 0.2,           // 20/100 litros
-    "Glucosa": 0.27,         // 27/100 litros
-    "Malto": 0.05,           // 5.0/100 litros
-    "Bicarbonato": 0.0016,   // 0.16/100 litros
-    "Sorbato": 0.001,        // 0.10/100 litros
-    "Lecitina": 0,
-    "Carragenina": 0,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Cabri Tradicional": {
-    "Leche de Vaca": 0,
-    "Leche de Cabra": 1.0,
-    "Azúcar": 0.20,
-    "Glucosa": 0,
-    "Malto": 0,
-    "Bicarbonato": 0.01,
-    "Sorbato": 0,
-    "Lecitina": 0,
-    "Carragenina": 0,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Cabri Espesa": {
-    "Leche de Vaca": 0,
-    "Leche de Cabra": 1.0,
-    "Azúcar": 0.22,
-    "Glucosa": 0.05,
-    "Malto": 0,
-    "Bicarbonato": 0.01,
-    "Sorbato": 0,
-    "Lecitina": 0,
-    "Carragenina": 0,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Horneable": {
-    "Leche de Vaca": 0.10,
-    "Leche de Cabra": 0.10,
-    "Azúcar": 0.22,
-    "Glucosa": 0.10,
-    "Malto": 0,
-    "Bicarbonato": 0.01,
-    "Sorbato": 0,
-    "Lecitina": 0,
-    "Carragenina": 0,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Gloria untable 78° Brix": {
-    "Leche de Vaca": 0.90,
-    "Leche de Cabra": 0,
-    "Azúcar": 0.25,
-    "Glucosa": 0.18,
-    "Malto": 0,
-    "Bicarbonato": 0.015,
-    "Sorbato": 0,
-    "Lecitina": 0,
-    "Carragenina": 0.003,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Gloria untable 80° Brix": {
-    "Leche de Vaca": 0.90,
-    "Leche de Cabra": 0,
-    "Azúcar": 0.28,
-    "Glucosa": 0.20,
-    "Malto": 0,
-    "Bicarbonato": 0.015,
-    "Sorbato": 0,
-    "Lecitina": 0,
-    "Carragenina": 0.004,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Pasta DGL": {
-    "Leche de Vaca": 0.80,
-    "Leche de Cabra": 0,
-    "Azúcar": 0.25,
-    "Glucosa": 0.15,
-    "Malto": 0,
-    "Bicarbonato": 0.02,
-    "Sorbato": 0,
-    "Lecitina": 0.006,
-    "Carragenina": 0,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  },
-  "Conito": {
-    "Leche de Vaca": 0.20,
-    "Leche de Cabra": 0.75,
-    "Azúcar": 0.22,
-    "Glucosa": 0.12,
-    "Malto": 0,
-    "Bicarbonato": 0.01,
-    "Sorbato": 0,
-    "Lecitina": 0,
-    "Carragenina": 0.003,
-    "Grasa": 0,
-    "Pasta": 0,
-    "Antiespumante": 0,
-    "Nuez": 0
-  }
-};
-
 // Plantillas predefinidas para tipos comunes de tablas
 const TABLE_TEMPLATES = [
   {
@@ -718,6 +551,8 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
   preview = false
 }) => {
   const { toast } = useToast();
+  // Recetas de productos para calcular las materias primas de la vista previa
+  const { effectiveRecipes, getRecipe, calculateAmounts } = useRecipes();
   // Estado para el wizard
   const [wizardMode, setWizardMode] = useState<boolean>(true);
   const [currentStep, setCurrentStep] = useState<string>("template");
@@ -1198,28 +1033,16 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
     const productoValue = data[0]?.[productoColumn.id];
     const litrosValue = parseFloat(data[0]?.[litrosColumn.id] || '0');
     
-    console.log("updateMateriaPrimasByProductoLitros", { productoValue, litrosValue });
-    console.log("PRODUCT_MATERIALS keys:", Object.keys(PRODUCT_MATERIALS));
-    console.log("productoValue type:", typeof productoValue);
-    console.log("productoValue in PRODUCT_MATERIALS:", productoValue in PRODUCT_MATERIALS);
-    
-    // Solo proceder si tenemos un producto válido y valor de litros positivo
+    // Solo proceder si tenemos un producto con receta vigente y valor de litros positivo
     if (!productoValue || 
         litrosValue <= 0 || 
         typeof productoValue !== 'string' || 
-        !(productoValue in PRODUCT_MATERIALS)) {
-      console.warn("No se pudo actualizar materias primas:", {
-        hasProducto: !!productoValue,
-        litrosValue,
-        isString: typeof productoValue === 'string',
-        inPRODUCT_MATERIALS: productoValue ? productoValue in PRODUCT_MATERIALS : false
-      });
+        !getRecipe(productoValue)) {
       return;
     }
     
-    // Obtenemos las materias primas para este producto
-    const materiaPrimasObj = PRODUCT_MATERIALS[productoValue as keyof typeof PRODUCT_MATERIALS];
-    const materiasPrimas = Object.keys(materiaPrimasObj);
+    // Kilos de cada materia prima según la receta del producto
+    const kilosPorMateria = calculateAmounts(productoValue, litrosValue);
     
     // Columnas para materias primas
     const materiaPrimaColumn = materiaPrimaSection.columns[0];
@@ -1228,7 +1051,7 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
     if (!materiaPrimaColumn || !kilosColumn) return;
     
     // Actualizamos cada materia prima
-    materiasPrimas.forEach((materiaPrima, idx) => {
+    Object.entries(kilosPorMateria).forEach(([materiaPrima, kilos], idx) => {
       const rowIdx = idx + 1; // +1 porque la fila 0 es para el proceso
       
       // Crear la fila si no existe
@@ -1236,12 +1059,9 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
         data[rowIdx] = {};
       }
       
-      // Coeficiente para este material
-      const coeficiente = materiaPrimasObj[materiaPrima as keyof typeof materiaPrimasObj];
-      
       // Actualizar valores
       data[rowIdx][materiaPrimaColumn.id] = materiaPrima;
-      data[rowIdx][kilosColumn.id] = (coeficiente * litrosValue).toFixed(3);
+      data[rowIdx][kilosColumn.id] = kilos.toFixed(3);
     });
   };
 
@@ -1289,21 +1109,18 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
           console.log(`Valores actuales: Producto="${productoValue}", Litros=${litrosValue}`);
           
           // Si tenemos producto y litros, calculamos cada materia prima
-          if (productoValue && litrosValue > 0 && typeof productoValue === 'string' && productoValue in PRODUCT_MATERIALS) {
+          if (productoValue && litrosValue > 0 && typeof productoValue === 'string' && getRecipe(productoValue)) {
             console.log(`Calculando materias primas para ${productoValue} con ${litrosValue} litros`);
             
-            // Para cada materia prima en el producto
-            const materiaPrimasObj = PRODUCT_MATERIALS[productoValue as keyof typeof PRODUCT_MATERIALS];
-            const materiasPrimas = Object.keys(materiaPrimasObj);
+            // Kilos de cada materia prima según la receta del producto
+            const kilosPorMateria = calculateAmounts(productoValue, litrosValue);
+            const materiasPrimas = Object.keys(kilosPorMateria);
             
             console.log(`Encontradas ${materiasPrimas.length} materias primas`);
             
             // Actualizar cada materia prima en la tabla
             let rowIdx = 0;
             materiasPrimas.forEach((materiaPrima) => {
-              // Coeficiente para este material (kg por litro)
-              const coeficiente = materiaPrimasObj[materiaPrima as keyof typeof materiaPrimasObj];
-              
               // Columnas de materia prima y kilos
               const materiaPrimaColumn = materiaPrimaSection.columns[0];
               const kilosColumn = materiaPrimaSection.columns[1];
@@ -1314,8 +1131,8 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
               }
               
               // Actualizar nombre de materia prima y kilos calculados
-              const kilosCalculados = (coeficiente * litrosValue).toFixed(3);
-              console.log(`Materia prima: ${materiaPrima}, coeficiente: ${coeficiente}, kilos: ${kilosCalculados}`);
+              const kilosCalculados = kilosPorMateria[materiaPrima].toFixed(3);
+              console.log(`Materia prima: ${materiaPrima}, kilos: ${kilosCalculados}`);
               
               newData[rowIdx + 1][materiaPrimaColumn.id] = materiaPrima;
               newData[rowIdx + 1][kilosColumn.id] = kilosCalculados;
@@ -1508,12 +1325,11 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                           console.log("Valor de litros existente:", litrosValue);
                           
                           // Si ya hay litros y producto, calcular materias primas
-                          if (litrosValue > 0 && productValue in PRODUCT_MATERIALS) {
-                            const materiaPrimasObj = PRODUCT_MATERIALS[productValue as keyof typeof PRODUCT_MATERIALS];
-                            const materiasPrimas = Object.keys(materiaPrimasObj);
+                          if (litrosValue > 0 && getRecipe(productValue)) {
+                            const kilosPorMateria = calculateAmounts(productValue, litrosValue);
                             
                             // Actualizamos cada materia prima
-                            materiasPrimas.forEach((materiaPrima, idx) => {
+                            Object.entries(kilosPorMateria).forEach(([materiaPrima, kilos], idx) => {
                               const rowIdx = idx + 1; // +1 porque fila 0 es para proceso
                               if (!newData[rowIdx]) newData[rowIdx] = {};
                               
@@ -1522,12 +1338,9 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                               const kilosColumn = materiaPrimaSection.columns[1];
                               
                               if (materiaPrimaColumn && kilosColumn) {
-                                // Coeficiente para este material
-                                const coeficiente = materiaPrimasObj[materiaPrima as keyof typeof materiaPrimasObj];
-                                
                                 // Actualizar valores en la vista previa
                                 newData[rowIdx][materiaPrimaColumn.id] = materiaPrima;
-                                newData[rowIdx][kilosColumn.id] = (coeficiente * litrosValue).toFixed(3);
+                                newData[rowIdx][kilosColumn.id] = kilos.toFixed(3);
                               }
                             });
                           }
@@ -1543,18 +1356,9 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                         <SelectValue placeholder="Seleccionar producto..." />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Pasta Oblea Coro">Pasta Oblea Coro</SelectItem>
-                        <SelectItem value="Pasta Oblea Cajeton">Pasta Oblea Cajeton</SelectItem>
-                        <SelectItem value="Coro 68° Brix">Coro 68° Brix</SelectItem>
-                        <SelectItem value="Cajeton Tradicional">Cajeton Tradicional</SelectItem>
-                        <SelectItem value="Mielmex 65° Brix">Mielmex 65° Brix</SelectItem>
-                        <SelectItem value="Cabri Tradicional">Cabri Tradicional</SelectItem>
-                        <SelectItem value="Cabri Espesa">Cabri Espesa</SelectItem>
-                        <SelectItem value="Horneable">Horneable</SelectItem>
-                        <SelectItem value="Gloria untable 78° Brix">Gloria untable 78° Brix</SelectItem>
-                        <SelectItem value="Gloria untable 80° Brix">Gloria untable 80° Brix</SelectItem>
-                        <SelectItem value="Pasta DGL">Pasta DGL</SelectItem>
-                        <SelectItem value="Conito">Conito</SelectItem>
+                        {effectiveRecipes.map(recipe => (
+                          <SelectItem key={recipe.id} value={recipe.productName}>{recipe.productName}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   )}
@@ -1579,12 +1383,11 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                           console.log("Producto seleccionado:", productoValue);
                           
                           // Si hay litros y producto, calcular materias primas
-                          if (litrosValue > 0 && typeof productoValue === 'string' && productoValue in PRODUCT_MATERIALS) {
-                            const materiaPrimasObj = PRODUCT_MATERIALS[productoValue as keyof typeof PRODUCT_MATERIALS];
-                            const materiasPrimas = Object.keys(materiaPrimasObj);
+                          if (litrosValue > 0 && typeof productoValue === 'string' && getRecipe(productoValue)) {
+                            const kilosPorMateria = calculateAmounts(productoValue, litrosValue);
                             
                             // Actualizamos cada materia prima
-                            materiasPrimas.forEach((materiaPrima, idx) => {
+                            Object.entries(kilosPorMateria).forEach(([materiaPrima, kilos], idx) => {
                               const rowIdx = idx + 1; // +1 porque fila 0 es para proceso
                               if (!newData[rowIdx]) newData[rowIdx] = {};
                               
@@ -1593,12 +1396,9 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                               const kilosColumn = materiaPrimaSection.columns[1];
                               
                               if (materiaPrimaColumn && kilosColumn) {
-                                // Coeficiente para este material
-                                const coeficiente = materiaPrimasObj[materiaPrima as keyof typeof materiaPrimasObj];
-                                
                                 // Actualizar valores en la vista previa
                                 newData[rowIdx][materiaPrimaColumn.id] = materiaPrima;
-                                newData[rowIdx][kilosColumn.id] = (coeficiente * litrosValue).toFixed(3);
+                                newData[rowIdx][kilosColumn.id] = kilos.toFixed(3);
                               }
                             });
                           }
@@ -1807,7 +1607,7 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                 
                 if (litrosColumn && litrosColumn.id) {
                   const litrosValue = parseFloat(previewData[rowIndex]?.[litrosColumn.id] || '0');
-                  if (litrosValue > 0 && productValue in PRODUCT_MATERIALS) {
+                  if (litrosValue > 0 && getRecipe(productValue)) {
                     // Actualizamos directamente las materias primas con los valores actuales
                     updateMateriaPrimasByProductoLitros(previewData, value.sections);
                   }
@@ -3552,6 +3352,40 @@ const AdvancedTableEditor: React.FC<AdvancedTableEditorProps> = ({
                     </div>
                   </div>
                 )}
+                
+                <div className="mt-4 border-t pt-4">
+                  <Label htmlFor="column-formula">Fórmula</Label>
+                  <Input
+                    id="column-formula"
+                    className="font-mono"
+                    value={(value && value.sections)?.[editingColumn?.sectionIndex || 0]?.columns?.[editingColumn?.columnIndex || 0]?.formula || ""}
+                    onChange={(e) => {
+                      if (editingColumn) {
+                        const formula = e.target.value;
+                        updateColumn(
+                          editingColumn.sectionIndex,
+                          editingColumn.columnIndex,
+                          {
+                            formula: formula || undefined,
+                            readOnly: !!formula // Las columnas calculadas no se capturan
+                          }
+                        );
+                      }
+                    }}
+                    placeholder="=row.kilos * row.precio"
+                  />
+                  {(() => {
+                    const formula = (value && value.sections)?.[editingColumn?.sectionIndex || 0]?.columns?.[editingColumn?.columnIndex || 0]?.formula;
+                    const error = formula ? validateFormula(formula) : null;
+                    return error ? (
+                      <p className="text-xs text-destructive mt-1">{error}</p>
+                    ) : (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Use row.columna para valores de la misma fila; se recalcula en pantalla y al guardar
+                      </p>
+                    );
+                  })()}
+                </div>
                 </CardContent>
               </Card>
             </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
 import { 
   Table,
   TableBody,
@@ -19,7 +19,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import FormulaHelper from "./formula-helper";
 import FormulaCalculator from "./formula-calculator";
-import { calculateIngredientAmounts } from "@/data/product-formulas";
+import { useRecipes } from "@/hooks/use-recipes";
 
 // Interfaces para productos y empleados
 interface Product {
@@ -50,6 +50,7 @@ interface ColumnDefinition {
   span?: number;
   rowspan?: number;
   readOnly?: boolean;
+  formula?: string; // Columna calculada: el formulario la recalcula por fila
   employeeType?: string; // Para filtrar por tipo de empleado si es necesario
   validation?: {
     min?: number;
@@ -99,7 +100,18 @@ const AdvancedTableViewer: React.FC<AdvancedTableViewerProps> = ({
   onChange,
   readOnly = false
 }) => {
-  const config = field.advancedTableConfig;
+  // Las columnas con fórmula son de solo lectura: su valor lo calcula el formulario
+  const config = useMemo(() => {
+    const original = field.advancedTableConfig;
+    if (!original) return original;
+    const lockFormulaColumns = (columns: ColumnDefinition[]) =>
+      columns.map(column => (column.formula ? { ...column, readOnly: true } : column));
+    return {
+      ...original,
+      sections: original.sections?.map(section => ({ ...section, columns: lockFormulaColumns(section.columns || []) })),
+      columns: original.columns && lockFormulaColumns(original.columns),
+    };
+  }, [field.advancedTableConfig]);
   const { toast } = useToast();
   const [tableData, setTableData] = useState<Record<string, any>[]>(value || []);
   const [isSaving, setIsSaving] = useState(false);
@@ -129,6 +141,9 @@ const AdvancedTableViewer: React.FC<AdvancedTableViewerProps> = ({
     enabled: true,
   });
   
+  // Recetas de productos para calcular las materias primas
+  const { calculateAmounts } = useRecipes();
+  
   // Si no hay configuración, mostrar mensaje simplificado
   if (!config || (!config.sections && !config.columns) || (config.sections && config.sections.length === 0) || (config.columns && config.columns.length === 0)) {
     console.warn("Error en configuración de tabla avanzada:", field);
@@ -514,7 +529,7 @@ const AdvancedTableViewer: React.FC<AdvancedTableViewerProps> = ({
               
               try {
                 // Calcular cantidades según fórmula
-                const calculatedAmounts = calculateIngredientAmounts(value, litersNum);
+                const calculatedAmounts = calculateAmounts(value, litersNum);
                 
                 if (Object.keys(calculatedAmounts).length > 0) {
                   // Buscar la sección de Materia Prima
@@ -562,7 +577,7 @@ const AdvancedTableViewer: React.FC<AdvancedTableViewerProps> = ({
               
               // Calcular cantidades según fórmula
               try {
-                const calculatedAmounts = calculateIngredientAmounts(value, liters);
+                const calculatedAmounts = calculateAmounts(value, liters);
                 
                 if (Object.keys(calculatedAmounts).length > 0) {
                   // Buscar la sección de Materia Prima
@@ -628,7 +643,7 @@ const AdvancedTableViewer: React.FC<AdvancedTableViewerProps> = ({
               
               try {
                 // Calcular cantidades según fórmula
-                const calculatedAmounts = calculateIngredientAmounts(productValue, liters);
+                const calculatedAmounts = calculateAmounts(productValue, liters);
                 
                 if (Object.keys(calculatedAmounts).length > 0) {
                   // Buscar la sección de Materia Prima
@@ -802,86 +817,6 @@ const AdvancedTableViewer: React.FC<AdvancedTableViewerProps> = ({
     }
   };
   
-  // Función para actualizar las filas de materias primas basado en producto y litros
-  const updateRawMaterials = (productName: string, liters: number) => {
-    console.log("Actualizando materias primas para:", productName, "litros:", liters);
-    
-    // Solo proceder si tenemos secciones configuradas
-    if (!config.sections || config.sections.length < 2) return;
-    
-    // Asumimos que la segunda sección contiene las materias primas
-    const rawMaterialsSection = config.sections[1];
-    if (!rawMaterialsSection || !rawMaterialsSection.columns) return;
-    
-    // Buscar la columna para los kilos (puede ser la segunda columna en la sección)
-    const kilosColumn = rawMaterialsSection.columns.find(col => 
-      col.header?.toLowerCase().includes('kilo') || 
-      col.id.toLowerCase().includes('kilo')
-    );
-    
-    if (!kilosColumn) return;
-    
-    // Nombres de materias primas y sus valores relativos para cálculo (basados en la imagen)
-    // Esto debería venir de la base de datos en una aplicación real
-    const materialsRelations: Record<string, Record<string, number>> = {
-      "Mielmex 65° Brix": {
-        "Leche de Vaca": 0,
-        "Leche de Cabra": 1, // 1:1 ratio
-        "Azúcar": 0.18, // 18% de los litros
-        "Glucosa": 0,
-        "Malto": 0,
-        "Bicarbonato": 0.0016, // 0.16% de los litros
-        "Sorbato": 0.0006, // 0.06% de los litros
-        "Lecitina": 0,
-        "Carrogenina": 0,
-        "Grasa": 0,
-        "Pasta": 0,
-        "Antiespumante": 0,
-        "Nuez": 0
-      }
-    };
-    
-    // Verificar si tenemos relaciones para este producto
-    const relations = materialsRelations[productName];
-    if (!relations) return;
-    
-    // Obtener los nombres de las materias primas de la primera columna
-    const nameColumn = rawMaterialsSection.columns[0];
-    if (!nameColumn) return;
-    
-    // Crear una nueva copia de los datos
-    const newData = [...tableData];
-    
-    // Para cada fila, buscar el nombre de la materia prima y actualizar su valor
-    for (let rowIndex = 0; rowIndex < newData.length; rowIndex++) {
-      const materialName = newData[rowIndex]?.[nameColumn.id];
-      
-      // Si encontramos el nombre en nuestras relaciones, actualizamos su valor
-      if (materialName && relations[materialName] !== undefined) {
-        const calculatedValue = liters * relations[materialName];
-        newData[rowIndex][kilosColumn.id] = calculatedValue === 0 ? "0" : calculatedValue.toString();
-      }
-    }
-    
-    // Actualizar los datos
-    console.log("[updateRawMaterials] Actualizando datos de tabla:", newData);
-    setTableData(newData);
-    
-    // Propagar el cambio con un pequeño retraso para asegurar que React haya actualizado el estado
-    setTimeout(() => {
-      try {
-        // Propagar una copia limpia al componente padre
-        const jsonString = JSON.stringify(newData);
-        const finalData = JSON.parse(jsonString);
-        onChange(finalData);
-        notifyTableUpdate("Materias primas actualizadas", "success");
-      } catch (error) {
-        console.error("[updateRawMaterials] Error al propagar cambios:", error);
-        notifyTableUpdate("Error al actualizar materias primas", "error");
-      }
-    }, 150);
-  };
-  
   // Agregar una fila
   const addRow = () => {
     try {
@@ -1008,10 +943,10 @@ const AdvancedTableViewer: React.FC<AdvancedTableViewerProps> = ({
                 
                 try {
                   // Calcular cantidades según fórmula
-                  const calculatedAmounts = calculateIngredientAmounts(productName, litersValue);
+                  const calculatedAmounts = calculateAmounts(productName, litersValue);
                   
                   if (Object.keys(calculatedAmounts).length === 0) {
-                    notifyTableUpdate(`No se encontró una fórmula para ${productName}`, "error");
+                    notifyTableUpdate(`${productName} no tiene una receta vigente`, "error");
                     return;
                   }
                   
@@ -1135,7 +1070,7 @@ const AdvancedTableViewer: React.FC<AdvancedTableViewerProps> = ({
                 {allColumns.map((column) => (
                   <TableCell 
                     key={`${rowIndex}-${column.id}`} 
-                    className={`p-1 border border-border ${column.dependency ? 'bg-blue-50' : ''}`}
+                    className={`p-1 border border-border ${column.dependency || column.formula ? 'bg-blue-50' : ''}`}
                     style={{ 
                       width: column.width || '180px',
                       minWidth: column.type === 'text' ? '180px' : 
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import type { FieldChange, FormEntryRevision } from "@shared/schema";
+
+interface RevisionWithUser extends Omit<FormEntryRevision, "changes"> {
+  changes: FieldChange[];
+  changedByName: string;
+  changedByRole: string;
+  amendmentReason: string | null;
+}
+
+interface EntryHistoryPanelProps {
+  entryId: number;
+}
+
+const actionLabels: Record<string, string> = {
+  baseline: "Estado inicial",
+  created: "Creado",
+  updated: "Actualizado",
+  workflow_transition: "Cambio de estado",
+  folio_updated: "Folio actualizado",
+  folio_deleted: "Folio eliminado",
+  folio_voided: "Folio anulado",
+  amended: "Enmienda",
+  signed: "Firmado",
+  approved: "Aprobado",
+  rejected: "Rechazado",
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Sí" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function EntryHistoryPanel({ entryId }: EntryHistoryPanelProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<RevisionWithUser[]>({
+    queryKey: [`/api/form-entries/${entryId}/history`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">Esta entrada aún no tiene revisiones registradas</p>;
+  }
+
+  // Mostrar la revisión más reciente por defecto
+  const ordered = [...revisions].reverse();
+  const selected = ordered.find(revision => revision.id === selectedId) ?? ordered[0];
+  const previous = revisions.find(revision => revision.revision === selected.revision - 1);
+  const statusChanged = previous && previous.workflowStatus !== selected.workflowStatus;
+
+  return (
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+      <ScrollArea className="h-[480px] rounded-md border">
+        <div className="divide-y">
+          {ordered.map(revision => (
+            <button
+              key={revision.id}
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full p-3 text-left text-sm hover:bg-muted ${revision.id === selected.id ? "bg-muted" : ""}`}
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium">Revisión {revision.revision}</span>
+                <Badge variant="outline">{actionLabels[revision.action] ?? revision.action}</Badge>
+              </div>
+              <div className="text-muted-foreground">
+                {revision.changedByName} · {revision.changedAt ? new Date(revision.changedAt).toLocaleString("es-MX") : ""}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {revision.changes.length} {revision.changes.length === 1 ? "cambio" : "cambios"}
+              </div>
+            </button>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <div className="space-y-3 md:col-span-2">
+        <div className="text-sm">
+          <span className="font-medium">{selected.changedByName}</span>
+          <span className="text-muted-foreground"> ({selected.changedByRole})</span>
+          {statusChanged && (
+            <span className="ml-2 text-muted-foreground">
+              Estado: {previous.workflowStatus ?? "—"} → {selected.workflowStatus ?? "—"}
+            </span>
+          )}
+        </div>
+
+        {selected.amendmentReason && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            <span className="font-medium">Motivo de la enmienda:</span> {selected.amendmentReason}
+          </div>
+        )}
+
+        {selected.changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Sin cambios en los datos del formulario</p>
+        ) : (
+          <ScrollArea className="h-[440px] rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Campo</TableHead>
+                  <TableHead>Valor anterior</TableHead>
+                  <TableHead>Valor nuevo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selected.changes.map(change => (
+                  <TableRow key={change.path}>
+                    <TableCell className="font-medium">{change.label}</TableCell>
+                    <TableCell className="bg-red-50 text-red-800 line-through">{formatValue(change.oldValue)}</TableCell>
+                    <TableCell className="bg-green-50 text-green-800">{formatValue(change.newValue)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+}
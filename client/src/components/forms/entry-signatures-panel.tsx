@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import SignaturePad from "@/components/forms/signature-pad";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SignatureMeaning, SignatureRole, UserRole } from "@shared/schema";
+import { AlertTriangle, Loader2, PenLine, ShieldCheck } from "lucide-react";
+
+type SignatureStatus = "valid" | "invalidated" | "tampered";
+
+interface ManifestItem {
+  id: number;
+  signatureRole: SignatureRole;
+  signatureRoleLabel: string;
+  meaning: SignatureMeaning;
+  signerName: string;
+  signatureImage: string | null;
+  dataHash: string;
+  signedAt: string | null;
+  status: SignatureStatus;
+}
+
+interface SignaturesResponse {
+  dataHash: string;
+  tampered: boolean;
+  signatures: ManifestItem[];
+}
+
+interface EntrySignaturesPanelProps {
+  entryId: number;
+}
+
+// Partes de la entrada que se firman, con quién puede firmarlas y el significado sugerido
+export const signatureSlots: { role: SignatureRole; label: string; userRoles: UserRole[]; defaultMeaning: SignatureMeaning }[] = [
+  {
+    role: SignatureRole.PRODUCER,
+    label: "Elaboró (Producción)",
+    userRoles: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER],
+    defaultMeaning: SignatureMeaning.ELABORATED,
+  },
+  {
+    role: SignatureRole.SUPERVISOR,
+    label: "Supervisó",
+    userRoles: [UserRole.PRODUCTION_MANAGER, UserRole.ADMIN],
+    defaultMeaning: SignatureMeaning.REVIEWED,
+  },
+  {
+    role: SignatureRole.QUALITY,
+    label: "Calidad",
+    userRoles: [UserRole.QUALITY, UserRole.QUALITY_MANAGER],
+    defaultMeaning: SignatureMeaning.APPROVED,
+  },
+];
+
+export const meaningLabels: Record<SignatureMeaning, string> = {
+  [SignatureMeaning.ELABORATED]: "Elaborado",
+  [SignatureMeaning.REVIEWED]: "Revisado",
+  [SignatureMeaning.APPROVED]: "Aprobado",
+};
+
+const statusBadges: Record<SignatureStatus, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  valid: { label: "Vigente", variant: "default" },
+  invalidated: { label: "Invalidada por cambios posteriores", variant: "secondary" },
+  tampered: { label: "Datos alterados", variant: "destructive" },
+};
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    return JSON.parse(error.message.slice(separator + 1).trim()).message;
+  } catch {
+    return error.message;
+  }
+}
+
+export default function EntrySignaturesPanel({ entryId }: EntrySignaturesPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [signingRole, setSigningRole] = useState<SignatureRole | null>(null);
+  const [meaning, setMeaning] = useState<SignatureMeaning>(SignatureMeaning.ELABORATED);
+  const [password, setPassword] = useState("");
+  const [signatureImage, setSignatureImage] = useState<string | undefined>();
+  const [showPad, setShowPad] = useState(false);
+
+  const { data, isLoading } = useQuery<SignaturesResponse>({
+    queryKey: [`/api/form-entries/${entryId}/signatures`],
+  });
+
+  const closeDialog = () => {
+    setSigningRole(null);
+    setPassword("");
+    setSignatureImage(undefined);
+    setShowPad(false);
+  };
+
+  const signMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/form-entries/${entryId}/signatures`, {
+        signatureRole: signingRole,
+        meaning,
+        password,
+        signatureImage,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/form-entries/${entryId}/signatures`] });
+      toast({ title: "Firma registrada", description: "La firma quedó ligada a los datos actuales del formulario" });
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      setPassword("");
+      toast({ title: "No se pudo firmar", description: getServerMessage(error), variant: "destructive" });
+    },
+  });
+
+  const openDialog = (role: SignatureRole, defaultMeaning: SignatureMeaning) => {
+    setSigningRole(role);
+    setMeaning(defaultMeaning);
+  };
+
+  const canSign = (userRoles: UserRole[]) =>
+    !!user && (user.role === UserRole.SUPERADMIN || userRoles.includes(user.role as UserRole));
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Firmas electrónicas</CardTitle>
+        <CardDescription>
+          Cada responsable firma su parte con su contraseña; la firma guarda la huella de los datos firmados
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {data.tampered && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Datos alterados después de la firma</AlertTitle>
+            <AlertDescription>
+              Los datos actuales no coinciden con los que se firmaron y no hay un cambio registrado en el historial.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          {signatureSlots.map(slot => {
+            const slotSignatures = data.signatures.filter(s => s.signatureRole === slot.role);
+            const latest = slotSignatures[slotSignatures.length - 1];
+            const hasValid = latest?.status === "valid";
+
+            return (
+              <div key={slot.role} className="space-y-2 rounded-lg border p-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{slot.label}</span>
+                  {latest && (
+                    <Badge variant={statusBadges[latest.status].variant}>{statusBadges[latest.status].label}</Badge>
+                  )}
+                </div>
+                {latest ? (
+                  <div className="space-y-1 text-sm">
+                    {latest.signatureImage && (
+                      <img src={latest.signatureImage} alt="Firma" className="h-12 border-b" />
+                    )}
+                    <div>{latest.signerName} · {meaningLabels[latest.meaning]}</div>
+                    <div className="text-muted-foreground">
+                      {latest.signedAt ? new Date(latest.signedAt).toLocaleString("es-MX") : ""}
+                    </div>
+                    <div className="font-mono text-xs text-muted-foreground">{latest.dataHash.slice(0, 16)}…</div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-muted-foreground">Sin firma</p>
+                )}
+                {!hasValid && canSign(slot.userRoles) && (
+                  <Button size="sm" variant="outline" onClick={() => openDialog(slot.role, slot.defaultMeaning)}>
+                    <PenLine className="mr-2 h-4 w-4" />
+                    Firmar
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+
+      <Dialog open={signingRole !== null} onOpenChange={open => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Firmar como {signatureSlots.find(s => s.role === signingRole)?.label}</DialogTitle>
+            <DialogDescription>Confirme su identidad con su contraseña</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Significado de la firma</Label>
+              <Select value={meaning} onValueChange={value => setMeaning(value as SignatureMeaning)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(SignatureMeaning).map(value => (
+                    <SelectItem key={value} value={value}>{meaningLabels[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="signature-password">Contraseña</Label>
+              <Input
+                id="signature-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+              />
+            </div>
+
+            {showPad ? (
+              <SignaturePad
+                onSave={image => {
+                  setSignatureImage(image);
+                  setShowPad(false);
+                }}
+                onCancel={() => setShowPad(false)}
+              />
+            ) : (
+              <div className="flex items-center gap-3">
+                {signatureImage && <img src={signatureImage} alt="Firma" className="h-12 border-b" />}
+                <Button type="button" variant="outline" size="sm" onClick={() => setShowPad(true)}>
+                  {signatureImage ? "Cambiar trazo" : "Agregar trazo de firma"}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>
+              Cancelar
+            </Button>
+            <Button disabled={!password || signMutation.isPending} onClick={() => signMutation.mutate()}>
+              {signMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <ShieldCheck className="mr-2 h-4 w-4" />
+              )}
+              Firmar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
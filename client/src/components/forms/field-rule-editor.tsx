@@ -0,0 +1,186 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { FieldCondition, FieldRule } from "@shared/schema";
+
+export interface RuleSourceField {
+  id: string;
+  label: string;
+  options?: (string | { label: string; value: string })[];
+}
+
+interface FieldRuleEditorProps {
+  title: string;
+  description: string;
+  value?: FieldRule;
+  onChange: (rule: FieldRule | undefined) => void;
+  sourceFields: RuleSourceField[]; // Campos cuyas respuestas pueden usarse en la regla
+}
+
+const operatorLabels: Record<FieldCondition["operator"], string> = {
+  equals: "es igual a",
+  notEquals: "es distinto de",
+  in: "es alguno de",
+  notIn: "no es ninguno de",
+  isEmpty: "está vacío",
+  isNotEmpty: "tiene respuesta",
+};
+
+const operatorsWithoutValue: FieldCondition["operator"][] = ["isEmpty", "isNotEmpty"];
+const multiValueOperators: FieldCondition["operator"][] = ["in", "notIn"];
+
+function optionValue(option: string | { label: string; value: string }) {
+  return typeof option === "string" ? option : option.value;
+}
+
+function optionLabel(option: string | { label: string; value: string }) {
+  return typeof option === "string" ? option : option.label;
+}
+
+export default function FieldRuleEditor({ title, description, value, onChange, sourceFields }: FieldRuleEditorProps) {
+  const emptyCondition = (): FieldCondition => ({
+    fieldId: sourceFields[0]?.id ?? "",
+    operator: "equals",
+    value: "",
+  });
+
+  const updateCondition = (index: number, changes: Partial<FieldCondition>) => {
+    if (!value) return;
+    const conditions = value.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition));
+    onChange({ ...value, conditions });
+  };
+
+  const removeCondition = (index: number) => {
+    if (!value) return;
+    const conditions = value.conditions.filter((_, i) => i !== index);
+    onChange(conditions.length > 0 ? { ...value, conditions } : undefined);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>{title}</Label>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+        <Switch
+          checked={!!value}
+          disabled={sourceFields.length === 0}
+          onCheckedChange={checked => onChange(checked ? { match: "all", conditions: [emptyCondition()] } : undefined)}
+        />
+      </div>
+
+      {value && (
+        <div className="space-y-2">
+          {value.conditions.length > 1 && (
+            <Select
+              value={value.match}
+              onValueChange={match => onChange({ ...value, match: match as FieldRule["match"] })}
+            >
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Se cumplen todas las condiciones</SelectItem>
+                <SelectItem value="any">Se cumple alguna condición</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          {value.conditions.map((condition, index) => {
+            const source = sourceFields.find(field => field.id === condition.fieldId);
+            const needsValue = !operatorsWithoutValue.includes(condition.operator);
+            const isMultiValue = multiValueOperators.includes(condition.operator);
+            const textValue = Array.isArray(condition.value) ? condition.value.join(", ") : condition.value ?? "";
+
+            return (
+              <div key={index} className="grid grid-cols-1 gap-2 md:grid-cols-[1fr_1fr_1fr_auto]">
+                <Select value={condition.fieldId} onValueChange={fieldId => updateCondition(index, { fieldId, value: "" })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Campo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sourceFields.map(field => (
+                      <SelectItem key={field.id} value={field.id}>{field.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select
+                  value={condition.operator}
+                  onValueChange={operator => updateCondition(index, {
+                    operator: operator as FieldCondition["operator"],
+                    value: multiValueOperators.includes(operator as FieldCondition["operator"]) ? [] : "",
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(operatorLabels).map(([operator, label]) => (
+                      <SelectItem key={operator} value={operator}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {needsValue && source?.options?.length && !isMultiValue ? (
+                  <Select value={textValue} onValueChange={selected => updateCondition(index, { value: selected })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Valor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {source.options.map(option => (
+                        <SelectItem key={optionValue(option)} value={optionValue(option)}>{optionLabel(option)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : needsValue && isMultiValue ? (
+                  // La lista se interpreta al salir del campo para no perder las comas mientras se escribe
+                  <Input
+                    key={`${condition.fieldId}-${condition.operator}`}
+                    defaultValue={textValue}
+                    placeholder="Valores separados por coma"
+                    onBlur={e => updateCondition(index, {
+                      value: e.target.value.split(",").map(item => item.trim()).filter(Boolean),
+                    })}
+                  />
+                ) : needsValue ? (
+                  <Input
+                    value={textValue}
+                    placeholder="Valor"
+                    onChange={e => updateCondition(index, { value: e.target.value })}
+                  />
+                ) : (
+                  <div />
+                )}
+
+                <Button type="button" variant="ghost" size="icon" onClick={() => removeCondition(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, conditions: [...value.conditions, emptyCondition()] })}
+          >
+            <Plus className="mr-2 h-4 w-4" />
+            Agregar condición
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
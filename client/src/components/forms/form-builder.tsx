@@ -32,6 +32,10 @@ import {
   DropResult,
 } from "react-beautiful-dnd";
 import AdvancedTableEditor from "./advanced-table-editor";
+import { roleLabels } from "@/components/process-forms/section-permissions";
+import { UserRole, fieldRuleSchema, type FieldRule } from "@shared/schema";
+import FieldRuleEditor from "./field-rule-editor";
+import { validateFormula } from "@shared/formula";
 
 // Field Types
 export type FieldType =
@@ -64,6 +68,11 @@ export interface FormField {
   description?: string;
   placeholder?: string;
   required?: boolean;
+  ownerRoles?: UserRole[];
+  formula?: string;
+  autoFolio?: boolean;
+  visibleWhen?: FieldRule;
+  requiredWhen?: FieldRule;
   displayName?: string;
   displayOrder?: number;
   displayCondition?: string;
@@ -81,6 +90,7 @@ export interface FormField {
         header: string;
         type: string;
         width: string;
+        formula?: string;
         options?: { label: string; value: string }[];
       }[];
     }[];
@@ -93,6 +103,14 @@ export interface FormStructure {
   fields: FormField[];
 }
 
+// Fórmula opcional de un campo o columna calculada; se valida la sintaxis al guardar la plantilla
+const formulaSchema = z.string().optional().superRefine((formula, ctx) => {
+  const error = formula ? validateFormula(formula) : null;
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
 // Schema for form validation
 export const formFieldSchema = z.object({
   id: z.string(),
@@ -101,6 +119,11 @@ export const formFieldSchema = z.object({
   description: z.string().optional(),
   placeholder: z.string().optional(),
   required: z.boolean().optional(),
+  ownerRoles: z.array(z.nativeEnum(UserRole)).optional(),
+  formula: formulaSchema,
+  autoFolio: z.boolean().optional(),
+  visibleWhen: fieldRuleSchema.optional(),
+  requiredWhen: fieldRuleSchema.optional(),
   displayName: z.string().optional(),
   displayOrder: z.number().optional(),
   displayCondition: z.string().optional(),
@@ -129,6 +152,7 @@ export const formFieldSchema = z.object({
             header: z.string(),
             type: z.string(),
             width: z.string(),
+            formula: formulaSchema,
             options: z.array(
               z.object({
                 label: z.string(),
@@ -232,6 +256,12 @@ export default function FormBuilder({ initialFormData, onSave, isLoading = false
     name: "fields",
   });
 
+  // Campos cuyas respuestas pueden condicionar al campo indicado (todos menos él y los visuales)
+  const getRuleSourceFields = (index: number) =>
+    (form.watch("fields") || [])
+      .filter((field, i) => i !== index && !["heading", "divider", "group", "advancedTable", "table"].includes(field.type))
+      .map(field => ({ id: field.id, label: field.label || field.id, options: field.options }));
+
   // Function to add a new field
   const addField = (type: FieldType) => {
     const newField: FormField = {
@@ -947,6 +977,28 @@ export default function FormBuilder({ initialFormData, onSave, isLoading = false
                                   )}
                                 />
 
+                                <FormField
+                                  control={form.control}
+                                  name={`fields.${index}.formula`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <FormLabel>Fórmula (campo calculado)</FormLabel>
+                                      <FormControl>
+                                        <Input
+                                          {...field}
+                                          value={field.value || ""}
+                                          placeholder="=brix_final - brix_inicial"
+                                          className="font-mono"
+                                        />
+                                      </FormControl>
+                                      <FormDescription>
+                                        Use IDs de campos, row.columna o tabla.columna y SUM, AVG, MIN, MAX, COUNT, ROUND, ABS, IF
+                                      </FormDescription>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+
                                 <FormField
                                   control={form.control}
                                   name={`fields.${index}.required`}
@@ -965,6 +1017,92 @@ export default function FormBuilder({ initialFormData, onSave, isLoading = false
                                   )}
                                 />
 
+                                {form.watch(`fields.${index}.type`) === "text" && (
+                                  <FormField
+                                    control={form.control}
+                                    name={`fields.${index}.autoFolio`}
+                                    render={({ field }) => (
+                                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 mt-6">
+                                        <div className="space-y-0.5">
+                                          <FormLabel>Folio automático</FormLabel>
+                                          <FormDescription>
+                                            Recibe el folio asignado al guardar el registro
+                                          </FormDescription>
+                                        </div>
+                                        <FormControl>
+                                          <Switch
+                                            checked={field.value ?? false}
+                                            onCheckedChange={field.onChange}
+                                          />
+                                        </FormControl>
+                                      </FormItem>
+                                    )}
+                                  />
+                                )}
+
+                                <FormField
+                                  control={form.control}
+                                  name={`fields.${index}.visibleWhen`}
+                                  render={({ field }) => (
+                                    <FormItem className="md:col-span-2">
+                                      <FieldRuleEditor
+                                        title="Mostrar solo cuando"
+                                        description="El campo se oculta mientras no se cumpla la condición"
+                                        value={field.value}
+                                        onChange={field.onChange}
+                                        sourceFields={getRuleSourceFields(index)}
+                                      />
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <FormField
+                                  control={form.control}
+                                  name={`fields.${index}.requiredWhen`}
+                                  render={({ field }) => (
+                                    <FormItem className="md:col-span-2">
+                                      <FieldRuleEditor
+                                        title="Requerido solo cuando"
+                                        description='Por ejemplo, la acción correctiva cuando otra respuesta es "No cumple"'
+                                        value={field.value}
+                                        onChange={field.onChange}
+                                        sourceFields={getRuleSourceFields(index)}
+                                      />
+                                    </FormItem>
+                                  )}
+                                />
+
+                                <FormField
+                                  control={form.control}
+                                  name={`fields.${index}.ownerRoles`}
+                                  render={({ field }) => (
+                                    <FormItem className="md:col-span-2">
+                                      <FormLabel>Roles que pueden capturar</FormLabel>
+                                      <div className="flex flex-wrap gap-4 rounded-lg border p-3">
+                                        {Object.values(UserRole)
+                                          .filter(role => role !== UserRole.SUPERADMIN)
+                                          .map(role => (
+                                            <label key={role} className="flex items-center gap-2 text-sm">
+                                              <Checkbox
+                                                checked={field.value?.includes(role) ?? false}
+                                                onCheckedChange={checked => {
+                                                  const current = field.value || [];
+                                                  field.onChange(
+                                                    checked ? [...current, role] : current.filter(r => r !== role)
+                                                  );
+                                                }}
+                                              />
+                                              {roleLabels[role]}
+                                            </label>
+                                          ))}
+                                      </div>
+                                      <FormDescription>
+                                        Sin roles seleccionados, cualquier usuario puede capturar el campo
+                                      </FormDescription>
+                                    </FormItem>
+                                  )}
+                                />
+
                                 <FormField
                                   control={form.control}
                                   name={`fields.${index}.columnSpan`}
@@ -19,9 +19,12 @@ import {
   FormMessage 
 } from "@/components/ui/form";
 import { Loader2, Save, Download, FileDown, FilePen, Pencil, Package, UserCircle, LayoutGrid, Users } from "lucide-react";
-import { FormStructure, UserRole, Product, Employee } from "@shared/schema";
+import { FormStructure, UserRole, Product, Employee, EntryFieldError } from "@shared/schema";
 import type { FormField as IFormField } from "@shared/schema";
 import AdvancedTableViewer from "./advanced-table-viewer";
+import { applyFormulas, hasFormulas } from "@shared/formula";
+import { isEmptyFieldValue, isFieldRequired, isFieldVisible } from "@shared/field-rules";
+import { isLiberacionPreoperativa } from "@shared/document-control";
 import ProductRecipeSelector from "./product-recipe-selector";
 import { useQuery } from "@tanstack/react-query";
 import { useEffect, useState } from "react";
@@ -43,6 +46,7 @@ import { useAuth } from "@/hooks/use-auth";
 interface FormViewerProps {
   formTemplate: FormStructure;
   formTitle?: string;
+  documentCode?: string | null; // Código del formato de la plantilla
   formDescription?: string;
   initialData?: any;
   onSubmit: (data: any) => void;
@@ -52,11 +56,13 @@ interface FormViewerProps {
   allowEditDisplayNames?: boolean;
   formId?: number;
   onStatusChange?: (status: string) => void;
+  fieldErrors?: EntryFieldError[]; // Errores por campo devueltos por el servidor al guardar
 }
 
 export default function FormViewer({
   formTemplate,
   formTitle,
+  documentCode,
   formDescription,
   initialData,
   onSubmit,
@@ -65,7 +71,8 @@ export default function FormViewer({
   isLoading = false,
   allowEditDisplayNames = false,
   formId,
-  onStatusChange
+  onStatusChange,
+  fieldErrors
 }: FormViewerProps) {
   // Para edición de nombres de campos
   const [isFieldNameEditorOpen, setIsFieldNameEditorOpen] = useState(false);
@@ -76,7 +83,8 @@ export default function FormViewer({
   const { user } = useAuth();
   const { toast } = useToast();
 
-
+  // Liberación Preoperativa: se reconoce por el código del formato
+  const isLiberacionForm = isLiberacionPreoperativa({ documentCode });
   
   // Función para navegar al siguiente campo con Enter
   const handleEnterKeyNavigation = (event: React.KeyboardEvent) => {
@@ -318,7 +326,13 @@ export default function FormViewer({
       if (field.type === "heading" || field.type === "divider") {
         return;
       }
-      
+
+      // Los campos calculados no se capturan: su valor lo pone la fórmula
+      if (field.formula && field.type !== "advancedTable" && field.type !== "table") {
+        schemaMap[field.id] = z.any();
+        return;
+      }
+
       let fieldSchema: z.ZodTypeAny;
       
       switch (field.type) {
@@ -362,7 +376,8 @@ export default function FormViewer({
           fieldSchema = z.string().optional();
       }
       
-      if (field.required) {
+      // Los campos con reglas condicionales se validan abajo, con los valores actuales
+      if (field.required && !field.visibleWhen && !field.requiredWhen) {
         if (field.type === "checkbox") {
           fieldSchema = z.array(z.string()).min(1, "Este campo es requerido");
         } else if (field.type === "table") {
@@ -396,7 +411,19 @@ export default function FormViewer({
       schemaMap[field.id] = fieldSchema;
     });
     
-    setValidationSchema(z.object(schemaMap));
+    const conditionalFields = allFields.filter(field => field.visibleWhen || field.requiredWhen);
+    if (conditionalFields.length === 0) {
+      setValidationSchema(z.object(schemaMap));
+      return;
+    }
+    
+    setValidationSchema(z.object(schemaMap).superRefine((values, ctx) => {
+      conditionalFields.forEach(field => {
+        if (isFieldRequired(field, values) && isEmptyFieldValue(values[field.id])) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field.id], message: "Este campo es requerido" });
+        }
+      });
+    }));
   }, [formTemplate]);
   
   // Initialize form
@@ -411,6 +438,41 @@ export default function FormViewer({
     form.reset(initialData || {});
   }, [form, initialData, formTemplate.title]);
 
+  // Errores de validación del servidor: se muestran en el campo; en tablas se agrupan por fila y columna
+  useEffect(() => {
+    if (!fieldErrors?.length) return;
+    
+    const messages = new Map<string, string[]>();
+    fieldErrors.forEach(error => {
+      const location = error.path.length > 1 ? error.label.split(" › ").slice(1).join(" › ") : "";
+      const list = messages.get(error.fieldId) || [];
+      list.push(location ? `${location}: ${error.message}` : error.message);
+      messages.set(error.fieldId, list);
+    });
+    messages.forEach((list, fieldId) => {
+      form.setError(fieldId, { type: "server", message: list.join("; ") });
+    });
+    form.setFocus(fieldErrors[0].fieldId);
+  }, [form, fieldErrors]);
+
+  // Campos y columnas con fórmula: se recalculan en vivo (el servidor los vuelve a calcular al guardar)
+  useEffect(() => {
+    if (!hasFormulas(formTemplate)) return;
+    
+    const recalculate = (values: Record<string, any>) => {
+      const computed = applyFormulas(formTemplate, values);
+      Object.keys(computed).forEach(key => {
+        if (JSON.stringify(computed[key]) !== JSON.stringify(values[key])) {
+          form.setValue(key, computed[key], { shouldDirty: true });
+        }
+      });
+    };
+    
+    recalculate(form.getValues());
+    const subscription = form.watch(values => recalculate(values as Record<string, any>));
+    return () => subscription.unsubscribe();
+  }, [form, formTemplate]);
+
   // Listener para eventos de actualización de porcentaje
   useEffect(() => {
     const handlePercentageUpdate = (event: CustomEvent) => {
@@ -428,7 +490,7 @@ export default function FormViewer({
         form.reset(currentValues);
         
         // Trigger percentage total update for Liberación Preoperativa forms
-        if (formTemplate.title?.includes('LIBERACION PREOPERATIVA')) {
+        if (isLiberacionForm) {
           setTimeout(() => updateTotalPercentage(), 200);
         }
       } catch (error) {
@@ -456,7 +518,7 @@ export default function FormViewer({
             form.reset(formData.data);
             
             // Actualizar porcentaje total si es necesario
-            if (formTemplate.title?.includes('LIBERACION PREOPERATIVA')) {
+            if (isLiberacionForm) {
               setTimeout(() => updateTotalPercentage(), 300);
             }
           }
@@ -473,26 +535,14 @@ export default function FormViewer({
       window.removeEventListener('updatePercentage', handlePercentageUpdate as EventListener);
       window.removeEventListener('reloadFormData', handleFormReload as EventListener);
     };
-  }, [form, formTemplate.title]);
+  }, [form, isLiberacionForm]);
   
   // Función para calcular porcentaje total de Liberación Preoperativa
   const updateTotalPercentage = () => {
-    console.log(`[TOTAL-PERCENTAGE] Verificando template: "${formTemplate.name || 'undefined'}"`);
-    console.log(`[TOTAL-PERCENTAGE] Form title: "${formTitle || 'undefined'}"`);
+    console.log(`[TOTAL-PERCENTAGE] Código del formato: "${documentCode || 'undefined'}"`);
     
     const formValues = form.getValues();
     
-    // Verificar si es un formulario de Liberación Preoperativa (buscar en múltiples campos)
-    const isLiberacionForm = (
-      formTemplate.name?.includes('LIBERACION') || 
-      formTemplate.name?.includes('PREOPERATIVA') ||
-      formTemplate.name?.includes('CA-RE-03-01') ||
-      formTitle?.includes('LIBERACION') ||
-      formTitle?.includes('PREOPERATIVA') ||
-      formTemplate.structure?.title?.includes('LIBERACION') ||
-      formTemplate.structure?.code === 'CA-RE-03-01'
-    );
-    
     console.log(`[TOTAL-PERCENTAGE] Es formulario de liberación: ${isLiberacionForm}`);
     
     if (isLiberacionForm) {
@@ -567,18 +617,7 @@ export default function FormViewer({
 
   // Actualizar total cuando el formulario se inicializa
   useEffect(() => {
-    console.log(`[TOTAL-INIT] Template name: "${formTemplate.name || 'undefined'}"`);
-    console.log(`[TOTAL-INIT] Form title: "${formTitle || 'undefined'}"`);
-    
-    const isLiberacionForm = (
-      formTemplate.name?.includes('LIBERACION') || 
-      formTemplate.name?.includes('PREOPERATIVA') ||
-      formTemplate.name?.includes('CA-RE-03-01') ||
-      formTitle?.includes('LIBERACION') ||
-      formTitle?.includes('PREOPERATIVA') ||
-      formTemplate.structure?.title?.includes('LIBERACION') ||
-      formTemplate.structure?.code === 'CA-RE-03-01'
-    );
+    console.log(`[TOTAL-INIT] Código del formato: "${documentCode || 'undefined'}"`);
     
     console.log(`[TOTAL-INIT] Es formulario de liberación: ${isLiberacionForm}`);
     
@@ -588,7 +627,7 @@ export default function FormViewer({
         updateTotalPercentage();
       }, 1000);
     }
-  }, [formTemplate.name, formTitle]);
+  }, [isLiberacionForm]);
 
   // Función manual para probar el cálculo (temporal)
   const testTotalCalculation = () => {
@@ -1955,7 +1994,37 @@ export default function FormViewer({
   };
 
   // Render field based on its type
+  // Valores actuales para evaluar las reglas de visibilidad
+  const ruleValues = form.watch() as Record<string, any>;
+
+  // Campo calculado: muestra el resultado de la fórmula sin permitir captura
+  const renderCalculatedField = (field: IFormField) => (
+    <FormField
+      key={field.id}
+      control={form.control}
+      name={field.id}
+      render={({ field: formField }) => (
+        <FormItem>
+          <FormLabel>{field.label}</FormLabel>
+          <FormControl>
+            <Input value={formField.value ?? ""} readOnly tabIndex={-1} className="bg-blue-50" />
+          </FormControl>
+          <FormDescription>Calculado: {field.formula}</FormDescription>
+        </FormItem>
+      )}
+    />
+  );
+
   const renderField = (field: IFormField) => {
+    // Reglas visibleWhen: el campo solo aparece cuando aplica según las respuestas actuales
+    if (!isFieldVisible(field, ruleValues)) {
+      return null;
+    }
+    
+    if (field.formula && !["heading", "divider", "advancedTable", "table"].includes(field.type)) {
+      return renderCalculatedField(field);
+    }
+    
     switch (field.type) {
       case "heading":
         return (
@@ -2037,10 +2106,12 @@ export default function FormViewer({
                 </FormLabel>
                 <FormControl>
                   <Input
-                    placeholder={field.placeholder || (isFolio ? "Ingresa el folio manualmente" : "")}
+                    placeholder={field.autoFolio
+                      ? "Se asigna automáticamente al guardar"
+                      : field.placeholder || (isFolio ? "Ingresa el folio manualmente" : "")}
                     {...formField}
                     value={formField.value || ""}
-                    disabled={shouldDisable}
+                    disabled={shouldDisable || !!field.autoFolio}
                     onKeyDown={handleEnterKeyNavigation}
                     onChange={(e) => {
                       formField.onChange(e);
@@ -1,7 +1,7 @@
 import React from 'react';
 import { Button } from "@/components/ui/button";
 import { Calculator } from "lucide-react";
-import { calculateIngredientAmounts } from "@/data/product-formulas";
+import { useRecipes } from "@/hooks/use-recipes";
 
 interface FormulaCalculatorProps {
   tableData: any[];
@@ -22,6 +22,8 @@ const FormulaCalculator: React.FC<FormulaCalculatorProps> = ({
   onUpdate,
   onNotify
 }) => {
+  const { calculateAmounts, isLoading } = useRecipes();
+
   if (!tableData || tableData.length === 0) {
     return null;
   }
@@ -43,12 +45,12 @@ const FormulaCalculator: React.FC<FormulaCalculatorProps> = ({
     }
 
     try {
-      // Calcular cantidades según fórmula
-      const calculatedAmounts = calculateIngredientAmounts(productName, litersValue);
+      // Calcular cantidades según la receta vigente del producto
+      const calculatedAmounts = calculateAmounts(productName, litersValue);
       
       if (Object.keys(calculatedAmounts).length === 0) {
         onNotify(
-          `No se encontró una fórmula para el producto "${productName}"`, 
+          `El producto "${productName}" no tiene una receta vigente`, 
           "error"
         );
         return;
@@ -112,7 +114,7 @@ const FormulaCalculator: React.FC<FormulaCalculatorProps> = ({
         variant="outline"
         onClick={handleCalculate}
         className="flex items-center space-x-1"
-        disabled={!canCalculate}
+        disabled={!canCalculate || isLoading}
       >
         <Calculator className="h-4 w-4 mr-1" />
         <span>Calcular ingredientes</span>
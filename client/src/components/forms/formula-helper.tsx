@@ -3,7 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { calculateIngredientAmounts, productFormulas } from '@/data/product-formulas';
+import { useRecipes } from '@/hooks/use-recipes';
 
 interface FormulaHelperProps {
   productId: string;
@@ -19,6 +19,7 @@ export default function FormulaHelper({
   onUpdateTableData 
 }: FormulaHelperProps) {
   const { toast } = useToast();
+  const { effectiveRecipes, calculateAmounts } = useRecipes();
   const [selectedProduct, setSelectedProduct] = useState<string>('');
   const [liters, setLiters] = useState<number>(0);
 
@@ -49,13 +50,13 @@ export default function FormulaHelper({
     }
 
     try {
-      // Calcular cantidades según la fórmula
-      const calculatedAmounts = calculateIngredientAmounts(selectedProduct, liters);
+      // Calcular cantidades según la receta vigente del producto
+      const calculatedAmounts = calculateAmounts(selectedProduct, liters);
       
       if (Object.keys(calculatedAmounts).length === 0) {
         toast({
-          title: "Fórmula no encontrada",
-          description: `No se encontró una fórmula para el producto "${selectedProduct}"`,
+          title: "Receta no encontrada",
+          description: `El producto "${selectedProduct}" no tiene una receta vigente`,
           variant: "destructive"
         });
         return;
@@ -155,8 +156,8 @@ export default function FormulaHelper({
       <div className="text-xs text-muted-foreground">
         <p>Fórmulas disponibles:</p>
         <ul className="list-disc list-inside mt-1">
-          {productFormulas.map(formula => (
-            <li key={formula.productName}>{formula.productName}</li>
+          {effectiveRecipes.map(recipe => (
+            <li key={recipe.id}>{recipe.productName}</li>
           ))}
         </ul>
       </div>
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { PrintLayout, printLayoutSchema } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle, Check, Trash2 } from "lucide-react";
+
+// Diseño de ejemplo para empezar: encabezado controlado, campos en dos columnas y firmas en blanco
+const EXAMPLE_LAYOUT: PrintLayout = {
+  orientation: "portrait",
+  header: {
+    code: "CA-RE-00-01",
+    version: "1",
+    revisionDate: "2025-01-01",
+    showEntryInfo: true
+  },
+  regions: [
+    { type: "fields", title: "DATOS GENERALES", style: "list", columns: 2, fields: [{ fieldId: "fecha" }] }
+  ],
+  signatures: [
+    { label: "Elaboró", source: "signer" },
+    { label: "Revisó", source: "approver" }
+  ]
+};
+
+interface PrintLayoutEditorProps {
+  value?: PrintLayout;
+  onChange: (layout: PrintLayout | undefined) => void;
+}
+
+export default function PrintLayoutEditor({ value, onChange }: PrintLayoutEditorProps) {
+  const [text, setText] = useState("");
+  const [errors, setErrors] = useState<string[]>([]);
+
+  // El texto se reinicia cuando cambia el diseño guardado en la estructura
+  useEffect(() => {
+    setText(value ? JSON.stringify(value, null, 2) : "");
+    setErrors([]);
+  }, [value]);
+
+  const handleApply = () => {
+    if (!text.trim()) {
+      onChange(undefined);
+      return;
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      setErrors([`JSON inválido: ${(error as Error).message}`]);
+      return;
+    }
+
+    const result = printLayoutSchema.safeParse(json);
+    if (!result.success) {
+      setErrors(result.error.errors.map((issue) => `${issue.path.join(".") || "diseño"}: ${issue.message}`));
+      return;
+    }
+    setErrors([]);
+    onChange(result.data);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Define cómo se imprime el PDF: orientación, encabezado (código, versión y fecha de revisión),
+        regiones (<code>fields</code>, <code>grid</code>, <code>text</code>, <code>pageBreak</code>) y bloques de firma.
+        Sin diseño se imprimen todos los campos de la estructura.
+      </p>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Sin diseño de impresión"
+        className="min-h-[360px] font-mono text-xs"
+      />
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {errors.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      <div className="flex justify-end gap-2">
+        {!text.trim() && (
+          <Button variant="outline" onClick={() => setText(JSON.stringify(EXAMPLE_LAYOUT, null, 2))}>
+            Usar ejemplo
+          </Button>
+        )}
+        {value && (
+          <Button variant="outline" onClick={() => onChange(undefined)}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Quitar diseño
+          </Button>
+        )}
+        <Button onClick={handleApply}>
+          <Check className="mr-2 h-4 w-4" />
+          Aplicar diseño
+        </Button>
+      </div>
+    </div>
+  );
+}
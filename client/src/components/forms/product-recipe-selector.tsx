@@ -3,8 +3,9 @@ import { Package, Loader2 } from 'lucide-react';
 import { FormControl, FormDescription, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useQuery } from '@tanstack/react-query';
-import { Toast } from '@/components/ui/toast';
 import { useToast } from '@/hooks/use-toast';
+import { useRecipes } from '@/hooks/use-recipes';
+import { calculateIngredientAmounts } from '@shared/recipes';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Button } from '@/components/ui/button';
 
@@ -12,7 +13,7 @@ interface ProductRecipeSelectorProps {
   formField: any;
   field: any;
   isReadOnly?: boolean;
-  onRecipeSelected?: (recipeData: any) => void;
+  onRecipeSelected?: (recipeData: { recipeName: string; baseLiters: number; ingredients: Record<string, number> }) => void;
 }
 
 export default function ProductRecipeSelector({
@@ -22,6 +23,7 @@ export default function ProductRecipeSelector({
   onRecipeSelected
 }: ProductRecipeSelectorProps) {
   const { toast } = useToast();
+  const { getRecipe, isLoading: recipesLoading } = useRecipes();
   
   // Consultar productos
   const { data: allProducts = [], isLoading: productsLoading } = useQuery({
@@ -43,42 +45,30 @@ export default function ProductRecipeSelector({
   // Estado para controlar si se ha aplicado una receta
   const [recipeApplied, setRecipeApplied] = useState(false);
 
-  // Función para cargar la receta asociada con un producto
-  const loadRecipeForProduct = async (productId: number, productName: string) => {
-    try {
-      // Primero intentamos por ID
-      let response = await fetch(`/api/products/${productId}/recipes`);
-      
-      if (!response.ok) {
-        // Si no hay recetas por ID, intentamos por nombre
-        response = await fetch(`/api/recipes/by-product-name/${encodeURIComponent(productName)}`);
-      }
-      
-      if (!response.ok) {
-        throw new Error('No se encontraron recetas para este producto');
-      }
-      
-      const recipeData = await response.json();
-      
-      // Si tenemos multiples recetas, tomamos la primera
-      const recipe = Array.isArray(recipeData) ? recipeData[0] : recipeData;
-      
-      // Notificar al componente padre para actualizar los valores de ingredientes
-      if (onRecipeSelected && recipe) {
-        onRecipeSelected(recipe);
-        setRecipeApplied(true);
-        
-        toast({
-          title: "Receta cargada",
-          description: `Se cargó la receta para ${productName}`,
-        });
-      }
-    } catch (error) {
-      console.error('Error al cargar la receta:', error);
+  // Aplica la receta vigente del producto (cantidades para los litros base de la receta)
+  const loadRecipeForProduct = (productId: number, productName: string) => {
+    const recipe = getRecipe(productId);
+    if (!recipe) {
       toast({
         variant: "destructive",
-        title: "Error",
-        description: "No se encontró una receta para este producto",
+        title: "Sin receta",
+        description: `${productName} no tiene una receta vigente`,
+      });
+      return;
+    }
+    
+    // Notificar al componente padre para actualizar los valores de ingredientes
+    if (onRecipeSelected) {
+      onRecipeSelected({
+        recipeName: recipe.name,
+        baseLiters: recipe.baseQuantity,
+        ingredients: calculateIngredientAmounts(recipe, recipe.baseQuantity),
+      });
+      setRecipeApplied(true);
+      
+      toast({
+        title: "Receta cargada",
+        description: `Se cargó la receta para ${productName} (${recipe.baseQuantity} L)`,
       });
     }
   };
@@ -118,7 +108,7 @@ export default function ProductRecipeSelector({
                       loadRecipeForProduct(selectedProduct.id, selectedProduct.name);
                     }
                   }}
-                  disabled={isReadOnly}
+                  disabled={isReadOnly || recipesLoading}
                 >
                   Cargar Receta
                 </Button>
@@ -10,7 +10,8 @@ import { Badge } from "@/components/ui/badge";
 import { Info, AlertCircle, Save, Lock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { FormField, FormStructure } from "@/components/forms/form-builder";
-import { SectionPermission, UserRole } from "./section-permissions";
+import { SectionPermission, roleLabels } from "./section-permissions";
+import { UserRole } from "@shared/schema";
 
 // Define types for process form data
 export interface ProcessFormData {
@@ -43,21 +44,6 @@ interface ProcessFormEditorProps {
   readOnly?: boolean;
 }
 
-// Map user roles to app roles
-const mapUserRoleToAppRole = (userRole: string): UserRole | null => {
-  const roleMap: Record<string, UserRole> = {
-    "SuperAdmin": "production_manager", // SuperAdmin can act as any role, default to manager
-    "Admin": "production_manager",
-    "Production": "operator",
-    "ProductionManager": "production_manager",
-    "Quality": "operator", // Regular quality user can also be an operator
-    "QualityManager": "quality_manager",
-    "Viewer": "operator" // Viewers will see but not edit
-  };
-  
-  return roleMap[userRole] || null;
-};
-
 // Status badge component
 const StatusBadge = ({ status }: { status: ProcessFormStatus }) => {
   const variants: Record<ProcessFormStatus, { variant: "default" | "secondary" | "outline" | "destructive", label: string }> = {
@@ -90,7 +76,7 @@ export default function ProcessFormEditor({
   );
   
   // Determine the current user's role for this form
-  const currentUserRole = user ? mapUserRoleToAppRole(user.role) : null;
+  const currentUserRole = user ? user.role as UserRole : null;
   
   // Group fields by section
   const sections = formTemplate.sectionPermissions.map(section => {
@@ -117,7 +103,7 @@ export default function ProcessFormEditor({
     if (!section) return false;
     
     // SuperAdmin can edit any section
-    if (user.role === "SuperAdmin") return true;
+    if (user.role === UserRole.SUPERADMIN) return true;
     
     // Check if the user's role is allowed for this section
     return section.allowedRoles.includes(currentUserRole);
@@ -193,11 +179,11 @@ export default function ProcessFormEditor({
     
     // Check role permissions for status transition
     const allowedRoles: Record<string, UserRole[]> = {
-      [`${ProcessFormStatus.DRAFT}-${ProcessFormStatus.IN_PROGRESS}`]: ["production_manager"],
-      [`${ProcessFormStatus.IN_PROGRESS}-${ProcessFormStatus.PENDING_REVIEW}`]: ["operator", "production_manager"],
-      [`${ProcessFormStatus.PENDING_REVIEW}-${ProcessFormStatus.COMPLETED}`]: ["quality_manager"],
-      [`${ProcessFormStatus.PENDING_REVIEW}-${ProcessFormStatus.IN_PROGRESS}`]: ["quality_manager"],
-      [`${ProcessFormStatus.COMPLETED}-${ProcessFormStatus.PENDING_REVIEW}`]: ["quality_manager"]
+      [`${ProcessFormStatus.DRAFT}-${ProcessFormStatus.IN_PROGRESS}`]: [UserRole.PRODUCTION_MANAGER],
+      [`${ProcessFormStatus.IN_PROGRESS}-${ProcessFormStatus.PENDING_REVIEW}`]: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER],
+      [`${ProcessFormStatus.PENDING_REVIEW}-${ProcessFormStatus.COMPLETED}`]: [UserRole.QUALITY_MANAGER],
+      [`${ProcessFormStatus.PENDING_REVIEW}-${ProcessFormStatus.IN_PROGRESS}`]: [UserRole.QUALITY_MANAGER],
+      [`${ProcessFormStatus.COMPLETED}-${ProcessFormStatus.PENDING_REVIEW}`]: [UserRole.QUALITY_MANAGER]
     };
     
     const transitionKey = `${formStatus}-${newStatus}`;
@@ -248,21 +234,21 @@ export default function ProcessFormEditor({
           )}
           
           {/* Status transition buttons */}
-          {formStatus === ProcessFormStatus.DRAFT && currentUserRole === "production_manager" && (
+          {formStatus === ProcessFormStatus.DRAFT && currentUserRole === UserRole.PRODUCTION_MANAGER && (
             <Button variant="outline" onClick={() => handleStatusChange(ProcessFormStatus.IN_PROGRESS)}>
               Iniciar Proceso
             </Button>
           )}
           
           {formStatus === ProcessFormStatus.IN_PROGRESS && (
-            currentUserRole === "operator" || currentUserRole === "production_manager"
+            currentUserRole === UserRole.PRODUCTION || currentUserRole === UserRole.PRODUCTION_MANAGER
           ) && (
             <Button variant="outline" onClick={() => handleStatusChange(ProcessFormStatus.PENDING_REVIEW)}>
               Enviar a Revisión
             </Button>
           )}
           
-          {formStatus === ProcessFormStatus.PENDING_REVIEW && currentUserRole === "quality_manager" && (
+          {formStatus === ProcessFormStatus.PENDING_REVIEW && currentUserRole === UserRole.QUALITY_MANAGER && (
             <>
               <Button variant="outline" onClick={() => handleStatusChange(ProcessFormStatus.IN_PROGRESS)}>
                 Devolver a Producción
@@ -289,11 +275,7 @@ export default function ProcessFormEditor({
         <Alert>
           <Info className="h-4 w-4" />
           <AlertDescription>
-            Estás trabajando como <strong>{
-              currentUserRole === "production_manager" ? "Gerente de Producción" :
-              currentUserRole === "operator" ? "Operador" :
-              "Gerente de Calidad"
-            }</strong>. 
+            Estás trabajando como <strong>{roleLabels[currentUserRole]}</strong>. 
             Solo puedes editar las secciones asignadas a tu rol.
           </AlertDescription>
         </Alert>
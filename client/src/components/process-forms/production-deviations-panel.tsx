@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DeviationStatus, UserRole } from "@shared/schema";
+import type { ProductionDeviation } from "@shared/schema";
+import { formatSpecRange, specParameterLabels } from "@shared/spec-limits";
+import type { OutOfSpecReading } from "@shared/spec-limits";
+import { AlertTriangle, CheckCircle2, Loader2 } from "lucide-react";
+
+interface ProductionDeviationsPanelProps {
+  formId?: number;
+  deviations: ProductionDeviation[];
+  unrecordedReadings: OutOfSpecReading[]; // Lecturas fuera de especificación aún sin guardar
+}
+
+// Roles que documentan la acción correctiva (igual que en el servidor)
+const resolverRoles = [UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER];
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    return JSON.parse(error.message.slice(separator + 1).trim()).message;
+  } catch {
+    return error.message;
+  }
+}
+
+function describeReading(reading: Pick<OutOfSpecReading, "parameter" | "readingIndex" | "value">) {
+  const position = reading.readingIndex !== null ? ` · lectura ${reading.readingIndex + 1}` : "";
+  return `${specParameterLabels[reading.parameter] ?? reading.parameter}${position}: ${reading.value}`;
+}
+
+export default function ProductionDeviationsPanel({ formId, deviations, unrecordedReadings }: ProductionDeviationsPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [actions, setActions] = useState<Record<number, string>>({});
+
+  const canResolve = !!user && resolverRoles.includes(user.role as UserRole);
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ deviationId, correctiveAction }: { deviationId: number; correctiveAction: string }) => {
+      const res = await apiRequest("POST", `/api/production-forms/${formId}/deviations/${deviationId}/resolve`, { correctiveAction });
+      return await res.json();
+    },
+    onSuccess: (_, { deviationId }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/production-forms/${formId}/deviations`] });
+      setActions(prev => ({ ...prev, [deviationId]: "" }));
+      toast({ title: "Acción correctiva registrada", description: "La desviación quedó cerrada" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo registrar la acción correctiva", description: getServerMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (deviations.length === 0 && unrecordedReadings.length === 0) {
+    return null;
+  }
+
+  const openCount = deviations.filter(deviation => deviation.status === DeviationStatus.OPEN).length + unrecordedReadings.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Desviaciones de especificación</CardTitle>
+        <CardDescription>
+          Lecturas fuera de los límites del producto. El formulario no puede completarse mientras haya desviaciones sin acción correctiva.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {openCount > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>{openCount} desviación(es) pendiente(s)</AlertTitle>
+            <AlertDescription>
+              Gerencia de Calidad debe documentar la acción correctiva antes de completar el formulario.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {unrecordedReadings.map(reading => (
+          <div key={`${reading.parameter}-${reading.readingIndex}`} className="flex items-center justify-between rounded-lg border border-red-200 p-3">
+            <div className="text-sm">
+              <div className="font-medium">{describeReading(reading)}</div>
+              <div className="text-muted-foreground">Especificación: {formatSpecRange(reading)}</div>
+            </div>
+            <Badge variant="outline">Se registrará al guardar</Badge>
+          </div>
+        ))}
+
+        {deviations.map(deviation => {
+          const isOpen = deviation.status === DeviationStatus.OPEN;
+          const action = actions[deviation.id] ?? "";
+
+          return (
+            <div key={deviation.id} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between">
+                <div className="text-sm">
+                  <div className="font-medium">{describeReading(deviation)}</div>
+                  <div className="text-muted-foreground">
+                    Especificación: {formatSpecRange(deviation)} · Detectada{" "}
+                    {deviation.detectedAt ? new Date(deviation.detectedAt).toLocaleString("es-MX") : ""}
+                  </div>
+                </div>
+                <Badge variant={isOpen ? "destructive" : "default"}>{isOpen ? "Abierta" : "Cerrada"}</Badge>
+              </div>
+
+              {!isOpen && (
+                <div className="flex items-start gap-2 text-sm">
+                  <CheckCircle2 className="mt-0.5 h-4 w-4 text-green-600" />
+                  <div>
+                    <div>{deviation.correctiveAction}</div>
+                    <div className="text-muted-foreground">
+                      {deviation.resolvedAt ? new Date(deviation.resolvedAt).toLocaleString("es-MX") : ""}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {isOpen && canResolve && (
+                <div className="space-y-2">
+                  <Textarea
+                    value={action}
+                    placeholder="Acción correctiva (p. ej. ajuste de cocción, reproceso, retención del lote)"
+                    onChange={e => setActions(prev => ({ ...prev, [deviation.id]: e.target.value }))}
+                  />
+                  <Button
+                    size="sm"
+                    disabled={action.trim().length < 10 || resolveMutation.isPending}
+                    onClick={() => resolveMutation.mutate({ deviationId: deviation.id, correctiveAction: action })}
+                  >
+                    {resolveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Registrar acción correctiva
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
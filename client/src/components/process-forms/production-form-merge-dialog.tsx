@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import type { ProductionForm } from "@shared/schema";
+import { getSectionChanges, mergeProductionForm } from "@/lib/production-form-merge";
+import type { MergeChoice, MergeSectionId } from "@/lib/production-form-merge";
+import { Loader2 } from "lucide-react";
+
+// Guardado rechazado porque otro usuario guardó el formulario mientras se editaba
+export interface ProductionFormConflict {
+  base: Record<string, any>;   // Versión que el usuario cargó
+  mine: Record<string, any>;   // Datos que intentó guardar
+  theirs: ProductionForm;      // Versión actual en el servidor
+}
+
+interface ProductionFormMergeDialogProps {
+  conflict: ProductionFormConflict | null;
+  isSaving: boolean;
+  onMerge: (merged: Record<string, any>) => void;
+  onDiscard: (theirs: ProductionForm) => void;
+  onCancel: () => void;
+}
+
+export default function ProductionFormMergeDialog({ conflict, isSaving, onMerge, onDiscard, onCancel }: ProductionFormMergeDialogProps) {
+  const [choices, setChoices] = useState<Partial<Record<MergeSectionId, MergeChoice>>>({});
+
+  // Cada conflicto nuevo empieza conservando los cambios del usuario
+  useEffect(() => {
+    setChoices({});
+  }, [conflict]);
+
+  const changes = conflict ? getSectionChanges(conflict.base, conflict.mine, conflict.theirs) : [];
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>El formulario fue modificado por otro usuario</DialogTitle>
+          <DialogDescription>
+            Mientras editaba, se guardaron cambios en este formulario. Las secciones que solo cambió el otro usuario
+            se toman del servidor; en las que ambos modificaron, elija qué versión conservar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {changes.map((change) => (
+            <div key={change.id} className="border rounded-md p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{change.title}</span>
+                {change.changedByMe && change.changedByThem ? (
+                  <Badge variant="destructive">Modificada por ambos</Badge>
+                ) : change.changedByThem ? (
+                  <Badge variant="secondary">Modificada por otro usuario</Badge>
+                ) : (
+                  <Badge variant="outline">Solo sus cambios</Badge>
+                )}
+              </div>
+              {change.changedByMe && change.changedByThem && (
+                <RadioGroup
+                  value={choices[change.id] ?? "mine"}
+                  onValueChange={(value) => setChoices((prev) => ({ ...prev, [change.id]: value as MergeChoice }))}
+                  className="flex gap-6"
+                >
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="mine" id={`${change.id}-mine`} />
+                    <Label htmlFor={`${change.id}-mine`}>Conservar mis cambios</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <RadioGroupItem value="theirs" id={`${change.id}-theirs`} />
+                    <Label htmlFor={`${change.id}-theirs`}>Usar la versión guardada</Label>
+                  </div>
+                </RadioGroup>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+            Cancelar
+          </Button>
+          <Button variant="outline" onClick={() => conflict && onDiscard(conflict.theirs)} disabled={isSaving}>
+            Descartar mis cambios
+          </Button>
+          <Button
+            onClick={() => conflict && onMerge(mergeProductionForm(conflict.mine, conflict.theirs, changes, choices))}
+            disabled={isSaving}
+          >
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar combinado
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
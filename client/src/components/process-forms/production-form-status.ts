@@ -0,0 +1,45 @@
+import { ProductionFormStatus } from "@shared/schema";
+
+// Rol de la aplicación dentro del formulario de producción
+export type UserRole = "production_manager" | "operator" | "quality_manager" | null;
+
+export const productionFormStatusLabels: Record<ProductionFormStatus, string> = {
+  [ProductionFormStatus.DRAFT]: "Borrador",
+  [ProductionFormStatus.IN_PROGRESS]: "En Proceso",
+  [ProductionFormStatus.PENDING_REVIEW]: "Pendiente de Revisión",
+  [ProductionFormStatus.COMPLETED]: "Completado"
+};
+
+/**
+ * Estado del formulario después de guardar, según el rol y los datos completados
+ * @param role Rol del usuario en el formulario
+ * @param formData Datos del formulario
+ * @param status Estado actual
+ * @param completionBlocked Hay lecturas o desviaciones pendientes que impiden completar
+ */
+export function getStatusAfterSave(
+  role: UserRole,
+  formData: Record<string, any>,
+  status: ProductionFormStatus,
+  completionBlocked: boolean
+): ProductionFormStatus {
+  if (role === "production_manager") {
+    // Gerente de Producción: si completa información general → EN PROCESO
+    if (formData.responsible && formData.lotNumber && status === ProductionFormStatus.DRAFT) {
+      return ProductionFormStatus.IN_PROGRESS;
+    }
+  } else if (role === "operator") {
+    // Operador: si completa seguimiento → PENDIENTE DE REVISIÓN
+    if ((formData.startTime || formData.temperature?.some((t: string) => t) ||
+         formData.pressure?.some((p: string) => p)) &&
+        (status === ProductionFormStatus.IN_PROGRESS || status === ProductionFormStatus.DRAFT)) {
+      return ProductionFormStatus.PENDING_REVIEW;
+    }
+  } else if (role === "quality_manager") {
+    // Gerente de Calidad: si completa verificación → COMPLETADO (salvo desviaciones pendientes)
+    if ((formData.finalBrix || formData.c_p || formData.yield) && !completionBlocked) {
+      return ProductionFormStatus.COMPLETED;
+    }
+  }
+  return status;
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { useProducts } from "@/hooks/use-products";
 import { useUsers } from "@/hooks/use-users";
@@ -21,27 +22,15 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Textarea } from "@/components/ui/textarea";
 import { Info, AlertTriangle, Clock, Edit2, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { DeviationStatus, ProductionFormStatus, SpecParameter, normalizeProductionFormStatus } from "@shared/schema";
+import type { ProductSpecification, ProductionDeviation } from "@shared/schema";
+import { findOutOfSpecReadings, formatSpecRange, isOutOfSpec } from "@shared/spec-limits";
+import ProductionDeviationsPanel from "./production-deviations-panel";
+import { getStatusAfterSave, productionFormStatusLabels, type UserRole } from "./production-form-status";
 
 // Definiciones de tipos
-export type UserRole = "production_manager" | "operator" | "quality_manager" | null;
-
-export interface ProductRecipe {
-  id: string;
-  name: string;
-  ingredients: {
-    name: string;
-    quantity: number;
-    unit: string;
-    factor: number; // Factor para calcular cantidad basada en litros
-  }[];
-}
-
-export enum ProductionFormStatus {
-  DRAFT = "DRAFT",
-  IN_PROGRESS = "IN_PROGRESS",
-  PENDING_REVIEW = "PENDING_REVIEW",
-  COMPLETED = "COMPLETED"
-}
+export type { UserRole };
 
 interface ProductionFormSection {
   id: string;
@@ -56,67 +45,6 @@ interface ProductionFormProps {
   readOnly?: boolean;
 }
 
-// Datos de productos disponibles
-const PRODUCTS: ProductRecipe[] = [
-  {
-    id: "conito",
-    name: "Conito",
-    ingredients: [
-      { name: "Leche de Vaca", quantity: 250, unit: "kg", factor: 0.5 }, // 0.5 kg por litro
-      { name: "Leche de Cabra", quantity: 250, unit: "kg", factor: 0.5 }, // 0.5 kg por litro
-      { name: "Azúcar", quantity: 100, unit: "kg", factor: 0.2 }, // 0.2 kg por litro
-      { name: "Glucosa", quantity: 100, unit: "kg", factor: 0.2 }, // 0.2 kg por litro
-      { name: "Malto", quantity: 25, unit: "kg", factor: 0.05 }, // 0.05 kg por litro
-      { name: "Bicarbonato", quantity: 0.5, unit: "kg", factor: 0.001 }, // 0.001 kg por litro
-      { name: "Sorbato", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Lecitina", quantity: 0.3, unit: "kg", factor: 0.0006 }, // 0.0006 kg por litro
-      { name: "Carragenina", quantity: 0.125, unit: "kg", factor: 0.00025 }, // 0.00025 kg por litro
-      { name: "Grasa", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Pasta", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Antiespumante", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Nuez", quantity: 0, unit: "kg", factor: 0 }
-    ]
-  },
-  {
-    id: "mielmex",
-    name: "Mielmex 65° Brix",
-    ingredients: [
-      { name: "Leche de Vaca", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Leche de Cabra", quantity: 100, unit: "kg", factor: 1.0 }, // 100kg/100L = 1kg por litro
-      { name: "Azúcar", quantity: 20, unit: "kg", factor: 0.20 }, // 20kg/100L = 0.20kg por litro
-      { name: "Glucosa", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Malto", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Bicarbonato", quantity: 0.16, unit: "kg", factor: 0.0016 }, // 0.16kg/100L = 0.0016kg por litro
-      { name: "Sorbato", quantity: 0.0626, unit: "kg", factor: 0.000626 }, // 0.0626kg/100L = 0.000626kg por litro
-      { name: "Lecitina", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Carragenina", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Grasa", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Pasta", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Antiespumante", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Nuez", quantity: 0, unit: "kg", factor: 0 }
-    ]
-  },
-  {
-    id: "pasta_oblea_cajeton",
-    name: "Pasta Oblea Cajeton",
-    ingredients: [
-      { name: "Leche de Vaca", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Leche de Cabra", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Azúcar", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Glucosa", quantity: 18, unit: "kg", factor: 0.2727 }, // 18kg para 66L
-      { name: "Malto", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Bicarbonato", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Sorbato", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Lecitina", quantity: 0.039, unit: "kg", factor: 0.00059 }, // 0.039kg para 66L
-      { name: "Carragenina", quantity: 0.015, unit: "kg", factor: 0.000227 }, // 0.015kg para 66L corregido
-      { name: "Grasa", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Pasta", quantity: 66, unit: "kg", factor: 1 }, // 66kg para 66L
-      { name: "Antiespumante", quantity: 0, unit: "kg", factor: 0 },
-      { name: "Nuez", quantity: 0, unit: "kg", factor: 0 }
-    ]
-  }
-];
-
 // Mapeo de roles de usuario a roles de aplicación - ACCESO AMPLIADO PARA TODOS LOS USUARIOS
 const mapUserRoleToAppRole = (userRole: string): UserRole => {
   // Normalizar el rol a minúsculas para evitar problemas con mayúsculas/minúsculas
@@ -253,7 +181,7 @@ export default function ProductionForm({
     }
   }, [initialData?.id]); // Solo reaccionar al cambio de ID, no a startTime/endTime
   const [status, setStatus] = useState<ProductionFormStatus>(
-    initialData.status || ProductionFormStatus.DRAFT
+    (normalizeProductionFormStatus(initialData.status) as ProductionFormStatus) || ProductionFormStatus.DRAFT
   );
   const [autoCalculatedIngredients, setAutoCalculatedIngredients] = useState<any[]>([]);
   const [isAutoSaving, setIsAutoSaving] = useState(false);
@@ -269,7 +197,11 @@ export default function ProductionForm({
     }
     
     try {
-      const response = await fetch(`/api/products/${productId}/recipe?liters=${liters}`);
+      // El formulario guardado conserva la versión de receta con la que se creó mientras no cambie el producto
+      const lockedRecipeId = initialData.recipeId && String(initialData.productId) === String(productId)
+        ? `&recipeId=${initialData.recipeId}`
+        : "";
+      const response = await fetch(`/api/products/${productId}/recipe?liters=${liters}${lockedRecipeId}`);
       if (response.ok) {
         const recipeData = await response.json();
         setAutoCalculatedIngredients(recipeData.ingredients || []);
@@ -299,8 +231,11 @@ export default function ProductionForm({
         
         toast({
           title: "Materiales actualizados",
-          description: `Se cargaron ${recipeData.ingredients?.length || 0} ingredientes para ${recipeData.recipeName} (${liters}L)`,
+          description: `Se cargaron ${recipeData.ingredients?.length || 0} ingredientes para ${recipeData.recipeName} v${recipeData.recipeVersion} (${liters}L)`,
         });
+      } else {
+        // El producto no tiene receta vigente: no se inventan cantidades
+        setAutoCalculatedIngredients([]);
       }
     } catch (error) {
       console.error("Error cargando receta:", error);
@@ -391,6 +326,35 @@ export default function ProductionForm({
   // Siempre tendremos un rol válido ahora que hemos cambiado la función de mapeo
   const currentUserRole = user ? mapUserRoleToAppRole(user.role) : "operator";
   
+  // Límites de especificación del producto: las lecturas fuera de rango se marcan y se registran como desviaciones al guardar
+  const { data: specifications = [] } = useQuery<ProductSpecification[]>({
+    queryKey: [`/api/products/${formData.productId}/specifications`],
+    enabled: !!formData.productId && !isNaN(Number(formData.productId)),
+  });
+  const { data: deviations = [] } = useQuery<ProductionDeviation[]>({
+    queryKey: [`/api/production-forms/${initialData.id}/deviations`],
+    enabled: !!initialData.id,
+  });
+  
+  const unrecordedReadings = findOutOfSpecReadings(formData, specifications).filter(reading =>
+    !deviations.some(deviation =>
+      deviation.parameter === reading.parameter &&
+      deviation.readingIndex === reading.readingIndex &&
+      deviation.value === reading.value
+    )
+  );
+  // Igual que en el servidor: no se completa con desviaciones abiertas o lecturas fuera de rango sin registrar
+  const completionBlocked = unrecordedReadings.length > 0 ||
+    deviations.some(deviation => deviation.status === DeviationStatus.OPEN);
+  
+  const specFor = (parameter: SpecParameter) => specifications.find(spec => spec.parameter === parameter);
+  const specLabel = (parameter: SpecParameter) => {
+    const spec = specFor(parameter);
+    return spec ? ` (${formatSpecRange(spec)})` : "";
+  };
+  const readingClass = (parameter: SpecParameter, value: unknown) =>
+    isOutOfSpec(specFor(parameter), value) ? "border-red-500 bg-red-50 text-red-700" : "";
+  
   // Verificar si el usuario puede editar una sección
   const canEditSection = (sectionId: string): boolean => {
     if (readOnly) return false;
@@ -408,25 +372,6 @@ export default function ProductionForm({
     return section.allowedRoles.includes(currentUserRole);
   };
   
-  // Actualizar materias primas solo al cambiar producto o litros (no sobrescribir datos existentes)
-  useEffect(() => {
-    if (formData.productId && formData.liters && (!formData.ingredients || formData.ingredients.length === 0)) {
-      const selectedProduct = PRODUCTS.find(p => p.id === formData.productId);
-      if (selectedProduct) {
-        const updatedIngredients = selectedProduct.ingredients.map(ingredient => ({
-          name: ingredient.name,
-          quantity: ingredient.factor * formData.liters,
-          unit: ingredient.unit
-        }));
-        
-        setFormData((prev: any) => ({
-          ...prev,
-          ingredients: updatedIngredients
-        }));
-      }
-    }
-  }, [formData.productId, formData.liters]);
-  
   // Manejar cambios en los campos
   const handleChange = (field: string, value: any) => {
     console.log(`Campo actualizado: ${field} =`, value);
@@ -483,7 +428,7 @@ export default function ProductionForm({
     // Gerente de Calidad: Al completar verificación -> COMPLETED
     if (userRole === "quality_manager" && 
         (field === "finalBrix" || field === "yield" || field === "cP") && 
-        value && status === ProductionFormStatus.PENDING_REVIEW) {
+        value && status === ProductionFormStatus.PENDING_REVIEW && !completionBlocked) {
       setStatus(ProductionFormStatus.COMPLETED);
     }
   };
@@ -501,28 +446,7 @@ export default function ProductionForm({
       });
       
       // Determinar el nuevo estado basado en el rol y datos completados
-      let newStatus = status;
-      
-      if (currentUserRole === "production_manager") {
-        // Gerente de Producción: si completa información general → EN PROCESO
-        if (formData.responsible && formData.lotNumber && status === ProductionFormStatus.DRAFT) {
-          newStatus = ProductionFormStatus.IN_PROGRESS;
-        }
-      } else if (currentUserRole === "operator") {
-        // Operador: si completa seguimiento → PENDIENTE DE REVISIÓN
-        if ((formData.startTime || formData.temperature?.some((t: string) => t) || 
-             formData.pressure?.some((p: string) => p)) && 
-            (status === ProductionFormStatus.IN_PROGRESS || status === ProductionFormStatus.DRAFT)) {
-          newStatus = ProductionFormStatus.PENDING_REVIEW;
-          console.log("¡Cambiando estado a PENDING_REVIEW!");
-        }
-      } else if (currentUserRole === "quality_manager") {
-        // Gerente de Calidad: si completa verificación → COMPLETADO
-        if ((formData.finalBrix || formData.c_p || formData.yield)) {
-          newStatus = ProductionFormStatus.COMPLETED;
-          console.log("¡Cambiando estado a COMPLETED por Gerente de Calidad!");
-        }
-      }
+      const newStatus = getStatusAfterSave(currentUserRole, formData, status, completionBlocked);
       
       console.log("=== DATOS QUE PASA handleSave AL PADRE ===");
       console.log("formData.startTime:", formData.startTime);
@@ -538,13 +462,7 @@ export default function ProductionForm({
       // Mostrar mensaje apropiado
       let message = "Los cambios han sido guardados correctamente";
       if (newStatus !== status) {
-        const statusNames = {
-          [ProductionFormStatus.DRAFT]: "Borrador",
-          [ProductionFormStatus.IN_PROGRESS]: "En Proceso",
-          [ProductionFormStatus.PENDING_REVIEW]: "Pendiente de Revisión", 
-          [ProductionFormStatus.COMPLETED]: "Completado"
-        };
-        message = `Estado actualizado automáticamente a: ${statusNames[newStatus]}`;
+        message = `Estado actualizado automáticamente a: ${productionFormStatusLabels[newStatus]}`;
         setStatus(newStatus);
       }
       
@@ -576,7 +494,7 @@ export default function ProductionForm({
     
     toast({
       title: "Estado actualizado",
-      description: `El formulario ahora está en estado: ${newStatus}`
+      description: `El formulario ahora está en estado: ${productionFormStatusLabels[newStatus]}`
     });
   };
   
@@ -632,7 +550,12 @@ export default function ProductionForm({
               <Button variant="outline" onClick={() => handleStatusChange(ProductionFormStatus.IN_PROGRESS)}>
                 Devolver a Producción
               </Button>
-              <Button variant="default" onClick={() => handleStatusChange(ProductionFormStatus.COMPLETED)}>
+              <Button
+                variant="default"
+                disabled={completionBlocked}
+                title={completionBlocked ? "Hay desviaciones de especificación sin acción correctiva" : undefined}
+                onClick={() => handleStatusChange(ProductionFormStatus.COMPLETED)}
+              >
                 Aprobar y Completar
               </Button>
             </>
@@ -967,6 +890,7 @@ export default function ProductionForm({
                     <tr>
                       <th className="px-4 py-3 text-left font-medium text-muted-foreground">Materia Prima</th>
                       <th className="px-4 py-3 text-left font-medium text-muted-foreground">Kilos</th>
+                      <th className="px-4 py-3 text-left font-medium text-muted-foreground">Lote MP</th>
                       <th className="px-4 py-3 text-left font-medium text-muted-foreground">Hora</th>
                     </tr>
                   </thead>
@@ -978,6 +902,19 @@ export default function ProductionForm({
                         <tr key={index} className="border-t">
                           <td className="px-4 py-3">{ingredient.name}</td>
                           <td className="px-4 py-3">{ingredient.quantity.toFixed(3)}</td>
+                          <td className="px-4 py-3">
+                            {/* Lote de proveedor de la materia prima, para la trazabilidad del lote producido */}
+                            <Input
+                              value={formData.ingredientLots?.[ingredient.name] || ""}
+                              onChange={(e) => handleChange("ingredientLots", {
+                                ...(formData.ingredientLots || {}),
+                                [ingredient.name]: e.target.value,
+                              })}
+                              disabled={!canEditSection("raw-materials") || readOnly}
+                              placeholder="Lote"
+                              className="h-8 w-32"
+                            />
+                          </td>
                           <td className="px-4 py-3">
                             <Input
                               type="time"
@@ -995,7 +932,7 @@ export default function ProductionForm({
                       ))
                     ) : (
                       <tr>
-                        <td colSpan={3} className="px-4 py-3 text-center text-muted-foreground">
+                        <td colSpan={4} className="px-4 py-3 text-center text-muted-foreground">
                           Seleccione un proceso y litros para ver las materias primas
                         </td>
                       </tr>
@@ -1047,7 +984,7 @@ export default function ProductionForm({
                 {/* Tabla de Temperatura */}
                 <Card>
                   <CardHeader className="py-3">
-                    <CardTitle className="text-base">Temperatura</CardTitle>
+                    <CardTitle className="text-base">Temperatura{specLabel(SpecParameter.TEMPERATURE)}</CardTitle>
                   </CardHeader>
                   <CardContent className="p-0">
                     <table className="w-full">
@@ -1074,7 +1011,7 @@ export default function ProductionForm({
                                 }}
                                 placeholder="°C"
                                 disabled={!canEditSection("process-tracking") || readOnly}
-                                className="h-8 text-right"
+                                className={cn("h-8 text-right", readingClass(SpecParameter.TEMPERATURE, formData.temperature?.[i]))}
                               />
                             </td>
                           </tr>
@@ -1087,7 +1024,7 @@ export default function ProductionForm({
                 {/* Tabla de Manómetro */}
                 <Card>
                   <CardHeader className="py-3">
-                    <CardTitle className="text-base">Manómetro</CardTitle>
+                    <CardTitle className="text-base">Manómetro{specLabel(SpecParameter.PRESSURE)}</CardTitle>
                   </CardHeader>
                   <CardContent className="p-0">
                     <table className="w-full">
@@ -1114,7 +1051,7 @@ export default function ProductionForm({
                                 }}
                                 placeholder="PSI"
                                 disabled={!canEditSection("process-tracking") || readOnly}
-                                className="h-8 text-right"
+                                className={cn("h-8 text-right", readingClass(SpecParameter.PRESSURE, formData.pressure?.[i]))}
                               />
                             </td>
                           </tr>
@@ -1195,7 +1132,7 @@ export default function ProductionForm({
                                 handleChange("brix", values);
                               }}
                               disabled={!canEditSection("quality-verification") || readOnly}
-                              className="h-8 w-24"
+                              className={cn("h-8 w-24", readingClass(SpecParameter.BRIX, formData.brix?.[i]))}
                             />
                           </td>
                           <td className="px-3 py-2">
@@ -1208,7 +1145,7 @@ export default function ProductionForm({
                                 handleChange("qualityTemp", values);
                               }}
                               disabled={!canEditSection("quality-verification") || readOnly}
-                              className="h-8 w-24"
+                              className={cn("h-8 w-24", readingClass(SpecParameter.QUALITY_TEMP, formData.qualityTemp?.[i]))}
                             />
                           </td>
                           <td className="px-3 py-2">
@@ -1247,7 +1184,7 @@ export default function ProductionForm({
                                 handleChange("viscosity", values);
                               }}
                               disabled={!canEditSection("quality-verification") || readOnly}
-                              className="h-8 w-24"
+                              className={cn("h-8 w-24", readingClass(SpecParameter.VISCOSITY, formData.viscosity?.[i]))}
                             />
                           </td>
                           <td className="px-3 py-2">
@@ -1583,13 +1520,13 @@ export default function ProductionForm({
                         </div>
                         
                         <div>
-                          <Label>Grados Brix</Label>
+                          <Label>Grados Brix{specLabel(SpecParameter.FINAL_BRIX)}</Label>
                           <Input
                             type="text"
                             value={formData.finalBrix || ""}
                             onChange={(e) => handleChange("finalBrix", e.target.value)}
                             disabled={!canEditSection("liberation-data") || readOnly}
-                            className="mt-2"
+                            className={cn("mt-2", readingClass(SpecParameter.FINAL_BRIX, formData.finalBrix))}
                           />
                         </div>
                       </div>
@@ -1631,6 +1568,12 @@ export default function ProductionForm({
           </Card>
         </TabsContent>
       </Tabs>
+      
+      <ProductionDeviationsPanel
+        formId={initialData.id}
+        deviations={deviations}
+        unrecordedReadings={unrecordedReadings}
+      />
     </div>
   );
 }
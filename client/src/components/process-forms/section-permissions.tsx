@@ -4,8 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Plus, X } from "lucide-react";
-
-export type UserRole = "production_manager" | "quality_manager" | "operator";
+import { UserRole } from "@shared/schema";
 
 export interface SectionPermission {
   sectionId: string;
@@ -20,12 +19,42 @@ interface SectionPermissionsEditorProps {
   onChange: (permissions: SectionPermission[]) => void;
 }
 
-const roleLabels: Record<UserRole, string> = {
-  production_manager: "Gerente de Producción",
-  quality_manager: "Gerente de Calidad",
-  operator: "Operador"
+export const roleLabels: Record<UserRole, string> = {
+  [UserRole.SUPERADMIN]: "Super Administrador",
+  [UserRole.ADMIN]: "Administrador",
+  [UserRole.PRODUCTION_MANAGER]: "Gerente de Producción",
+  [UserRole.QUALITY_MANAGER]: "Gerente de Calidad",
+  [UserRole.PRODUCTION]: "Operador de Producción",
+  [UserRole.QUALITY]: "Operador de Calidad",
+  [UserRole.VIEWER]: "Visualizador"
 };
 
+// Roles que se pueden asignar como dueños de una sección
+const assignableRoles = [
+  UserRole.PRODUCTION_MANAGER,
+  UserRole.QUALITY_MANAGER,
+  UserRole.PRODUCTION,
+  UserRole.QUALITY,
+  UserRole.ADMIN
+];
+
+/**
+ * Construye los permisos de sección a partir de los roles dueños guardados en la estructura de la plantilla
+ */
+export function getSectionPermissionsFromStructure(structure: any): SectionPermission[] | null {
+  if (!Array.isArray(structure?.sections) || structure.sections.length === 0) {
+    return null;
+  }
+
+  return structure.sections.map((section: any, index: number) => ({
+    sectionId: section.id || section.title,
+    sectionName: section.title,
+    allowedRoles: section.ownerRoles || [],
+    order: index,
+    editable: true
+  }));
+}
+
 export function SectionPermissionsEditor({ permissions, onChange }: SectionPermissionsEditorProps) {
   const [selectedSection, setSelectedSection] = useState<string | null>(null);
   const [selectedRole, setSelectedRole] = useState<UserRole | null>(null);
@@ -83,9 +112,9 @@ export function SectionPermissionsEditor({ permissions, onChange }: SectionPermi
                           <SelectValue placeholder="Añadir rol" />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="production_manager">Gerente de Producción</SelectItem>
-                          <SelectItem value="quality_manager">Gerente de Calidad</SelectItem>
-                          <SelectItem value="operator">Operador</SelectItem>
+                          {assignableRoles.map(role => (
+                            <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <Button 
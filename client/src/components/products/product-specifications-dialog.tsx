@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SpecParameter } from "@shared/schema";
+import type { ProductSpecification, ProductSpecificationInput } from "@shared/schema";
+import { specParameterLabels } from "@shared/spec-limits";
+import { Loader2 } from "lucide-react";
+
+interface ProductSpecificationsDialogProps {
+  product: { id: number; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type SpecRow = { minValue: string; maxValue: string; unit: string };
+
+const emptyRow: SpecRow = { minValue: "", maxValue: "", unit: "" };
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    return JSON.parse(error.message.slice(separator + 1).trim()).message;
+  } catch {
+    return error.message;
+  }
+}
+
+function toLimit(value: string): number | null {
+  const trimmed = value.trim().replace(",", ".");
+  return trimmed === "" ? null : Number(trimmed);
+}
+
+export default function ProductSpecificationsDialog({ product, onOpenChange }: ProductSpecificationsDialogProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<Record<SpecParameter, SpecRow>>({} as Record<SpecParameter, SpecRow>);
+  const specsKey = `/api/products/${product?.id}/specifications`;
+
+  const { data: specifications, isLoading } = useQuery<ProductSpecification[]>({
+    queryKey: [specsKey],
+    enabled: !!product,
+  });
+
+  useEffect(() => {
+    if (!specifications) return;
+    const loaded = {} as Record<SpecParameter, SpecRow>;
+    for (const spec of specifications) {
+      loaded[spec.parameter] = {
+        minValue: spec.minValue?.toString() ?? "",
+        maxValue: spec.maxValue?.toString() ?? "",
+        unit: spec.unit ?? "",
+      };
+    }
+    setRows(loaded);
+  }, [specifications]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Solo se envían los parámetros con al menos un límite
+      const specs: ProductSpecificationInput[] = Object.values(SpecParameter)
+        .map(parameter => ({ parameter, row: rows[parameter] ?? emptyRow }))
+        .filter(({ row }) => row.minValue.trim() !== "" || row.maxValue.trim() !== "")
+        .map(({ parameter, row }) => ({
+          parameter,
+          minValue: toLimit(row.minValue),
+          maxValue: toLimit(row.maxValue),
+          unit: row.unit.trim() || null,
+        }));
+
+      if (specs.some(spec => Number.isNaN(spec.minValue) || Number.isNaN(spec.maxValue))) {
+        throw new Error("Los límites deben ser numéricos");
+      }
+
+      const res = await apiRequest("PUT", specsKey, specs);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [specsKey] });
+      toast({ title: "Especificaciones guardadas", description: `Límites actualizados para ${product?.name}` });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudieron guardar las especificaciones", description: getServerMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateRow = (parameter: SpecParameter, changes: Partial<SpecRow>) => {
+    setRows(prev => ({ ...prev, [parameter]: { ...(prev[parameter] ?? emptyRow), ...changes } }));
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Especificaciones de {product?.name}</DialogTitle>
+          <DialogDescription>
+            Límites de los puntos críticos de control. Las lecturas fuera de rango se marcan en el formulario de producción
+            y se registran como desviaciones. Deje ambos límites vacíos para no controlar un parámetro.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Parámetro</TableHead>
+                <TableHead>Mínimo</TableHead>
+                <TableHead>Máximo</TableHead>
+                <TableHead>Unidad</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {Object.values(SpecParameter).map(parameter => {
+                const row = rows[parameter] ?? emptyRow;
+                return (
+                  <TableRow key={parameter}>
+                    <TableCell>{specParameterLabels[parameter]}</TableCell>
+                    <TableCell>
+                      <Input
+                        inputMode="decimal"
+                        value={row.minValue}
+                        onChange={e => updateRow(parameter, { minValue: e.target.value })}
+                        className="h-8 w-24"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        inputMode="decimal"
+                        value={row.maxValue}
+                        onChange={e => updateRow(parameter, { maxValue: e.target.value })}
+                        className="h-8 w-24"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={row.unit}
+                        placeholder="°Bx, °C, PSI…"
+                        onChange={e => updateRow(parameter, { unit: e.target.value })}
+                        className="h-8 w-28"
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button disabled={saveMutation.isPending || isLoading} onClick={() => saveMutation.mutate()}>
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
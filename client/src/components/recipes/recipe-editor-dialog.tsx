@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useProducts } from "@/hooks/use-products";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { RecipeStatus } from "@shared/schema";
+import type { RecipeInput, RecipeWithIngredients } from "@shared/schema";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+interface RecipeEditorDialogProps {
+  open: boolean;
+  recipe: RecipeWithIngredients | null; // null = receta nueva; una versión aprobada se toma como base de la siguiente
+  onOpenChange: (open: boolean) => void;
+}
+
+type IngredientRow = { materialName: string; quantity: string; unit: string };
+
+const emptyIngredient: IngredientRow = { materialName: "", quantity: "", unit: "kg" };
+
+const unitOptions = ["kg", "gramos", "L"];
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    const body = JSON.parse(error.message.slice(separator + 1).trim());
+    return body.details?.[0]?.message ?? body.message;
+  } catch {
+    return error.message;
+  }
+}
+
+export default function RecipeEditorDialog({ open, recipe, onOpenChange }: RecipeEditorDialogProps) {
+  const { toast } = useToast();
+  const { getProductsByCategory } = useProducts();
+  const [productId, setProductId] = useState("");
+  const [name, setName] = useState("");
+  const [baseQuantity, setBaseQuantity] = useState("100");
+  const [ingredients, setIngredients] = useState<IngredientRow[]>([emptyIngredient]);
+
+  const finishedProducts = getProductsByCategory("Producto Terminado");
+
+  // Las versiones aprobadas no se modifican: se guardan los cambios como una nueva versión en borrador
+  const isDraft = recipe?.status === RecipeStatus.DRAFT;
+  const isNewVersion = !!recipe && !isDraft;
+
+  useEffect(() => {
+    if (!open) return;
+    setProductId(recipe ? recipe.productId.toString() : "");
+    setName(recipe?.name ?? "");
+    setBaseQuantity((recipe?.baseQuantity ?? 100).toString());
+    setIngredients(recipe?.ingredients.length
+      ? recipe.ingredients.map(ingredient => ({
+          materialName: ingredient.materialName,
+          quantity: ingredient.quantity,
+          unit: ingredient.unit ?? "kg",
+        }))
+      : [emptyIngredient]);
+  }, [open, recipe]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data: RecipeInput = {
+        productId: Number(productId),
+        name: name.trim(),
+        baseQuantity: Number(baseQuantity),
+        ingredients: ingredients
+          .filter(ingredient => ingredient.materialName.trim() !== "")
+          .map(ingredient => ({
+            materialName: ingredient.materialName.trim(),
+            quantity: Number(ingredient.quantity.replace(",", ".")),
+            unit: ingredient.unit,
+          })),
+      };
+
+      if (data.ingredients.some(ingredient => Number.isNaN(ingredient.quantity))) {
+        throw new Error("Las cantidades deben ser numéricas");
+      }
+
+      const res = isDraft
+        ? await apiRequest("PUT", `/api/recipes/${recipe.id}`, data)
+        : await apiRequest("POST", "/api/recipes", data);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      toast({
+        title: isDraft ? "Receta actualizada" : isNewVersion ? "Nueva versión creada" : "Receta creada",
+        description: `${name} (borrador pendiente de aprobación)`,
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "No se pudo guardar la receta", description: getServerMessage(error), variant: "destructive" });
+    },
+  });
+
+  const updateIngredient = (index: number, changes: Partial<IngredientRow>) => {
+    setIngredients(prev => prev.map((ingredient, i) => (i === index ? { ...ingredient, ...changes } : ingredient)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isDraft
+              ? `Editar receta: ${recipe.name} v${recipe.version}`
+              : isNewVersion
+                ? `Nueva versión de ${recipe.name} (basada en v${recipe.version})`
+                : "Nueva receta"}
+          </DialogTitle>
+          <DialogDescription>
+            Las cantidades se capturan para los litros base. La receta se guarda como borrador y los formularios de
+            producción la usan a partir de su fecha de vigencia, una vez aprobada por Gerencia de Calidad.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Producto</Label>
+            <Select value={productId} onValueChange={setProductId} disabled={!!recipe}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar producto" />
+              </SelectTrigger>
+              <SelectContent>
+                {finishedProducts.map(product => (
+                  <SelectItem key={product.id} value={product.id.toString()}>
+                    {product.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recipe-name">Nombre de la receta</Label>
+            <Input id="recipe-name" value={name} onChange={e => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="recipe-base">Litros base</Label>
+            <Input
+              id="recipe-base"
+              type="number"
+              min={1}
+              value={baseQuantity}
+              onChange={e => setBaseQuantity(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Materia prima</TableHead>
+              <TableHead>Cantidad</TableHead>
+              <TableHead>Unidad</TableHead>
+              <TableHead className="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ingredients.map((ingredient, index) => (
+              <TableRow key={index}>
+                <TableCell>
+                  <Input
+                    value={ingredient.materialName}
+                    onChange={e => updateIngredient(index, { materialName: e.target.value })}
+                    className="h-8"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Input
+                    inputMode="decimal"
+                    value={ingredient.quantity}
+                    onChange={e => updateIngredient(index, { quantity: e.target.value })}
+                    className="h-8 w-28"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Select value={ingredient.unit} onValueChange={unit => updateIngredient(index, { unit })}>
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {unitOptions.map(unit => (
+                        <SelectItem key={unit} value={unit}>
+                          {unit}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={ingredients.length === 1}
+                    onClick={() => setIngredients(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        <Button variant="outline" size="sm" onClick={() => setIngredients(prev => [...prev, emptyIngredient])}>
+          <Plus className="mr-2 h-4 w-4" />
+          Agregar ingrediente
+        </Button>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            disabled={saveMutation.isPending || !productId || !name.trim()}
+            onClick={() => saveMutation.mutate()}
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
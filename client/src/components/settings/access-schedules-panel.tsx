@@ -0,0 +1,472 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { UserRole } from "@shared/schema";
+import type { AccessException, AccessHoliday, AccessSchedule, UpsertAccessSchedule } from "@shared/schema";
+import { CalendarPlus, Loader2, Save, Trash2 } from "lucide-react";
+
+type ScheduleWithDescription = Omit<AccessSchedule, "id" | "updatedBy" | "updatedAt"> & {
+  id?: number;
+  description: string;
+};
+
+interface AccessSchedulesResponse {
+  roles: ScheduleWithDescription[];
+  users: ScheduleWithDescription[];
+  holidays: AccessHoliday[];
+  exceptions: AccessException[];
+}
+
+interface UserOption {
+  id: number;
+  name: string;
+  username: string;
+}
+
+const roleLabels: Record<UserRole, string> = {
+  [UserRole.SUPERADMIN]: "Super Administrador",
+  [UserRole.ADMIN]: "Administrador",
+  [UserRole.PRODUCTION]: "Producción",
+  [UserRole.QUALITY]: "Calidad",
+  [UserRole.PRODUCTION_MANAGER]: "Gerente Producción",
+  [UserRole.QUALITY_MANAGER]: "Gerente Calidad",
+  [UserRole.VIEWER]: "Visualizador",
+};
+
+const dayLabels = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"];
+
+const newUserSchedule: UpsertAccessSchedule = {
+  unrestricted: false,
+  workDays: [1, 2, 3, 4, 5],
+  startTime: "08:00",
+  endTime: "18:00",
+};
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    return JSON.parse(error.message.slice(separator + 1).trim()).message;
+  } catch {
+    return error.message;
+  }
+}
+
+function ScheduleEditor({
+  label,
+  schedule,
+  saving,
+  onSave,
+  onRemove,
+}: {
+  label: string;
+  schedule: UpsertAccessSchedule;
+  saving: boolean;
+  onSave: (schedule: UpsertAccessSchedule) => void;
+  onRemove?: () => void;
+}) {
+  const [draft, setDraft] = useState<UpsertAccessSchedule>(schedule);
+
+  useEffect(() => {
+    setDraft(schedule);
+  }, [schedule]);
+
+  const toggleDay = (day: number) => {
+    setDraft(current => ({
+      ...current,
+      workDays: current.workDays.includes(day)
+        ? current.workDays.filter(d => d !== day)
+        : [...current.workDays, day].sort((a, b) => a - b),
+    }));
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-lg border p-4 lg:flex-row lg:items-center">
+      <div className="w-44 font-medium">{label}</div>
+      <div className="flex items-center gap-2">
+        <Switch
+          checked={draft.unrestricted}
+          onCheckedChange={checked => setDraft(current => ({ ...current, unrestricted: checked }))}
+        />
+        <span className="text-sm text-neutral-600">24/7</span>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {dayLabels.map((dayLabel, day) => (
+          <Button
+            key={day}
+            type="button"
+            size="sm"
+            variant={draft.workDays.includes(day) ? "default" : "outline"}
+            disabled={draft.unrestricted}
+            onClick={() => toggleDay(day)}
+          >
+            {dayLabel}
+          </Button>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          type="time"
+          className="w-28"
+          value={draft.startTime}
+          disabled={draft.unrestricted}
+          onChange={e => setDraft(current => ({ ...current, startTime: e.target.value }))}
+        />
+        <span className="text-sm text-neutral-500">a</span>
+        <Input
+          type="time"
+          className="w-28"
+          value={draft.endTime}
+          disabled={draft.unrestricted}
+          onChange={e => setDraft(current => ({ ...current, endTime: e.target.value }))}
+        />
+      </div>
+      <div className="flex gap-2 lg:ml-auto">
+        <Button type="button" size="sm" disabled={saving} onClick={() => onSave(draft)}>
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        </Button>
+        {onRemove && (
+          <Button type="button" size="sm" variant="outline" onClick={onRemove}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AccessSchedulesPanel() {
+  const { toast } = useToast();
+  const [selectedUserId, setSelectedUserId] = useState<string>("");
+  const [holiday, setHoliday] = useState({ date: "", name: "" });
+  const [exception, setException] = useState({ target: "", startsAt: "", endsAt: "", reason: "" });
+
+  const { data, isLoading } = useQuery<AccessSchedulesResponse>({
+    queryKey: ["/api/access-schedules"],
+  });
+
+  const { data: users = [] } = useQuery<UserOption[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/access-schedules"] });
+    toast({ title });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: getServerMessage(error),
+      variant: "destructive",
+    });
+  };
+
+  const saveRoleMutation = useMutation({
+    mutationFn: async ({ role, schedule }: { role: UserRole; schedule: UpsertAccessSchedule }) => {
+      const res = await apiRequest("PUT", `/api/access-schedules/roles/${role}`, schedule);
+      return await res.json();
+    },
+    onSuccess: onSuccess("Horario del rol actualizado"),
+    onError,
+  });
+
+  const saveUserMutation = useMutation({
+    mutationFn: async ({ userId, schedule }: { userId: number; schedule: UpsertAccessSchedule }) => {
+      const res = await apiRequest("PUT", `/api/access-schedules/users/${userId}`, schedule);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setSelectedUserId("");
+      onSuccess("Horario del usuario actualizado")();
+    },
+    onError,
+  });
+
+  const removeUserMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `/api/access-schedules/users/${userId}`);
+    },
+    onSuccess: onSuccess("El usuario vuelve a usar el horario de su rol"),
+    onError,
+  });
+
+  const createHolidayMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/access-holidays", holiday);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setHoliday({ date: "", name: "" });
+      onSuccess("Día festivo agregado")();
+    },
+    onError,
+  });
+
+  const deleteHolidayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/access-holidays/${id}`);
+    },
+    onSuccess: onSuccess("Día festivo eliminado"),
+    onError,
+  });
+
+  const createExceptionMutation = useMutation({
+    mutationFn: async () => {
+      const [targetType, targetValue] = exception.target.split(":");
+      const res = await apiRequest("POST", "/api/access-exceptions", {
+        role: targetType === "role" ? targetValue : null,
+        userId: targetType === "user" ? parseInt(targetValue) : null,
+        startsAt: new Date(exception.startsAt).toISOString(),
+        endsAt: new Date(exception.endsAt).toISOString(),
+        reason: exception.reason,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setException({ target: "", startsAt: "", endsAt: "", reason: "" });
+      onSuccess("Excepción agregada")();
+    },
+    onError,
+  });
+
+  const deleteExceptionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/access-exceptions/${id}`);
+    },
+    onSuccess: onSuccess("Excepción eliminada"),
+    onError,
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const userName = (userId: number | null) => {
+    const user = users.find(u => u.id === userId);
+    return user ? `${user.name} (${user.username})` : `Usuario #${userId}`;
+  };
+
+  const usersWithoutSchedule = users.filter(u => !data.users.some(s => s.userId === u.id));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Horarios por Rol</CardTitle>
+          <CardDescription>
+            Días y horas en que cada rol puede avanzar formularios en el flujo de trabajo
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {data.roles
+            .filter(schedule => schedule.role !== UserRole.SUPERADMIN)
+            .map(schedule => (
+              <ScheduleEditor
+                key={schedule.role}
+                label={roleLabels[schedule.role as UserRole]}
+                schedule={schedule}
+                saving={saveRoleMutation.isPending && saveRoleMutation.variables?.role === schedule.role}
+                onSave={updated => saveRoleMutation.mutate({ role: schedule.role as UserRole, schedule: updated })}
+              />
+            ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Horarios por Usuario</CardTitle>
+          <CardDescription>
+            Un horario propio sustituye al horario del rol para ese usuario
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {data.users.map(schedule => (
+            <ScheduleEditor
+              key={schedule.userId}
+              label={userName(schedule.userId)}
+              schedule={schedule}
+              saving={saveUserMutation.isPending && saveUserMutation.variables?.userId === schedule.userId}
+              onSave={updated => saveUserMutation.mutate({ userId: schedule.userId!, schedule: updated })}
+              onRemove={() => removeUserMutation.mutate(schedule.userId!)}
+            />
+          ))}
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+              <SelectTrigger className="sm:w-72">
+                <SelectValue placeholder="Seleccionar usuario" />
+              </SelectTrigger>
+              <SelectContent>
+                {usersWithoutSchedule.map(u => (
+                  <SelectItem key={u.id} value={String(u.id)}>
+                    {u.name} ({u.username})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!selectedUserId || saveUserMutation.isPending}
+              onClick={() => saveUserMutation.mutate({ userId: parseInt(selectedUserId), schedule: newUserSchedule })}
+            >
+              Agregar horario propio
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Días Festivos</CardTitle>
+          <CardDescription>
+            En días festivos solo tienen acceso los roles 24/7 y las excepciones temporales
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {data.holidays.map(h => (
+            <div key={h.id} className="flex items-center justify-between rounded-lg border px-4 py-2">
+              <span className="text-sm">
+                <span className="font-medium">{h.date}</span> — {h.name}
+              </span>
+              <Button type="button" size="sm" variant="ghost" onClick={() => deleteHolidayMutation.mutate(h.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            <div className="space-y-1">
+              <Label>Fecha</Label>
+              <Input
+                type="date"
+                value={holiday.date}
+                onChange={e => setHoliday(current => ({ ...current, date: e.target.value }))}
+              />
+            </div>
+            <div className="flex-1 space-y-1">
+              <Label>Nombre</Label>
+              <Input
+                placeholder="Ej. Día de la Independencia"
+                value={holiday.name}
+                onChange={e => setHoliday(current => ({ ...current, name: e.target.value }))}
+              />
+            </div>
+            <Button
+              type="button"
+              disabled={!holiday.date || !holiday.name || createHolidayMutation.isPending}
+              onClick={() => createHolidayMutation.mutate()}
+            >
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Agregar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Excepciones Temporales</CardTitle>
+          <CardDescription>
+            Permiten el acceso fuera de horario durante un periodo (p. ej. un turno en domingo)
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {data.exceptions.map(e => (
+            <div key={e.id} className="flex items-center justify-between rounded-lg border px-4 py-2">
+              <span className="text-sm">
+                <span className="font-medium">
+                  {e.role ? roleLabels[e.role as UserRole] : userName(e.userId)}
+                </span>
+                {" — "}
+                {new Date(e.startsAt).toLocaleString("es-MX")} a {new Date(e.endsAt).toLocaleString("es-MX")}
+                {" — "}
+                {e.reason}
+              </span>
+              <Button type="button" size="sm" variant="ghost" onClick={() => deleteExceptionMutation.mutate(e.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <div className="space-y-1">
+              <Label>Aplica a</Label>
+              <Select value={exception.target} onValueChange={target => setException(current => ({ ...current, target }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Rol o usuario" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(UserRole)
+                    .filter(role => role !== UserRole.SUPERADMIN)
+                    .map(role => (
+                      <SelectItem key={role} value={`role:${role}`}>
+                        Rol: {roleLabels[role]}
+                      </SelectItem>
+                    ))}
+                  {users.map(u => (
+                    <SelectItem key={u.id} value={`user:${u.id}`}>
+                      Usuario: {u.name} ({u.username})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Motivo</Label>
+              <Input
+                placeholder="Ej. Turno extraordinario de domingo"
+                value={exception.reason}
+                onChange={e => setException(current => ({ ...current, reason: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Desde</Label>
+              <Input
+                type="datetime-local"
+                value={exception.startsAt}
+                onChange={e => setException(current => ({ ...current, startsAt: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Hasta</Label>
+              <Input
+                type="datetime-local"
+                value={exception.endsAt}
+                onChange={e => setException(current => ({ ...current, endsAt: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              disabled={
+                !exception.target || !exception.startsAt || !exception.endsAt || !exception.reason ||
+                createExceptionMutation.isPending
+              }
+              onClick={() => createExceptionMutation.mutate()}
+            >
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Agregar excepción
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { FormTemplate, WorkflowDefinition, WorkflowDefinitionInput } from "@shared/schema";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+
+interface WorkflowDefinitionsResponse {
+  default: WorkflowDefinitionInput & { formTemplateId: number | null };
+  templates: WorkflowDefinition[];
+  presets: Record<string, WorkflowDefinitionInput>;
+}
+
+const presetLabels: Record<string, string> = {
+  standard: "Estándar",
+  regulated: "Regulado (Iniciado → En progreso → Calidad → Firmado → Aprobado)",
+};
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    const errorData = JSON.parse(error.message.slice(separator + 1).trim());
+    const details = errorData.details?.map((d: { message: string }) => d.message).join(", ");
+    return details ? `${errorData.message}: ${details}` : errorData.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function toEditableJson(definition: WorkflowDefinitionInput): string {
+  const { name, initialStatus, states, transitions } = definition;
+  return JSON.stringify({ name, initialStatus, states, transitions }, null, 2);
+}
+
+export default function WorkflowDefinitionsPanel() {
+  const { toast } = useToast();
+  const [target, setTarget] = useState<string>("default");
+  const [definitionJson, setDefinitionJson] = useState("");
+
+  const { data, isLoading } = useQuery<WorkflowDefinitionsResponse>({
+    queryKey: ["/api/workflow-definitions"],
+  });
+
+  const { data: templates = [] } = useQuery<FormTemplate[]>({
+    queryKey: ["/api/form-templates"],
+  });
+
+  const templateDefinition = data?.templates.find(d => String(d.formTemplateId) === target);
+  const currentDefinition = target === "default" ? data?.default : templateDefinition ?? data?.default;
+
+  // Cargar en el editor el flujo de la plantilla seleccionada
+  useEffect(() => {
+    if (currentDefinition) {
+      setDefinitionJson(toEditableJson(currentDefinition));
+    }
+  }, [target, data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/workflow-definitions/${target}`, JSON.parse(definitionJson));
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflow-definitions"] });
+      toast({ title: "Flujo guardado", description: "Las transiciones se aplican de inmediato" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo guardar el flujo",
+        description: error instanceof SyntaxError ? "El JSON no es válido" : getServerMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/workflow-definitions/${target}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/workflow-definitions"] });
+      toast({
+        title: "Flujo restablecido",
+        description: target === "default"
+          ? "Se usará el flujo estándar"
+          : "La plantilla usará el flujo por defecto",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getServerMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !data) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Flujos de Trabajo</CardTitle>
+        <CardDescription>
+          Estados, transiciones permitidas, roles que pueden ejecutarlas y campos o firmas requeridos por plantilla
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div className="space-y-1">
+            <Label>Plantilla</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Flujo por defecto (todas las plantillas)</SelectItem>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={String(template.id)}>
+                    {template.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Partir de una plantilla de flujo</Label>
+            <Select onValueChange={preset => setDefinitionJson(toEditableJson(data.presets[preset]))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Seleccionar" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.keys(data.presets).map(preset => (
+                  <SelectItem key={preset} value={preset}>
+                    {presetLabels[preset] ?? preset}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {target !== "default" && (
+          <Badge variant="outline">
+            {templateDefinition ? `Flujo propio: ${templateDefinition.name}` : "Usa el flujo por defecto"}
+          </Badge>
+        )}
+
+        <Textarea
+          className="min-h-[360px] font-mono text-xs"
+          value={definitionJson}
+          onChange={e => setDefinitionJson(e.target.value)}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={resetMutation.isPending}
+            onClick={() => resetMutation.mutate()}
+          >
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Restablecer
+          </Button>
+          <Button type="button" disabled={saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+            <Save className="mr-2 h-4 w-4" />
+            Guardar Flujo
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -14,6 +14,10 @@ import {
   PlusSquare,
   ClipboardCheck,
   Package,
+  FlaskConical,
+  GitBranch,
+  Siren,
+  Hash,
   UserCircle,
   Upload
 } from "lucide-react";
@@ -67,11 +71,15 @@ export default function Sidebar({ className }: { className?: string }) {
       items: [
         { title: "Gestión de Usuarios", href: "/users", icon: Users, show: isAdmin || isSuperAdmin || isProductionManager || isQualityManager },
         { title: "Productos", href: "/products", icon: Package, show: isAdmin || isSuperAdmin || isProductionManager },
+        { title: "Recetas", href: "/recipes", icon: FlaskConical, show: isAdmin || isSuperAdmin || isProductionManager || isQualityManager },
         { title: "Empleados", href: "/employees", icon: UserCircle, show: isAdmin || isSuperAdmin || isProductionManager || isQualityManager },
         { title: "Crear Formularios", href: "/form-editor", icon: PlusSquare, show: isSuperAdmin },
         { title: "Importar Formularios", href: "/form-import", icon: Upload, show: isSuperAdmin },
         { title: "Reportes", href: "/reports", icon: BarChart3, show: isSuperAdmin || isViewer || isAdmin || isProductionManager || isQualityManager },
-        { title: "Configuración", href: "/settings", icon: Settings, show: isAdmin || isSuperAdmin },
+        { title: "Trazabilidad", href: "/traceability", icon: GitBranch, show: isSuperAdmin || isViewer || isAdmin || isProductionManager || isQualityManager },
+        { title: "Simulacros de Retiro", href: "/mock-recalls", icon: Siren, show: isSuperAdmin || isAdmin || isProductionManager || isQualityManager },
+        { title: "Folios", href: "/folios", icon: Hash, show: isSuperAdmin || isViewer || isAdmin || isProductionManager || isQualityManager },
+        { title: "Configuración", href: "/settings", icon: Settings, show: isSuperAdmin },
       ],
     },
   ];
@@ -10,6 +10,7 @@ import {
   ColumnFiltersState,
   getFilteredRowModel,
   PaginationState,
+  Updater,
 } from "@tanstack/react-table";
 import { useState } from "react";
 import { Button } from "./button";
@@ -22,6 +23,14 @@ interface DataTableProps<TData, TValue> {
   searchPlaceholder?: string;
   searchColumn?: string;
   isLoading?: boolean;
+  // Paginación resuelta en el servidor: data contiene solo la página actual
+  serverPagination?: {
+    pageIndex: number;
+    pageSize: number;
+    pageCount: number;
+    totalCount: number;
+    onPaginationChange: (pagination: PaginationState) => void;
+  };
 }
 
 export function DataTable<TData, TValue>({
@@ -30,6 +39,7 @@ export function DataTable<TData, TValue>({
   searchPlaceholder = "Buscar...",
   searchColumn,
   isLoading,
+  serverPagination,
 }: DataTableProps<TData, TValue>) {
   const [sorting, setSorting] = useState<SortingState>([]);
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
@@ -38,20 +48,35 @@ export function DataTable<TData, TValue>({
     pageSize: 10,
   });
 
+  const currentPagination = serverPagination
+    ? { pageIndex: serverPagination.pageIndex, pageSize: serverPagination.pageSize }
+    : pagination;
+
+  const handlePaginationChange = (updater: Updater<PaginationState>) => {
+    const next = typeof updater === "function" ? updater(currentPagination) : updater;
+    if (serverPagination) {
+      serverPagination.onPaginationChange(next);
+    } else {
+      setPagination(next);
+    }
+  };
+
   const table = useReactTable({
     data,
     columns,
     getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
+    getPaginationRowModel: serverPagination ? undefined : getPaginationRowModel(),
+    manualPagination: !!serverPagination,
+    pageCount: serverPagination?.pageCount,
     onSortingChange: setSorting,
     getSortedRowModel: getSortedRowModel(),
     onColumnFiltersChange: setColumnFilters,
     getFilteredRowModel: getFilteredRowModel(),
-    onPaginationChange: setPagination,
+    onPaginationChange: handlePaginationChange,
     state: {
       sorting,
       columnFilters,
-      pagination,
+      pagination: currentPagination,
     },
   });
 
@@ -118,13 +143,13 @@ export function DataTable<TData, TValue>({
           <p className="text-sm text-gray-500">
             Mostrando
             <Select
-              value={pagination.pageSize.toString()}
+              value={currentPagination.pageSize.toString()}
               onValueChange={(value) => {
-                setPagination(prev => ({ ...prev, pageSize: Number(value), pageIndex: 0 }));
+                handlePaginationChange({ pageSize: Number(value), pageIndex: 0 });
               }}
             >
               <SelectTrigger className="h-8 w-[70px] mx-2">
-                <SelectValue placeholder={pagination.pageSize.toString()} />
+                <SelectValue placeholder={currentPagination.pageSize.toString()} />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="5">5</SelectItem>
@@ -133,12 +158,12 @@ export function DataTable<TData, TValue>({
                 <SelectItem value="50">50</SelectItem>
               </SelectContent>
             </Select>
-            de {table.getFilteredRowModel().rows.length} registros
+            de {serverPagination ? serverPagination.totalCount : table.getFilteredRowModel().rows.length} registros
           </p>
         </div>
         <div className="flex items-center space-x-2">
           <span className="text-sm text-muted-foreground">
-            Página {pagination.pageIndex + 1} de {table.getPageCount()}
+            Página {currentPagination.pageIndex + 1} de {table.getPageCount()}
           </span>
           <Button
             variant="outline"
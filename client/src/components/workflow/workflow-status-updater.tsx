@@ -1,5 +1,14 @@
 import React, { useState } from 'react';
-import { FormWorkflowStatus, UserRole } from '@shared/schema';
+import { FormWorkflowStatus, SignatureMeaning, SignatureRole, UserRole } from '@shared/schema';
+import type { SignEntry, WorkflowDefinitionInput, WorkflowTransition } from '@shared/schema';
+import SignaturePad from '@/components/forms/signature-pad';
+import { signatureSlots, meaningLabels } from '@/components/forms/entry-signatures-panel';
+
+interface EntryWorkflow {
+  definition: WorkflowDefinitionInput;
+  currentStatus: FormWorkflowStatus;
+  transitions: WorkflowTransition[];
+}
 
 // Interface local para el componente, adaptada a la estructura esperada en la aplicación cliente
 interface FormEntry {
@@ -31,11 +40,18 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { useMutation } from '@tanstack/react-query';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
 import { apiRequest } from '@/lib/queryClient';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -58,6 +74,18 @@ import {
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 
+// Mensaje del servidor ("status: {json}"), incluyendo los campos requeridos que faltan
+function getWorkflowErrorMessage(error: Error): string {
+  const separator = error.message.indexOf(':');
+  try {
+    const errorData = JSON.parse(error.message.slice(separator + 1).trim());
+    const missing = errorData.missingFields?.length ? ` (${errorData.missingFields.join(', ')})` : '';
+    return (errorData.message || error.message) + missing;
+  } catch {
+    return error.message;
+  }
+}
+
 interface WorkflowStatusUpdaterProps {
   formEntry: FormEntry;
   onStatusUpdated: () => void;
@@ -69,11 +97,25 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
   const [lotNumber, setLotNumber] = useState(formEntry.lotNumber || '');
   const [isConfirmDialogOpen, setIsConfirmDialogOpen] = useState(false);
   const [targetStatus, setTargetStatus] = useState<FormWorkflowStatus | null>(null);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [signatureRole, setSignatureRole] = useState<SignatureRole | null>(null);
+  const [meaning, setMeaning] = useState<SignatureMeaning>(SignatureMeaning.APPROVED);
+  const [password, setPassword] = useState('');
+
+  // Partes de la firma que el usuario puede firmar con su rol
+  const userSignatureSlots = signatureSlots.filter(slot =>
+    !!user && (user.role === UserRole.SUPERADMIN || slot.userRoles.includes(user.role as UserRole))
+  );
+
+  const resetSignature = () => {
+    setSignature(null);
+    setPassword('');
+  };
 
   // Mutation para actualizar el estado del flujo de trabajo
   const updateWorkflowMutation = useMutation({
-    mutationFn: async ({ formId, status, lotNumber }: { formId: number, status: FormWorkflowStatus, lotNumber?: string }) => {
-      const payload: { workflowStatus: FormWorkflowStatus, lotNumber?: string } = {
+    mutationFn: async ({ formId, status, lotNumber, signature }: { formId: number, status: FormWorkflowStatus, lotNumber?: string, signature?: SignEntry }) => {
+      const payload: { workflowStatus: FormWorkflowStatus, lotNumber?: string, signature?: SignEntry } = {
         workflowStatus: status
       };
       
@@ -81,6 +123,10 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
         payload.lotNumber = lotNumber;
       }
       
+      if (signature) {
+        payload.signature = signature;
+      }
+      
       const response = await apiRequest('PATCH', `/api/form-entries/${formId}/workflow`, payload);
       if (!response.ok) {
         const errorData = await response.json();
@@ -91,6 +137,7 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
     onSuccess: () => {
       // Cerrar el diálogo de confirmación
       setIsConfirmDialogOpen(false);
+      resetSignature();
       
       // Mostrar mensaje de éxito
       toast({
@@ -100,6 +147,8 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
       
       // Actualizar la caché de formularios capturados
       queryClient.invalidateQueries({ queryKey: ["/api/form-entries"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/form-entries/${formEntry.id}/workflow`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/form-entries/${formEntry.id}/signatures`] });
       
       // Notificar al componente padre
       onStatusUpdated();
@@ -107,149 +156,28 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message,
+        description: getWorkflowErrorMessage(error),
         variant: "destructive",
       });
       
+      setPassword('');
       setIsConfirmDialogOpen(false);
     }
   });
   
-  // Obtener el siguiente estado posible según el rol del usuario y el estado actual
-  const getNextPossibleStatuses = (): {status: FormWorkflowStatus, label: string, enabled: boolean}[] => {
-    if (!user) return [];
-    
-    const currentStatus = formEntry.workflowStatus as FormWorkflowStatus || FormWorkflowStatus.INITIATED;
-    
-    // Matriz de posibles transiciones según el rol
-    const possibleTransitions: Record<UserRole, Record<FormWorkflowStatus, {status: FormWorkflowStatus, label: string}[]>> = {
-      [UserRole.PRODUCTION_MANAGER]: {
-        [FormWorkflowStatus.INITIATED]: [
-          { status: FormWorkflowStatus.IN_PROGRESS, label: "Marcar en progreso" },
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad" },
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-        ],
-        [FormWorkflowStatus.IN_PROGRESS]: [
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad" },
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-        ],
-        [FormWorkflowStatus.PENDING_QUALITY]: [
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-          { status: FormWorkflowStatus.IN_PROGRESS, label: "Regresar a producción" },
-        ],
-        [FormWorkflowStatus.COMPLETED]: [
-          { status: FormWorkflowStatus.SIGNED, label: "Firmar y aprobar" },
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Regresar a calidad" },
-        ],
-        [FormWorkflowStatus.SIGNED]: [],
-        [FormWorkflowStatus.APPROVED]: [],
-        [FormWorkflowStatus.REJECTED]: [],
-      },
-      [UserRole.PRODUCTION]: {
-        [FormWorkflowStatus.INITIATED]: [],
-        [FormWorkflowStatus.IN_PROGRESS]: [],
-        [FormWorkflowStatus.PENDING_QUALITY]: [],
-        [FormWorkflowStatus.COMPLETED]: [],
-        [FormWorkflowStatus.SIGNED]: [],
-        [FormWorkflowStatus.APPROVED]: [],
-        [FormWorkflowStatus.REJECTED]: [],
-      },
-      [UserRole.QUALITY_MANAGER]: {
-        [FormWorkflowStatus.INITIATED]: [
-          { status: FormWorkflowStatus.IN_PROGRESS, label: "Marcar en progreso" },
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad" },
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-        ],
-        [FormWorkflowStatus.IN_PROGRESS]: [
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad" },
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-        ],
-        [FormWorkflowStatus.PENDING_QUALITY]: [
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-          { status: FormWorkflowStatus.IN_PROGRESS, label: "Regresar a producción" },
-        ],
-        [FormWorkflowStatus.COMPLETED]: [
-          { status: FormWorkflowStatus.SIGNED, label: "Firmar y aprobar" },
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Regresar a calidad" },
-        ],
-        [FormWorkflowStatus.SIGNED]: [],
-        [FormWorkflowStatus.APPROVED]: [],
-        [FormWorkflowStatus.REJECTED]: [],
-      },
-      [UserRole.QUALITY]: {
-        [FormWorkflowStatus.INITIATED]: [],
-        [FormWorkflowStatus.IN_PROGRESS]: [],
-        [FormWorkflowStatus.PENDING_QUALITY]: [],
-        [FormWorkflowStatus.COMPLETED]: [],
-        [FormWorkflowStatus.SIGNED]: [],
-        [FormWorkflowStatus.APPROVED]: [],
-        [FormWorkflowStatus.REJECTED]: [],
-      },
-      [UserRole.ADMIN]: {
-        [FormWorkflowStatus.INITIATED]: [
-          { status: FormWorkflowStatus.IN_PROGRESS, label: "Marcar en progreso" },
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad" },
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-        ],
-        [FormWorkflowStatus.IN_PROGRESS]: [
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad" },
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-        ],
-        [FormWorkflowStatus.PENDING_QUALITY]: [
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-          { status: FormWorkflowStatus.IN_PROGRESS, label: "Regresar a producción" },
-        ],
-        [FormWorkflowStatus.COMPLETED]: [
-          { status: FormWorkflowStatus.SIGNED, label: "Firmar y aprobar" },
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Regresar a calidad" },
-        ],
-        [FormWorkflowStatus.SIGNED]: [],
-        [FormWorkflowStatus.APPROVED]: [],
-        [FormWorkflowStatus.REJECTED]: [],
-      },
-      [UserRole.SUPERADMIN]: {
-        [FormWorkflowStatus.INITIATED]: [
-          { status: FormWorkflowStatus.IN_PROGRESS, label: "Marcar en progreso" },
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad" },
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-        ],
-        [FormWorkflowStatus.IN_PROGRESS]: [
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad" },
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-        ],
-        [FormWorkflowStatus.PENDING_QUALITY]: [
-          { status: FormWorkflowStatus.COMPLETED, label: "Marcar como completado" },
-          { status: FormWorkflowStatus.IN_PROGRESS, label: "Regresar a producción" },
-        ],
-        [FormWorkflowStatus.COMPLETED]: [
-          { status: FormWorkflowStatus.SIGNED, label: "Firmar y aprobar" },
-          { status: FormWorkflowStatus.PENDING_QUALITY, label: "Regresar a calidad" },
-        ],
-        [FormWorkflowStatus.SIGNED]: [],
-        [FormWorkflowStatus.APPROVED]: [],
-        [FormWorkflowStatus.REJECTED]: [],
-      },
-      [UserRole.VIEWER]: {
-        [FormWorkflowStatus.INITIATED]: [],
-        [FormWorkflowStatus.IN_PROGRESS]: [],
-        [FormWorkflowStatus.PENDING_QUALITY]: [],
-        [FormWorkflowStatus.COMPLETED]: [],
-        [FormWorkflowStatus.SIGNED]: [],
-        [FormWorkflowStatus.APPROVED]: [],
-        [FormWorkflowStatus.REJECTED]: [],
-      },
-    };
-    
-    // Verificar si el usuario es el creador del formulario
-    const isCreator = formEntry.createdBy === user.id;
-    
-    // Si el usuario es el creador y el rol no tiene permisos específicos,
-    // permitir transiciones básicas
-    let transitions = possibleTransitions[user.role][currentStatus] || [];
+  // Transiciones disponibles según el flujo configurado para la plantilla y el rol del usuario
+  const { data: workflow } = useQuery<EntryWorkflow>({
+    queryKey: [`/api/form-entries/${formEntry.id}/workflow`],
+    enabled: !!user,
+  });
+
+  const getNextPossibleStatuses = (): {status: FormWorkflowStatus, label: string, enabled: boolean, requiresSignature: boolean}[] => {
+    if (!user || !workflow) return [];
     
-    // Marcar todas las transiciones posibles como habilitadas o deshabilitadas
-    return transitions.map(transition => ({
-      ...transition,
+    return workflow.transitions.map(transition => ({
+      status: transition.to,
+      label: transition.label,
+      requiresSignature: transition.requiresSignature,
       enabled: true
     }));
   };
@@ -257,6 +185,9 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
   // Iniciar el proceso de actualización del flujo
   const handleUpdateWorkflow = (status: FormWorkflowStatus) => {
     setTargetStatus(status);
+    const defaultSlot = userSignatureSlots[0];
+    setSignatureRole(defaultSlot?.role ?? null);
+    setMeaning(defaultSlot?.defaultMeaning ?? SignatureMeaning.APPROVED);
     
     // Si es transición a estado "en progreso" y no hay número de lote,
     // pedir el número de lote
@@ -272,18 +203,25 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
   const confirmWorkflowUpdate = () => {
     if (!targetStatus) return;
     
+    // Firma electrónica: rol de firma, significado y contraseña; el trazo es opcional
+    const signatureRequest: SignEntry | undefined = targetRequiresSignature && signatureRole
+      ? { signatureRole, meaning, password, signatureImage: signature ?? undefined }
+      : undefined;
+    
     // Si es transición a "en progreso" y se proporcionó un número de lote
     if (targetStatus === FormWorkflowStatus.IN_PROGRESS && lotNumber.trim()) {
       updateWorkflowMutation.mutate({
         formId: formEntry.id,
         status: targetStatus,
-        lotNumber: lotNumber.trim()
+        lotNumber: lotNumber.trim(),
+        signature: signatureRequest
       });
     } else {
       // Para otros estados, solo actualizar el estado
       updateWorkflowMutation.mutate({
         formId: formEntry.id,
-        status: targetStatus
+        status: targetStatus,
+        signature: signatureRequest
       });
     }
   };
@@ -364,6 +302,7 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
   
   // Lista de posibles transiciones según el rol y estado actual
   const possibleTransitions = getNextPossibleStatuses();
+  const targetRequiresSignature = possibleTransitions.some(t => t.status === targetStatus && t.requiresSignature);
   
   return (
     <Card className="mb-6">
@@ -448,16 +387,75 @@ export default function WorkflowStatusUpdater({ formEntry, onStatusUpdated }: Wo
               </div>
             )}
             
+            {targetRequiresSignature && (
+              <div className="space-y-4 py-2">
+                <div className="space-y-1">
+                  <Label>Firmar como</Label>
+                  <Select value={signatureRole ?? undefined} onValueChange={value => setSignatureRole(value as SignatureRole)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Su rol no puede firmar esta entrada" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {userSignatureSlots.map(slot => (
+                        <SelectItem key={slot.role} value={slot.role}>{slot.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Significado de la firma</Label>
+                  <Select value={meaning} onValueChange={value => setMeaning(value as SignatureMeaning)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.values(SignatureMeaning).map(value => (
+                        <SelectItem key={value} value={value}>{meaningLabels[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="workflow-signature-password">Contraseña</Label>
+                  <Input
+                    id="workflow-signature-password"
+                    type="password"
+                    autoComplete="current-password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+                {signature ? (
+                  <div className="space-y-2">
+                    <Label>Firma capturada</Label>
+                    <img src={signature} alt="Firma" className="border rounded-md max-h-32" />
+                    <Button type="button" variant="outline" size="sm" onClick={() => setSignature(null)}>
+                      Volver a firmar
+                    </Button>
+                  </div>
+                ) : (
+                  <SignaturePad
+                    onSave={setSignature}
+                    onCancel={() => setIsConfirmDialogOpen(false)}
+                  />
+                )}
+              </div>
+            )}
+            
             <DialogFooter className="sm:justify-end">
               <DialogClose asChild>
-                <Button type="button" variant="secondary">
+                <Button type="button" variant="secondary" onClick={resetSignature}>
                   Cancelar
                 </Button>
               </DialogClose>
               <Button
                 type="button"
                 onClick={confirmWorkflowUpdate}
-                disabled={updateWorkflowMutation.isPending || (targetStatus === FormWorkflowStatus.IN_PROGRESS && !lotNumber.trim())}
+                disabled={
+                  updateWorkflowMutation.isPending ||
+                  (targetStatus === FormWorkflowStatus.IN_PROGRESS && !lotNumber.trim()) ||
+                  (targetRequiresSignature && (!signatureRole || !password))
+                }
               >
                 {updateWorkflowMutation.isPending ? "Actualizando..." : "Confirmar"}
               </Button>
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Devuelve el valor después de que deja de cambiar durante `delay` ms,
+ * para no consultar al servidor en cada tecla
+ */
+export function useDebouncedValue<T>(value: T, delay = 400): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -3,6 +3,7 @@ import { queryClient, apiRequest } from "@/lib/queryClient";
 import { ProductionFormStatus } from "@shared/schema";
 import type { ProductionForm } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { getConflictingForm } from "@/lib/production-form-merge";
 
 // Hook para gestionar formularios de producción
 export function useProductionForms() {
@@ -47,14 +48,18 @@ export function useProductionForms() {
       const res = await apiRequest('PUT', `/api/production-forms/${id}`, data);
       return await res.json();
     },
-    onSuccess: () => {
+    onSuccess: (_, { id }) => {
       toast({
         title: "Formulario actualizado",
         description: "El formulario ha sido actualizado correctamente.",
       });
       queryClient.invalidateQueries({ queryKey: ['/api/production-forms'] });
+      // Al guardar se registran las lecturas fuera de especificación
+      queryClient.invalidateQueries({ queryKey: [`/api/production-forms/${id}/deviations`] });
     },
     onError: (error: Error) => {
+      // El conflicto de versión lo resuelve el diálogo de combinación de la página
+      if (getConflictingForm(error)) return;
       toast({
         title: "Error al actualizar formulario",
         description: error.message,
@@ -87,8 +92,8 @@ export function useProductionForms() {
 
   // Eliminar un formulario
   const deleteFormMutation = useMutation({
-    mutationFn: async (id: number) => {
-      await apiRequest('DELETE', `/api/production-forms/${id}`);
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      await apiRequest('DELETE', `/api/production-forms/${id}`, { reason });
     },
     onSuccess: () => {
       toast({
@@ -199,6 +204,7 @@ export function useProductionForm(id?: number) {
       // Invalidar tanto la consulta específica como la lista general
       queryClient.invalidateQueries({ queryKey: ['/api/production-forms', id] });
       queryClient.invalidateQueries({ queryKey: ['/api/production-forms'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/production-forms/${id}/deviations`] });
       // También actualizar directamente la cache con los nuevos datos
       queryClient.setQueryData(['/api/production-forms', id], updatedForm);
     },
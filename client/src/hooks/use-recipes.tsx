@@ -0,0 +1,36 @@
+import { useQuery } from "@tanstack/react-query";
+import type { RecipeWithIngredients } from "@shared/schema";
+import { calculateIngredientAmounts, findEffectiveRecipe, getRecipeVersionState } from "@shared/recipes";
+
+// Hook para consultar las recetas de productos (única fuente de las fórmulas)
+export function useRecipes() {
+  const {
+    data: recipes,
+    isLoading,
+    error,
+  } = useQuery<RecipeWithIngredients[]>({
+    queryKey: ['/api/recipes'],
+    staleTime: 1000 * 60 * 5, // 5 minutos
+  });
+
+  // Versiones vigentes: una por producto
+  const effectiveRecipes = (recipes || []).filter(recipe => getRecipeVersionState(recipe, recipes || []) === "current");
+
+  // Versión vigente de la receta del producto (por id o por nombre, como lo guardan las tablas)
+  const getRecipe = (product: number | string) => findEffectiveRecipe(recipes || [], product);
+
+  // Kilos de cada materia prima para los litros indicados; vacío si el producto no tiene receta vigente
+  const calculateAmounts = (product: number | string, liters: number): Record<string, number> => {
+    const recipe = getRecipe(product);
+    return recipe ? calculateIngredientAmounts(recipe, liters) : {};
+  };
+
+  return {
+    recipes: recipes || [],
+    effectiveRecipes,
+    isLoading,
+    error,
+    getRecipe,
+    calculateAmounts,
+  };
+}
@@ -1,8 +1,20 @@
 import { ReactNode, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import Sidebar from "@/components/sidebar";
 import MobileNav from "@/components/mobile-nav";
 import { useAuth } from "@/hooks/use-auth";
-import { Loader2 } from "lucide-react";
+import { Clock, Loader2 } from "lucide-react";
+
+interface AccessStatus {
+  allowed: boolean;
+  reason?: string;
+  allowedHours?: string;
+  closesAt?: string | null;
+  reopensAt?: string | null;
+}
+
+// Minutos antes del cierre del horario en que se muestra el aviso
+const CLOSING_WARNING_MINUTES = 15;
 
 interface MainLayoutProps {
   children: ReactNode;
@@ -10,8 +22,25 @@ interface MainLayoutProps {
 }
 
 export default function MainLayout({ children, title }: MainLayoutProps) {
-  const { isLoading } = useAuth();
+  const { user, isLoading } = useAuth();
   const [currentDate, setCurrentDate] = useState("");
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: accessStatus } = useQuery<AccessStatus>({
+    queryKey: ["/api/access-status"],
+    enabled: !!user,
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  // Reloj para recalcular los minutos restantes del horario
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const closesAt = accessStatus?.closesAt ? new Date(accessStatus.closesAt).getTime() : null;
+  const minutesUntilClose = closesAt ? Math.ceil((closesAt - now) / 60000) : null;
+  const showClosingWarning = minutesUntilClose !== null && minutesUntilClose > 0 && minutesUntilClose <= CLOSING_WARNING_MINUTES;
 
   useEffect(() => {
     const options: Intl.DateTimeFormatOptions = {
@@ -41,6 +70,18 @@ export default function MainLayout({ children, title }: MainLayoutProps) {
         {/* Barra de navegación móvil */}
         <MobileNav />
 
+        {/* Aviso de cierre del horario de acceso */}
+        {showClosingWarning && (
+          <div className="flex items-center gap-2 bg-amber-100 border-b border-amber-300 px-4 py-2 text-sm text-amber-900">
+            <Clock className="h-4 w-4 shrink-0" />
+            <span>
+              Su horario de acceso termina en {minutesUntilClose} {minutesUntilClose === 1 ? "minuto" : "minutos"}
+              {" "}({new Date(closesAt!).toLocaleTimeString("es-MX", { hour: "2-digit", minute: "2-digit" })}).
+              Guarde su trabajo antes de esa hora.
+            </span>
+          </div>
+        )}
+
         {/* Contenido de la página */}
         <main className="flex-1 overflow-x-hidden overflow-y-auto bg-neutral-50">
           <div className="p-4 md:p-6">
@@ -0,0 +1,27 @@
+import type { FormEntrySearchResult } from "@shared/schema";
+import { apiRequest } from "./queryClient";
+
+// Llave base de las consultas de búsqueda; invalidarla refresca todas las páginas y filtros
+export const FORM_ENTRY_SEARCH_KEY = "/api/form-entries/search";
+
+export type FormEntrySearchParams = Record<string, string | number | undefined>;
+
+/**
+ * Convierte los filtros en query string, omitiendo los vacíos y los "all"
+ */
+export function toSearchQuery(params: FormEntrySearchParams): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === "" || value === "all") return;
+    query.set(key, String(value));
+  });
+  return query.toString();
+}
+
+/**
+ * Consulta una página de formularios capturados con los filtros indicados
+ */
+export async function fetchFormEntrySearch(query: string): Promise<FormEntrySearchResult> {
+  const res = await apiRequest("GET", `${FORM_ENTRY_SEARCH_KEY}?${query}`);
+  return await res.json();
+}
@@ -0,0 +1,99 @@
+import type { ProductionForm } from "@shared/schema";
+
+// Campos de cada sección (pestaña) del formulario de producción
+export const PRODUCTION_FORM_MERGE_SECTIONS = [
+  {
+    id: "general-info",
+    title: "Información General",
+    fields: ["productId", "liters", "date", "responsible", "caducidad", "marmita", "folio", "folioInterno", "lotNumber", "folioBajaMP", "folioBajaME", "folioPT"]
+  },
+  { id: "raw-materials", title: "Materias Primas", fields: ["ingredients", "ingredientTimes", "ingredientLots"] },
+  { id: "process-tracking", title: "Seguimiento de Proceso", fields: ["startTime", "endTime", "temperature", "pressure", "hourTracking"] },
+  {
+    id: "quality-verification",
+    title: "Verificación de Calidad",
+    fields: ["qualityTimes", "brix", "qualityTemp", "texture", "color", "viscosity", "smell", "taste", "foreignMaterial", "statusCheck", "qualityNotes"]
+  },
+  { id: "product-destination", title: "Destino de Producto", fields: ["destinationType", "destinationKilos", "destinationProduct", "destinationEstimation"] },
+  { id: "final-strainer", title: "Colador Final", fields: ["totalKilos", "yield", "startState", "endState"] },
+  { id: "liberation-data", title: "Datos de Liberación", fields: ["liberationFolio", "cP", "cmConsistometer", "finalBrix", "signatureUrl"] },
+  { id: "status", title: "Estado del formulario", fields: ["status"] }
+] as const;
+
+export type MergeSectionId = typeof PRODUCTION_FORM_MERGE_SECTIONS[number]["id"];
+export type MergeChoice = "mine" | "theirs";
+
+export interface SectionChange {
+  id: MergeSectionId;
+  title: string;
+  changedByMe: boolean;
+  changedByThem: boolean;
+}
+
+// Vacío: null, "", o listas/objetos sin ningún valor capturado (las tablas se inicializan con celdas vacías)
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined || value === "") return true;
+  if (Array.isArray(value)) return value.every(isEmptyValue);
+  if (typeof value === "object") return Object.values(value as object).every(isEmptyValue);
+  return false;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (isEmptyValue(a) && isEmptyValue(b)) return true;
+  if (typeof a !== "object" && typeof b !== "object") return String(a) === String(b);
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sectionDiffers(fields: readonly string[], a: Record<string, any>, b: Record<string, any>): boolean {
+  return fields.some(field => !sameValue(a[field], b[field]));
+}
+
+/**
+ * Compara la versión que el usuario cargó (base) con sus cambios y con la versión guardada por otro usuario.
+ * Solo se devuelven las secciones que cambiaron en alguno de los dos lados
+ */
+export function getSectionChanges(base: Record<string, any>, mine: Record<string, any>, theirs: ProductionForm): SectionChange[] {
+  return PRODUCTION_FORM_MERGE_SECTIONS
+    .map(section => ({
+      id: section.id,
+      title: section.title,
+      changedByMe: sectionDiffers(section.fields, base, mine),
+      changedByThem: sectionDiffers(section.fields, base, theirs)
+    }))
+    .filter(change => change.changedByMe || change.changedByThem);
+}
+
+/**
+ * Combina ambas versiones: las secciones que solo cambió el otro usuario se toman del servidor,
+ * las que solo cambió el usuario conservan sus datos y en las que cambiaron ambos decide la elección.
+ * El resultado lleva la versión actual del servidor para que el nuevo guardado sea aceptado
+ */
+export function mergeProductionForm(
+  mine: Record<string, any>,
+  theirs: ProductionForm,
+  changes: SectionChange[],
+  choices: Partial<Record<MergeSectionId, MergeChoice>>
+): Record<string, any> {
+  const merged: Record<string, any> = { ...mine, version: theirs.version };
+  changes.forEach(change => {
+    const takeTheirs = change.changedByThem && (!change.changedByMe || choices[change.id] === "theirs");
+    if (!takeTheirs) return;
+    const section = PRODUCTION_FORM_MERGE_SECTIONS.find(s => s.id === change.id)!;
+    section.fields.forEach(field => {
+      merged[field] = theirs[field as keyof ProductionForm];
+    });
+  });
+  return merged;
+}
+
+/**
+ * Versión actual del formulario cuando el guardado fue rechazado por conflicto (409); null en otro caso
+ */
+export function getConflictingForm(error: unknown): ProductionForm | null {
+  if (!(error instanceof Error) || !error.message.startsWith("409:")) return null;
+  try {
+    return JSON.parse(error.message.slice(4).trim()).current ?? null;
+  } catch {
+    return null;
+  }
+}
@@ -34,6 +34,15 @@ export function ProtectedRoute({
     );
   }
 
+  // Contraseña expirada o restablecida por un administrador: debe cambiarse primero
+  if (user.mustChangePassword) {
+    return (
+      <Route path={path}>
+        <Redirect to="/change-password" />
+      </Route>
+    );
+  }
+
   // If roles are specified, check if user has permission
   if (allowedRoles && !allowedRoles.includes(user.role as UserRole)) {
     return (
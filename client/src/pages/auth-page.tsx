@@ -22,6 +22,16 @@ const features = [
   { icon: BarChart3, title: "Reportes y PDF", desc: "Exporta en Excel y PDF al instante" },
 ];
 
+// Extrae el mensaje de bloqueo de la respuesta 423 del servidor ("423: {json}")
+function getLockoutMessage(error: Error | null): string | null {
+  if (!error?.message.startsWith("423:")) return null;
+  try {
+    return JSON.parse(error.message.slice(4).trim()).message;
+  } catch {
+    return "Cuenta bloqueada temporalmente. Contacte al administrador.";
+  }
+}
+
 export default function AuthPage() {
   const { user, loginMutation } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
@@ -35,6 +45,8 @@ export default function AuthPage() {
     loginMutation.mutate(data);
   };
 
+  const lockoutMessage = getLockoutMessage(loginMutation.error);
+
   if (user) return <Redirect to="/" />;
 
   return (
@@ -161,7 +173,7 @@ export default function AuthPage() {
 
                 {loginMutation.isError && (
                   <div className="bg-red-50 border border-red-200 text-red-600 text-xs rounded-xl px-4 py-3">
-                    Usuario o contraseña incorrectos.
+                    {lockoutMessage ?? "Usuario o contraseña incorrectos."}
                   </div>
                 )}
 
@@ -1,12 +1,15 @@
 import React, { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FORM_ENTRY_SEARCH_KEY, fetchFormEntrySearch, toSearchQuery } from "@/lib/form-entry-search";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import MainLayout from "@/layouts/main-layout";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
   SelectContent,
@@ -57,10 +60,12 @@ import {
 } from "@/components/ui/alert-dialog";
 import FormViewer from "@/components/forms/form-viewer";
 import { Badge } from "@/components/ui/badge";
-import { UserRole } from "@shared/schema";
+import { SignatureMeaning, SignatureRole, UserRole } from "@shared/schema";
+import type { SignEntry, WorkflowTransition } from "@shared/schema";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import SignaturePad from "@/components/forms/signature-pad";
+import { signatureSlots, meaningLabels } from "@/components/forms/entry-signatures-panel";
 import { FieldsSelectorModal } from "@/components/fields-selector-modal";
 
 interface FormEntry {
@@ -98,6 +103,11 @@ interface FormTemplate {
   createdBy: number;
   updatedAt: Date | null;
   isActive: boolean | null;
+  documentCode: string | null;
+  revision: number;
+  issueDate: Date | null;
+  documentApprover: string | null;
+  nextReviewDate: Date | null;
 }
 
 interface User {
@@ -113,12 +123,14 @@ export default function CapturedFormsPage() {
   const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
   const [contentSearchTerm, setContentSearchTerm] = useState(""); // Término para buscar en el contenido
-  const [folioFilter, setFolioFilter] = useState(""); // Filtro específico para folio
+  const [folioFrom, setFolioFrom] = useState(""); // Rango de folios
+  const [folioTo, setFolioTo] = useState("");
+  const [lotFilter, setLotFilter] = useState(""); // Número de lote
   const [departmentFilter, setDepartmentFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
   const [workflowStatusFilter, setWorkflowStatusFilter] = useState("all"); // Filtro para el estado del flujo de trabajo
   const [userFilter, setUserFilter] = useState<number | "all">("all");
-  const [templateFilter, setTemplateFilter] = useState<number | "all">("all");
+  const [templateFilter, setTemplateFilter] = useState<number | "all" | "production">("all");
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
   const [selectedEntry, setSelectedEntry] = useState<FormEntry | null>(null);
@@ -126,10 +138,12 @@ export default function CapturedFormsPage() {
   const [detailsOpen, setDetailsOpen] = useState(false);
   const [filtersVisible, setFiltersVisible] = useState(true); // Mostrar filtros por defecto
   const [showAllFormsContent, setShowAllFormsContent] = useState(false); // Estado para mostrar todos los contenidos
+  const [pagination, setPagination] = useState({ pageIndex: 0, pageSize: 25 });
   
   // Estados para el diálogo de eliminación
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [entryToDelete, setEntryToDelete] = useState<FormEntry | null>(null);
+  const [deleteReason, setDeleteReason] = useState("");
   
   // Estados para el selector de campos
   const [fieldSelectorOpen, setFieldSelectorOpen] = useState(false);
@@ -142,19 +156,46 @@ export default function CapturedFormsPage() {
   const isSuperAdmin = user?.role === UserRole.SUPERADMIN;
   const isAdmin = user?.role === UserRole.ADMIN || user?.role === UserRole.SUPERADMIN;
   
-  // Fetch form entries and production forms
-  const { data: formData, isLoading: isLoadingEntries, refetch: refetchEntries } = useQuery<{
-    entries: FormEntry[];
-    productionForms: any[];
-    totalEntries: number;
-    totalProductionForms: number;
-  }>({
-    queryKey: ["/api/form-entries"],
+  // Los textos se envían al servidor cuando el usuario deja de escribir
+  const debouncedSearchTerm = useDebouncedValue(searchTerm);
+  const debouncedContentSearch = useDebouncedValue(contentSearchTerm);
+  const debouncedLot = useDebouncedValue(lotFilter);
+  const debouncedFolioFrom = useDebouncedValue(folioFrom);
+  const debouncedFolioTo = useDebouncedValue(folioTo);
+
+  // Filtros, orden y paginación se resuelven en el servidor
+  const searchQuery = toSearchQuery({
+    page: pagination.pageIndex + 1,
+    pageSize: pagination.pageSize,
+    source: templateFilter === "production" ? "production" : "all",
+    templateId: typeof templateFilter === "number" ? templateFilter : undefined,
+    search: debouncedSearchTerm,
+    q: debouncedContentSearch,
+    folioFrom: debouncedFolioFrom,
+    folioTo: debouncedFolioTo,
+    lotNumber: debouncedLot,
+    department: departmentFilter,
+    status: statusFilter,
+    workflowStatus: workflowStatusFilter,
+    createdBy: userFilter,
+    dateFrom: startDate ? new Date(new Date(startDate).setHours(0, 0, 0, 0)).toISOString() : undefined,
+    dateTo: endDate ? new Date(new Date(endDate).setHours(23, 59, 59, 999)).toISOString() : undefined,
+  });
+
+  const { data: searchResult, isLoading: isLoadingEntries, refetch: refetchEntries } = useQuery({
+    queryKey: [FORM_ENTRY_SEARCH_KEY, searchQuery],
+    queryFn: () => fetchFormEntrySearch(searchQuery),
+    placeholderData: keepPreviousData,
     enabled: !!user,
   });
 
-  const entries = formData?.entries || [];
-  const productionForms = formData?.productionForms || [];
+  // Cualquier cambio de filtro regresa a la primera página
+  useEffect(() => {
+    setPagination(prev => ({ ...prev, pageIndex: 0 }));
+  }, [
+    debouncedSearchTerm, debouncedContentSearch, debouncedLot, debouncedFolioFrom, debouncedFolioTo,
+    departmentFilter, statusFilter, workflowStatusFilter, userFilter, templateFilter, startDate, endDate
+  ]);
   
   // Fetch templates for filter and display
   const { data: templates } = useQuery<FormTemplate[]>({
@@ -168,23 +209,35 @@ export default function CapturedFormsPage() {
     enabled: !!user,
   });
   
-  // Mutation to update status (e.g., for signing)
-  const updateStatusMutation = useMutation({
-    mutationFn: async ({ entryId, status, signature }: { entryId: number, status: string, signature?: string }) => {
-      const response = await apiRequest("PATCH", `/api/form-entries/${entryId}/status`, { status, signature });
+  // Firmar una entrada: se ejecuta la transición de firma de su flujo, con la contraseña del firmante
+  const signEntryMutation = useMutation({
+    mutationFn: async ({ entryId, signature }: { entryId: number, signature: SignEntry }) => {
+      const workflowResponse = await apiRequest("GET", `/api/form-entries/${entryId}/workflow`);
+      const workflow: { transitions: WorkflowTransition[] } = await workflowResponse.json();
+      const transition = workflow.transitions.find(t => t.requiresSignature);
+      if (!transition) {
+        throw new Error("El flujo de la entrada no tiene una firma disponible para su rol en el estado actual");
+      }
+      const response = await apiRequest("PATCH", `/api/form-entries/${entryId}/workflow`, {
+        workflowStatus: transition.to,
+        signature
+      });
       return await response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/form-entries"] });
+    onSuccess: (_, { entryId }) => {
+      queryClient.invalidateQueries({ queryKey: [FORM_ENTRY_SEARCH_KEY] });
+      queryClient.invalidateQueries({ queryKey: [`/api/form-entries/${entryId}/signatures`] });
       toast({
-        title: "Formulario actualizado",
-        description: "El estado del formulario ha sido actualizado correctamente."
+        title: "Formulario firmado",
+        description: "La firma quedó ligada a los datos actuales del formulario."
       });
+      handleCancelSignature();
     },
     onError: (error: Error) => {
+      setSignPassword("");
       toast({
-        title: "Error",
-        description: `No se pudo actualizar el estado: ${error.message}`,
+        title: "No se pudo firmar",
+        description: error.message,
         variant: "destructive"
       });
     }
@@ -192,8 +245,8 @@ export default function CapturedFormsPage() {
   
   // Mutation para eliminar formularios
   const deleteEntryMutation = useMutation({
-    mutationFn: async (entryId: number) => {
-      const response = await apiRequest('DELETE', `/api/form-entries/${entryId}`);
+    mutationFn: async ({ entryId, reason }: { entryId: number; reason: string }) => {
+      const response = await apiRequest('DELETE', `/api/form-entries/${entryId}`, { reason });
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || 'Error al eliminar el formulario');
@@ -209,9 +262,10 @@ export default function CapturedFormsPage() {
       // Cerrar el diálogo y actualizar la lista
       setDeleteDialogOpen(false);
       setEntryToDelete(null);
+      setDeleteReason("");
       
       // Actualizar la lista de formularios
-      queryClient.invalidateQueries({ queryKey: ["/api/form-entries"] });
+      queryClient.invalidateQueries({ queryKey: [FORM_ENTRY_SEARCH_KEY] });
     },
     onError: (error: Error) => {
       console.error("Error al eliminar formulario:", error);
@@ -236,154 +290,12 @@ export default function CapturedFormsPage() {
     }
   }, [selectedEntry, templates]);
   
-  // Función auxiliar para buscar en el contenido del formulario
-  const searchInFormContent = (entry: FormEntry, searchTerm: string): boolean => {
-    if (!searchTerm || searchTerm === "") return true;
-    
-    const searchTermLower = searchTerm.toLowerCase();
-    
-    try {
-      // Función recursiva para buscar en objetos anidados
-      const searchInNestedObject = (obj: any): boolean => {
-        if (!obj) return false;
-        
-        // Si es un array, buscar en cada elemento
-        if (Array.isArray(obj)) {
-          return obj.some(item => searchInNestedObject(item));
-        }
-        
-        // Si es un objeto, buscar en cada propiedad
-        if (typeof obj === 'object') {
-          return Object.values(obj).some(value => searchInNestedObject(value));
-        }
-        
-        // Para valores primitivos (string, number, etc.)
-        return String(obj).toLowerCase().includes(searchTermLower);
-      };
-      
-      // Comprobar si algún valor en los datos del formulario contiene el término de búsqueda
-      return searchInNestedObject(entry.data);
-    } catch (error) {
-      console.error("Error al buscar en contenido del formulario:", error);
-      return false;
-    }
-  };
-
-  // Combinar formularios regulares y formularios de proceso
-  const combinedForms = React.useMemo(() => {
-    const regularForms = Array.isArray(entries) ? entries : [];
-    const processForms = Array.isArray(productionForms) ? productionForms.map(form => ({
-      id: form.id,
-      formTemplateId: -1, // ID especial para formularios de proceso
-      data: form,
-      createdBy: form.createdBy,
-      createdAt: form.createdAt,
-      updatedAt: form.updatedAt,
-      department: "Producción",
-      status: form.status,
-      folioNumber: form.folio,
-      workflowStatus: form.status,
-      formType: "production", // Identificador especial
-      formName: `Formulario de Producción - ${form.productId}` // Nombre personalizado
-    })) : [];
-    
-    return [...regularForms, ...processForms];
-  }, [entries, productionForms]);
-
-  // Apply filters to combined entries
-  const filteredEntries = combinedForms
-    ? combinedForms.filter(entry => {
-        // Text search (nombre del formulario)
-        const hasSearchTerm = 
-          searchTerm === "" || 
-          (entry.formType === "production" 
-            ? entry.formName?.toLowerCase().includes(searchTerm.toLowerCase()) ?? false
-            : templates?.find(t => t.id === entry.formTemplateId)?.name.toLowerCase().includes(searchTerm.toLowerCase()) ?? false);
-        
-        // Content search (búsqueda en el contenido del formulario)
-        const passesContentSearch = contentSearchTerm === "" || searchInFormContent(entry, contentSearchTerm);
-        
-        // Folio filter (búsqueda en TODOS los campos relacionados con folios)
-        const passesFolioFilter = folioFilter === "" || (() => {
-          const folioSearchTerm = folioFilter.toLowerCase();
-          const data = entry.data;
-          
-          // Buscar en todos los posibles campos de folio
-          const folioFields = [
-            entry.folioNumber, // Para formularios regulares
-            data?.folio, // Folio principal
-            data?.folioInterno, // Folio interno
-            data?.folio_produccion, // Folio de producción
-            data?.folioBajaMP, // Folio baja MP
-            data?.folioBajaME, // Folio baja ME
-            data?.folioPT, // Folio PT
-            data?.liberationFolio, // Folio de liberación
-            data?.lotNumber, // Número de lote
-            // También buscar en campos que puedan tener "folio" en el nombre
-            ...(data ? Object.entries(data)
-              .filter(([key]) => key.toLowerCase().includes('folio'))
-              .map(([, value]) => value) : [])
-          ];
-          
-          // Verificar si algún campo de folio contiene el término de búsqueda
-          return folioFields.some(field => 
-            field && field.toString().toLowerCase().includes(folioSearchTerm)
-          );
-        })();
-        
-        // Department filter
-        const passesDepartmentFilter = 
-          departmentFilter === "all" || 
-          entry.department === departmentFilter;
-        
-        // Status filter
-        const passesStatusFilter = 
-          statusFilter === "all" || 
-          entry.status === statusFilter;
-        
-        // Workflow status filter
-        const passesWorkflowStatusFilter = 
-          workflowStatusFilter === "all" || 
-          entry.workflowStatus === workflowStatusFilter;
-        
-        // User filter — usar Number() para evitar problemas de tipo
-        const passesUserFilter = 
-          userFilter === "all" || 
-          Number(entry.createdBy) === Number(userFilter);
-        
-        // Template filter — usar Number() para evitar problemas de tipo string vs number en diferentes versiones de PostgreSQL
-        const passesTemplateFilter = 
-          templateFilter === "all" || 
-          (templateFilter === "production" && entry.formType === "production") ||
-          (templateFilter !== "all" && templateFilter !== "production" && Number(entry.formTemplateId) === Number(templateFilter));
-        
-        // Date range filter
-        let passesDateFilter = true;
-        const entryDate = new Date(entry.createdAt);
-        
-        if (startDate) {
-          const start = new Date(startDate);
-          start.setHours(0, 0, 0, 0);
-          passesDateFilter = passesDateFilter && entryDate >= start;
-        }
-        
-        if (endDate) {
-          const end = new Date(endDate);
-          end.setHours(23, 59, 59, 999);
-          passesDateFilter = passesDateFilter && entryDate <= end;
-        }
-        
-        return hasSearchTerm && 
-               passesContentSearch &&
-               passesFolioFilter &&
-               passesDepartmentFilter && 
-               passesStatusFilter && 
-               passesWorkflowStatusFilter &&
-               passesUserFilter && 
-               passesTemplateFilter && 
-               passesDateFilter;
-      })
-    : [];
+  // Página actual de resultados; los formularios de producción se marcan para abrir su visor
+  const filteredEntries = (searchResult?.items ?? []).map(item => ({
+    ...item,
+    formType: item.source === "production" ? "production" : undefined,
+    formName: item.source === "production" ? item.templateName : undefined,
+  })) as unknown as (FormEntry & { formType?: string; formName?: string })[];
   
   // State for production form viewing
   const [selectedProductionForm, setSelectedProductionForm] = useState<any>(null);
@@ -466,31 +378,49 @@ export default function CapturedFormsPage() {
   // Sign form state
   const [showSignaturePad, setShowSignaturePad] = useState(false);
   const [formToSign, setFormToSign] = useState<FormEntry | null>(null);
+  const [signatureImage, setSignatureImage] = useState<string | null>(null);
+  const [signatureRole, setSignatureRole] = useState<SignatureRole | null>(null);
+  const [signPassword, setSignPassword] = useState("");
+  
+  // Partes de la firma que el usuario puede firmar con su rol
+  const userSignatureSlots = signatureSlots.filter(slot =>
+    !!user && (user.role === UserRole.SUPERADMIN || slot.userRoles.includes(user.role as UserRole))
+  );
   
   // Sign a form
   const handleSignForm = (entry: FormEntry) => {
     setFormToSign(entry);
+    setSignatureImage(null);
+    setSignatureRole(userSignatureSlots[0]?.role ?? null);
+    setSignPassword("");
     setShowSignaturePad(true);
   };
   
-  // Handle signature save
+  // El trazo se captura primero; la firma se registra al confirmar con la contraseña
   const handleSaveSignature = (signatureDataUrl: string) => {
-    if (formToSign) {
-      updateStatusMutation.mutate({
-        entryId: formToSign.id,
-        status: "signed",
-        signature: signatureDataUrl
-      });
-      
-      setShowSignaturePad(false);
-      setFormToSign(null);
-    }
+    setSignatureImage(signatureDataUrl);
+  };
+  
+  const confirmSignature = () => {
+    if (!formToSign || !signatureRole || !signPassword) return;
+    const slot = signatureSlots.find(s => s.role === signatureRole);
+    signEntryMutation.mutate({
+      entryId: formToSign.id,
+      signature: {
+        signatureRole,
+        meaning: slot?.defaultMeaning ?? SignatureMeaning.APPROVED,
+        password: signPassword,
+        signatureImage: signatureImage ?? undefined
+      }
+    });
   };
   
   // Handle signature cancel
   const handleCancelSignature = () => {
     setShowSignaturePad(false);
     setFormToSign(null);
+    setSignatureImage(null);
+    setSignPassword("");
   };
   
   // Función para exportar datos consolidados de múltiples formularios
@@ -715,12 +645,13 @@ export default function CapturedFormsPage() {
   // Funciones para manejar la eliminación de formularios
   const handleDeleteForm = (entry: FormEntry) => {
     setEntryToDelete(entry);
+    setDeleteReason("");
     setDeleteDialogOpen(true);
   };
   
   const confirmDeleteForm = () => {
     if (entryToDelete) {
-      deleteEntryMutation.mutate(entryToDelete.id);
+      deleteEntryMutation.mutate({ entryId: entryToDelete.id, reason: deleteReason.trim() });
     }
   };
   
@@ -939,7 +870,9 @@ export default function CapturedFormsPage() {
   const clearFilters = () => {
     setSearchTerm("");
     setContentSearchTerm("");
-    setFolioFilter("");
+    setFolioFrom("");
+    setFolioTo("");
+    setLotFilter("");
     setDepartmentFilter("all");
     setStatusFilter("all");
     setWorkflowStatusFilter("all");
@@ -974,10 +907,21 @@ export default function CapturedFormsPage() {
                 )}
               </AlertDialogDescription>
             </AlertDialogHeader>
+            <div className="space-y-2">
+              <label htmlFor="delete-reason" className="text-sm font-medium">
+                Motivo de la eliminación (el folio quedará anulado)
+              </label>
+              <Textarea
+                id="delete-reason"
+                value={deleteReason}
+                onChange={(e) => setDeleteReason(e.target.value)}
+              />
+            </div>
             <AlertDialogFooter>
               <AlertDialogCancel>Cancelar</AlertDialogCancel>
               <AlertDialogAction
                 onClick={confirmDeleteForm}
+                disabled={deleteReason.trim().length < 5}
                 className="bg-red-500 hover:bg-red-600"
               >
                 Eliminar
@@ -1000,10 +944,52 @@ export default function CapturedFormsPage() {
                   )}
                 </DialogDescription>
               </DialogHeader>
-              <SignaturePad 
-                onSave={handleSaveSignature}
-                onCancel={handleCancelSignature}
-              />
+              {signatureImage ? (
+                <div className="space-y-4">
+                  <img src={signatureImage} alt="Firma" className="border rounded-md max-h-32" />
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Firmar como</label>
+                    <Select value={signatureRole ?? undefined} onValueChange={value => setSignatureRole(value as SignatureRole)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Su rol no puede firmar esta entrada" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {userSignatureSlots.map(slot => (
+                          <SelectItem key={slot.role} value={slot.role}>
+                            {slot.label} · {meaningLabels[slot.defaultMeaning]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <label htmlFor="sign-password" className="text-sm font-medium">Contraseña</label>
+                    <Input
+                      id="sign-password"
+                      type="password"
+                      autoComplete="current-password"
+                      value={signPassword}
+                      onChange={(e) => setSignPassword(e.target.value)}
+                    />
+                  </div>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setSignatureImage(null)}>
+                      Volver a firmar
+                    </Button>
+                    <Button
+                      onClick={confirmSignature}
+                      disabled={!signatureRole || !signPassword || signEntryMutation.isPending}
+                    >
+                      {signEntryMutation.isPending ? "Firmando..." : "Firmar"}
+                    </Button>
+                  </DialogFooter>
+                </div>
+              ) : (
+                <SignaturePad 
+                  onSave={handleSaveSignature}
+                  onCancel={handleCancelSignature}
+                />
+              )}
             </DialogContent>
           </Dialog>
         )}
@@ -1021,7 +1007,12 @@ export default function CapturedFormsPage() {
             createdAt: null, 
             createdBy: 0, 
             updatedAt: null, 
-            isActive: null 
+            isActive: null,
+            documentCode: null,
+            revision: 0,
+            issueDate: null,
+            documentApprover: null,
+            nextReviewDate: null
           }}
           initialSelectedFields={selectedFields}
           onSave={handleFieldSelection}
@@ -1083,11 +1074,29 @@ export default function CapturedFormsPage() {
                 </div>
                 
                 <div className="space-y-2">
-                  <label className="text-sm font-medium">Filtrar por Folio</label>
+                  <label className="text-sm font-medium">Rango de folios</label>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      placeholder="Desde"
+                      value={folioFrom}
+                      onChange={(e) => setFolioFrom(e.target.value)}
+                    />
+                    <Input
+                      type="number"
+                      placeholder="Hasta"
+                      value={folioTo}
+                      onChange={(e) => setFolioTo(e.target.value)}
+                    />
+                  </div>
+                </div>
+                
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Número de lote</label>
                   <Input
-                    placeholder="Número de folio o folio de producción..."
-                    value={folioFilter}
-                    onChange={(e) => setFolioFilter(e.target.value)}
+                    placeholder="Lote..."
+                    value={lotFilter}
+                    onChange={(e) => setLotFilter(e.target.value)}
                   />
                 </div>
                 
@@ -1246,9 +1255,14 @@ export default function CapturedFormsPage() {
             <DataTable
               columns={columns}
               data={filteredEntries}
-              searchPlaceholder="Filtrar formularios..."
-              searchColumn="formTemplateId"
               isLoading={isLoadingEntries}
+              serverPagination={{
+                pageIndex: pagination.pageIndex,
+                pageSize: pagination.pageSize,
+                pageCount: searchResult?.totalPages ?? 1,
+                totalCount: searchResult?.total ?? 0,
+                onPaginationChange: setPagination,
+              }}
             />
           </CardContent>
         </Card>
@@ -1305,7 +1319,7 @@ export default function CapturedFormsPage() {
               </CardTitle>
               <CardDescription>
                 {filteredEntries.length > 0 
-                  ? `Mostrando contenido de ${filteredEntries.length} formularios` 
+                  ? `Mostrando contenido de ${filteredEntries.length} de ${searchResult?.total ?? 0} formularios (página actual)` 
                   : "No hay formularios que coincidan con los filtros seleccionados"}
               </CardDescription>
             </CardHeader>
@@ -1350,6 +1364,7 @@ export default function CapturedFormsPage() {
                       <div className="max-h-[500px] overflow-y-auto bg-muted/30 rounded-md p-4">
                         <FormViewer
                           formTemplate={template.structure}
+                          documentCode={template.documentCode}
                           initialData={entry.data}
                           onSubmit={() => {}}
                           isReadOnly={true}
@@ -1415,6 +1430,7 @@ export default function CapturedFormsPage() {
                 <div className="max-h-[60vh] overflow-y-auto mt-4">
                   <FormViewer
                     formTemplate={selectedTemplate.structure}
+                    documentCode={selectedTemplate.documentCode}
                     initialData={selectedEntry.data}
                     onSubmit={() => {}}
                     isReadOnly={true}
@@ -6,7 +6,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { 
   Users, FileText, ClipboardCheck, Activity,
   TrendingUp, TrendingDown, Minus, ArrowRight,
-  Clock, CheckCircle2
+  Clock, CheckCircle2, ShieldAlert, ShieldCheck
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -14,6 +14,14 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { cn } from "@/lib/utils";
 
+interface ActivityChainVerification {
+  valid: boolean;
+  checkedCount: number;
+  legacyCount: number;
+  breaks: { logId: number; reason: string }[];
+  verifiedAt: string;
+}
+
 interface DashboardStats {
   users: number;
   templates: number;
@@ -111,6 +119,11 @@ export default function Dashboard() {
     enabled: !!user,
   });
 
+  const { data: activityIntegrity } = useQuery<ActivityChainVerification>({
+    queryKey: ["/api/activity/verify"],
+    enabled: !!user,
+  });
+
   const { data: formsData, isLoading: isLoadingForms } = useQuery<any[]>({
     queryKey: ["/api/form-templates"],
     enabled: !!user,
@@ -200,10 +213,31 @@ export default function Dashboard() {
                 <CardTitle className="text-base">Actividad Reciente</CardTitle>
                 <CardDescription>Últimas acciones en el sistema</CardDescription>
               </div>
-              <Clock className="h-4 w-4 text-muted-foreground" />
+              {activityIntegrity ? (
+                activityIntegrity.valid ? (
+                  <Badge variant="outline" className="gap-1 text-emerald-700 border-emerald-200">
+                    <ShieldCheck className="h-3.5 w-3.5" />
+                    Bitácora íntegra
+                  </Badge>
+                ) : (
+                  <Badge variant="destructive" className="gap-1">
+                    <ShieldAlert className="h-3.5 w-3.5" />
+                    Integridad comprometida
+                  </Badge>
+                )
+              ) : (
+                <Clock className="h-4 w-4 text-muted-foreground" />
+              )}
             </div>
           </CardHeader>
           <CardContent>
+            {activityIntegrity && !activityIntegrity.valid && (
+              <div className="mb-3 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                La verificación de la bitácora encontró {activityIntegrity.breaks.length}{" "}
+                {activityIntegrity.breaks.length === 1 ? "ruptura" : "rupturas"} en la cadena de huellas
+                (primer registro afectado: #{activityIntegrity.breaks[0]?.logId}). El historial pudo haber sido alterado.
+              </div>
+            )}
             {isLoadingActivities ? (
               <div className="space-y-3">
                 {[...Array(4)].map((_, i) => (
@@ -0,0 +1,475 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileSpreadsheet, Loader2, Pencil } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import MainLayout from "@/layouts/main-layout";
+import { FolioGapReason, FolioResetPolicy, FolioStatus, UserRole } from "@shared/schema";
+import type { FolioGap, FolioSchemeInput, FolioSchemeSummary, FolioSequenceItem, FormTemplate } from "@shared/schema";
+import {
+  PRODUCTION_FORMS_FOLIO_NAME,
+  PRODUCTION_FORMS_FOLIO_TEMPLATE_ID,
+  folioResetPolicyLabels,
+  folioStatusLabels,
+  formatFolio,
+  getFolioPeriodKey,
+  resolveFolioScheme
+} from "@shared/folios";
+
+// Los esquemas los configura administración (igual que en el servidor)
+const folioSchemeRoles = [UserRole.SUPERADMIN, UserRole.ADMIN];
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    const body = JSON.parse(error.message.slice(separator + 1).trim());
+    return body.details?.[0]?.message ?? body.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function describePeriod(period: string): string {
+  return period || "Sin reinicio";
+}
+
+const folioStatusVariants: Record<FolioStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  [FolioStatus.ISSUED]: "default",
+  [FolioStatus.REASSIGNED]: "secondary",
+  [FolioStatus.VOIDED]: "destructive",
+  [FolioStatus.CANCELLED]: "destructive",
+  [FolioStatus.SKIPPED]: "outline"
+};
+
+function formatDateTime(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleString("es-MX") : "";
+}
+
+export default function FoliosPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const canConfigure = !!user && folioSchemeRoles.includes(user.role as UserRole);
+
+  const [templateFilter, setTemplateFilter] = useState("all");
+  const [sequenceTemplateId, setSequenceTemplateId] = useState(String(PRODUCTION_FORMS_FOLIO_TEMPLATE_ID));
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [isExporting, setIsExporting] = useState(false);
+  const [editing, setEditing] = useState<FolioSchemeSummary | null>(null);
+  const [schemeForm, setSchemeForm] = useState<FolioSchemeInput>({ prefix: "", pattern: "", resetPolicy: FolioResetPolicy.NEVER });
+
+  const { data: gaps = [], isLoading: isLoadingGaps } = useQuery<FolioGap[]>({
+    queryKey: ["/api/folio-schemes/gaps"],
+  });
+
+  const { data: templates = [] } = useQuery<FormTemplate[]>({
+    queryKey: ["/api/form-templates"],
+  });
+
+  const { data: sequence = [], isLoading: isLoadingSequence } = useQuery<FolioSequenceItem[]>({
+    queryKey: [`/api/folio-schemes/${sequenceTemplateId}/sequence`],
+  });
+
+  const { data: schemes = [], isLoading: isLoadingSchemes } = useQuery<FolioSchemeSummary[]>({
+    queryKey: ["/api/folio-schemes"],
+    enabled: canConfigure,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ formTemplateId, scheme }: { formTemplateId: number; scheme: FolioSchemeInput }) => {
+      const res = await apiRequest("PUT", `/api/folio-schemes/${formTemplateId}`, scheme);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folio-schemes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/folio-schemes/gaps"] });
+      toast({
+        title: "Esquema guardado",
+        description: `Los próximos folios de ${editing?.templateName} usarán el nuevo formato.`,
+      });
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al guardar el esquema",
+        description: getServerMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (scheme: FolioSchemeSummary) => {
+    setEditing(scheme);
+    setSchemeForm({ prefix: scheme.prefix ?? "", pattern: scheme.pattern ?? "", resetPolicy: scheme.resetPolicy });
+  };
+
+  // Vista previa del folio con el formato capturado (vacío = formato predeterminado)
+  const previewFolio = () => {
+    if (!editing) return "";
+    const now = new Date();
+    const { pattern, prefix } = resolveFolioScheme(
+      { formTemplateId: editing.formTemplateId, prefix: schemeForm.prefix || null, pattern: schemeForm.pattern || null },
+      editing.formTemplateId,
+      editing.templateName
+    );
+    const samePeriod = getFolioPeriodKey(schemeForm.resetPolicy, now) === editing.periodKey;
+    return formatFolio(pattern, prefix, samePeriod ? editing.lastFolioNumber + 1 : 1, now);
+  };
+
+  // Descargar la secuencia de folios y su historial en Excel
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const res = await apiRequest("GET", `/api/folio-schemes/${sequenceTemplateId}/sequence/export`);
+      const blob = await res.blob();
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const fileName = disposition.match(/filename="(.+)"/)?.[1] || "folios.xlsx";
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error al exportar",
+        description: error instanceof Error ? error.message : "No se pudo generar el reporte",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  // Los registros de producción se abren en su propia página
+  const recordHref = (recordId: number) =>
+    sequenceTemplateId === String(PRODUCTION_FORMS_FOLIO_TEMPLATE_ID) ? `/production-form/${recordId}` : `/form-viewer/${recordId}`;
+
+  const filteredSequence = statusFilter === "all" ? sequence : sequence.filter(item => item.status === statusFilter);
+
+  const templateNames = Array.from(new Set(gaps.map(gap => gap.templateName)));
+  const filteredGaps = templateFilter === "all" ? gaps : gaps.filter(gap => gap.templateName === templateFilter);
+
+  return (
+    <MainLayout title="Folios">
+      <Tabs defaultValue="sequence">
+        <TabsList className="mb-4">
+          <TabsTrigger value="sequence">Secuencia</TabsTrigger>
+          <TabsTrigger value="gaps">Faltantes y cancelados</TabsTrigger>
+          {canConfigure && <TabsTrigger value="schemes">Esquemas de folios</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="sequence">
+          <div className="flex flex-wrap items-end gap-4 mb-4">
+            <div className="space-y-2">
+              <Label>Formulario</Label>
+              <Select value={sequenceTemplateId} onValueChange={setSequenceTemplateId}>
+                <SelectTrigger className="w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={String(PRODUCTION_FORMS_FOLIO_TEMPLATE_ID)}>{PRODUCTION_FORMS_FOLIO_NAME}</SelectItem>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={String(template.id)}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Situación</Label>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas</SelectItem>
+                  {Object.values(FolioStatus).map(status => (
+                    <SelectItem key={status} value={status}>{folioStatusLabels[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={handleExport} disabled={isExporting || sequence.length === 0}>
+              {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSpreadsheet className="mr-2 h-4 w-4" />}
+              Exportar a Excel
+            </Button>
+          </div>
+
+          <div className="bg-white rounded-lg shadow">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Periodo</TableHead>
+                  <TableHead>Consecutivo</TableHead>
+                  <TableHead>Folio</TableHead>
+                  <TableHead>Situación</TableHead>
+                  <TableHead>Último movimiento</TableHead>
+                  <TableHead>Motivo</TableHead>
+                  <TableHead>Registro</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingSequence ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto text-border" />
+                    </TableCell>
+                  </TableRow>
+                ) : filteredSequence.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8">
+                      No hay folios para mostrar.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredSequence.map((item, index) => (
+                    <TableRow key={`${item.period}-${item.folioNumber}-${item.folio}-${index}`}>
+                      <TableCell>{describePeriod(item.period)}</TableCell>
+                      <TableCell>{item.folioNumber ?? ""}</TableCell>
+                      <TableCell className="font-mono">{item.folio ?? ""}</TableCell>
+                      <TableCell>
+                        <Badge variant={folioStatusVariants[item.status]}>{folioStatusLabels[item.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {formatDateTime(item.updatedAt)}
+                        {item.userName && <span className="block text-muted-foreground">{item.userName}</span>}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-xs">{item.reason ?? ""}</TableCell>
+                      <TableCell>
+                        {item.recordId !== null && item.status !== FolioStatus.SKIPPED && (
+                          <Link href={recordHref(item.recordId)} className="text-primary hover:underline">
+                            Ver registro
+                          </Link>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        <TabsContent value="gaps">
+          <div className="flex flex-wrap items-end gap-4 mb-4">
+            <div className="space-y-2">
+              <Label>Formulario</Label>
+              <Select value={templateFilter} onValueChange={setTemplateFilter}>
+                <SelectTrigger className="w-72">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {templateNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Faltante: el consecutivo se asignó pero no existe el registro. Cancelado: el registro con ese folio fue rechazado.
+            </p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Formulario</TableHead>
+                  <TableHead>Periodo</TableHead>
+                  <TableHead>Consecutivo</TableHead>
+                  <TableHead>Folio</TableHead>
+                  <TableHead>Situación</TableHead>
+                  <TableHead>Registro</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoadingGaps ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto text-border" />
+                    </TableCell>
+                  </TableRow>
+                ) : filteredGaps.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      La secuencia de folios está completa.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  filteredGaps.map((gap) => (
+                    <TableRow key={`${gap.formTemplateId}-${gap.period}-${gap.folioNumber}`}>
+                      <TableCell>{gap.templateName}</TableCell>
+                      <TableCell>{describePeriod(gap.period)}</TableCell>
+                      <TableCell>{gap.folioNumber}</TableCell>
+                      <TableCell className="font-mono">{gap.folio ?? ""}</TableCell>
+                      <TableCell>
+                        {gap.reason === FolioGapReason.CANCELLED ? (
+                          <Badge variant="destructive">Cancelado</Badge>
+                        ) : (
+                          <Badge variant="outline">Faltante</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {gap.recordId !== null && (
+                          <Link href={`/form-viewer/${gap.recordId}`} className="text-primary hover:underline">
+                            Ver registro
+                          </Link>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </TabsContent>
+
+        {canConfigure && (
+          <TabsContent value="schemes">
+            <div className="bg-white rounded-lg shadow">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Formulario</TableHead>
+                    <TableHead>Formato</TableHead>
+                    <TableHead>Reinicio</TableHead>
+                    <TableHead>Último consecutivo</TableHead>
+                    <TableHead>Siguiente folio</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoadingSchemes ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin mx-auto text-border" />
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    schemes.map((scheme) => (
+                      <TableRow key={scheme.formTemplateId}>
+                        <TableCell className="font-medium">{scheme.templateName}</TableCell>
+                        <TableCell>
+                          <span className="font-mono">{scheme.effectivePattern}</span>
+                          {!scheme.pattern && <span className="ml-2 text-xs text-muted-foreground">(predeterminado)</span>}
+                        </TableCell>
+                        <TableCell>{folioResetPolicyLabels[scheme.resetPolicy]}</TableCell>
+                        <TableCell>
+                          {scheme.lastFolioNumber}
+                          {scheme.periodKey && <span className="ml-1 text-muted-foreground">({scheme.periodKey})</span>}
+                        </TableCell>
+                        <TableCell className="font-mono">{scheme.nextFolio}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="outline" size="sm" onClick={() => openEditor(scheme)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Esquema de folios: {editing?.templateName}</DialogTitle>
+            <DialogDescription>
+              Marcadores: {"{PREFIX}"}, {"{YYYY}"}, {"{YY}"}, {"{MM}"} y {"{SEQ}"} o {"{SEQ:5}"} para un consecutivo de 5 dígitos.
+              Deje el formato vacío para usar el predeterminado.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="folio-prefix">Prefijo</Label>
+              <Input
+                id="folio-prefix"
+                value={schemeForm.prefix ?? ""}
+                placeholder={editing?.effectivePrefix || ""}
+                onChange={(e) => setSchemeForm(prev => ({ ...prev, prefix: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="folio-pattern">Formato</Label>
+              <Input
+                id="folio-pattern"
+                className="font-mono"
+                value={schemeForm.pattern ?? ""}
+                placeholder="{PREFIX}-{YYYY}-{SEQ:5}"
+                onChange={(e) => setSchemeForm(prev => ({ ...prev, pattern: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Reinicio del consecutivo</Label>
+              <Select
+                value={schemeForm.resetPolicy}
+                onValueChange={(value) => setSchemeForm(prev => ({ ...prev, resetPolicy: value as FolioResetPolicy }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.values(FolioResetPolicy).map(policy => (
+                    <SelectItem key={policy} value={policy}>{folioResetPolicyLabels[policy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-sm">
+              Siguiente folio: <span className="font-mono font-medium">{previewFolio()}</span>
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={() => editing && saveMutation.mutate({ formTemplateId: editing.formTemplateId, scheme: schemeForm })}
+              disabled={saveMutation.isPending}
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Guardar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
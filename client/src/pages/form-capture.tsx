@@ -33,6 +33,7 @@ interface FormTemplate {
   description: string;
   department: string;
   structure: any;
+  documentCode: string | null;
 }
 
 interface FormEntry {
@@ -360,6 +361,7 @@ export default function FormCapture() {
             <div className="max-h-[70vh] overflow-y-auto py-4">
               <FormViewer
                 formTemplate={selectedTemplate.structure}
+                documentCode={selectedTemplate.documentCode}
                 initialData={currentEntry?.data}
                 onSubmit={handleFormSubmit}
                 isReadOnly={!!currentEntry}
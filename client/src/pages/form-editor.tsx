@@ -11,6 +11,8 @@ import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { hasStructureChanged } from "@shared/document-control";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -20,6 +22,7 @@ import { ArrowLeft, Save, AlertTriangle } from "lucide-react";
 import MainLayout from "@/layouts/main-layout";
 import FormBuilder from "@/components/forms/form-builder";
 import FormViewer from "@/components/forms/form-viewer";
+import PrintLayoutEditor from "@/components/forms/print-layout-editor";
 
 // Define la interfaz para el formulario
 interface FormTemplate {
@@ -32,6 +35,11 @@ interface FormTemplate {
   createdAt: string;
   updatedAt: string;
   isActive: boolean;
+  documentCode: string | null;
+  revision: number;
+  issueDate: string | null;
+  documentApprover: string | null;
+  nextReviewDate: string | null;
 }
 
 // Form metadata schema
@@ -39,7 +47,20 @@ const formMetadataSchema = z.object({
   name: z.string().min(1, "El nombre es requerido"),
   description: z.string().optional(),
   department: z.string().min(1, "El departamento es requerido"),
-});
+  documentCode: z.string().max(40, "El código admite máximo 40 caracteres").optional(),
+  documentApprover: z.string().max(120, "El aprobador admite máximo 120 caracteres").optional(),
+  issueDate: z.string().optional(),
+  nextReviewDate: z.string().optional(),
+}).refine(
+  data => !data.issueDate || !data.nextReviewDate || data.nextReviewDate >= data.issueDate,
+  { path: ["nextReviewDate"], message: "La próxima revisión no puede ser anterior a la fecha de emisión" }
+);
+
+// Campos de control documental; al editar solo se envían los modificados
+const documentControlFields = ["documentCode", "documentApprover", "issueDate", "nextReviewDate"] as const;
+
+// Fecha ISO del servidor al formato del campo de fecha (AAAA-MM-DD)
+const toDateInput = (value: string | null | undefined) => value ? value.slice(0, 10) : "";
 
 export default function FormEditor() {
   const [, setLocation] = useLocation();
@@ -79,6 +100,10 @@ export default function FormEditor() {
       name: "",
       description: "",
       department: "",
+      documentCode: "",
+      documentApprover: "",
+      issueDate: "",
+      nextReviewDate: "",
     },
   });
 
@@ -107,6 +132,10 @@ export default function FormEditor() {
         name: formData.name,
         description: formData.description || "",
         department: formData.department || "",
+        documentCode: formData.documentCode || "",
+        documentApprover: formData.documentApprover || "",
+        issueDate: toDateInput(formData.issueDate),
+        nextReviewDate: toDateInput(formData.nextReviewDate),
       });
       setFormStructure(formData.structure);
     }
@@ -251,10 +280,17 @@ export default function FormEditor() {
       return;
     }
 
-    const formTemplate = {
-      ...data,
-      structure: formStructure,
+    const { documentCode, documentApprover, issueDate, nextReviewDate, ...metadata } = data;
+    const documentControl = { documentCode, documentApprover, issueDate, nextReviewDate };
+    const formTemplate: Record<string, unknown> = {
+      ...metadata,
+      // Sin diseño de impresión se envía null para que el servidor elimine el anterior
+      structure: { ...formStructure, printLayout: formStructure.printLayout ?? null },
     };
+    // Los campos vacíos se envían como null; la fecha de emisión sin modificar la asigna el servidor al emitir revisión
+    documentControlFields
+      .filter(key => isNewForm || form.formState.dirtyFields[key])
+      .forEach(key => { formTemplate[key] = documentControl[key]?.trim() || null; });
 
     if (isNewForm) {
       createMutation.mutate(formTemplate);
@@ -288,10 +324,11 @@ export default function FormEditor() {
       };
     });
     
-    // Actualizar los datos con los campos procesados
+    // Actualizar los datos con los campos procesados; el constructor no conoce el diseño de impresión
     const processedStructure = {
       ...structureData,
-      fields: processedFields
+      fields: processedFields,
+      printLayout: formStructure?.printLayout
     };
     
     console.log("Estructura procesada para guardar:", processedStructure);
@@ -315,6 +352,11 @@ export default function FormEditor() {
     });
   };
 
+  // Al guardar, un cambio en la estructura emite una nueva revisión del formato
+  const currentRevision = formData?.revision ?? 0;
+  const willBumpRevision = !isNewForm && !!formData && !!formStructure &&
+    hasStructureChanged(formData.structure, { ...formStructure, printLayout: formStructure.printLayout ?? null });
+
   // Loading state
   if (formId && isLoadingForm) {
     return (
@@ -353,9 +395,12 @@ export default function FormEditor() {
           }
           setActiveTab(tab);
         }}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="metadata">Metadatos</TabsTrigger>
             <TabsTrigger value="structure">Estructura</TabsTrigger>
+            <TabsTrigger value="print" disabled={!formStructure}>
+              Impresión
+            </TabsTrigger>
             <TabsTrigger value="preview" disabled={!formStructure}>
               Vista Previa
             </TabsTrigger>
@@ -433,6 +478,84 @@ export default function FormEditor() {
                       )}
                     />
 
+                    <div className="space-y-4 rounded-md border p-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-sm font-semibold">Control documental</h3>
+                        {!isNewForm && (
+                          <span className="text-sm text-muted-foreground">Revisión vigente: {currentRevision}</span>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                        <FormField
+                          control={form.control}
+                          name="documentCode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Código del formato</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Ej: CA-RE-03-01" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="documentApprover"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Aprobó</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Nombre de quien aprobó la revisión" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="issueDate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Fecha de emisión</FormLabel>
+                              <FormControl>
+                                <Input type="date" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="nextReviewDate"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Próxima revisión</FormLabel>
+                              <FormControl>
+                                <Input type="date" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
+
+                      {willBumpRevision && (
+                        <Alert>
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertTitle>La estructura cambió</AlertTitle>
+                          <AlertDescription>
+                            Al guardar se emitirá la revisión {currentRevision + 1}
+                            {form.formState.dirtyFields.issueDate ? "." : " con fecha de emisión de hoy."}
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                    </div>
+
                     <div className="flex justify-end">
                       <Button
                         type="button"
@@ -474,6 +597,29 @@ export default function FormEditor() {
             </Card>
           </TabsContent>
 
+          {/* Print Layout Tab */}
+          <TabsContent value="print">
+            {formStructure && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Diseño de Impresión</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <PrintLayoutEditor
+                    value={formStructure.printLayout}
+                    onChange={(printLayout) => {
+                      setFormStructure({ ...formStructure, printLayout });
+                      toast({
+                        title: printLayout ? "Diseño aplicado" : "Diseño eliminado",
+                        description: "Guarde el formulario para conservar el cambio",
+                      });
+                    }}
+                  />
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
           {/* Preview Tab */}
           <TabsContent value="preview">
             {formStructure && (
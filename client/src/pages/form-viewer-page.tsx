@@ -2,14 +2,21 @@ import { useState } from "react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import SidebarLayout from "@/components/layout/sidebar-layout";
 import FormViewer from "@/components/forms/form-viewer";
 import WorkflowFormViewer from "@/components/workflow/workflow-form-viewer";
+import EntryHistoryPanel from "@/components/forms/entry-history-panel";
+import EntrySignaturesPanel from "@/components/forms/entry-signatures-panel";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Loader2, ArrowLeft } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, ArrowLeft, History, Lock, FilePen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import type { EntryFieldError } from "@shared/schema";
 
 interface FormViewerPageProps {
   params?: {
@@ -18,11 +25,22 @@ interface FormViewerPageProps {
   };
 }
 
+// Resumen para el aviso; el detalle se muestra en cada campo
+function invalidFieldsMessage(errors: EntryFieldError[]) {
+  const count = new Set(errors.map(error => error.fieldId)).size;
+  return `Hay ${count} campo(s) con datos inválidos; revise los campos marcados`;
+}
+
 export default function FormViewerPage({ params }: FormViewerPageProps) {
   const [_, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [isAmending, setIsAmending] = useState(false);
+  const [amendmentData, setAmendmentData] = useState<any | null>(null);
+  const [amendmentReason, setAmendmentReason] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<EntryFieldError[]>([]);
 
   const templateId = params?.templateId;
   const entryId = params?.entryId;
@@ -65,6 +83,49 @@ export default function FormViewerPage({ params }: FormViewerPageProps) {
     enabled: !!entryId && !isNew
   });
 
+  // Las entradas firmadas o aprobadas son de solo lectura; se corrigen con una enmienda
+  const isLocked = !isNew && !!existingEntry && (
+    ['signed', 'approved'].includes(existingEntry.workflowStatus) ||
+    ['signed', 'approved'].includes(existingEntry.status)
+  );
+
+  const amendmentMutation = useMutation({
+    mutationFn: async ({ data, reason }: { data: any; reason: string }) => {
+      const response = await apiRequest('POST', `/api/form-entries/${entryId}/amendments`, { data, reason });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Enmienda registrada",
+        description: "La firma anterior quedó invalidada; el formulario debe firmarse nuevamente",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/form-entries/${entryId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/form-entries/${entryId}/history`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/form-entries/${entryId}/signatures`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/form-entries'] });
+      setAmendmentData(null);
+      setAmendmentReason("");
+      setIsAmending(false);
+      setFieldErrors([]);
+    },
+    onError: (error: Error) => {
+      const separator = error.message.indexOf(':');
+      let description = error.message;
+      try {
+        const body = JSON.parse(error.message.slice(separator + 1).trim());
+        description = body.errors ? invalidFieldsMessage(body.errors) : body.message;
+        setFieldErrors(body.errors || []);
+      } catch {
+        // Mantener el mensaje original si la respuesta no es JSON
+      }
+      toast({
+        title: "No se pudo registrar la enmienda",
+        description,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Mutación para guardar
   const saveMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -83,17 +144,23 @@ export default function FormViewerPage({ params }: FormViewerPageProps) {
       });
 
       if (!response.ok) {
-        throw new Error('Error al guardar formulario');
+        const body = await response.json().catch(() => null);
+        setFieldErrors(body?.errors || []);
+        throw new Error(body?.errors ? invalidFieldsMessage(body.errors) : body?.message || 'Error al guardar formulario');
       }
 
       return response.json();
     },
     onSuccess: () => {
+      setFieldErrors([]);
       toast({
         title: "Éxito",
         description: `Formulario ${isNew ? 'creado' : 'actualizado'} correctamente`,
       });
       queryClient.invalidateQueries({ queryKey: ['/api/form-entries'] });
+      if (entryId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/form-entries/${entryId}/history`] });
+      }
       navigate('/forms');
     },
     onError: (error: Error) => {
@@ -113,6 +180,12 @@ export default function FormViewerPage({ params }: FormViewerPageProps) {
     console.log('[DEBUG] existingEntry cargada:', existingEntry);
     console.log('[DEBUG] formTemplate cargado:', formTemplate);
     
+    // En una entrada firmada, guardar abre la captura del motivo de la enmienda
+    if (isLocked) {
+      setAmendmentData(data);
+      return;
+    }
+    
     setIsSubmitting(true);
     try {
       await saveMutation.mutateAsync(data);
@@ -204,8 +277,80 @@ export default function FormViewerPage({ params }: FormViewerPageProps) {
               </p>
             </div>
           </div>
+          {!isNew && entryId && (
+            <div className="flex items-center space-x-2">
+              {isLocked && !isAmending && (
+                <Button variant="outline" size="sm" onClick={() => setIsAmending(true)}>
+                  <FilePen className="h-4 w-4 mr-2" />
+                  Registrar enmienda
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setShowHistory(true)}>
+                <History className="h-4 w-4 mr-2" />
+                Historial
+              </Button>
+            </div>
+          )}
         </div>
 
+        {isLocked && (
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertTitle>{isAmending ? "Capturando enmienda" : "Formulario firmado"}</AlertTitle>
+            <AlertDescription>
+              {isAmending
+                ? "Corrija los datos y guarde. Se pedirá el motivo y la firma actual quedará invalidada hasta que se firme de nuevo."
+                : "Este formulario está firmado y es de solo lectura. Para corregirlo registre una enmienda."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Dialog open={amendmentData !== null} onOpenChange={open => !open && setAmendmentData(null)}>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>Motivo de la enmienda</DialogTitle>
+              <DialogDescription>
+                El motivo queda registrado en el historial y se imprime en el PDF del formulario
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="amendment-reason">Motivo</Label>
+              <Textarea
+                id="amendment-reason"
+                value={amendmentReason}
+                onChange={e => setAmendmentReason(e.target.value)}
+                placeholder="Describa qué se corrige y por qué"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setAmendmentData(null)}>
+                Cancelar
+              </Button>
+              <Button
+                disabled={amendmentReason.trim().length < 10 || amendmentMutation.isPending}
+                onClick={() => amendmentMutation.mutate({ data: amendmentData, reason: amendmentReason.trim() })}
+              >
+                {amendmentMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Registrar enmienda
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        {!isNew && entryId && (
+          <Dialog open={showHistory} onOpenChange={setShowHistory}>
+            <DialogContent className="max-w-5xl">
+              <DialogHeader>
+                <DialogTitle>Historial de cambios</DialogTitle>
+                <DialogDescription>
+                  Cada guardado queda registrado con el usuario, la fecha y los valores anteriores y nuevos
+                </DialogDescription>
+              </DialogHeader>
+              {showHistory && <EntryHistoryPanel entryId={parseInt(entryId)} />}
+            </DialogContent>
+          </Dialog>
+        )}
+
         {/* Usar WorkflowFormViewer para el formulario PR-PR-02 (id 19) */}
         {(templateId === '19' || formTemplate?.id === 19) ? (
           <WorkflowFormViewer
@@ -225,14 +370,18 @@ export default function FormViewerPage({ params }: FormViewerPageProps) {
           <FormViewer
             formTemplate={formTemplate.structure}
             formTitle={formTemplate.name}
+            documentCode={formTemplate.documentCode}
             formDescription={formTemplate.description}
             initialData={existingEntry?.data || {}}
             onSubmit={handleSubmit}
             onExport={!isNew ? handleExport : undefined}
-            isLoading={isSubmitting || saveMutation.isPending}
-            isReadOnly={false}
+            isLoading={isSubmitting || saveMutation.isPending || amendmentMutation.isPending}
+            isReadOnly={isLocked && !isAmending}
+            fieldErrors={fieldErrors}
           />
         )}
+
+        {!isNew && entryId && <EntrySignaturesPanel entryId={parseInt(entryId)} />}
       </div>
     </SidebarLayout>
   );
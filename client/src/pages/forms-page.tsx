@@ -4,6 +4,7 @@ import { Link } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
 import { 
@@ -46,6 +47,7 @@ interface FormTemplate {
   createdAt: string;
   updatedAt: string;
   isActive: boolean;
+  documentCode: string | null;
 }
 
 export default function FormsPage() {
@@ -57,6 +59,7 @@ export default function FormsPage() {
   const [previewOpen, setPreviewOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [formToDelete, setFormToDelete] = useState<FormTemplate | null>(null);
+  const [deleteReason, setDeleteReason] = useState("");
   const [deleteErrorDialogOpen, setDeleteErrorDialogOpen] = useState(false);
   const [deleteError, setDeleteError] = useState("");
   
@@ -100,8 +103,8 @@ export default function FormsPage() {
   
   // Mutation para eliminar formularios
   const deleteFormMutation = useMutation({
-    mutationFn: async (formId: number) => {
-      const response = await apiRequest('DELETE', `/api/form-templates/${formId}`);
+    mutationFn: async ({ formId, reason }: { formId: number; reason: string }) => {
+      const response = await apiRequest('DELETE', `/api/form-templates/${formId}`, { reason });
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || 'Error al eliminar el formulario');
@@ -117,6 +120,7 @@ export default function FormsPage() {
       // Cerrar el diálogo y actualizar la lista
       setDeleteDialogOpen(false);
       setFormToDelete(null);
+      setDeleteReason("");
       
       // Actualizar la lista de formularios
       queryClient.invalidateQueries({ queryKey: ["/api/form-templates"] });
@@ -124,8 +128,8 @@ export default function FormsPage() {
     onError: (error: Error) => {
       console.error("Error al eliminar formulario:", error);
       
-      // Si el error es porque hay entradas asociadas, mostramos diálogo específico
-      if (error.message.includes("tiene entradas asociadas")) {
+      // Si el error es porque hay entradas asociadas o firmadas, mostramos diálogo específico
+      if (error.message.includes("tiene entradas")) {
         setDeleteError(error.message);
         setDeleteErrorDialogOpen(true);
       } else {
@@ -326,12 +330,13 @@ export default function FormsPage() {
   // Funciones para manejar la eliminación de formularios
   const handleDeleteForm = (form: FormTemplate) => {
     setFormToDelete(form);
+    setDeleteReason("");
     setDeleteDialogOpen(true);
   };
   
   const confirmDeleteForm = () => {
     if (formToDelete) {
-      deleteFormMutation.mutate(formToDelete.id);
+      deleteFormMutation.mutate({ formId: formToDelete.id, reason: deleteReason.trim() });
     }
   };
   
@@ -395,6 +400,7 @@ export default function FormsPage() {
               <div className="max-h-[70vh] overflow-y-auto py-4">
                 <FormViewer
                   formTemplate={selectedForm.structure}
+                  documentCode={selectedForm.documentCode}
                   isReadOnly={true}
                   onSubmit={() => {}}
                   onExport={(format) => handleExportForm(selectedForm, format)}
@@ -459,6 +465,16 @@ export default function FormsPage() {
               )}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <label htmlFor="delete-form-reason" className="text-sm font-medium">
+              Motivo de la eliminación (los folios de sus entradas quedarán anulados)
+            </label>
+            <Textarea
+              id="delete-form-reason"
+              value={deleteReason}
+              onChange={(e) => setDeleteReason(e.target.value)}
+            />
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel 
               onClick={() => {
@@ -471,7 +487,7 @@ export default function FormsPage() {
             <AlertDialogAction 
               onClick={confirmDeleteForm}
               className="bg-red-500 hover:bg-red-600 focus:ring-red-500"
-              disabled={deleteFormMutation.isPending}
+              disabled={deleteFormMutation.isPending || deleteReason.trim().length < 5}
             >
               {deleteFormMutation.isPending ? (
                 <>
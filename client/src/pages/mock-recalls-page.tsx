@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, PlayCircle, FileDown, FileSpreadsheet } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import MainLayout from "@/layouts/main-layout";
+import type { MockRecall, StartMockRecall } from "@shared/schema";
+import { formatElapsedMinutes, getMockRecallElapsedMinutes } from "@shared/mock-recalls";
+import { format } from "date-fns";
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    const body = JSON.parse(error.message.slice(separator + 1).trim());
+    return body.details?.[0]?.message ?? body.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function formatDateTime(date: Date | string | null): string {
+  return date ? format(new Date(date), "dd/MM/yyyy HH:mm") : "";
+}
+
+export default function MockRecallsPage() {
+  const { toast } = useToast();
+  const [lotNumber, setLotNumber] = useState("");
+  const [notes, setNotes] = useState("");
+  const [exporting, setExporting] = useState<string | null>(null);
+
+  const { data: recalls = [], isLoading } = useQuery<MockRecall[]>({
+    queryKey: ["/api/mock-recalls"],
+  });
+
+  // Iniciar el simulacro: el tiempo corre desde este momento hasta generar el paquete
+  const startMutation = useMutation({
+    mutationFn: async (data: StartMockRecall) => {
+      const res = await apiRequest("POST", "/api/mock-recalls", data);
+      return await res.json();
+    },
+    onSuccess: (recall: MockRecall) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/mock-recalls"] });
+      toast({
+        title: "Simulacro iniciado",
+        description: `Lote ${recall.lotNumber}: ${recall.productionFormIds.length + recall.formEntryIds.length} registros reunidos.`,
+      });
+      setLotNumber("");
+      setNotes("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "No se pudo iniciar el simulacro",
+        description: getServerMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Descargar el paquete; la primera descarga concluye el simulacro
+  const handleExport = async (recall: MockRecall, exportFormat: "pdf" | "excel") => {
+    setExporting(`${recall.id}-${exportFormat}`);
+    try {
+      const res = await apiRequest("GET", `/api/mock-recalls/${recall.id}/export?format=${exportFormat}`);
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `simulacro_retiro_${recall.lotNumber}.${exportFormat === "pdf" ? "pdf" : "xlsx"}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      queryClient.invalidateQueries({ queryKey: ["/api/mock-recalls"] });
+    } catch (error) {
+      toast({
+        title: "Error al generar el paquete",
+        description: error instanceof Error ? getServerMessage(error) : "No se pudo generar el paquete",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <MainLayout title="Simulacros de Retiro">
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Nuevo simulacro</CardTitle>
+          <CardDescription>
+            Se reúnen los formularios de producción y los registros capturados con el lote, además de la liberación
+            preoperativa, la inspección de limpieza y el registro de temperaturas del día y la marmita de producción.
+            El tiempo transcurrido se mide hasta la primera descarga del paquete.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="flex flex-wrap items-end gap-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              startMutation.mutate({ lotNumber: lotNumber.trim(), notes: notes.trim() || undefined });
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="recall-lot">Lote de producto terminado</Label>
+              <Input id="recall-lot" value={lotNumber} onChange={(e) => setLotNumber(e.target.value)} className="w-60" />
+            </div>
+            <div className="space-y-2 flex-1 min-w-60">
+              <Label htmlFor="recall-notes">Notas (opcional)</Label>
+              <Input id="recall-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+            </div>
+            <Button type="submit" disabled={!lotNumber.trim() || startMutation.isPending}>
+              {startMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <PlayCircle className="mr-2 h-4 w-4" />
+              )}
+              Iniciar simulacro
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="bg-white rounded-lg shadow">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Lote</TableHead>
+              <TableHead>Inicio</TableHead>
+              <TableHead>Conclusión</TableHead>
+              <TableHead>Tiempo transcurrido</TableHead>
+              <TableHead>Registros</TableHead>
+              <TableHead className="text-right">Paquete</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin mx-auto text-border" />
+                </TableCell>
+              </TableRow>
+            ) : recalls.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center py-8">
+                  No hay simulacros registrados.
+                </TableCell>
+              </TableRow>
+            ) : (
+              recalls.map((recall) => (
+                <TableRow key={recall.id}>
+                  <TableCell className="font-medium">{recall.lotNumber}</TableCell>
+                  <TableCell>{formatDateTime(recall.startedAt)}</TableCell>
+                  <TableCell>
+                    {recall.completedAt ? formatDateTime(recall.completedAt) : <Badge variant="outline">En curso</Badge>}
+                  </TableCell>
+                  <TableCell>{formatElapsedMinutes(getMockRecallElapsedMinutes(recall))}</TableCell>
+                  <TableCell>
+                    {recall.productionFormIds.length} producción / {recall.formEntryIds.length} registros
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={exporting !== null}
+                      onClick={() => handleExport(recall, "pdf")}
+                    >
+                      {exporting === `${recall.id}-pdf` ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <FileDown className="mr-2 h-4 w-4" />
+                      )}
+                      PDF
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={exporting !== null}
+                      onClick={() => handleExport(recall, "excel")}
+                    >
+                      {exporting === `${recall.id}-excel` ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <FileSpreadsheet className="mr-2 h-4 w-4" />
+                      )}
+                      Excel
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </MainLayout>
+  );
+}
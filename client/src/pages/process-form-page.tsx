@@ -9,7 +9,8 @@ import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertCircle, ArrowLeft } from "lucide-react";
 import ProcessFormEditor, { ProcessFormStatus, ProcessFormData } from "@/components/process-forms/process-form-editor";
-import { SectionPermission } from "@/components/process-forms/section-permissions";
+import { SectionPermission, getSectionPermissionsFromStructure } from "@/components/process-forms/section-permissions";
+import { UserRole } from "@shared/schema";
 import { FormStructure } from "@/components/forms/form-builder";
 import { Skeleton } from "@/components/ui/skeleton";
 
@@ -18,49 +19,49 @@ const PRODUCTION_FORM_SECTIONS: SectionPermission[] = [
   {
     sectionId: "general",
     sectionName: "Información General",
-    allowedRoles: ["operator", "production_manager", "quality_manager"],
+    allowedRoles: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER],
     order: 0,
     editable: true
   },
   {
     sectionId: "raw-materials",
     sectionName: "Materias Primas",
-    allowedRoles: ["operator", "production_manager", "quality_manager"],
+    allowedRoles: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER],
     order: 1,
     editable: true
   },
   {
     sectionId: "process-data",
     sectionName: "Datos de Proceso",
-    allowedRoles: ["operator", "production_manager", "quality_manager"],
+    allowedRoles: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER],
     order: 2,
     editable: true
   },
   {
     sectionId: "quality-verification",
     sectionName: "Verificación de Calidad",
-    allowedRoles: ["operator", "production_manager", "quality_manager"],
+    allowedRoles: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER],
     order: 3,
     editable: true
   },
   {
     sectionId: "notes",
     sectionName: "Notas",
-    allowedRoles: ["operator", "production_manager", "quality_manager"],
+    allowedRoles: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER],
     order: 4,
     editable: true
   },
   {
     sectionId: "product-destination",
     sectionName: "Destino de Producto",
-    allowedRoles: ["operator", "production_manager", "quality_manager"],
+    allowedRoles: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER],
     order: 5,
     editable: true
   },
   {
     sectionId: "liberation-data",
     sectionName: "Datos de Liberación",
-    allowedRoles: ["operator", "production_manager", "quality_manager"],
+    allowedRoles: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER],
     order: 6,
     editable: true
   }
@@ -85,11 +86,10 @@ export default function ProcessFormPage() {
         }
         
         const templateData = await res.json();
-        // Asignar permisos de secciones - por ahora usamos los definidos estáticamente
-        // En un futuro deberían venir del backend
+        // Permisos de secciones guardados en la plantilla (los estáticos solo si la plantilla no los define)
         return {
           ...templateData,
-          sectionPermissions: PRODUCTION_FORM_SECTIONS
+          sectionPermissions: getSectionPermissionsFromStructure(templateData.structure) ?? PRODUCTION_FORM_SECTIONS
         };
       } catch (error) {
         throw new Error("Error al cargar la plantilla del formulario");
@@ -128,9 +128,10 @@ export default function ProcessFormsList() {
   };
   
   const handleDelete = async (id: number) => {
-    if (window.confirm("¿Está seguro de que desea eliminar este formulario?")) {
+    const reason = window.prompt("Motivo de la eliminación (el folio quedará anulado):")?.trim();
+    if (reason) {
       try {
-        await deleteFormMutation.mutateAsync(id);
+        await deleteFormMutation.mutateAsync({ id, reason });
       } catch (error) {
         console.error("Error al eliminar formulario:", error);
       }
@@ -465,14 +466,18 @@ function DulcesFormsList() {
   };
 
   const handleDeleteEntry = async (entryId: number) => {
-    if (window.confirm("¿Está seguro de que desea eliminar este formulario?")) {
+    const reason = window.prompt("Motivo de la eliminación (el folio quedará anulado):")?.trim();
+    if (reason) {
       try {
         const response = await fetch(`/api/form-entries/${entryId}`, {
           method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ reason }),
         });
         
         if (!response.ok) {
-          throw new Error('Error al eliminar formulario');
+          const errorData = await response.json().catch(() => null);
+          throw new Error(errorData?.details?.[0]?.message || errorData?.message || 'Error al eliminar formulario');
         }
         
         toast({
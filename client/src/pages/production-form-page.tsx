@@ -4,7 +4,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, Loader2 } from "lucide-react";
 import ProductionForm from "@/components/process-forms/production-form";
+import ProductionFormMergeDialog from "@/components/process-forms/production-form-merge-dialog";
+import type { ProductionFormConflict } from "@/components/process-forms/production-form-merge-dialog";
+import { getConflictingForm } from "@/lib/production-form-merge";
 import { ProductionFormStatus } from "@shared/schema";
+import type { ProductionForm as ProductionFormRecord } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useProductionForm, useProductionForms } from "@/hooks/use-production-form";
@@ -29,6 +33,10 @@ export default function ProductionFormPage() {
   // Estado para el formulario que se está editando
   const [formData, setFormData] = useState<any>(DEFAULT_FORM_DATA);
   const [isNewForm, setIsNewForm] = useState(true);
+  // Guardado rechazado por cambios de otro usuario; se resuelve en el diálogo de combinación
+  const [conflict, setConflict] = useState<ProductionFormConflict | null>(null);
+  // Se incrementa al combinar o descartar para que el formulario muestre los datos del servidor
+  const [formRevision, setFormRevision] = useState(0);
   
   // Hooks para interactuar con los formularios
   const { form, isLoading: isLoadingForm } = useProductionForm(
@@ -64,18 +72,30 @@ export default function ProductionFormPage() {
     }
   }, [form, match, user, isLoadingForm, hasLoadedInitialData]);
   
+  // Guardar cambios sobre la versión "base" que se editó; si otro usuario guardó antes, se abre el diálogo de combinación
+  const saveChanges = async (base: any, data: any): Promise<boolean> => {
+    const formId = parseInt(params!.id);
+    try {
+      const updatedForm = await updateFormMutation.mutateAsync({ id: formId, data: { ...data, version: base.version } });
+      // Actualizar el estado local con los datos guardados (incluyendo campos calculados del servidor)
+      setFormData(updatedForm);
+      setConflict(null);
+      return true;
+    } catch (error) {
+      const current = getConflictingForm(error);
+      if (current) {
+        setConflict({ base, mine: data, theirs: current });
+      } else {
+        console.error("Error al guardar el formulario:", error);
+      }
+      return false;
+    }
+  };
+
   // Manejar guardado del formulario
   const handleSave = async (data: any) => {
-    console.log("=== DATOS ENVIADOS AL SERVIDOR ===");
-    console.log("isNewForm:", isNewForm);
-    console.log("match:", match);
-    console.log("params?.id:", params?.id);
-    console.log("data.startTime:", data.startTime);
-    console.log("data.endTime:", data.endTime);
-    console.log("Datos completos:", JSON.stringify(data, null, 2));
-    
-    try {
-      if (isNewForm || !match || !params?.id) {
+    if (isNewForm || !match || !params?.id) {
+      try {
         // Crear nuevo formulario
         await createFormMutation.mutateAsync({
           ...data,
@@ -92,23 +112,39 @@ export default function ProductionFormPage() {
         setTimeout(() => {
           setLocation("/process-forms");
         }, 1500);
-      } else {
-        // Actualizar formulario existente
-        const formId = parseInt(params.id);
-        console.log("Actualizando formulario con ID:", formId);
-        const updatedForm = await updateFormMutation.mutateAsync({ id: formId, data });
-        // Actualizar el estado local con los datos guardados (incluyendo campos calculados del servidor)
-        setFormData(updatedForm);
-        
-        toast({
-          title: "Formulario actualizado",
-          description: "El formulario ha sido actualizado correctamente"
-        });
+      } catch (error) {
+        console.error("Error al guardar el formulario:", error);
       }
-    } catch (error) {
-      console.error("Error al guardar el formulario:", error);
+      return;
+    }
+
+    // Actualizar formulario existente
+    if (await saveChanges(formData, data)) {
+      toast({
+        title: "Formulario actualizado",
+        description: "El formulario ha sido actualizado correctamente"
+      });
+    }
+  };
+
+  // Guardar la combinación elegida en el diálogo; la base pasa a ser la versión del otro usuario
+  const handleMerge = async (merged: any) => {
+    if (!conflict) return;
+    if (await saveChanges(conflict.theirs, merged)) {
+      setFormRevision((revision) => revision + 1);
+      toast({
+        title: "Cambios combinados",
+        description: "El formulario se guardó con los cambios de ambos usuarios"
+      });
     }
   };
+
+  // Descartar los cambios propios y continuar con la versión guardada por el otro usuario
+  const handleDiscard = (theirs: ProductionFormRecord) => {
+    setFormData(theirs);
+    setConflict(null);
+    setFormRevision((revision) => revision + 1);
+  };
   
   // Mostrar cargando si estamos obteniendo un formulario existente
   if (match && isLoadingForm) {
@@ -153,11 +189,19 @@ export default function ProductionFormPage() {
             </div>
             
             <ProductionForm
-              key={`form-${formData.id || 'new'}-${user?.id}`}
+              key={`form-${formData.id || 'new'}-${user?.id}-${formRevision}`}
               initialData={formData}
               onSave={handleSave}
               readOnly={createFormMutation.isPending || updateFormMutation.isPending}
             />
+
+            <ProductionFormMergeDialog
+              conflict={conflict}
+              isSaving={updateFormMutation.isPending}
+              onMerge={handleMerge}
+              onDiscard={handleDiscard}
+              onCancel={() => setConflict(null)}
+            />
           </CardContent>
         </Card>
       </div>
@@ -35,9 +35,11 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, PlusCircle, Pencil, Trash2, Search } from "lucide-react";
+import { Loader2, PlusCircle, Pencil, Trash2, Search, Gauge } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import MainLayout from "@/layouts/main-layout";
+import ProductSpecificationsDialog from "@/components/products/product-specifications-dialog";
+import { UserRole } from "@shared/schema";
 
 interface Product {
   id: number;
@@ -66,6 +68,7 @@ export default function ProductsPage() {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isUpdateDialogOpen, setIsUpdateDialogOpen] = useState(false);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
+  const [specsProduct, setSpecsProduct] = useState<Product | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [formData, setFormData] = useState<ProductFormData>({
     name: "",
@@ -196,6 +199,9 @@ export default function ProductsPage() {
     setIsUpdateDialogOpen(true);
   };
 
+  // Los límites de especificación los definen administración y Gerencia de Calidad
+  const canEditSpecifications = !!user && [UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.QUALITY_MANAGER].includes(user.role as UserRole);
+
   const handleDeleteClick = (id: number) => {
     deleteMutation.mutate(id);
   };
@@ -495,6 +501,16 @@ export default function ProductsPage() {
                   <TableCell>{product.category || "-"}</TableCell>
                   <TableCell>{product.unit || "-"}</TableCell>
                   <TableCell className="text-right space-x-2">
+                    {canEditSpecifications && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Especificaciones"
+                        onClick={() => setSpecsProduct(product)}
+                      >
+                        <Gauge className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -540,6 +556,11 @@ export default function ProductsPage() {
           </TableBody>
         </Table>
       </div>
+
+      <ProductSpecificationsDialog
+        product={specsProduct}
+        onOpenChange={open => !open && setSpecsProduct(null)}
+      />
     </MainLayout>
   );
 }
\ No newline at end of file
@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useRecipes } from "@/hooks/use-recipes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, PlusCircle, Pencil, Trash2, Search, CheckCircle, CopyPlus } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import MainLayout from "@/layouts/main-layout";
+import RecipeEditorDialog from "@/components/recipes/recipe-editor-dialog";
+import { RecipeStatus, UserRole } from "@shared/schema";
+import type { RecipeWithIngredients } from "@shared/schema";
+import { getRecipeVersionState } from "@shared/recipes";
+import { format } from "date-fns";
+
+// Las recetas las mantienen administración y Gerencia de Calidad (igual que en el servidor)
+const recipeEditorRoles = [UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.QUALITY_MANAGER];
+
+// Sólo Gerencia de Calidad aprueba versiones
+const recipeApproverRoles = [UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER];
+
+// Extrae el mensaje del servidor de un error "status: {json}"
+function getServerMessage(error: Error): string {
+  const separator = error.message.indexOf(":");
+  try {
+    const body = JSON.parse(error.message.slice(separator + 1).trim());
+    return body.details?.[0]?.message ?? body.message;
+  } catch {
+    return error.message;
+  }
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? format(new Date(date), "dd/MM/yyyy") : "";
+}
+
+function RecipeStateBadge({ recipe, recipes }: { recipe: RecipeWithIngredients; recipes: RecipeWithIngredients[] }) {
+  switch (getRecipeVersionState(recipe, recipes)) {
+    case "draft":
+      return <Badge variant="outline">Borrador</Badge>;
+    case "current":
+      return <Badge variant="default">Vigente</Badge>;
+    case "scheduled":
+      return <Badge variant="secondary">Programada desde {formatDate(recipe.effectiveFrom)}</Badge>;
+    default:
+      return <Badge variant="outline" className="text-muted-foreground">Reemplazada</Badge>;
+  }
+}
+
+export default function RecipesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { recipes, isLoading } = useRecipes();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [selectedRecipe, setSelectedRecipe] = useState<RecipeWithIngredients | null>(null);
+  const [recipeToApprove, setRecipeToApprove] = useState<RecipeWithIngredients | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+
+  const canEdit = !!user && recipeEditorRoles.includes(user.role as UserRole);
+  const canApprove = !!user && recipeApproverRoles.includes(user.role as UserRole);
+
+  // Aprobar una versión en borrador a partir de la fecha indicada (vacía = de inmediato)
+  const approveMutation = useMutation({
+    mutationFn: async ({ id, effectiveFrom }: { id: number; effectiveFrom: string }) => {
+      const res = await apiRequest("POST", `/api/recipes/${id}/approve`, {
+        effectiveFrom: effectiveFrom ? new Date(`${effectiveFrom}T00:00:00`).toISOString() : undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (recipe: RecipeWithIngredients) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      toast({
+        title: "Receta aprobada",
+        description: `${recipe.name} v${recipe.version} vigente desde ${formatDate(recipe.effectiveFrom)}.`,
+      });
+      setRecipeToApprove(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al aprobar la receta",
+        description: getServerMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Eliminar receta
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/recipes/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recipes"] });
+      toast({
+        title: "Receta eliminada",
+        description: "La receta ha sido eliminada correctamente.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al eliminar la receta",
+        description: getServerMessage(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openApproval = (recipe: RecipeWithIngredients) => {
+    setRecipeToApprove(recipe);
+    setEffectiveFrom(format(new Date(), "yyyy-MM-dd"));
+  };
+
+  const openEditor = (recipe: RecipeWithIngredients | null) => {
+    setSelectedRecipe(recipe);
+    setEditorOpen(true);
+  };
+
+  // Filtrar recetas por producto, nombre o materia prima
+  const filteredRecipes = recipes.filter((recipe) => {
+    const searchLower = searchTerm.toLowerCase();
+    return (
+      recipe.productName.toLowerCase().includes(searchLower) ||
+      recipe.name.toLowerCase().includes(searchLower) ||
+      recipe.ingredients.some(ingredient => ingredient.materialName.toLowerCase().includes(searchLower))
+    );
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-border" />
+      </div>
+    );
+  }
+
+  return (
+    <MainLayout title="Recetas de Productos">
+      {canEdit && (
+        <div className="flex justify-between items-center mb-6">
+          <Button onClick={() => openEditor(null)}>
+            <PlusCircle className="mr-2 h-4 w-4" />
+            Nueva Receta
+          </Button>
+        </div>
+      )}
+
+      <div className="mb-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            placeholder="Buscar receta por producto, nombre o materia prima..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Producto</TableHead>
+              <TableHead>Receta</TableHead>
+              <TableHead>Versión</TableHead>
+              <TableHead>Litros base</TableHead>
+              <TableHead>Ingredientes</TableHead>
+              <TableHead>Estado</TableHead>
+              {canEdit && <TableHead className="text-right">Acciones</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredRecipes.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={canEdit ? 7 : 6} className="text-center py-8">
+                  {searchTerm
+                    ? "No se encontraron recetas que coincidan con la búsqueda."
+                    : "No hay recetas registradas."}
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredRecipes.map((recipe) => (
+                <TableRow key={recipe.id}>
+                  <TableCell>{recipe.productName}</TableCell>
+                  <TableCell>{recipe.name}</TableCell>
+                  <TableCell>v{recipe.version}</TableCell>
+                  <TableCell>{recipe.baseQuantity} L</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {recipe.ingredients
+                      .map(ingredient => `${ingredient.materialName} ${ingredient.quantity} ${ingredient.unit ?? ""}`.trim())
+                      .join(", ")}
+                  </TableCell>
+                  <TableCell>
+                    <RecipeStateBadge recipe={recipe} recipes={recipes} />
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      {recipe.status !== RecipeStatus.DRAFT ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Nueva versión"
+                          onClick={() => openEditor(recipe)}
+                        >
+                          <CopyPlus className="h-4 w-4" />
+                        </Button>
+                      ) : (
+                      <>
+                      {canApprove && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          title="Aprobar"
+                          onClick={() => openApproval(recipe)}
+                        >
+                          <CheckCircle className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => openEditor(recipe)}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="text-red-500 hover:text-red-600 border-red-200 hover:border-red-300"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>¿Confirmar eliminación?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Esta acción eliminará el borrador <strong>{recipe.name} v{recipe.version}</strong> de {recipe.productName}.
+                              Las versiones aprobadas no se ven afectadas.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteMutation.mutate(recipe.id)}
+                              className="bg-red-500 hover:bg-red-600"
+                            >
+                              {deleteMutation.isPending && (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              )}
+                              Eliminar
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                      </>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <RecipeEditorDialog
+        open={editorOpen}
+        recipe={selectedRecipe}
+        onOpenChange={setEditorOpen}
+      />
+
+      <Dialog open={!!recipeToApprove} onOpenChange={(open) => !open && setRecipeToApprove(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Aprobar {recipeToApprove?.name} v{recipeToApprove?.version}
+            </DialogTitle>
+            <DialogDescription>
+              A partir de la fecha de vigencia los nuevos formularios de producción de {recipeToApprove?.productName} usarán
+              esta versión. Una vez aprobada ya no podrá modificarse.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="recipe-effective-from">Vigente desde</Label>
+            <Input
+              id="recipe-effective-from"
+              type="date"
+              min={format(new Date(), "yyyy-MM-dd")}
+              value={effectiveFrom}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRecipeToApprove(null)}>
+              Cancelar
+            </Button>
+            <Button
+              disabled={approveMutation.isPending}
+              onClick={() => recipeToApprove && approveMutation.mutate({ id: recipeToApprove.id, effectiveFrom })}
+            >
+              {approveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Aprobar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
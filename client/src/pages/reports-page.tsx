@@ -26,6 +26,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, LineChart, Line, CartesianGrid } from "recharts";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { FORM_ENTRY_SEARCH_KEY, fetchFormEntrySearch, toSearchQuery } from "@/lib/form-entry-search";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import { SavedReport } from "@shared/schema";
 import { FieldsSelectorModal } from "@/components/fields-selector-modal";
 
@@ -147,6 +149,9 @@ const formatFieldName = (fieldId: string): string => {
 const displayNameMap: Record<string, string> = {};
 
 // Esquema para el formulario de guardado de reportes
+// Máximo de registros que se cargan para gráficas y exportaciones; el resto se acota con filtros
+const REPORT_MAX_ROWS = 500;
+
 const saveReportSchema = z.object({
   name: z.string().min(1, "El nombre es requerido"),
   description: z.string().optional(),
@@ -210,10 +215,23 @@ export default function ReportsPage() {
     }
   });
 
-  // Fetch form entries for reports
-  const { data: entriesData, isLoading: isLoadingEntries } = useQuery<FormEntry[]>({
-    queryKey: ["/api/form-entries"],
+  // Fetch form entries for reports: los filtros se aplican en el servidor
+  const debouncedSearchTerm = useDebouncedValue(searchTerm);
+  const searchQuery = toSearchQuery({
+    pageSize: REPORT_MAX_ROWS,
+    search: debouncedSearchTerm,
+    department: departmentFilter,
+    templateId: formFilter,
+    createdBy: userFilter,
+    dateFrom: dateRange?.from?.toISOString(),
+    dateTo: dateRange?.to ? new Date(new Date(dateRange.to).setHours(23, 59, 59, 999)).toISOString() : undefined,
+  });
+
+  const { data: searchResult, isLoading: isLoadingEntries } = useQuery({
+    queryKey: [FORM_ENTRY_SEARCH_KEY, searchQuery],
+    queryFn: () => fetchFormEntrySearch(searchQuery),
   });
+  const entriesData = searchResult?.items as unknown as FormEntry[] | undefined;
 
   // Fetch form templates for filter
   const { data: templates, isLoading: isLoadingTemplates } = useQuery<FormTemplate[]>({
@@ -394,30 +412,8 @@ export default function ReportsPage() {
     }
   }, [entriesData, templates, users]);
 
-  // Apply filters
-  const filteredEntries = processedEntries.filter(entry => {
-    // Search filter
-    const searchMatches = 
-      !searchTerm || 
-      (entry.formName && entry.formName.toLowerCase().includes(searchTerm.toLowerCase())) ||
-      (entry.userName && entry.userName.toLowerCase().includes(searchTerm.toLowerCase()));
-    
-    // Department filter
-    const departmentMatches = !departmentFilter || departmentFilter === "all" || entry.department === departmentFilter;
-    
-    // Form filter
-    const formMatches = !formFilter || formFilter === "all" || entry.formTemplateId.toString() === formFilter;
-    
-    // User filter
-    const userMatches = !userFilter || userFilter === "all" || entry.createdBy.toString() === userFilter;
-    
-    // Date range filter
-    const dateMatches = !dateRange || !dateRange.from || 
-      (new Date(entry.createdAt) >= dateRange.from && 
-        (!dateRange.to || new Date(entry.createdAt) <= dateRange.to));
-    
-    return searchMatches && departmentMatches && formMatches && userMatches && dateMatches;
-  });
+  // Los filtros ya vienen aplicados desde el servidor
+  const filteredEntries = processedEntries;
 
   // Define columns for data table
   const columns: ColumnDef<FormEntry>[] = [
@@ -1397,6 +1393,11 @@ export default function ReportsPage() {
             Guardar reporte actual
           </Button>
         </div>
+        {searchResult && searchResult.total > searchResult.items.length && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            Se muestran los {searchResult.items.length} registros más recientes de {searchResult.total}. Ajuste los filtros para acotar el reporte.
+          </div>
+        )}
         {/* Filters */}
         <Card>
           <CardHeader>
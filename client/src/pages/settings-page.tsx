@@ -1,8 +1,11 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import MainLayout from "@/layouts/main-layout";
+import AccessSchedulesPanel from "@/components/settings/access-schedules-panel";
+import WorkflowDefinitionsPanel from "@/components/settings/workflow-definitions-panel";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -19,7 +22,9 @@ import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { Save, Download, Database, Server, Lock } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { SystemSettings, UpdateSystemSettings } from "@shared/schema";
+import { Save, Download, Database, Lock } from "lucide-react";
 
 // System settings schema
 const systemSettingsSchema = z.object({
@@ -33,24 +38,41 @@ const systemSettingsSchema = z.object({
 // Security settings schema
 const securitySettingsSchema = z.object({
   sessionTimeout: z.number().min(5, "El tiempo mínimo es 5 minutos"),
-  maxLoginAttempts: z.number().min(1, "El valor mínimo es 1 intento"),
+  maxLoginAttempts: z.number().min(0, "El valor mínimo es 0 (sin límite)"),
+  maxLoginAttemptsPerIp: z.number().min(0, "El valor mínimo es 0 (sin límite)"),
+  lockoutDuration: z.number().min(1, "El valor mínimo es 1 minuto"),
   passwordExpiration: z.number().min(0, "El valor mínimo es 0 días (sin expiración)"),
+  passwordMinLength: z.number().min(4, "La longitud mínima es 4 caracteres"),
+  passwordHistoryCount: z.number().min(0, "El valor mínimo es 0 (sin historial)"),
   requirePasswordComplexity: z.boolean().default(true),
 });
 
-// Database settings schema
-const databaseSettingsSchema = z.object({
-  dbHost: z.string().min(1, "El host es requerido"),
-  dbPort: z.string().min(1, "El puerto es requerido"),
-  dbName: z.string().min(1, "El nombre de la base de datos es requerido"),
-  dbUser: z.string().min(1, "El usuario es requerido"),
-  dbPassword: z.string().optional(),
-});
-
 export default function SettingsPage() {
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("system");
 
+  // Configuración persistida en el servidor
+  const { data: settings } = useQuery<SystemSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (data: UpdateSystemSettings) => {
+      const res = await apiRequest("PUT", "/api/settings", data);
+      return await res.json();
+    },
+    onSuccess: (updatedSettings: SystemSettings) => {
+      queryClient.setQueryData(["/api/settings"], updatedSettings);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al guardar la configuración",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // System settings form
   const systemForm = useForm<z.infer<typeof systemSettingsSchema>>({
     resolver: zodResolver(systemSettingsSchema),
@@ -69,46 +91,77 @@ export default function SettingsPage() {
     defaultValues: {
       sessionTimeout: 30,
       maxLoginAttempts: 5,
+      maxLoginAttemptsPerIp: 20,
+      lockoutDuration: 15,
       passwordExpiration: 90,
+      passwordMinLength: 6,
+      passwordHistoryCount: 5,
       requirePasswordComplexity: true,
     },
   });
 
-  // Database settings form
-  const databaseForm = useForm<z.infer<typeof databaseSettingsSchema>>({
-    resolver: zodResolver(databaseSettingsSchema),
-    defaultValues: {
-      dbHost: "localhost",
-      dbPort: "5432",
-      dbName: "formcapture",
-      dbUser: "postgres",
-      dbPassword: "",
-    },
-  });
+  // Cargar los valores guardados en los formularios
+  useEffect(() => {
+    if (!settings) return;
+    systemForm.reset({
+      appName: settings.appName,
+      dataDirectory: settings.dataDirectory,
+      enableNotifications: settings.enableNotifications,
+      autoBackup: settings.autoBackup,
+      backupDirectory: settings.backupDirectory ?? "",
+    });
+    securityForm.reset({
+      sessionTimeout: settings.sessionTimeout,
+      maxLoginAttempts: settings.maxLoginAttempts,
+      maxLoginAttemptsPerIp: settings.maxLoginAttemptsPerIp,
+      lockoutDuration: settings.lockoutDuration,
+      passwordExpiration: settings.passwordExpiration,
+      passwordMinLength: settings.passwordMinLength,
+      passwordHistoryCount: settings.passwordHistoryCount,
+      requirePasswordComplexity: settings.requirePasswordComplexity,
+    });
+  }, [settings]);
 
   // Handle form submissions
   const onSystemSubmit = (data: z.infer<typeof systemSettingsSchema>) => {
-    toast({
-      title: "Configuración del sistema guardada",
-      description: "La configuración del sistema ha sido actualizada correctamente",
+    saveSettingsMutation.mutate(data, {
+      onSuccess: () => {
+        toast({
+          title: "Configuración del sistema guardada",
+          description: "La configuración del sistema ha sido actualizada correctamente",
+        });
+      },
     });
-    console.log(data);
   };
 
   const onSecuritySubmit = (data: z.infer<typeof securitySettingsSchema>) => {
-    toast({
-      title: "Configuración de seguridad guardada",
-      description: "La configuración de seguridad ha sido actualizada correctamente",
+    saveSettingsMutation.mutate(data, {
+      onSuccess: () => {
+        toast({
+          title: "Configuración de seguridad guardada",
+          description: "La configuración de seguridad ha sido actualizada correctamente",
+        });
+      },
     });
-    console.log(data);
   };
 
-  const onDatabaseSubmit = (data: z.infer<typeof databaseSettingsSchema>) => {
-    toast({
-      title: "Configuración de base de datos guardada",
-      description: "La configuración de base de datos ha sido actualizada correctamente",
-    });
-    console.log(data);
+  // Comprobar la conexión con la base de datos del servidor
+  const handleCheckConnection = async () => {
+    try {
+      const res = await apiRequest("GET", "/api/health");
+      const health = await res.json();
+      toast({
+        title: health.status === "ok" ? "Conexión correcta" : "Conexión degradada",
+        description: `Base de datos: ${health.database}`,
+        variant: health.status === "ok" ? "default" : "destructive",
+      });
+    } catch (error) {
+      toast({
+        title: "Error de conexión",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
   };
 
   // Handle backup
@@ -131,9 +184,11 @@ export default function SettingsPage() {
     <MainLayout title="Configuración">
       <div className="space-y-6">
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="system">Sistema</TabsTrigger>
             <TabsTrigger value="security">Seguridad</TabsTrigger>
+            <TabsTrigger value="schedules">Horarios</TabsTrigger>
+            <TabsTrigger value="workflows">Flujos</TabsTrigger>
             <TabsTrigger value="database">Base de Datos</TabsTrigger>
           </TabsList>
           
@@ -251,7 +306,7 @@ export default function SettingsPage() {
                     </div>
                     
                     <div className="flex justify-end">
-                      <Button type="submit">
+                      <Button type="submit" disabled={saveSettingsMutation.isPending}>
                         <Save className="mr-2 h-4 w-4" />
                         Guardar Configuración
                       </Button>
@@ -318,6 +373,50 @@ export default function SettingsPage() {
                       />
                     </div>
                     
+                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                      <FormField
+                        control={securityForm.control}
+                        name="maxLoginAttemptsPerIp"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Intentos Máximos por Equipo (IP)</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                {...field} 
+                                onChange={(e) => field.onChange(parseInt(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Intentos fallidos desde una misma IP antes de bloquearla (0 = sin límite)
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={securityForm.control}
+                        name="lockoutDuration"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Duración del Bloqueo (min)</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                {...field} 
+                                onChange={(e) => field.onChange(parseInt(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Tiempo que permanece bloqueada una cuenta o equipo
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    
                     <FormField
                       control={securityForm.control}
                       name="passwordExpiration"
@@ -339,6 +438,50 @@ export default function SettingsPage() {
                       )}
                     />
                     
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <FormField
+                        control={securityForm.control}
+                        name="passwordMinLength"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Longitud Mínima de Contraseña</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                {...field} 
+                                onChange={(e) => field.onChange(parseInt(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Número mínimo de caracteres para contraseñas nuevas
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={securityForm.control}
+                        name="passwordHistoryCount"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Historial de Contraseñas</FormLabel>
+                            <FormControl>
+                              <Input 
+                                type="number" 
+                                {...field} 
+                                onChange={(e) => field.onChange(parseInt(e.target.value))}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Contraseñas anteriores que no se pueden reutilizar (0 = sin restricción)
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    
                     <FormField
                       control={securityForm.control}
                       name="requirePasswordComplexity"
@@ -347,7 +490,7 @@ export default function SettingsPage() {
                           <div className="space-y-0.5">
                             <FormLabel className="text-base">Requerir Contraseñas Complejas</FormLabel>
                             <FormDescription>
-                              Exigir contraseñas con mayúsculas, números y símbolos
+                              Exigir contraseñas con mayúsculas, minúsculas, números y símbolos
                             </FormDescription>
                           </div>
                           <FormControl>
@@ -361,7 +504,7 @@ export default function SettingsPage() {
                     />
                     
                     <div className="flex justify-end">
-                      <Button type="submit">
+                      <Button type="submit" disabled={saveSettingsMutation.isPending}>
                         <Lock className="mr-2 h-4 w-4" />
                         Guardar Configuración
                       </Button>
@@ -372,6 +515,16 @@ export default function SettingsPage() {
             </Card>
           </TabsContent>
           
+          {/* Access Schedules */}
+          <TabsContent value="schedules">
+            <AccessSchedulesPanel />
+          </TabsContent>
+          
+          {/* Workflow Definitions */}
+          <TabsContent value="workflows">
+            <WorkflowDefinitionsPanel />
+          </TabsContent>
+          
           {/* Database Settings */}
           <TabsContent value="database">
             <Card>
@@ -382,109 +535,28 @@ export default function SettingsPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <Form {...databaseForm}>
-                  <form onSubmit={databaseForm.handleSubmit(onDatabaseSubmit)} className="space-y-6">
-                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-                      <FormField
-                        control={databaseForm.control}
-                        name="dbHost"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Host</FormLabel>
-                            <FormControl>
-                              <Input {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={databaseForm.control}
-                        name="dbPort"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Puerto</FormLabel>
-                            <FormControl>
-                              <Input {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    
-                    <FormField
-                      control={databaseForm.control}
-                      name="dbName"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Nombre de la Base de Datos</FormLabel>
-                          <FormControl>
-                            <Input {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
-                      <FormField
-                        control={databaseForm.control}
-                        name="dbUser"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Usuario</FormLabel>
-                            <FormControl>
-                              <Input {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={databaseForm.control}
-                        name="dbPassword"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Contraseña</FormLabel>
-                            <FormControl>
-                              <Input type="password" {...field} />
-                            </FormControl>
-                            <FormDescription>
-                              Dejar en blanco para mantener la contraseña actual
-                            </FormDescription>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    
-                    <Separator className="my-4" />
-                    
-                    <div className="space-y-4">
-                      <h3 className="text-lg font-medium">Mantenimiento</h3>
-                      <div className="flex flex-col sm:flex-row gap-4">
-                        <Button type="button" variant="outline" onClick={handleBackup}>
-                          <Download className="mr-2 h-4 w-4" />
-                          Crear Respaldo Ahora
-                        </Button>
-                        <Button type="button" variant="secondary">
-                          <Database className="mr-2 h-4 w-4" />
-                          Comprobar Conexión
-                        </Button>
-                      </div>
-                    </div>
-                    
-                    <div className="flex justify-end">
-                      <Button type="submit">
-                        <Server className="mr-2 h-4 w-4" />
-                        Guardar Configuración
+                <div className="space-y-6">
+                  <p className="text-sm text-neutral-600">
+                    La conexión se define en el servidor mediante la variable de entorno <code>DATABASE_URL</code>.
+                    Los respaldos automáticos se configuran en la pestaña Sistema.
+                  </p>
+                  
+                  <Separator className="my-4" />
+                  
+                  <div className="space-y-4">
+                    <h3 className="text-lg font-medium">Mantenimiento</h3>
+                    <div className="flex flex-col sm:flex-row gap-4">
+                      <Button type="button" variant="outline" onClick={handleBackup}>
+                        <Download className="mr-2 h-4 w-4" />
+                        Crear Respaldo Ahora
+                      </Button>
+                      <Button type="button" variant="secondary" onClick={handleCheckConnection}>
+                        <Database className="mr-2 h-4 w-4" />
+                        Comprobar Conexión
                       </Button>
                     </div>
-                  </form>
-                </Form>
+                  </div>
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Search, FileDown } from "lucide-react";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import MainLayout from "@/layouts/main-layout";
+import { TraceabilityDirection } from "@shared/schema";
+import type { MaterialLotUsage } from "@shared/schema";
+
+// Query string de la consulta; vacío mientras falte el lote
+function toTraceabilityQuery(direction: TraceabilityDirection, lot: string, materialName: string): string {
+  if (!lot.trim()) return "";
+  const params = new URLSearchParams({ direction });
+  if (direction === TraceabilityDirection.FORWARD) {
+    params.set("supplierLot", lot.trim());
+    if (materialName.trim()) params.set("materialName", materialName.trim());
+  } else {
+    params.set("lotNumber", lot.trim());
+  }
+  return params.toString();
+}
+
+export default function TraceabilityPage() {
+  const { toast } = useToast();
+  const [direction, setDirection] = useState<TraceabilityDirection>(TraceabilityDirection.FORWARD);
+  const [lot, setLot] = useState("");
+  const [materialName, setMaterialName] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: usages = [], isFetching, error } = useQuery<MaterialLotUsage[]>({
+    queryKey: [`/api/traceability?${submittedQuery}`],
+    enabled: submittedQuery !== "",
+  });
+
+  const forward = direction === TraceabilityDirection.FORWARD;
+  const lotCount = new Set(usages.map(usage => forward ? usage.lotNumber ?? usage.folio : `${usage.materialName}|${usage.supplierLot}`)).size;
+
+  const changeDirection = (value: string) => {
+    setDirection(value as TraceabilityDirection);
+    setLot("");
+    setMaterialName("");
+    setSubmittedQuery("");
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmittedQuery(toTraceabilityQuery(direction, lot, materialName));
+  };
+
+  // Descargar el reporte de trazabilidad en Excel
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const res = await apiRequest("GET", `/api/traceability/export?${submittedQuery}`);
+      const blob = await res.blob();
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const fileName = disposition.match(/filename="(.+)"/)?.[1] || "trazabilidad.xlsx";
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error al exportar",
+        description: error instanceof Error ? error.message : "No se pudo generar el reporte",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <MainLayout title="Trazabilidad de Lotes">
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Consulta de trazabilidad</CardTitle>
+          <CardDescription>
+            Los lotes de materia prima se capturan en la sección de Materias Primas del formulario de producción.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={direction} onValueChange={changeDirection} className="mb-4">
+            <TabsList>
+              <TabsTrigger value={TraceabilityDirection.FORWARD}>Hacia adelante (lote MP → lotes PT)</TabsTrigger>
+              <TabsTrigger value={TraceabilityDirection.BACKWARD}>Hacia atrás (lote PT → lotes MP)</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <form onSubmit={handleSearch} className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trace-lot">{forward ? "Lote de materia prima" : "Lote de producto terminado"}</Label>
+              <Input id="trace-lot" value={lot} onChange={(e) => setLot(e.target.value)} className="w-60" />
+            </div>
+            {forward && (
+              <div className="space-y-2">
+                <Label htmlFor="trace-material">Materia prima (opcional)</Label>
+                <Input
+                  id="trace-material"
+                  value={materialName}
+                  onChange={(e) => setMaterialName(e.target.value)}
+                  placeholder="Ej. Leche de Cabra"
+                  className="w-60"
+                />
+              </div>
+            )}
+            <Button type="submit" disabled={!lot.trim()}>
+              <Search className="mr-2 h-4 w-4" />
+              Buscar
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!submittedQuery || isExporting}
+              onClick={handleExport}
+            >
+              {isExporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+              Exportar Excel
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {submittedQuery && (
+        <div className="bg-white rounded-lg shadow">
+          <div className="flex items-center gap-2 p-4 border-b">
+            <Badge variant="secondary">
+              {lotCount} {forward ? "lote(s) de producto terminado" : "lote(s) de materia prima"}
+            </Badge>
+          </div>
+          {isFetching ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-border" />
+            </div>
+          ) : error ? (
+            <p className="p-4 text-sm text-destructive">{(error as Error).message}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Lote PT</TableHead>
+                  <TableHead>Folio</TableHead>
+                  <TableHead>Producto</TableHead>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Caducidad</TableHead>
+                  <TableHead>Materia prima</TableHead>
+                  <TableHead>Lote MP</TableHead>
+                  <TableHead>Cantidad</TableHead>
+                  <TableHead>Hora</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {usages.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center py-8">
+                      No hay formularios de producción con ese lote.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  usages.map((usage) => (
+                    <TableRow key={`${usage.productionFormId}-${usage.materialName}`}>
+                      <TableCell>{usage.lotNumber || "Sin lote"}</TableCell>
+                      <TableCell>
+                        <Link href={`/production-form/${usage.productionFormId}`} className="text-primary hover:underline">
+                          {usage.folio}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{usage.productName || usage.productId}</TableCell>
+                      <TableCell>{usage.date}</TableCell>
+                      <TableCell>{usage.caducidad || ""}</TableCell>
+                      <TableCell>{usage.materialName}</TableCell>
+                      <TableCell>{usage.supplierLot}</TableCell>
+                      <TableCell>
+                        {usage.quantity !== null ? `${usage.quantity} ${usage.unit ?? ""}`.trim() : ""}
+                      </TableCell>
+                      <TableCell>{usage.addedAt || ""}</TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      )}
+    </MainLayout>
+  );
+}
@@ -5,10 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { DataTable } from "@/components/ui/data-table";
 import { ColumnDef } from "@tanstack/react-table";
-import { Search, Plus, Pencil } from "lucide-react";
+import { Search, Plus, Pencil, Unlock } from "lucide-react";
 import MainLayout from "@/layouts/main-layout";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
 import { UserRole } from "@shared/schema";
 import {
   Dialog,
@@ -45,6 +46,7 @@ interface User {
   email: string;
   role: UserRole;
   department?: string;
+  lockedUntil?: string | null;
   createdAt: string;
 }
 
@@ -63,6 +65,8 @@ const userFormSchema = z.object({
 
 export default function UsersPage() {
   const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const isSuperAdmin = currentUser?.role === UserRole.SUPERADMIN;
   const [searchTerm, setSearchTerm] = useState("");
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
@@ -154,6 +158,28 @@ export default function UsersPage() {
     },
   });
 
+  // Unlock user mutation (solo superadmin)
+  const unlockUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/users/${id}/unlock`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Cuenta desbloqueada",
+        description: "El usuario puede volver a iniciar sesión",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error al desbloquear el usuario",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Open dialog for creating/editing user
   const openUserDialog = (user?: User) => {
     if (user) {
@@ -229,17 +255,41 @@ export default function UsersPage() {
       header: "Departamento",
       cell: ({ row }) => row.getValue("department") || "—",
     },
+    {
+      id: "status",
+      header: "Estado",
+      cell: ({ row }) => {
+        const lockedUntil = row.original.lockedUntil;
+        const isLocked = lockedUntil && new Date(lockedUntil) > new Date();
+        return isLocked ? <Badge variant="destructive">Bloqueado</Badge> : <Badge variant="outline">Activo</Badge>;
+      },
+    },
     {
       id: "actions",
       cell: ({ row }) => {
+        const lockedUntil = row.original.lockedUntil;
+        const isLocked = lockedUntil && new Date(lockedUntil) > new Date();
         return (
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => openUserDialog(row.original)}
-          >
-            <Pencil className="h-4 w-4" />
-          </Button>
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => openUserDialog(row.original)}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            {isSuperAdmin && isLocked && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Desbloquear cuenta"
+                disabled={unlockUserMutation.isPending}
+                onClick={() => unlockUserMutation.mutate(row.original.id)}
+              >
+                <Unlock className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
         );
       },
     },
@@ -0,0 +1,91 @@
+import { db } from "../server/db";
+import { formTemplates } from "../shared/schema";
+import type { FormTemplate } from "../shared/schema";
+import { pool } from "../server/db";
+import { eq } from "drizzle-orm";
+import { LIBERACION_PREOPERATIVA_CODE } from "../shared/document-control";
+
+/**
+ * Migración única: llena el control documental de las plantillas que aún no lo tienen. El código se
+ * toma de la información del encabezado, del diseño de impresión o del nombre (p. ej. "CA-RE-03-01");
+ * la revisión y la fecha de emisión, de la versión y la fecha de revisión del diseño de impresión.
+ * Las plantillas con código asignado no se modifican. La aplicación reconoce los formatos (p. ej. la
+ * Liberación Preoperativa) solo por este código, así que la migración debe correrse antes de desplegar.
+ */
+
+// Nombres de los formatos anteriores que no incluían el código en el nombre
+const legacyFormatNames: Record<string, string> = {
+  [LIBERACION_PREOPERATIVA_CODE]: "LIBERACION PREOPERATIVA",
+  "CA-RE-07-01": "INSPECCIÓN DIARIA DE LIMPIEZA",
+  "CA-RE-08-01": "REGISTRO DE TEMPERATURAS"
+};
+
+function getFormatCode(template: FormTemplate): string | undefined {
+  const structure: any = template.structure || {};
+  const name = template.name.toUpperCase();
+  return structure.headerInfo?.code
+    || structure.printLayout?.header?.code
+    || template.name.match(/[A-Z]{2}-[A-Z]{2}-\d{2}(?:-\d{2})?/)?.[0]
+    || Object.entries(legacyFormatNames).find(([, legacyName]) => name.includes(legacyName))?.[0];
+}
+
+// Versión numérica del encabezado (p. ej. "02" o "Rev. 2")
+function getRevision(template: FormTemplate): number | undefined {
+  const version: string | undefined = (template.structure as any)?.printLayout?.header?.version;
+  const match = version?.match(/\d+/);
+  return match ? parseInt(match[0], 10) : undefined;
+}
+
+// Fecha de revisión del encabezado en formato DD/MM/AAAA o AAAA-MM-DD
+function getIssueDate(template: FormTemplate): Date | undefined {
+  const revisionDate: string | undefined = (template.structure as any)?.printLayout?.header?.revisionDate;
+  if (!revisionDate) return undefined;
+  const dayFirst = revisionDate.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const date = dayFirst
+    ? new Date(Date.UTC(Number(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1])))
+    : new Date(revisionDate);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+async function addDocumentControl() {
+  console.log("Iniciando migración del control documental...");
+
+  try {
+    const templates = await db.select().from(formTemplates);
+    let updated = 0;
+
+    for (const template of templates) {
+      if (template.documentCode) continue;
+
+      const documentCode = getFormatCode(template);
+      if (!documentCode) {
+        console.warn(`Sin código para "${template.name}" (ID ${template.id}): asígnelo desde el editor`);
+        continue;
+      }
+
+      await db
+        .update(formTemplates)
+        .set({
+          documentCode,
+          revision: getRevision(template) ?? template.revision,
+          issueDate: getIssueDate(template) ?? template.issueDate,
+          updatedAt: new Date()
+        })
+        .where(eq(formTemplates.id, template.id));
+
+      updated++;
+      console.log(`Código ${documentCode} asignado a "${template.name}"`);
+    }
+
+    console.log(`Migración completada: ${updated} plantilla(s) actualizada(s)`);
+  } catch (error) {
+    console.error("Error al migrar el control documental:", error);
+  } finally {
+    // Cerrar la conexión de la base de datos
+    await pool.end();
+    console.log("Conexión a la base de datos cerrada");
+  }
+}
+
+// Ejecutar la función
+addDocumentControl().catch(console.error);
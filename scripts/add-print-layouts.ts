@@ -0,0 +1,259 @@
+import { db } from "../server/db";
+import { formTemplates, printLayoutSchema } from "../shared/schema";
+import type { FormTemplate, PrintLayout, PrintRegion } from "../shared/schema";
+import { pool } from "../server/db";
+import { eq } from "drizzle-orm";
+
+/**
+ * Migración única: convierte los formatos de PDF que antes se elegían por el nombre de la plantilla
+ * (Liberación Preoperativa, Inspección de Limpieza, Registro de Temperaturas, Liberación y Análisis
+ * de Leche y PR-PR-02) en diseños de impresión declarados en la estructura de cada plantilla.
+ * Las plantillas que ya tienen diseño de impresión no se modifican.
+ */
+
+type LayoutBuilder = (template: FormTemplate) => PrintLayout;
+
+// Campos de la estructura, incluidos los de las secciones
+function getStructureFields(template: FormTemplate): any[] {
+  const structure: any = template.structure || {};
+  return [
+    ...(structure.fields || []),
+    ...(structure.sections || []).flatMap((section: any) => section?.fields || [])
+  ];
+}
+
+// Código del formato: el de la información del encabezado o el del nombre (p. ej. "CA-RE-03-01")
+function getFormatCode(template: FormTemplate): string | undefined {
+  const structure: any = template.structure || {};
+  return structure.headerInfo?.code || template.name.match(/[A-Z]{2}-[A-Z]{2}-\d{2}(?:-\d{2})?/)?.[0];
+}
+
+// Cuadrícula para un campo tipo tabla avanzada; las filas iniciales se conservan como valores fijos
+function advancedTableGrid(field: any): PrintRegion | null {
+  const config = field.advancedTableConfig || {};
+  const columns = config.columns || config.sections?.flatMap((section: any) => section.columns || []) || [];
+  if (columns.length === 0) return null;
+  return {
+    type: "grid",
+    title: (field.displayName || field.label || field.id).toUpperCase(),
+    fieldId: field.id,
+    columns: columns.map((column: any) => ({
+      key: column.id,
+      header: column.header || column.id,
+      format: column.type === "date" ? "date" : column.type === "checkbox" ? "check" : "text"
+    })),
+    rows: config.initialData?.length ? config.initialData : undefined
+  };
+}
+
+// Campos simples en una tabla de dos columnas y una cuadrícula por cada tabla avanzada
+function fieldsTableLayout(columnWidths: [number, number]): LayoutBuilder {
+  return (template) => {
+    const fields = getStructureFields(template);
+    const simpleFields = fields.filter(field => field.type !== "advancedTable");
+    const regions: PrintRegion[] = [];
+    if (simpleFields.length > 0) {
+      regions.push({
+        type: "fields",
+        style: "table",
+        columns: 1,
+        headers: ["Campo", "Valor"],
+        columnWidths,
+        fields: simpleFields.map(field => ({ fieldId: field.id }))
+      });
+    }
+    fields
+      .filter(field => field.type === "advancedTable")
+      .forEach(field => {
+        const grid = advancedTableGrid(field);
+        if (grid) regions.push(grid);
+      });
+    return { orientation: "portrait", header: { code: getFormatCode(template), showEntryInfo: true }, regions };
+  };
+}
+
+// Una región por sección de la estructura: cuadrícula para las tablas y lista para los demás campos
+const sectionsLayout: LayoutBuilder = (template) => {
+  const structure: any = template.structure || {};
+  const sections = structure.sections?.length ? structure.sections : [{ title: "DATOS DEL FORMULARIO", fields: structure.fields || [] }];
+  const regions: PrintRegion[] = [];
+
+  sections.forEach((section: any) => {
+    const fields: any[] = section.fields || [];
+    const simpleFields = fields.filter(field => field.type !== "advancedTable" && field.type !== "textarea");
+    if (simpleFields.length > 0) {
+      regions.push({
+        type: "fields",
+        title: section.title?.toUpperCase(),
+        style: "list",
+        columns: 2,
+        fields: simpleFields.map(field => ({ fieldId: field.id }))
+      });
+    }
+    fields.forEach(field => {
+      if (field.type === "advancedTable") {
+        const grid = advancedTableGrid(field);
+        if (grid) regions.push(grid);
+      } else if (field.type === "textarea") {
+        regions.push({ type: "text", title: (field.displayName || field.label).toUpperCase(), fieldId: field.id });
+      }
+    });
+  });
+
+  return { orientation: "portrait", header: { code: getFormatCode(template), showEntryInfo: true }, regions };
+};
+
+// Inspección de limpieza: lista de verificación por área con las actividades fijas de la plantilla
+const inspeccionLimpiezaLayout: LayoutBuilder = (template) => {
+  const structure: any = template.structure || {};
+  const regions: PrintRegion[] = [{
+    type: "fields",
+    title: "INFORMACIÓN GENERAL",
+    style: "list",
+    columns: 2,
+    fields: [
+      { fieldId: "fecha", label: "Fecha" },
+      { fieldId: "folio_produccion", label: "Folio de Producción" },
+      { fieldId: "departamento_emisor", label: "Departamento Emisor" }
+    ]
+  }];
+
+  (structure.sections || [])
+    .filter((section: any) => section.id && (section.rows || section.data))
+    .forEach((section: any) => {
+      const columns = section.columns?.length
+        ? section.columns.map((column: any) => ({
+            key: column.id,
+            header: column.title || column.header || column.id,
+            format: column.type === "checkbox" ? "check" as const : "text" as const
+          }))
+        : [
+            { key: "actividad", header: "Actividad", format: "text" as const },
+            { key: "pasa", header: "Pasa", format: "check" as const },
+            { key: "no_pasa", header: "No Pasa", format: "check" as const }
+          ];
+      regions.push({
+        type: "grid",
+        title: section.title?.toUpperCase(),
+        fieldId: section.id,
+        columns: columns.map((column: any, index: number) => ({ ...column, width: index === 0 ? 3 : 1 })),
+        rows: section.rows || section.data
+      });
+    });
+
+  regions.push({ type: "text", title: "OBSERVACIONES GENERALES", fieldId: "observaciones_generales" });
+  return { orientation: "portrait", header: { code: getFormatCode(template), showEntryInfo: true }, regions };
+};
+
+// PR-PR-02 (elaboración de dulces): antes se imprimía con un formato fijo cuando la plantilla no tenía campos
+const hourColumns = ["h8", "h9", "h10", "h11", "h12", "h13", "h14", "h15", "h16", "h17"];
+const prpr02Layout: LayoutBuilder = (template) => ({
+  orientation: "portrait",
+  header: { code: "PR-PR-02", showEntryInfo: true },
+  regions: [
+    {
+      type: "fields",
+      style: "list",
+      columns: 2,
+      fields: [
+        { fieldId: "folio", label: "Folio" },
+        { fieldId: "fecha", label: "Fecha" },
+        { fieldId: "proceso", label: "Proceso" },
+        { fieldId: "linea", label: "Línea" },
+        { fieldId: "responsable", label: "Responsable" },
+        { fieldId: "lote", label: "Lote" }
+      ]
+    },
+    {
+      type: "grid",
+      title: "INGREDIENTES",
+      fieldId: "mp_table",
+      columns: [
+        { key: "mp", header: "Materia prima", width: 3, format: "text" },
+        { key: "kilos", header: "Kilos", width: 1, format: "text" }
+      ]
+    },
+    {
+      type: "grid",
+      title: "MUESTREO",
+      fieldId: "muestreo_table",
+      columns: [{ key: "hora", header: "Hora", width: 1.5, format: "text" }, ...hourColumns.map(key => ({ key, header: key, format: "text" as const }))]
+    },
+    {
+      type: "grid",
+      title: "REVISIÓN",
+      fieldId: "revision_table",
+      columns: [{ key: "hora", header: "Hora", width: 1.5, format: "text" }, ...hourColumns.map(key => ({ key, header: key, format: "text" as const }))]
+    },
+    {
+      type: "grid",
+      title: "MATERIAL DE EMPAQUE",
+      fieldId: "empaque_table",
+      columns: [
+        { key: "material", header: "Material", format: "text" },
+        { key: "cantidad", header: "Cantidad", format: "text" },
+        { key: "observaciones", header: "Observaciones", format: "text" }
+      ]
+    },
+    { type: "text", title: "OBSERVACIONES", fieldId: "observaciones" },
+    {
+      type: "fields",
+      style: "list",
+      columns: 2,
+      fields: [
+        { fieldId: "folio_liberacion", label: "Folio de liberación" },
+        { fieldId: "total_prod_terminado", label: "Total de producto terminado" }
+      ]
+    }
+  ]
+});
+
+// Formatos anteriores: el nombre (o el código) de la plantilla elegía el generador específico
+const legacyFormats: { names: string[]; build: LayoutBuilder }[] = [
+  { names: ["LIBERACION PREOPERATIVA", "CA-RE-03-01"], build: sectionsLayout },
+  { names: ["INSPECCIÓN DIARIA DE LIMPIEZA", "CA-RE-07-01"], build: inspeccionLimpiezaLayout },
+  { names: ["CA-RE-08-01", "REGISTRO DE TEMPERATURAS"], build: fieldsTableLayout([150, 180]) },
+  { names: ["CA-RE-11-01", "Liberacion de Leche"], build: fieldsTableLayout([180, 200]) },
+  { names: ["CA-RE-14-01", "Analisis de Leche"], build: fieldsTableLayout([180, 200]) },
+  { names: ["PR-PR-02", "dulces"], build: prpr02Layout }
+];
+
+async function addPrintLayouts() {
+  console.log("Iniciando migración de formatos de impresión...");
+
+  try {
+    const templates = await db.select().from(formTemplates);
+    let updated = 0;
+
+    for (const template of templates) {
+      const structure: any = template.structure || {};
+      if (structure.printLayout) continue;
+
+      const format = legacyFormats.find(({ names }) => names.some(name => template.name.includes(name)));
+      if (!format) continue;
+
+      // PR-PR-02 solo tenía formato fijo cuando la plantilla no definía campos
+      if (format.build === prpr02Layout && structure.fields?.length) continue;
+
+      const printLayout = printLayoutSchema.parse(format.build(template));
+      await db
+        .update(formTemplates)
+        .set({ structure: { ...structure, printLayout }, updatedAt: new Date() })
+        .where(eq(formTemplates.id, template.id));
+
+      updated++;
+      console.log(`Diseño de impresión agregado a "${template.name}" (${printLayout.regions?.length ?? 0} regiones)`);
+    }
+
+    console.log(`Migración completada: ${updated} plantilla(s) actualizada(s)`);
+  } catch (error) {
+    console.error("Error al migrar los formatos de impresión:", error);
+  } finally {
+    // Cerrar la conexión de la base de datos
+    await pool.end();
+    console.log("Conexión a la base de datos cerrada");
+  }
+}
+
+// Ejecutar la función
+addPrintLayouts().catch(console.error);
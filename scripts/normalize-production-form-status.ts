@@ -0,0 +1,50 @@
+import { db } from "../server/db";
+import { productionForms, normalizeProductionFormStatus, ProductionFormStatus } from "../shared/schema";
+import { pool } from "../server/db";
+import { eq } from "drizzle-orm";
+
+/**
+ * Migración única: lleva el estado de los formularios de producción guardados por versiones anteriores
+ * (mayúsculas como "IN_PROGRESS" o estados como "signed") a los valores de ProductionFormStatus.
+ * Los estados que no se reconocen se informan y se dejan sin cambio para revisarlos a mano.
+ */
+async function normalizeProductionFormStatuses() {
+  console.log("Iniciando normalización de estados de formularios de producción...");
+
+  try {
+    const forms = await db
+      .select({ id: productionForms.id, folio: productionForms.folio, status: productionForms.status })
+      .from(productionForms);
+    const validStatuses = Object.values(ProductionFormStatus) as string[];
+    let updated = 0;
+
+    for (const form of forms) {
+      if (validStatuses.includes(form.status)) continue;
+
+      const status = normalizeProductionFormStatus(form.status) as string;
+      if (!validStatuses.includes(status)) {
+        console.warn(`Estado no reconocido en el formulario ${form.folio} (ID ${form.id}): "${form.status}"`);
+        continue;
+      }
+
+      await db
+        .update(productionForms)
+        .set({ status: status as ProductionFormStatus })
+        .where(eq(productionForms.id, form.id));
+
+      updated++;
+      console.log(`Formulario ${form.folio}: "${form.status}" → "${status}"`);
+    }
+
+    console.log(`Normalización completada: ${updated} formulario(s) actualizado(s)`);
+  } catch (error) {
+    console.error("Error al normalizar los estados:", error);
+  } finally {
+    // Cerrar la conexión de la base de datos
+    await pool.end();
+    console.log("Conexión a la base de datos cerrada");
+  }
+}
+
+// Ejecutar la función
+normalizeProductionFormStatuses().catch(console.error);
@@ -0,0 +1,178 @@
+import { storage } from "./storage";
+import { User, UserRole, AccessException, AccessHoliday, UpsertAccessSchedule } from "@shared/schema";
+
+export interface TimeAccessResult {
+  allowed: boolean;
+  reason?: string;
+  allowedHours?: string;
+  closesAt?: Date | null; // Fin de la ventana actual (null = sin límite)
+  reopensAt?: Date | null; // Próxima apertura cuando el acceso está denegado
+}
+
+// Horarios por rol usados mientras el superadmin no guarde uno propio
+export const defaultRoleSchedules: Record<UserRole, UpsertAccessSchedule> = {
+  [UserRole.SUPERADMIN]: { unrestricted: true, workDays: [0, 1, 2, 3, 4, 5, 6], startTime: "00:00", endTime: "24:00" },
+  [UserRole.ADMIN]: { unrestricted: true, workDays: [0, 1, 2, 3, 4, 5, 6], startTime: "00:00", endTime: "24:00" },
+  [UserRole.PRODUCTION_MANAGER]: { unrestricted: false, workDays: [1, 2, 3, 4, 5, 6], startTime: "06:00", endTime: "19:00" },
+  [UserRole.PRODUCTION]: { unrestricted: false, workDays: [1, 2, 3, 4, 5, 6], startTime: "06:00", endTime: "23:00" },
+  [UserRole.QUALITY_MANAGER]: { unrestricted: false, workDays: [1, 2, 3, 4, 5, 6], startTime: "07:00", endTime: "19:00" },
+  [UserRole.QUALITY]: { unrestricted: false, workDays: [1, 2, 3, 4, 5, 6], startTime: "07:00", endTime: "19:00" },
+  [UserRole.VIEWER]: { unrestricted: false, workDays: [1, 2, 3, 4, 5], startTime: "08:00", endTime: "18:00" },
+};
+
+const dayNames = ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"];
+
+// Días que se revisan hacia adelante para calcular la próxima apertura
+const LOOKAHEAD_DAYS = 14;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function atMinutes(day: Date, minutes: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+}
+
+function localDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Describe un horario en texto legible (p. ej. "Lunes a sábado de 06:00 a 19:00")
+ */
+export function describeSchedule(schedule: UpsertAccessSchedule): string {
+  if (schedule.unrestricted) {
+    return "Acceso completo";
+  }
+  if (schedule.workDays.length === 0) {
+    return "Sin acceso";
+  }
+
+  const days = [...schedule.workDays].sort((a, b) => a - b);
+  const isRange = days.length > 2 && days.every((day, index) => index === 0 || day === days[index - 1] + 1);
+  const dayText = isRange
+    ? `${dayNames[days[0]]} a ${dayNames[days[days.length - 1]]}`
+    : days.map(day => dayNames[day]).join(", ");
+
+  const text = `${dayText} de ${schedule.startTime} a ${schedule.endTime}`;
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Obtiene el horario que aplica al usuario: el suyo propio o, si no tiene, el de su rol
+ */
+export async function resolveAccessSchedule(user: User): Promise<UpsertAccessSchedule> {
+  const userSchedule = await storage.getUserAccessSchedule(user.id);
+  if (userSchedule) {
+    return userSchedule;
+  }
+
+  const role = user.role as UserRole;
+  return (await storage.getRoleAccessSchedule(role)) ?? defaultRoleSchedules[role];
+}
+
+// Ventana del horario para un día concreto, o null si ese día no hay acceso
+function getWindowForDay(schedule: UpsertAccessSchedule, day: Date, holidays: Map<string, AccessHoliday>) {
+  if (holidays.has(localDateKey(day)) || !schedule.workDays.includes(day.getDay())) {
+    return null;
+  }
+  return {
+    start: atMinutes(day, toMinutes(schedule.startTime)),
+    end: atMinutes(day, toMinutes(schedule.endTime))
+  };
+}
+
+// Fin del acceso continuo a partir de "from", combinando horario y excepciones
+function findClosingTime(
+  schedule: UpsertAccessSchedule,
+  exceptions: AccessException[],
+  holidays: Map<string, AccessHoliday>,
+  from: Date
+): Date {
+  const horizon = from.getTime() + LOOKAHEAD_DAYS * 24 * 60 * 60 * 1000;
+  let closesAt = from;
+  let extended = true;
+
+  // Extender mientras alguna ventana o excepción continúe justo donde termina la anterior
+  while (extended && closesAt.getTime() < horizon) {
+    extended = false;
+    const window = getWindowForDay(schedule, closesAt, holidays);
+    if (window && window.start <= closesAt && closesAt < window.end) {
+      closesAt = window.end;
+      extended = true;
+    }
+    for (const exception of exceptions) {
+      if (exception.startsAt <= closesAt && closesAt < exception.endsAt) {
+        closesAt = exception.endsAt;
+        extended = true;
+      }
+    }
+  }
+
+  return closesAt;
+}
+
+/**
+ * Verifica si el usuario puede acceder al sistema según su horario,
+ * los días festivos y las excepciones temporales vigentes
+ * @param user Usuario autenticado
+ * @param now Momento a evaluar
+ * @returns Resultado con permiso, motivo y próximas horas de cierre/apertura
+ */
+export async function checkScheduleAccess(user: User, now: Date = new Date()): Promise<TimeAccessResult> {
+  // SUPERADMIN tiene acceso completo 24/7 sin restricciones
+  if (user.role === UserRole.SUPERADMIN) {
+    return { allowed: true, closesAt: null };
+  }
+
+  const schedule = await resolveAccessSchedule(user);
+  const allowedHours = describeSchedule(schedule);
+  if (schedule.unrestricted) {
+    return { allowed: true, allowedHours, closesAt: null };
+  }
+
+  const holidays = new Map((await storage.getAccessHolidays()).map(holiday => [holiday.date, holiday]));
+  const exceptions = await storage.getUpcomingAccessExceptions(user.id, user.role as UserRole, now);
+
+  const todayWindow = getWindowForDay(schedule, now, holidays);
+  const inSchedule = todayWindow !== null && todayWindow.start <= now && now < todayWindow.end;
+  const inException = exceptions.some(exception => exception.startsAt <= now && now < exception.endsAt);
+
+  if (inSchedule || inException) {
+    return {
+      allowed: true,
+      allowedHours,
+      closesAt: findClosingTime(schedule, exceptions, holidays, now)
+    };
+  }
+
+  // Buscar la próxima apertura: siguiente ventana del horario o siguiente excepción
+  let reopensAt: Date | null = null;
+  for (let offset = 0; offset <= LOOKAHEAD_DAYS && !reopensAt; offset++) {
+    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const window = getWindowForDay(schedule, day, holidays);
+    if (window && window.start > now) {
+      reopensAt = window.start;
+    }
+  }
+  const nextException = exceptions.find(exception => exception.startsAt > now);
+  if (nextException && (!reopensAt || nextException.startsAt < reopensAt)) {
+    reopensAt = nextException.startsAt;
+  }
+
+  const holiday = holidays.get(localDateKey(now));
+  let reason: string;
+  if (holiday) {
+    reason = `Acceso restringido: día festivo (${holiday.name})`;
+  } else if (!schedule.workDays.includes(now.getDay())) {
+    reason = "Acceso restringido: fuera de días laborales";
+  } else {
+    const currentTime = `${String(now.getHours()).padStart(2, "0")}:${String(now.getMinutes()).padStart(2, "0")}`;
+    reason = `Acceso restringido: fuera del horario laboral (hora actual: ${currentTime})`;
+  }
+
+  return { allowed: false, reason, allowedHours, reopensAt };
+}
@@ -0,0 +1,73 @@
+import {
+  FormEntry,
+  FormWorkflowStage,
+  FormWorkflowStatus,
+  User,
+  WorkflowDefinitionInput
+} from "@shared/schema";
+
+// Estados en los que la entrada queda firmada y solo puede corregirse con una enmienda
+const lockedWorkflowStatuses = [FormWorkflowStatus.SIGNED, FormWorkflowStatus.APPROVED];
+const lockedStatuses = ["signed", "approved"];
+
+/**
+ * Indica si la entrada está firmada o aprobada y, por lo tanto, es de solo lectura
+ */
+export function isEntryLocked(entry: FormEntry): boolean {
+  return (
+    lockedWorkflowStatuses.includes(entry.workflowStatus as FormWorkflowStatus) ||
+    lockedStatuses.includes(entry.status || "")
+  );
+}
+
+/**
+ * Respuesta 409 para intentos de modificar una entrada firmada
+ */
+export function entryLockedError(entry: FormEntry) {
+  return {
+    message: "La entrada está firmada y no puede modificarse. Registre una enmienda con el motivo de la corrección.",
+    locked: true,
+    workflowStatus: entry.workflowStatus
+  };
+}
+
+/**
+ * Estado al que regresa una entrada enmendada: el estado desde el que se firma en su flujo,
+ * para que la firma invalidada tenga que volver a recabarse
+ */
+function getResignStatus(definition: WorkflowDefinitionInput): FormWorkflowStatus {
+  const signTransition = definition.transitions.find(transition =>
+    transition.requiresSignature && !lockedWorkflowStatuses.includes(transition.from)
+  );
+  return signTransition?.from ?? definition.initialStatus;
+}
+
+/**
+ * Construye los cambios de una enmienda: nuevos datos y firma/aprobación invalidadas
+ * @param definition Flujo de la plantilla
+ * @param entry Entrada firmada
+ * @param data Datos corregidos
+ * @param user Usuario que registra la enmienda
+ */
+export function buildAmendmentUpdate(
+  definition: WorkflowDefinitionInput,
+  entry: FormEntry,
+  data: Record<string, any>,
+  user: User
+): Partial<FormEntry> {
+  const workflowStatus = getResignStatus(definition);
+  const stage = definition.states.find(state => state.status === workflowStatus)?.stage;
+
+  return {
+    data,
+    workflowStatus,
+    workflowStage: stage ?? entry.workflowStage ?? FormWorkflowStage.INIT,
+    status: "draft",
+    signature: null,
+    signedBy: null,
+    signedAt: null,
+    approvedBy: null,
+    approvedAt: null,
+    lastUpdatedBy: user.id
+  };
+}
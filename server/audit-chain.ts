@@ -0,0 +1,100 @@
+import { createHash } from "crypto";
+import { ActivityLog } from "@shared/schema";
+
+export interface ChainBreak {
+  logId: number;
+  reason: string;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checkedCount: number; // Registros con huella revisados
+  legacyCount: number; // Registros anteriores a la cadena (sin huella)
+  breaks: ChainBreak[];
+  verifiedAt: string;
+}
+
+/**
+ * JSON con llaves ordenadas para que una huella no dependa del orden de las propiedades
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter(key => record[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Huella de un registro de actividad: contenido propio más la huella del registro anterior
+ * @param log Contenido del registro (el timestamp debe ser el que se guarda)
+ * @param previousHash Huella del registro anterior (null para el primero de la cadena)
+ */
+export function computeActivityLogHash(
+  log: Pick<ActivityLog, "userId" | "action" | "resourceType" | "resourceId" | "details" | "timestamp">,
+  previousHash: string | null
+): string {
+  // Normalizar como se leerá de la base de datos (p. ej. fechas dentro de details)
+  const details = log.details === undefined ? null : JSON.parse(JSON.stringify(log.details));
+  const content = stableStringify({
+    previousHash,
+    userId: log.userId,
+    action: log.action,
+    resourceType: log.resourceType,
+    resourceId: log.resourceId,
+    details,
+    timestamp: log.timestamp ? log.timestamp.toISOString() : null
+  });
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Recorre la cadena de registros en orden de inserción y reporta cada ruptura:
+ * registros modificados, eliminados, insertados sin huella o fuera de la cadena
+ * @param logs Registros ordenados por ID ascendente
+ */
+export function verifyActivityLogChain(logs: ActivityLog[]): ChainVerification {
+  const breaks: ChainBreak[] = [];
+  let legacyCount = 0;
+  let checkedCount = 0;
+  let previousHash: string | null = null;
+  let chainStarted = false;
+
+  for (const log of logs) {
+    if (!log.hash) {
+      if (chainStarted) {
+        breaks.push({ logId: log.id, reason: "Registro sin huella dentro de la cadena" });
+      } else {
+        legacyCount++;
+      }
+      continue;
+    }
+
+    checkedCount++;
+    // El primer registro de la cadena no tiene anterior; si lo tiene, se eliminó el inicio
+    if (log.previousHash !== previousHash) {
+      breaks.push({ logId: log.id, reason: "La huella anterior no coincide (registro eliminado o insertado)" });
+    }
+    if (computeActivityLogHash(log, log.previousHash) !== log.hash) {
+      breaks.push({ logId: log.id, reason: "El contenido del registro fue modificado" });
+    }
+
+    chainStarted = true;
+    previousHash = log.hash;
+  }
+
+  return {
+    valid: breaks.length === 0,
+    checkedCount,
+    legacyCount,
+    breaks,
+    verifiedAt: new Date().toISOString()
+  };
+}
@@ -5,7 +5,7 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser, UserRole, insertUserSchema } from "@shared/schema";
+import { User as SelectUser, UserRole, insertUserSchema, changePasswordSchema } from "@shared/schema";
 import { z } from "zod";
 
 declare global {
@@ -29,6 +29,135 @@ export async function comparePasswords(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+/**
+ * Valida una contraseña nueva contra la política configurada por el superadmin
+ * @param password Contraseña en texto plano
+ * @param user Usuario existente (para impedir reutilizar contraseñas anteriores)
+ * @returns Mensaje de error o null si la contraseña es válida
+ */
+export async function validatePasswordPolicy(password: string, user?: SelectUser): Promise<string | null> {
+  const settings = await storage.getSystemSettings();
+  
+  if (password.length < settings.passwordMinLength) {
+    return `La contraseña debe tener al menos ${settings.passwordMinLength} caracteres`;
+  }
+  
+  if (settings.requirePasswordComplexity &&
+      (!/[A-Z]/.test(password) || !/[a-z]/.test(password) || !/\d/.test(password) || !/[^A-Za-z0-9]/.test(password))) {
+    return "La contraseña debe incluir mayúsculas, minúsculas, números y símbolos";
+  }
+  
+  if (user && settings.passwordHistoryCount > 0) {
+    const history = await storage.getPasswordHistory(user.id, settings.passwordHistoryCount);
+    const previousHashes = [user.password, ...history.map(entry => entry.passwordHash)];
+    for (const previousHash of previousHashes) {
+      if (await comparePasswords(password, previousHash)) {
+        return `No puede reutilizar ninguna de sus últimas ${settings.passwordHistoryCount} contraseñas`;
+      }
+    }
+  }
+  
+  return null;
+}
+
+/**
+ * Guarda una nueva contraseña (ya validada) y la registra en el historial
+ * @param userId Usuario al que se le cambia la contraseña
+ * @param password Contraseña en texto plano
+ * @param mustChangePassword Si el usuario deberá cambiarla en su siguiente acceso
+ */
+export async function setUserPassword(userId: number, password: string, mustChangePassword: boolean) {
+  return await storage.updateUserPassword(userId, await hashPassword(password), mustChangePassword);
+}
+
+/**
+ * Indica si el usuario debe cambiar su contraseña antes de continuar
+ * (cambio forzado por un administrador o contraseña expirada)
+ */
+export async function requiresPasswordChange(user: SelectUser): Promise<boolean> {
+  if (user.mustChangePassword) {
+    return true;
+  }
+  
+  const settings = await storage.getSystemSettings();
+  if (settings.passwordExpiration <= 0) {
+    return false;
+  }
+  
+  const changedAt = user.passwordChangedAt ?? user.createdAt;
+  if (!changedAt) {
+    return false;
+  }
+  const expiresAt = changedAt.getTime() + settings.passwordExpiration * 24 * 60 * 60 * 1000;
+  return Date.now() >= expiresAt;
+}
+
+// Respuesta pública del usuario: sin contraseña y con el estado de cambio obligatorio
+async function toPublicUser(user: SelectUser) {
+  const { password, ...userWithoutPassword } = user;
+  return {
+    ...userWithoutPassword,
+    mustChangePassword: await requiresPasswordChange(user)
+  };
+}
+
+// Mensaje en español para cuentas bloqueadas temporalmente
+function getLockoutMessage(lockedUntil: Date, now: Date): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - now.getTime()) / 60000));
+  return `Cuenta bloqueada por exceder el número máximo de intentos. Intente de nuevo en ${minutes} minutos o contacte al administrador.`;
+}
+
+/**
+ * Vuelve a autenticar al usuario con su contraseña (p. ej. antes de una firma electrónica).
+ * Los intentos fallidos cuentan para el bloqueo de la cuenta igual que en el inicio de sesión.
+ * @param userId Usuario de la sesión
+ * @param password Contraseña capturada
+ * @returns Resultado con mensaje en caso de rechazo
+ */
+export async function reauthenticate(userId: number, password: string): Promise<{ valid: boolean; message?: string; locked?: boolean }> {
+  const now = new Date();
+  const user = await storage.getUser(userId);
+  if (!user) {
+    return { valid: false, message: "Usuario no encontrado" };
+  }
+  
+  if (user.lockedUntil && user.lockedUntil > now) {
+    return { valid: false, locked: true, message: getLockoutMessage(user.lockedUntil, now) };
+  }
+  
+  if (await comparePasswords(password, user.password)) {
+    if (user.failedLoginAttempts > 0) {
+      await storage.resetFailedLogins(user.id);
+    }
+    return { valid: true };
+  }
+  
+  const settings = await storage.getSystemSettings();
+  const failures = await storage.recordFailedLogin(user.id);
+  if (settings.maxLoginAttempts > 0 && failures >= settings.maxLoginAttempts) {
+    const lockedUntil = new Date(now.getTime() + settings.lockoutDuration * 60 * 1000);
+    await storage.lockUser(user.id, lockedUntil);
+    return { valid: false, locked: true, message: getLockoutMessage(lockedUntil, now) };
+  }
+  
+  return { valid: false, message: "Contraseña incorrecta" };
+}
+
+// Registra en la bitácora un intento de inicio de sesión fallido
+async function logFailedLogin(username: string, ipAddress: string, reason: string, userId?: number) {
+  try {
+    await storage.createActivityLog({
+      userId: userId ?? 0,
+      action: "login_failed",
+      resourceType: "user",
+      resourceId: userId ?? 0,
+      details: { username, ipAddress, reason }
+    });
+  } catch (error) {
+    console.error("[AUTH] Error al registrar intento fallido:", error);
+  }
+}
+
 // Función para verificar si el usuario es superadmin con acceso completo
 export const isSuperAdmin = (user: any): boolean => {
   return user && user.role === UserRole.SUPERADMIN;
@@ -77,19 +206,97 @@ export function setupAuth(app: Express) {
 
   app.set("trust proxy", 1);
   app.use(session(sessionSettings));
+  
+  // Aplicar el tiempo de sesión configurado por el superadmin (se renueva en cada petición)
+  app.use(async (req, res, next) => {
+    try {
+      const settings = await storage.getSystemSettings();
+      req.session.cookie.maxAge = settings.sessionTimeout * 60 * 1000;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+  
   app.use(passport.initialize());
   app.use(passport.session());
+  
+  // Mientras la contraseña deba cambiarse solo se permiten las rutas de sesión
+  const passwordChangeAllowedPaths = ["/api/user", "/api/logout", "/api/change-password"];
+  app.use(async (req, res, next) => {
+    if (!req.path.startsWith("/api") || passwordChangeAllowedPaths.includes(req.path) || !req.isAuthenticated()) {
+      return next();
+    }
+    try {
+      if (await requiresPasswordChange(req.user!)) {
+        return res.status(403).json({ 
+          message: "Debe cambiar su contraseña antes de continuar", 
+          passwordChangeRequired: true 
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
 
   // Configure passport strategy
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
       try {
+        const ipAddress = req.ip || "desconocida";
+        const settings = await storage.getSystemSettings();
+        const now = new Date();
+        
+        // Bloqueo por IP: las tabletas de planta son compartidas, por eso el límite es independiente
+        if (settings.maxLoginAttemptsPerIp > 0) {
+          const windowStart = new Date(now.getTime() - settings.lockoutDuration * 60 * 1000);
+          const ipFailures = await storage.countFailedLoginAttemptsByIp(ipAddress, windowStart);
+          if (ipFailures >= settings.maxLoginAttemptsPerIp) {
+            await logFailedLogin(username, ipAddress, "ip_locked");
+            const lockInfo = {
+              message: `Demasiados intentos fallidos desde este equipo. Intente de nuevo en ${settings.lockoutDuration} minutos.`,
+              locked: true
+            };
+            return done(null, false, lockInfo);
+          }
+        }
+        
         const user = await storage.getUserByUsername(username);
+        
+        if (user?.lockedUntil && user.lockedUntil > now) {
+          await logFailedLogin(username, ipAddress, "account_locked", user.id);
+          const lockInfo = { message: getLockoutMessage(user.lockedUntil, now), locked: true };
+          return done(null, false, lockInfo);
+        }
+        
         if (!user || !(await comparePasswords(password, user.password))) {
+          await storage.createLoginAttempt({ username, ipAddress, success: false });
+          
+          if (!user) {
+            await logFailedLogin(username, ipAddress, "unknown_user");
+            return done(null, false);
+          }
+          
+          // Bloquear la cuenta al alcanzar el máximo de intentos configurado
+          const failures = await storage.recordFailedLogin(user.id);
+          if (settings.maxLoginAttempts > 0 && failures >= settings.maxLoginAttempts) {
+            const lockedUntil = new Date(now.getTime() + settings.lockoutDuration * 60 * 1000);
+            await storage.lockUser(user.id, lockedUntil);
+            await logFailedLogin(username, ipAddress, "account_locked", user.id);
+            const lockInfo = { message: getLockoutMessage(lockedUntil, now), locked: true };
+            return done(null, false, lockInfo);
+          }
+          
+          await logFailedLogin(username, ipAddress, "invalid_password", user.id);
           return done(null, false);
-        } else {
-          return done(null, user);
         }
+        
+        await storage.createLoginAttempt({ username, ipAddress, success: true });
+        if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+          await storage.resetFailedLogins(user.id);
+        }
+        return done(null, user);
       } catch (error) {
         return done(error);
       }
@@ -117,12 +324,18 @@ export function setupAuth(app: Express) {
       if (existingUser) {
         return res.status(400).json({ message: "El nombre de usuario ya existe" });
       }
+      
+      const passwordError = await validatePasswordPolicy(validatedUser.password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
 
       // Hash password and create user
-      const user = await storage.createUser({
+      const createdUser = await storage.createUser({
         ...validatedUser,
         password: await hashPassword(validatedUser.password),
       });
+      const user = (await setUserPassword(createdUser.id, validatedUser.password, false)) ?? createdUser;
 
       // Create activity log
       await storage.createActivityLog({
@@ -134,11 +347,10 @@ export function setupAuth(app: Express) {
       });
 
       // Log the user in
-      req.login(user, (err) => {
+      req.login(user, async (err) => {
         if (err) return next(err);
         // Return user without password
-        const { password, ...userWithoutPassword } = user;
-        res.status(201).json(userWithoutPassword);
+        res.status(201).json(await toPublicUser(user));
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -152,7 +364,9 @@ export function setupAuth(app: Express) {
     passport.authenticate("local", (err, user, info) => {
       if (err) return next(err);
       if (!user) {
-        return res.status(401).json({ message: "Credenciales inválidas" });
+        // 423 para cuentas bloqueadas, así el cliente no lo confunde con una sesión expirada
+        const status = info?.locked ? 423 : 401;
+        return res.status(status).json({ message: info?.message || "Credenciales inválidas", locked: !!info?.locked });
       }
       
       req.login(user, async (err) => {
@@ -164,12 +378,11 @@ export function setupAuth(app: Express) {
           action: "logged_in",
           resourceType: "user",
           resourceId: user.id,
-          details: { username: user.username }
+          details: { username: user.username, ipAddress: req.ip }
         });
         
         // Return user without password
-        const { password, ...userWithoutPassword } = user;
-        res.status(200).json(userWithoutPassword);
+        res.status(200).json(await toPublicUser(user));
       });
     })(req, res, next);
   });
@@ -192,13 +405,56 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "No autenticado" });
+    }
+    try {
+      // Return user without password
+      res.json(await toPublicUser(req.user));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Cambio de contraseña del propio usuario (también cuando es obligatorio)
+  app.post("/api/change-password", async (req, res, next) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "No autenticado" });
     }
-    // Return user without password
-    const { password, ...userWithoutPassword } = req.user;
-    res.json(userWithoutPassword);
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      
+      if (!(await comparePasswords(currentPassword, req.user.password))) {
+        return res.status(400).json({ message: "La contraseña actual es incorrecta" });
+      }
+      
+      const passwordError = await validatePasswordPolicy(newPassword, req.user);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+      
+      const updatedUser = await setUserPassword(req.user.id, newPassword, false);
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
+      }
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user.id,
+        action: "password_changed",
+        resourceType: "user",
+        resourceId: req.user.id,
+        details: { username: req.user.username }
+      });
+      
+      res.json(await toPublicUser(updatedUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
   });
 
   // No need to export through app.locals anymore
@@ -0,0 +1,150 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { stableStringify } from "./audit-chain";
+import { reauthenticate } from "./auth";
+import { EntrySignature, FormEntry, SignatureRole, SignEntry, User, UserRole } from "@shared/schema";
+import { signatureRoleLabels } from "@shared/e-signatures";
+import type { SignatureManifestItem, SignatureStatus } from "@shared/e-signatures";
+
+export { signatureRoleLabels, signatureStatusLabels } from "@shared/e-signatures";
+export type { SignatureManifestItem, SignatureStatus } from "@shared/e-signatures";
+
+// Roles de usuario que pueden firmar cada parte de la entrada
+const signatureRolePermissions: Record<SignatureRole, UserRole[]> = {
+  [SignatureRole.PRODUCER]: [UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER],
+  [SignatureRole.SUPERVISOR]: [UserRole.PRODUCTION_MANAGER, UserRole.ADMIN],
+  [SignatureRole.QUALITY]: [UserRole.QUALITY, UserRole.QUALITY_MANAGER],
+};
+
+/**
+ * Indica si el usuario puede firmar con el rol de firma indicado
+ */
+export function canSignAs(user: User, signatureRole: SignatureRole): boolean {
+  return user.role === UserRole.SUPERADMIN || signatureRolePermissions[signatureRole].includes(user.role as UserRole);
+}
+
+/**
+ * Huella SHA-256 de los datos de una entrada
+ */
+export function hashEntryData(data: unknown): string {
+  return createHash("sha256").update(stableStringify(data)).digest("hex");
+}
+
+/**
+ * Manifiesto de firmas de la entrada con el estado de cada una:
+ * vigente si los datos no cambiaron, invalidada si se guardó un cambio posterior (edición o enmienda,
+ * ambos quedan en el historial de revisiones) o alterada si los datos cambiaron sin revisión registrada
+ * @param entry Entrada del formulario
+ */
+export async function getSignatureManifest(entry: FormEntry): Promise<SignatureManifestItem[]> {
+  const signatures = await storage.getEntrySignatures(entry.id);
+  if (signatures.length === 0) {
+    return [];
+  }
+
+  const currentHash = hashEntryData(entry.data);
+  const revisions = await storage.getFormEntryRevisions(entry.id);
+
+  const getStatus = (signature: EntrySignature): SignatureStatus => {
+    if (signature.dataHash === currentHash) {
+      return "valid";
+    }
+    const changedAfterSigning = revisions.some(revision =>
+      revision.changedAt && signature.signedAt && revision.changedAt >= signature.signedAt
+    );
+    return changedAfterSigning ? "invalidated" : "tampered";
+  };
+
+  return signatures.map(signature => ({
+    id: signature.id,
+    signatureRole: signature.signatureRole,
+    signatureRoleLabel: signatureRoleLabels[signature.signatureRole] ?? signature.signatureRole,
+    meaning: signature.meaning,
+    signerId: signature.signerId,
+    signerName: signature.signerName,
+    signerRole: signature.signerRole,
+    signatureImage: signature.signatureImage,
+    dataHash: signature.dataHash,
+    signedAt: signature.signedAt,
+    status: getStatus(signature)
+  }));
+}
+
+export type SignerCheckResult =
+  | { allowed: true }
+  | { allowed: false; status: number; message: string; locked?: boolean };
+
+/**
+ * Verifica que el usuario pueda firmar la entrada: rol de firma permitido, contraseña capturada de nuevo
+ * y sin otra firma vigente del mismo rol. Los intentos con contraseña incorrecta quedan en la bitácora
+ * @param user Usuario de la sesión
+ * @param entry Entrada a firmar
+ * @param request Solicitud de firma
+ */
+export async function checkSigner(user: User, entry: FormEntry, request: SignEntry): Promise<SignerCheckResult> {
+  if (!canSignAs(user, request.signatureRole)) {
+    return {
+      allowed: false,
+      status: 403,
+      message: `Su rol no puede firmar como "${signatureRoleLabels[request.signatureRole]}"`
+    };
+  }
+
+  const auth = await reauthenticate(user.id, request.password);
+  if (!auth.valid) {
+    await storage.createActivityLog({
+      userId: user.id,
+      action: "signature_failed",
+      resourceType: "form_entry",
+      resourceId: entry.id,
+      details: { signatureRole: request.signatureRole, locked: Boolean(auth.locked) }
+    });
+    return { allowed: false, status: 401, message: auth.message ?? "Contraseña incorrecta", locked: auth.locked };
+  }
+
+  // Solo una firma vigente por rol de firma
+  const manifest = await getSignatureManifest(entry);
+  if (manifest.some(s => s.signatureRole === request.signatureRole && s.status === "valid")) {
+    return {
+      allowed: false,
+      status: 409,
+      message: `La entrada ya tiene una firma vigente de "${signatureRoleLabels[request.signatureRole]}"`
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Registra la firma ligada a la huella de los datos firmados, con su entrada en la bitácora
+ * @param user Firmante (ya verificado con checkSigner)
+ * @param entry Entrada con los datos que se firman
+ * @param request Solicitud de firma
+ */
+export async function recordEntrySignature(user: User, entry: FormEntry, request: SignEntry): Promise<EntrySignature> {
+  const signature = await storage.createEntrySignature({
+    formEntryId: entry.id,
+    signatureRole: request.signatureRole,
+    meaning: request.meaning,
+    signerId: user.id,
+    signerName: user.name,
+    signerRole: user.role,
+    signatureImage: request.signatureImage ?? null,
+    dataHash: hashEntryData(entry.data)
+  });
+
+  await storage.createActivityLog({
+    userId: user.id,
+    action: "signed",
+    resourceType: "form_entry",
+    resourceId: entry.id,
+    details: {
+      signatureId: signature.id,
+      signatureRole: signature.signatureRole,
+      meaning: signature.meaning,
+      dataHash: signature.dataHash
+    }
+  });
+
+  return signature;
+}
@@ -0,0 +1,272 @@
+import { FormEntry, FormTemplate } from '@shared/schema';
+import { describeDocumentControl, getDocumentControl } from '@shared/document-control';
+import { getMicrobiologyHeaderName } from './microbiology-headers';
+import type { PdfBlock, PdfDocumentModel, PdfTableColumn } from './pdf-document';
+
+/**
+ * Tabla homologada de las entradas de una plantilla (una fila por entrada y una columna por campo),
+ * común a la exportación consolidada y a los paquetes de simulacro de retiro
+ */
+
+export type FieldOptions = { selectedFields?: string[], fieldOrder?: Record<string, number> };
+
+/**
+ * Función especial para formatear los datos de tablas avanzadas en la vista homologada
+ */
+export function formatAdvancedTableValue(value: any, fieldId: string, fieldLabel: string): string {
+  if (!Array.isArray(value)) {
+    return '[Tabla inválida]';
+  }
+
+  try {
+    // Caso especial para tablas de microbiología
+    if (fieldId.includes("42ed44a8") || fieldLabel.toLowerCase().includes("microbiolog")) {
+      // Formatear tabla de microbiología (mostrar producto y número de análisis positivos)
+      const rows = value;
+
+      if (rows.length > 0) {
+        const firstRow = rows[0];
+        let productName = '';
+        let positiveResults = 0;
+        let totalAnalyses = 0;
+
+        // Buscar campos relevantes
+        Object.entries(firstRow).forEach(([key, val]) => {
+          // Producto (buscar campo clave o campo con "producto" en su ID)
+          if (key.includes("producto") || key.includes("a2a4db54")) {
+            productName = String(val);
+          }
+
+          // Contar análisis con resultados
+          if (typeof val === 'string' && ['Si', 'No', 'NA'].includes(val)) {
+            totalAnalyses++;
+            if (val === 'Si') {
+              positiveResults++;
+            }
+          }
+        });
+
+        return `${productName} (${positiveResults}/${totalAnalyses} análisis positivos)`;
+      } else {
+        return "Sin datos";
+      }
+    } else {
+      // Otras tablas: mostrar resumen de filas
+      return `${value.length} registros`;
+    }
+  } catch (e) {
+    return `${value.length} filas`;
+  }
+}
+
+/**
+ * Campos de la tabla homologada con sus etiquetas: los seleccionados por el usuario en su orden,
+ * o todos los capturados por orden de visualización
+ */
+export function resolveTableFields(entries: FormEntry[], template: FormTemplate, fieldOptions?: FieldOptions) {
+  const structure = template.structure as any;
+  // Recolectar todos los campos únicos entre todos los formularios para la tabla
+  const commonFields = new Set<string>();
+  let fieldLabels: Record<string, string> = {};
+
+  // Primero identificamos los campos comunes y sus etiquetas
+  entries.forEach(entry => {
+    if (entry.data && typeof entry.data === 'object') {
+      Object.keys(entry.data as Record<string, any>).forEach(key => {
+        commonFields.add(key);
+      });
+    }
+  });
+
+  // Identificar campos de tablas avanzadas
+  const advancedTableFields: string[] = [];
+
+  // Mapear IDs de campo a etiquetas legibles
+  commonFields.forEach(fieldId => {
+    let label = fieldId;
+
+    if (structure?.fields) {
+      const field = structure.fields.find((f: any) => f.id === fieldId);
+      if (field) {
+        label = field.label || field.displayName || fieldId;
+
+        // Identificar y guardar configuración de campos de tipo advancedTable
+        if (field.type === 'advancedTable' && field.advancedTableConfig) {
+          advancedTableFields.push(fieldId);
+        }
+      }
+    }
+
+    fieldLabels[fieldId] = label;
+  });
+
+  // Filtrar y ordenar campos para la tabla basado en la selección del usuario
+  let tableFields;
+
+  // Acceder a la selección de campos desde los parámetros de la función
+  const { selectedFields, fieldOrder } = fieldOptions || {};
+
+  if (selectedFields && Array.isArray(selectedFields)) {
+    // Si hay campos seleccionados, sólo usar esos
+    tableFields = selectedFields.filter((fieldId: string) => commonFields.has(fieldId));
+
+    // Ordenar según el orden proporcionado por el usuario
+    if (fieldOrder && typeof fieldOrder === 'object') {
+      tableFields.sort((a: string, b: string) => {
+        const orderA = fieldOrder[a] || 9999;
+        const orderB = fieldOrder[b] || 9999;
+        return orderA - orderB;
+      });
+    }
+  } else {
+    // Comportamiento por defecto si no hay selección
+    tableFields = Array.from(commonFields).sort((a, b) => {
+      // Intentar ordenar por displayOrder si existe
+      if (structure?.fields) {
+        const fieldA = structure.fields.find((f: any) => f.id === a);
+        const fieldB = structure.fields.find((f: any) => f.id === b);
+
+        const orderA = fieldA?.displayOrder || 9999;
+        const orderB = fieldB?.displayOrder || 9999;
+
+        if (orderA !== orderB) return orderA - orderB;
+      }
+
+      // Si no hay orden de visualización o es igual, ordenar alfabéticamente por etiqueta
+      return fieldLabels[a].localeCompare(fieldLabels[b]);
+    });
+  }
+
+  return { tableFields: tableFields as string[], fieldLabels, advancedTableFields };
+}
+
+// Proporción del ancho según la etiqueta del campo: fechas y códigos angostos, textos largos más anchos
+function getColumnWidth(label: string): number {
+  const labelLower = label.toLowerCase();
+  if (labelLower.includes('fecha')) return 0.12;
+  if (labelLower === 'folio' || labelLower === 'código' || labelLower === 'lote') return 0.08;
+  if (labelLower.includes('producto') || labelLower.includes('nombre')) return 0.18;
+  if (labelLower.includes('observaciones') || labelLower.includes('comentarios')) return 0.22;
+  return 0.14;
+}
+
+// Valor de una celda de la tabla principal
+function formatCellValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') {
+    try {
+      return JSON.stringify(value);
+    } catch (e) {
+      return '[Objeto complejo]';
+    }
+  }
+  return String(value);
+}
+
+// Valor de una celda de tabla avanzada: Sí/No/N/A homologados y fechas ISO legibles
+function formatAdvancedCellValue(value: any): string {
+  if (value === null || value === undefined) return '-';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (['si', 'sí'].includes(String(value).toLowerCase())) return 'Sí';
+  if (String(value).toLowerCase() === 'no') return 'No';
+  if (['na', 'n/a'].includes(String(value).toLowerCase())) return 'N/A';
+  if (typeof value === 'string' && value.includes('T00:00:00')) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toLocaleDateString('es-MX');
+  }
+  return String(value);
+}
+
+/**
+ * Tabla avanzada de un registro: columnas tomadas del primer renglón con los nombres de microbiología
+ */
+function buildAdvancedTableBlock(value: any[], fieldLabel: string): PdfBlock {
+  const columnIds = Object.keys(value[0] ?? {});
+  const columns: PdfTableColumn[] = columnIds.map(id => {
+    const header = getMicrobiologyHeaderName(id);
+    const headerLower = header.toLowerCase();
+    const firstValue = value[0][id];
+    let width = 0.10;
+    if (headerLower === 'producto' || id.includes('producto') || id.includes('a2a4db54')) width = 0.25;
+    else if (headerLower === 'fecha' || id.includes('fecha') || id.includes('a3e4f9fa')) width = 0.12;
+    else if (typeof firstValue === 'string' && ['Si', 'No', 'NA', 'Sí', 'N/A'].includes(firstValue)) width = 0.07;
+    else if (typeof firstValue === 'string' && firstValue.length > 10) width = 0.20;
+    return { header, width };
+  });
+
+  return {
+    type: 'table',
+    title: `Tabla: ${fieldLabel}`,
+    columns,
+    rows: value.map(row => columnIds.map(id => formatAdvancedCellValue(row?.[id])))
+  };
+}
+
+/**
+ * Bloques de la tabla homologada; las tablas avanzadas de cada registro se muestran debajo de su fila
+ * @param entries Entradas de la plantilla
+ * @param template Plantilla de las entradas
+ * @param fieldOptions Campos seleccionados y su orden
+ */
+export function buildEntriesTableBlocks(entries: FormEntry[], template: FormTemplate, fieldOptions?: FieldOptions): PdfBlock[] {
+  const { tableFields, fieldLabels, advancedTableFields } = resolveTableFields(entries, template, fieldOptions);
+  const columns = tableFields.map(field => ({ header: fieldLabels[field], width: getColumnWidth(fieldLabels[field]) }));
+  const blocks: PdfBlock[] = [];
+  let rows: string[][] = [];
+
+  const flushRows = () => {
+    if (rows.length > 0) {
+      blocks.push({ type: 'table', columns, rows });
+      rows = [];
+    }
+  };
+
+  entries.forEach(entry => {
+    const data = (entry.data && typeof entry.data === 'object' ? entry.data : {}) as Record<string, any>;
+    const advancedTables = tableFields.filter(field => advancedTableFields.includes(field) && Array.isArray(data[field]) && data[field].length > 0);
+
+    rows.push(tableFields.map(field =>
+      advancedTableFields.includes(field) && Array.isArray(data[field])
+        // En la tabla principal solo se muestra un resumen
+        ? formatAdvancedTableValue(data[field], field, fieldLabels[field])
+        : formatCellValue(data[field])
+    ));
+
+    if (advancedTables.length > 0) {
+      flushRows();
+      blocks.push({ type: 'section', title: `Tablas de datos adicionales - ${entry.folioNumber || `Formulario #${entry.id}`}` });
+      advancedTables.forEach(field => blocks.push(buildAdvancedTableBlock(data[field], fieldLabels[field])));
+    }
+  });
+  flushRows();
+
+  if (blocks.length === 0) {
+    blocks.push({ type: 'table', columns, rows: [] });
+  }
+  return blocks;
+}
+
+/**
+ * Documento de datos homologados: total de formularios y tabla con una fila por entrada
+ * @param entries Entradas de la plantilla
+ * @param template Plantilla de las entradas
+ * @param fieldOptions Campos seleccionados y su orden
+ * @param generatedAt Fecha de generación impresa en el pie de página
+ */
+export function buildConsolidatedDocument(
+  entries: FormEntry[],
+  template: FormTemplate,
+  fieldOptions?: FieldOptions,
+  generatedAt?: Date
+): PdfDocumentModel {
+  return {
+    title: `Datos homologados: ${template.name}`,
+    orientation: 'landscape',
+    documentControl: describeDocumentControl(getDocumentControl(template)),
+    info: [{ label: 'Total de formularios', value: String(entries.length) }],
+    blocks: buildEntriesTableBlocks(entries, template, fieldOptions),
+    generatedAt
+  };
+}
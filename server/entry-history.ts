@@ -0,0 +1,174 @@
+import { storage, type EntryRevisionInput } from "./storage";
+import { FieldChange, FormEntry, FormEntryRevision } from "@shared/schema";
+
+interface FieldLabels {
+  fields: Map<string, string>; // ID de campo → etiqueta
+  columns: Map<string, string>; // ID de columna de tabla → encabezado
+}
+
+/**
+ * Obtiene las etiquetas de campos y columnas de tabla de la estructura de una plantilla
+ */
+function getFieldLabels(structure: any): FieldLabels {
+  const labels: FieldLabels = { fields: new Map(), columns: new Map() };
+  const allFields = [
+    ...(structure?.fields || []),
+    ...(structure?.sections || []).flatMap((section: any) => section?.fields || [])
+  ];
+
+  for (const field of allFields) {
+    if (!field?.id) continue;
+    labels.fields.set(field.id, field.label || field.id);
+
+    for (const column of field.tableColumns || []) {
+      labels.columns.set(column.id, column.header || column.id);
+    }
+    for (const section of field.advancedTableConfig?.sections || []) {
+      for (const column of section.columns || []) {
+        labels.columns.set(column.id, column.header || column.id);
+      }
+    }
+  }
+
+  return labels;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "";
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isRowList(value: unknown): value is unknown[] {
+  return Array.isArray(value) && value.some(isPlainObject);
+}
+
+function collectChanges(
+  path: string,
+  fieldId: string,
+  label: string,
+  oldValue: unknown,
+  newValue: unknown,
+  labels: FieldLabels,
+  changes: FieldChange[]
+) {
+  if (isEmptyValue(oldValue) && isEmptyValue(newValue)) return;
+  if (JSON.stringify(oldValue) === JSON.stringify(newValue)) return;
+
+  // Tablas (incluidas las avanzadas): comparar fila por fila y celda por celda
+  if ((isRowList(oldValue) || isRowList(newValue)) && !isPlainObject(oldValue) && !isPlainObject(newValue)) {
+    const oldRows = Array.isArray(oldValue) ? oldValue : [];
+    const newRows = Array.isArray(newValue) ? newValue : [];
+    for (let index = 0; index < Math.max(oldRows.length, newRows.length); index++) {
+      collectChanges(`${path}[${index}]`, fieldId, `${label} › Fila ${index + 1}`, oldRows[index], newRows[index], labels, changes);
+    }
+    return;
+  }
+
+  if (isPlainObject(oldValue) || isPlainObject(newValue)) {
+    const oldObject = isPlainObject(oldValue) ? oldValue : {};
+    const newObject = isPlainObject(newValue) ? newValue : {};
+    const keys = new Set([...Object.keys(oldObject), ...Object.keys(newObject)]);
+    keys.forEach(key => {
+      const keyLabel = labels.columns.get(key) ?? key;
+      collectChanges(`${path}.${key}`, fieldId, `${label} › ${keyLabel}`, oldObject[key], newObject[key], labels, changes);
+    });
+    return;
+  }
+
+  changes.push({ path, fieldId, label, oldValue: oldValue ?? null, newValue: newValue ?? null });
+}
+
+/**
+ * Compara los datos de una entrada campo por campo, incluyendo cada celda de las tablas
+ * @param structure Estructura de la plantilla (para las etiquetas)
+ * @param previousData Datos antes del guardado
+ * @param nextData Datos después del guardado
+ * @returns Lista de cambios con valor anterior y nuevo
+ */
+export function diffEntryData(
+  structure: any,
+  previousData: Record<string, any>,
+  nextData: Record<string, any>
+): FieldChange[] {
+  const labels = getFieldLabels(structure);
+  const changes: FieldChange[] = [];
+  const fieldIds = new Set([...Object.keys(previousData || {}), ...Object.keys(nextData || {})]);
+
+  fieldIds.forEach(fieldId => {
+    const label = labels.fields.get(fieldId) ?? fieldId;
+    collectChanges(fieldId, fieldId, label, previousData?.[fieldId], nextData?.[fieldId], labels, changes);
+  });
+
+  return changes;
+}
+
+function buildRevision(
+  structure: any,
+  previous: FormEntry | null,
+  updated: FormEntry,
+  userId: number,
+  action: string
+): EntryRevisionInput {
+  return {
+    formEntryId: updated.id,
+    action,
+    data: updated.data as Record<string, any>,
+    changes: diffEntryData(
+      structure,
+      (previous?.data as Record<string, any>) || {},
+      (updated.data as Record<string, any>) || {}
+    ),
+    status: updated.status,
+    workflowStatus: updated.workflowStatus,
+    changedBy: userId
+  };
+}
+
+/**
+ * Registra la revisión inicial de una entrada recién creada
+ * @param entry Entrada creada
+ * @param userId Usuario que la creó
+ */
+export async function recordCreatedEntryRevision(entry: FormEntry, userId: number): Promise<FormEntryRevision> {
+  const template = await storage.getFormTemplate(entry.formTemplateId);
+  return await storage.createFormEntryRevision(buildRevision(template?.structure, null, entry, userId, "created"));
+}
+
+/**
+ * Guarda los cambios de una entrada junto con su revisión inmutable, en una sola transacción
+ * con la entrada bloqueada (los guardados simultáneos reciben consecutivos distintos).
+ * Si la entrada es anterior al historial, primero guarda su estado previo como revisión base.
+ * @param entry Entrada a modificar
+ * @param data Cambios a guardar
+ * @param userId Usuario que hizo el cambio
+ * @param action Acción que originó el guardado
+ * @returns Entrada guardada y su revisión, o undefined si la entrada ya no existe
+ */
+export async function updateFormEntryWithRevision(
+  entry: FormEntry,
+  data: Partial<FormEntry>,
+  userId: number,
+  action: string
+): Promise<{ entry: FormEntry; revision: FormEntryRevision } | undefined> {
+  const template = await storage.getFormTemplate(entry.formTemplateId);
+
+  return await storage.updateFormEntryWithRevision(entry.id, data, (previous, updated, hasRevisions) => {
+    const revisions: EntryRevisionInput[] = [];
+    if (!hasRevisions) {
+      revisions.push({
+        formEntryId: previous.id,
+        action: "baseline",
+        data: previous.data as Record<string, any>,
+        changes: [],
+        status: previous.status,
+        workflowStatus: previous.workflowStatus,
+        changedBy: previous.lastUpdatedBy ?? previous.createdBy
+      });
+    }
+    revisions.push(buildRevision(template?.structure, previous, updated, userId, action));
+    return revisions;
+  });
+}
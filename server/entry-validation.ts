@@ -0,0 +1,241 @@
+import { z } from "zod";
+import { EntryFieldError, UserRole } from "@shared/schema";
+import { isEmptyFieldValue, isFieldRequired, isFieldVisible } from "@shared/field-rules";
+import { getFieldOwnership } from "./field-permissions";
+
+// Roles que capturan (y por lo tanto deben completar) cualquier campo
+const unrestrictedRoles = [UserRole.SUPERADMIN];
+
+// Campos solo visuales: no guardan datos
+const layoutFieldTypes = ["heading", "divider"];
+
+const numericString = z.string().trim().regex(/^-?\d+([.,]\d+)?%?$/, "Debe ser un número");
+const numberValue = z.union([z.number(), numericString]);
+
+function toNumber(value: number | string): number {
+  return typeof value === "number" ? value : parseFloat(value.replace(",", ".").replace("%", ""));
+}
+
+function optionValues(options: any[] | undefined): string[] {
+  return (options || []).map(option => (typeof option === "string" ? option : option?.value)).filter(Boolean);
+}
+
+/**
+ * Esquema del valor de una columna de tabla avanzada (sin considerar si es obligatorio)
+ */
+function columnValueSchema(column: any): z.ZodTypeAny {
+  const validation = column.validation || {};
+  let schema: z.ZodTypeAny;
+
+  switch (column.type) {
+    case "number": {
+      schema = numberValue.superRefine((value, ctx) => {
+        const number = toNumber(value);
+        if (validation.min !== undefined && number < validation.min) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Debe ser mayor o igual a ${validation.min}` });
+        }
+        if (validation.max !== undefined && number > validation.max) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Debe ser menor o igual a ${validation.max}` });
+        }
+      });
+      break;
+    }
+    case "checkbox":
+      schema = z.union([z.boolean(), z.string(), z.array(z.string())]);
+      break;
+    case "employee":
+    case "product":
+      schema = z.union([z.number(), z.string()]);
+      break;
+    default:
+      schema = z.union([z.string(), z.number()]);
+  }
+
+  if (validation.pattern) {
+    let pattern: RegExp | null = null;
+    try {
+      pattern = new RegExp(validation.pattern);
+    } catch {
+      // Un patrón inválido en la plantilla no debe impedir guardar
+    }
+    if (pattern) {
+      const regex = pattern;
+      schema = schema.refine(value => regex.test(String(value)), "No cumple con el formato esperado");
+    }
+  }
+
+  return schema;
+}
+
+function getTableColumns(field: any): any[] {
+  const config = field.advancedTableConfig;
+  return config?.sections?.flatMap((section: any) => section?.columns || []) ?? config?.columns ?? [];
+}
+
+// Una fila cuenta como capturada si tiene algún valor en columnas editables
+function isRowCaptured(row: Record<string, any>, columns: any[]): boolean {
+  return columns.some(column =>
+    !column.readOnly && !column.formula && !isEmptyFieldValue(row[column.id]) && row[column.id] !== false
+  );
+}
+
+/**
+ * Esquema de las filas de una tabla avanzada: tipos, min/max, patrón y columnas obligatorias
+ * (estas solo en filas capturadas, porque las tablas se inicializan con filas vacías)
+ */
+function advancedTableSchema(field: any): z.ZodTypeAny {
+  const columns = getTableColumns(field).filter((column: any) => column?.id && !column.formula);
+  const columnSchemas = new Map(columns.map((column: any) => [column.id, columnValueSchema(column)]));
+
+  const rowSchema = z.record(z.any()).superRefine((row, ctx) => {
+    const captured = isRowCaptured(row, columns);
+    for (const column of columns) {
+      const value = row[column.id];
+      if (isEmptyFieldValue(value)) {
+        if (captured && column.validation?.required) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [column.id], message: "Este campo es requerido" });
+        }
+        continue;
+      }
+      const result = columnSchemas.get(column.id)!.safeParse(value);
+      if (!result.success) {
+        result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: [column.id, ...issue.path] }));
+      }
+    }
+  });
+
+  return z.array(rowSchema);
+}
+
+/**
+ * Esquema del valor de un campo según su tipo (sin considerar si es obligatorio)
+ */
+function fieldValueSchema(field: any): z.ZodTypeAny {
+  switch (field.type) {
+    case "number":
+      return numberValue;
+    case "select":
+    case "radio": {
+      const allowed = optionValues(field.options);
+      const schema = z.union([z.string(), z.number()]);
+      return allowed.length > 0
+        ? schema.refine(value => allowed.includes(String(value)), "Seleccione una opción válida")
+        : schema;
+    }
+    case "checkbox":
+      return z.union([z.boolean(), z.array(z.string()), z.string()]);
+    case "advancedTable":
+      return advancedTableSchema(field);
+    case "table":
+      return z.array(z.record(z.any()));
+    case "evaluationMatrix":
+      return z.record(z.any());
+    case "employee":
+    case "employeeByType":
+    case "userByRole":
+    case "product":
+      return z.union([z.number(), z.string()]);
+    default:
+      return z.union([z.string(), z.number()]);
+  }
+}
+
+/**
+ * Construye el esquema zod de los datos de una entrada a partir de la estructura de la plantilla.
+ * Los campos ocultos por visibleWhen y los calculados no se validan; la obligatoriedad
+ * (required / requiredWhen) se evalúa con los datos enviados
+ * @param structure Estructura de la plantilla
+ * @param data Datos enviados, necesarios para evaluar las reglas condicionales
+ * @param validatesRequired Indica si el usuario debe completar el campo (campos de su rol)
+ */
+export function buildEntryDataSchema(
+  structure: any,
+  data: Record<string, any>,
+  validatesRequired: (field: any) => boolean = () => true
+) {
+  const fields = [
+    ...(structure?.fields || []),
+    ...(structure?.sections || []).flatMap((section: any) => section?.fields || [])
+  ].filter(field => field?.id && !layoutFieldTypes.includes(field.type) && !field.formula);
+
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const field of fields) {
+    if (!isFieldVisible(field, data)) continue;
+
+    // El folio automático lo asigna el servidor al crear la entrada
+    const required = !field.autoFolio && validatesRequired(field) && isFieldRequired(field, data);
+    const valueSchema = fieldValueSchema(field);
+    shape[field.id] = z.any().superRefine((value, ctx) => {
+      const empty = isEmptyFieldValue(value) || (field.type === "checkbox" && value === false);
+      if (empty) {
+        if (required) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Este campo es requerido" });
+        }
+        return;
+      }
+      const result = valueSchema.safeParse(value);
+      if (!result.success) {
+        result.error.issues.forEach(issue => ctx.addIssue(issue));
+      }
+    });
+  }
+
+  // Las entradas guardan además datos que no son campos de la plantilla (folios, metadatos)
+  return z.object(shape).passthrough();
+}
+
+function describePath(path: (string | number)[], labels: Map<string, string>): string {
+  return path
+    .map(part => (typeof part === "number" ? `Fila ${part + 1}` : labels.get(part) ?? part))
+    .join(" › ");
+}
+
+/**
+ * Valida los datos de una entrada contra la estructura de su plantilla
+ * @param structure Estructura de la plantilla
+ * @param data Datos a guardar
+ * @param role Rol del usuario: solo debe completar los campos que le corresponden
+ * @returns Errores por campo (vacío si los datos son válidos)
+ */
+export function validateEntryData(structure: any, data: Record<string, any>, role: UserRole): EntryFieldError[] {
+  const ownership = getFieldOwnership(structure);
+  const schema = buildEntryDataSchema(structure, data, field => {
+    const owner = ownership.get(field.id);
+    return !owner || unrestrictedRoles.includes(role) || owner.ownerRoles.includes(role);
+  });
+
+  const result = schema.safeParse(data);
+  if (result.success) {
+    return [];
+  }
+
+  const labels = new Map<string, string>();
+  const fields = [
+    ...(structure?.fields || []),
+    ...(structure?.sections || []).flatMap((section: any) => section?.fields || [])
+  ];
+  for (const field of fields) {
+    if (!field?.id) continue;
+    labels.set(field.id, field.label || field.id);
+    for (const column of getTableColumns(field)) {
+      if (column?.id) labels.set(column.id, column.header || column.id);
+    }
+  }
+
+  return result.error.issues.map(issue => ({
+    fieldId: String(issue.path[0]),
+    path: issue.path,
+    label: describePath(issue.path, labels),
+    message: issue.message
+  }));
+}
+
+/**
+ * Respuesta 400 con los errores de validación por campo
+ */
+export function entryValidationError(errors: EntryFieldError[]) {
+  return {
+    message: `Datos inválidos: ${errors.map(error => `${error.label}: ${error.message}`).join("; ")}`,
+    errors
+  };
+}
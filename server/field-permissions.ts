@@ -0,0 +1,104 @@
+import { UserRole } from "@shared/schema";
+
+export interface FieldOwnership {
+  fieldId: string;
+  label: string;
+  ownerRoles: UserRole[];
+}
+
+// Roles que pueden modificar cualquier campo sin importar su dueño
+const unrestrictedRoles = [UserRole.SUPERADMIN];
+
+/**
+ * Obtiene los dueños de cada campo de la estructura de una plantilla.
+ * Los roles definidos en el campo tienen prioridad sobre los de su sección;
+ * los campos sin roles no tienen restricción.
+ * @param structure Estructura de la plantilla (fields y/o sections)
+ * @returns Mapa de ID de campo a su propiedad
+ */
+export function getFieldOwnership(structure: any): Map<string, FieldOwnership> {
+  const ownership = new Map<string, FieldOwnership>();
+
+  const addFields = (fields: any[] | undefined, sectionRoles?: UserRole[]) => {
+    for (const field of fields || []) {
+      // Los campos calculados no se capturan: el servidor los recalcula al guardar
+      if (!field?.id || field.formula) continue;
+      const ownerRoles: UserRole[] = field.ownerRoles?.length ? field.ownerRoles : sectionRoles || [];
+      if (ownerRoles.length > 0) {
+        ownership.set(field.id, { fieldId: field.id, label: field.label || field.id, ownerRoles });
+      }
+    }
+  };
+
+  addFields(structure?.fields);
+  for (const section of structure?.sections || []) {
+    addFields(section?.fields, section?.ownerRoles);
+  }
+
+  return ownership;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+function valuesDiffer(previous: unknown, next: unknown): boolean {
+  if (isEmptyValue(previous) && isEmptyValue(next)) {
+    return false;
+  }
+  return JSON.stringify(previous) !== JSON.stringify(next);
+}
+
+/**
+ * Busca los campos que el rol modificó sin ser su dueño
+ * @param structure Estructura de la plantilla
+ * @param previousData Datos guardados actualmente (o valores por defecto al crear)
+ * @param nextData Datos enviados por el usuario
+ * @param role Rol del usuario que hace el cambio
+ * @returns Campos modificados que pertenecen a otros roles
+ */
+export function findUnauthorizedFieldChanges(
+  structure: any,
+  previousData: Record<string, any>,
+  nextData: Record<string, any>,
+  role: UserRole
+): FieldOwnership[] {
+  if (unrestrictedRoles.includes(role)) {
+    return [];
+  }
+
+  const violations: FieldOwnership[] = [];
+  getFieldOwnership(structure).forEach(field => {
+    if (!field.ownerRoles.includes(role) && valuesDiffer(previousData[field.fieldId], nextData[field.fieldId])) {
+      violations.push(field);
+    }
+  });
+  return violations;
+}
+
+/**
+ * Valores por defecto de los campos de la plantilla, usados como punto de partida al crear una entrada
+ */
+export function getDefaultFieldValues(structure: any): Record<string, any> {
+  const defaults: Record<string, any> = {};
+  const allFields = [
+    ...(structure?.fields || []),
+    ...(structure?.sections || []).flatMap((section: any) => section?.fields || [])
+  ];
+  for (const field of allFields) {
+    if (field?.id && field.defaultValue !== undefined) {
+      defaults[field.id] = field.defaultValue;
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Respuesta 403 que nombra los campos modificados sin permiso
+ */
+export function fieldPermissionError(violations: FieldOwnership[]) {
+  return {
+    message: `No tiene permiso para modificar: ${violations.map(v => v.label).join(", ")}`,
+    fields: violations.map(({ fieldId, label, ownerRoles }) => ({ fieldId, label, ownerRoles }))
+  };
+}
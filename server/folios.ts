@@ -0,0 +1,167 @@
+import ExcelJS from 'exceljs';
+import { FolioEventWithUser, FolioResetPolicy, FolioSchemeSummary, FolioSequenceItem, UserRole } from '@shared/schema';
+import {
+  PRODUCTION_FORMS_FOLIO_TEMPLATE_ID,
+  PRODUCTION_FORMS_FOLIO_NAME,
+  folioEventTypeLabels,
+  folioStatusLabels,
+  resolveFolioScheme
+} from '@shared/folios';
+import { storage } from './storage';
+
+// Roles que configuran los esquemas de folios
+export const folioSchemeRoles = [UserRole.SUPERADMIN, UserRole.ADMIN];
+
+// Roles que consultan los reportes de folios: faltantes, cancelados y secuencia completa (auditoría)
+export const folioReportRoles = [
+  UserRole.SUPERADMIN,
+  UserRole.ADMIN,
+  UserRole.PRODUCTION_MANAGER,
+  UserRole.QUALITY_MANAGER,
+  UserRole.VIEWER
+];
+
+/**
+ * IDs de los campos que reciben el folio asignado al crear la entrada (autoFolio en la plantilla)
+ */
+export function getAutoFolioFieldIds(structure: any): string[] {
+  return [
+    ...(structure?.fields || []),
+    ...(structure?.sections || []).flatMap((section: any) => section?.fields || [])
+  ]
+    .filter((field: any) => field?.id && field.autoFolio)
+    .map((field: any) => field.id);
+}
+
+/**
+ * Esquema de folios de los formularios de producción y de cada plantilla, con el siguiente folio a asignar
+ */
+export async function listFolioSchemes(): Promise<FolioSchemeSummary[]> {
+  const [templates, counters] = await Promise.all([storage.getAllFormTemplates(), storage.getFolioCounters()]);
+  const scopes = [
+    { formTemplateId: PRODUCTION_FORMS_FOLIO_TEMPLATE_ID, templateName: PRODUCTION_FORMS_FOLIO_NAME },
+    ...templates.map(template => ({ formTemplateId: template.id, templateName: template.name }))
+  ];
+
+  return await Promise.all(scopes.map(async ({ formTemplateId, templateName }) => {
+    const counter = counters.find(c => c.formTemplateId === formTemplateId);
+    const { pattern, prefix } = resolveFolioScheme(counter, formTemplateId, templateName);
+    const nextFolio = await storage.previewNextFolio(formTemplateId);
+    return {
+      formTemplateId,
+      templateName,
+      prefix: counter?.prefix ?? null,
+      pattern: counter?.pattern ?? null,
+      resetPolicy: counter?.resetPolicy ?? FolioResetPolicy.NEVER,
+      effectivePattern: pattern,
+      effectivePrefix: prefix,
+      lastFolioNumber: counter?.lastFolioNumber ?? 0,
+      periodKey: counter?.periodKey ?? '',
+      nextFolio: nextFolio.folio
+    };
+  }));
+}
+
+const thinBorder: Partial<ExcelJS.Borders> = {
+  top: { style: 'thin' },
+  left: { style: 'thin' },
+  bottom: { style: 'thin' },
+  right: { style: 'thin' }
+};
+
+/**
+ * Nombre del alcance de folios: la plantilla o los formularios de producción; undefined si la plantilla no existe
+ */
+export async function getFolioScopeName(formTemplateId: number): Promise<string | undefined> {
+  if (formTemplateId === PRODUCTION_FORMS_FOLIO_TEMPLATE_ID) return PRODUCTION_FORMS_FOLIO_NAME;
+  return (await storage.getFormTemplate(formTemplateId))?.name;
+}
+
+export function folioSequenceFileName(templateName: string): string {
+  return `folios_${templateName.replace(/[^\w-]+/g, '_')}`;
+}
+
+function formatDate(date: Date | string | null): string {
+  return date ? new Date(date).toLocaleString('es-MX') : '';
+}
+
+function addHeaderRow(sheet: ExcelJS.Worksheet, headers: string[]) {
+  const headerRow = sheet.addRow(headers);
+  headerRow.eachCell((cell) => {
+    cell.font = { bold: true };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'F0F0F0' } };
+    cell.border = thinBorder;
+    cell.alignment = { horizontal: 'center', vertical: 'middle' };
+  });
+}
+
+function addDataRow(sheet: ExcelJS.Worksheet, values: (string | number)[]) {
+  sheet.addRow(values).eachCell({ includeEmpty: true }, (cell) => {
+    cell.border = thinBorder;
+  });
+}
+
+/**
+ * Secuencia de folios de una plantilla en Excel: una hoja con la situación de cada folio
+ * y otra con el historial completo de eventos
+ */
+export async function generateFolioSequenceExcel(
+  templateName: string,
+  sequence: FolioSequenceItem[],
+  events: FolioEventWithUser[]
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Secuencia');
+
+  sheet.mergeCells('A1:I1');
+  const titleCell = sheet.getCell('A1');
+  titleCell.value = 'SECUENCIA DE FOLIOS';
+  titleCell.font = { bold: true, size: 16 };
+  titleCell.alignment = { horizontal: 'center' };
+
+  sheet.addRow(['Formulario', templateName]);
+  sheet.addRow(['Folios', sequence.length]);
+  sheet.addRow(['Fecha de generación', new Date().toLocaleString('es-MX')]);
+  sheet.addRow([]);
+
+  addHeaderRow(sheet, ['Periodo', 'Consecutivo', 'Folio', 'Situación', 'Registro', 'Emitido', 'Último movimiento', 'Usuario', 'Motivo']);
+  sequence.forEach(item => {
+    addDataRow(sheet, [
+      item.period || 'Sin reinicio',
+      item.folioNumber ?? '',
+      item.folio ?? '',
+      folioStatusLabels[item.status],
+      item.recordId ?? '',
+      formatDate(item.issuedAt),
+      formatDate(item.updatedAt),
+      item.userName ?? '',
+      item.reason ?? ''
+    ]);
+  });
+  if (sequence.length === 0) {
+    sheet.addRow(['Sin folios emitidos']);
+  }
+  sheet.columns.forEach((column) => {
+    column.width = 20;
+  });
+
+  const history = workbook.addWorksheet('Historial');
+  addHeaderRow(history, ['Fecha', 'Evento', 'Folio', 'Folio anterior', 'Registro', 'Campo', 'Usuario', 'Motivo']);
+  events.forEach(event => {
+    addDataRow(history, [
+      formatDate(event.createdAt),
+      folioEventTypeLabels[event.eventType],
+      event.folio,
+      event.previousFolio ?? '',
+      event.recordId ?? '',
+      event.fieldId ?? '',
+      event.userName ?? '',
+      event.reason ?? ''
+    ]);
+  });
+  history.columns.forEach((column) => {
+    column.width = 20;
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,281 @@
+import { Response } from "express";
+import ExcelJS from "exceljs";
+import { storage } from "./storage";
+import { addTabularSheet, sendWorkbook } from "./consolidated-export";
+import { buildEntriesTableBlocks } from "./entries-table";
+import { PdfBlock, sendPdfDocument } from "./pdf-document";
+import { FormEntry, FormTemplate, MockRecall, MockRecallEntry, ProductionForm, User, UserRole } from "@shared/schema";
+import { formatElapsedMinutes, getMockRecallElapsedMinutes } from "@shared/mock-recalls";
+import { describeDocumentControl, getDocumentControl, isDocumentFormat } from "@shared/document-control";
+
+// Roles que ejecutan simulacros de retiro
+export const mockRecallRoles = [UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER];
+
+// Registros diarios que se revisan para el día y la marmita de producción del lote (código del formato)
+const productionDayTemplates = ["CA-RE-03-01", "CA-RE-07-01", "CA-RE-08-01"];
+
+export interface MockRecallRecords {
+  productionForms: ProductionForm[];
+  entries: MockRecallEntry[];
+}
+
+const linkLabels: Record<MockRecallEntry["link"], string> = {
+  lot: "Lote",
+  production_day: "Día y marmita de producción",
+};
+
+function isProductionDayTemplate(template: FormTemplate): boolean {
+  return productionDayTemplates.some(code => isDocumentFormat(template, code));
+}
+
+// Día de producción: la fecha capturada en el formulario o, si no tiene formato de fecha, la de creación
+function getProductionDay(form: ProductionForm): { from: Date; to: Date } {
+  const from = /^\d{4}-\d{2}-\d{2}/.test(form.date)
+    ? new Date(`${form.date.slice(0, 10)}T00:00:00`)
+    : new Date(form.createdAt ?? Date.now());
+  from.setHours(0, 0, 0, 0);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 1);
+  return { from, to };
+}
+
+// "Marmita 2", "marmita-2" y "2" se consideran la misma marmita
+function normalizeMarmita(value: unknown): string {
+  return String(value).toLowerCase().replace(/marmita/g, "").replace(/[^a-z0-9]/g, "");
+}
+
+// Un registro del día aplica al lote si no indica marmita o si indica la del lote
+function matchesMarmita(entry: FormEntry, marmita: string | null): boolean {
+  if (!marmita) return true;
+  const data = (entry.data ?? {}) as Record<string, unknown>;
+  const marmitas = Object.entries(data)
+    .filter(([key, value]) =>
+      key.toLowerCase().includes("marmita") &&
+      (typeof value === "string" || typeof value === "number") &&
+      String(value).trim() !== ""
+    )
+    .map(([, value]) => normalizeMarmita(value));
+  return marmitas.length === 0 || marmitas.includes(normalizeMarmita(marmita));
+}
+
+/**
+ * Reúne los registros del lote: sus formularios de producción, las entradas capturadas con el lote
+ * (liberación, microbiología...) y los registros diarios del día y la marmita en que se produjo
+ */
+export async function gatherMockRecallRecords(lotNumber: string): Promise<MockRecallRecords> {
+  const productionForms = await storage.getProductionFormsByLotNumber(lotNumber);
+  const templates = await storage.getAllFormTemplates();
+  const templatesById = new Map(templates.map(template => [template.id, template]));
+
+  const entries: MockRecallEntry[] = [];
+  for (const entry of await storage.getFormEntriesByLotNumber(lotNumber)) {
+    const template = templatesById.get(entry.formTemplateId);
+    if (template) entries.push({ entry, template, link: "lot" });
+  }
+
+  const dayTemplateIds = templates.filter(isProductionDayTemplate).map(template => template.id);
+  for (const form of productionForms) {
+    const { from, to } = getProductionDay(form);
+    for (const entry of await storage.getFormEntriesCreatedBetween(dayTemplateIds, from, to)) {
+      if (entries.some(recalled => recalled.entry.id === entry.id) || !matchesMarmita(entry, form.marmita)) continue;
+      entries.push({ entry, template: templatesById.get(entry.formTemplateId)!, link: "production_day" });
+    }
+  }
+
+  return { productionForms, entries };
+}
+
+// Registros agrupados por plantilla, en el orden en que se reunieron
+function groupByTemplate(entries: MockRecallEntry[]): { template: FormTemplate; entries: FormEntry[] }[] {
+  const groups = new Map<number, { template: FormTemplate; entries: FormEntry[] }>();
+  for (const { entry, template } of entries) {
+    const group = groups.get(template.id) ?? { template, entries: [] };
+    group.entries.push(entry);
+    groups.set(template.id, group);
+  }
+  return Array.from(groups.values());
+}
+
+async function getProductNames(forms: ProductionForm[]): Promise<Map<number, string>> {
+  const names = new Map<number, string>();
+  for (const form of forms) {
+    const product = await storage.getProduct(parseInt(form.productId));
+    names.set(form.id, product?.name ?? form.productId);
+  }
+  return names;
+}
+
+function formatDateTime(date: Date | string | null): string {
+  return date ? new Date(date).toLocaleString("es-MX") : "En curso";
+}
+
+// Materias primas con su lote de proveedor
+function describeIngredients(form: ProductionForm): string[] {
+  const ingredients = Array.isArray(form.ingredients) ? form.ingredients as any[] : [];
+  return ingredients
+    .filter(ingredient => ingredient?.quantity > 0)
+    .map(ingredient => {
+      const lot = form.ingredientLots?.[ingredient.name];
+      return `${ingredient.name}: ${ingredient.quantity} ${ingredient.unit ?? "kg"} (Lote MP: ${lot || "No registrado"})`;
+    });
+}
+
+function getRecallSummary(recall: MockRecall, records: MockRecallRecords, starter?: User): [string, string][] {
+  return [
+    ["Lote", recall.lotNumber],
+    ["Iniciado por", starter?.name ?? `Usuario ${recall.startedBy}`],
+    ["Inicio", formatDateTime(recall.startedAt)],
+    ["Conclusión", formatDateTime(recall.completedAt)],
+    ["Tiempo transcurrido", formatElapsedMinutes(getMockRecallElapsedMinutes(recall))],
+    ["Formularios de producción", String(records.productionForms.length)],
+    ["Registros relacionados", String(records.entries.length)],
+    ["Notas", recall.notes ?? ""],
+  ];
+}
+
+/**
+ * Paquete PDF del simulacro: resumen con el tiempo transcurrido, formularios de producción del lote
+ * y una sección por plantilla con la tabla homologada de sus registros
+ */
+export async function sendMockRecallPdf(
+  recall: MockRecall,
+  records: MockRecallRecords,
+  starter: User | undefined,
+  fileName: string,
+  res: Response
+) {
+  const productNames = await getProductNames(records.productionForms);
+
+  const blocks: PdfBlock[] = [{
+    type: "list",
+    title: "Registros reunidos",
+    items: [
+      ...records.productionForms.map(form => `Formulario de producción ${form.folio} (${productNames.get(form.id)}, ${form.date})`),
+      ...records.entries.map(({ entry, template, link }) => `${template.name} - folio ${entry.folioNumber ?? entry.id} (${linkLabels[link]})`),
+    ],
+  }];
+
+  records.productionForms.forEach(form => {
+    blocks.push(
+      { type: "pageBreak" },
+      { type: "section", title: `Formulario de producción ${form.folio}` },
+      {
+        type: "fields",
+        columns: 2,
+        fields: [
+          ["Producto", productNames.get(form.id) ?? String(form.productId)],
+          ["Fecha", form.date],
+          ["Marmita", form.marmita ?? "N/A"],
+          ["Litros", String(form.liters)],
+          ["Caducidad", form.caducidad ?? "N/A"],
+          ["Responsable", form.responsible],
+          ["Estado", form.status],
+        ].map(([label, value]) => ({ label, value })),
+      },
+      { type: "list", title: "Materias primas", items: describeIngredients(form) }
+    );
+  });
+
+  groupByTemplate(records.entries).forEach(({ template, entries }) => {
+    const documentControl = describeDocumentControl(getDocumentControl(template));
+    blocks.push(
+      { type: "pageBreak" },
+      { type: "section", title: `${template.name} (registros: ${entries.length})` },
+      ...(documentControl ? [{ type: "text" as const, text: documentControl }] : []),
+      ...buildEntriesTableBlocks(entries, template)
+    );
+  });
+
+  await sendPdfDocument({
+    title: `Simulacro de retiro - lote ${recall.lotNumber}`,
+    orientation: "landscape",
+    info: getRecallSummary(recall, records, starter).map(([label, value]) => ({ label, value })),
+    blocks,
+  }, fileName, res);
+}
+
+// Nombre de hoja válido para Excel (máximo 31 caracteres, sin : \ / ? * [ ])
+function toSheetName(index: number, name: string): string {
+  return `${index}. ${name}`.replace(/[:\\/?*\[\]]/g, " ").slice(0, 31);
+}
+
+/**
+ * Paquete Excel del simulacro: hoja de resumen, hoja de producción con los lotes de materia prima
+ * y una hoja tabular por plantilla
+ */
+export async function sendMockRecallExcel(
+  recall: MockRecall,
+  records: MockRecallRecords,
+  starter: User | undefined,
+  fileName: string,
+  res: Response
+) {
+  const productNames = await getProductNames(records.productionForms);
+  const workbook = new ExcelJS.Workbook();
+
+  const summarySheet = workbook.addWorksheet("Resumen");
+  summarySheet.mergeCells("A1:E1");
+  const titleCell = summarySheet.getCell("A1");
+  titleCell.value = `SIMULACRO DE RETIRO - LOTE ${recall.lotNumber}`;
+  titleCell.font = { bold: true, size: 16 };
+  titleCell.alignment = { horizontal: "center" };
+  getRecallSummary(recall, records, starter).forEach(row => {
+    summarySheet.addRow(row).getCell(1).font = { bold: true };
+  });
+  summarySheet.addRow([]);
+
+  const headerRow = summarySheet.addRow(["Registro", "Folio", "Vínculo", "Fecha"]);
+  headerRow.eachCell((cell) => {
+    cell.font = { bold: true };
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "F0F0F0" } };
+  });
+  records.productionForms.forEach(form => {
+    summarySheet.addRow(["Formulario de producción", form.folio, linkLabels.lot, form.date]);
+  });
+  records.entries.forEach(({ entry, template, link }) => {
+    summarySheet.addRow([
+      template.name,
+      entry.folioNumber ?? entry.id,
+      linkLabels[link],
+      entry.createdAt ? new Date(entry.createdAt).toLocaleString("es-MX") : ""
+    ]);
+  });
+  summarySheet.columns.forEach((column) => {
+    column.width = 30;
+  });
+
+  const productionSheet = workbook.addWorksheet("Producción");
+  const productionHeader = productionSheet.addRow([
+    "Folio", "Producto", "Fecha", "Marmita", "Litros", "Caducidad", "Estado", "Materia prima", "Cantidad", "Lote MP"
+  ]);
+  productionHeader.eachCell((cell) => {
+    cell.font = { bold: true };
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "F0F0F0" } };
+  });
+  records.productionForms.forEach(form => {
+    const formColumns = [
+      form.folio, productNames.get(form.id), form.date, form.marmita ?? "", form.liters, form.caducidad ?? "", form.status
+    ];
+    const ingredients = Array.isArray(form.ingredients) ? (form.ingredients as any[]).filter(i => i?.quantity > 0) : [];
+    if (ingredients.length === 0) {
+      productionSheet.addRow(formColumns);
+    }
+    ingredients.forEach(ingredient => {
+      productionSheet.addRow([
+        ...formColumns,
+        ingredient.name,
+        `${ingredient.quantity} ${ingredient.unit ?? "kg"}`,
+        form.ingredientLots?.[ingredient.name] || "No registrado"
+      ]);
+    });
+  });
+  productionSheet.columns.forEach((column) => {
+    column.width = 18;
+  });
+
+  groupByTemplate(records.entries).forEach(({ template, entries }, index) => {
+    addTabularSheet(workbook, toSheetName(index + 1, template.name), template.name, entries, template);
+  });
+
+  await sendWorkbook(workbook, fileName, res);
+}
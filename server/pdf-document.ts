@@ -0,0 +1,388 @@
+import PDFDocument from 'pdfkit';
+import type { Response } from 'express';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Modelo de documento PDF común a todas las exportaciones (entradas de formulario, formularios de
+ * producción, datos homologados y simulacros de retiro). Los generadores solo arman el modelo;
+ * renderPdfDocument lo dibuja siempre con el mismo encabezado, estilos de tabla, firmas y pie de página.
+ */
+
+export interface PdfField {
+  label: string;
+  value: string;
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width?: number; // Proporción del ancho de la tabla (1 por omisión)
+}
+
+export type PdfBlock =
+  // Barra de título que abre una sección del documento
+  | { type: 'section'; title: string }
+  // Etiqueta y valor en columnas
+  | { type: 'fields'; title?: string; columns?: number; fields: PdfField[] }
+  // Tabla con encabezados que se repiten al saltar de página
+  | { type: 'table'; title?: string; columns: PdfTableColumn[]; rows: string[][]; fontSize?: number; emptyText?: string }
+  | { type: 'text'; title?: string; text: string }
+  | { type: 'list'; title?: string; items: string[] }
+  // Recuadros de firma en filas de hasta tres
+  | { type: 'signatures'; title?: string; signatures: PdfSignature[] }
+  | { type: 'pageBreak' };
+
+export interface PdfSignature {
+  label: string;
+  name?: string | null;
+  date?: string | null;
+  image?: string | null; // Imagen de la firma como data URL
+}
+
+export interface PdfStatus {
+  label: string;
+  color: string;
+}
+
+export interface PdfDocumentModel {
+  title: string;
+  orientation?: 'portrait' | 'landscape';
+  documentControl?: string | null; // Código, revisión y fechas del formato; se repite en cada página
+  status?: PdfStatus | null;
+  info?: PdfField[]; // Datos de identificación bajo el encabezado
+  blocks: PdfBlock[];
+  generatedAt?: Date;
+}
+
+export const COMPANY_NAME = 'GELAG S.A DE C.V.';
+export const COMPANY_ADDRESS = 'BLVD. SANTA RITA #842, PARQUE INDUSTRIAL SANTA RITA, GOMEZ PALACIO, DGO.';
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 45;
+const LOGO_PATH = path.resolve('./public/assets/gelag-logo.png');
+
+function contentWidth(doc: any): number {
+  return doc.page.width - MARGIN * 2;
+}
+
+function bottomLimit(doc: any): number {
+  return doc.page.height - MARGIN - FOOTER_HEIGHT;
+}
+
+function ensureSpace(doc: any, height: number): void {
+  if (doc.y + height > bottomLimit(doc)) {
+    doc.addPage();
+  }
+}
+
+function drawHeader(doc: any, model: PdfDocumentModel): void {
+  const width = contentWidth(doc);
+
+  try {
+    if (fs.existsSync(LOGO_PATH)) {
+      doc.image(LOGO_PATH, MARGIN, MARGIN - 10, { fit: [60, 30] });
+    }
+  } catch (logoError) {
+    console.error('Error al añadir logo:', logoError);
+  }
+
+  doc.fillColor('#000000').fontSize(14).font('Helvetica-Bold')
+     .text(model.title.toUpperCase(), MARGIN + 70, MARGIN - 5, { width: width - 140, align: 'center' });
+  doc.fontSize(8).font('Helvetica')
+     .text(`${COMPANY_NAME} ${COMPANY_ADDRESS}`, MARGIN, doc.y + 4, { width, align: 'center' });
+
+  if (model.documentControl) {
+    doc.fontSize(8).text(model.documentControl, MARGIN, doc.y + 2, { width, align: 'center' });
+  }
+  if (model.status) {
+    doc.fontSize(11).font('Helvetica-Bold').fillColor(model.status.color)
+       .text(model.status.label.toUpperCase(), MARGIN, doc.y + 4, { width, align: 'center' });
+    doc.fillColor('#000000');
+  }
+
+  const lineY = Math.max(doc.y, MARGIN + 30) + 6;
+  doc.moveTo(MARGIN, lineY).lineTo(MARGIN + width, lineY).lineWidth(0.5).stroke('#999999');
+  doc.strokeColor('#000000').lineWidth(1);
+  doc.x = MARGIN;
+  doc.y = lineY + 8;
+
+  if (model.info?.length) {
+    drawFieldList(doc, model.info, 2);
+    doc.moveDown(0.5);
+  }
+}
+
+function drawSectionTitle(doc: any, title: string): void {
+  ensureSpace(doc, 60);
+  doc.moveDown(0.5);
+  const y = doc.y;
+  doc.rect(MARGIN, y, contentWidth(doc), 18).fillAndStroke('#e9ecef', '#adb5bd');
+  doc.fillColor('#000000').fontSize(10).font('Helvetica-Bold')
+     .text(title.toUpperCase(), MARGIN + 6, y + 5, { width: contentWidth(doc) - 12 });
+  doc.strokeColor('#000000');
+  doc.x = MARGIN;
+  doc.y = y + 24;
+}
+
+function drawSubtitle(doc: any, title?: string): void {
+  if (!title) return;
+  ensureSpace(doc, 40);
+  doc.moveDown(0.3);
+  doc.fontSize(10).font('Helvetica-Bold').fillColor('#000000')
+     .text(title, MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.moveDown(0.3);
+}
+
+// Etiqueta y valor en columnas, llenando cada fila de izquierda a derecha
+function drawFieldList(doc: any, items: PdfField[], columns: number): void {
+  const columnWidth = contentWidth(doc) / columns;
+  for (let start = 0; start < items.length; start += columns) {
+    const rowItems = items.slice(start, start + columns);
+    doc.fontSize(9);
+    const rowHeight = Math.max(
+      ...rowItems.map(item => doc.font('Helvetica').heightOfString(`${item.label}: ${item.value}`, { width: columnWidth - 10 }))
+    ) + 4;
+    ensureSpace(doc, rowHeight);
+    const rowY = doc.y;
+    rowItems.forEach((item, index) => {
+      doc.font('Helvetica-Bold').text(`${item.label}:`, MARGIN + index * columnWidth, rowY, { width: columnWidth - 10, continued: true });
+      doc.font('Helvetica').text(` ${item.value}`);
+    });
+    doc.y = rowY + rowHeight;
+  }
+  doc.x = MARGIN;
+}
+
+/**
+ * Tabla con bordes; las filas crecen según su texto y el encabezado se repite en cada página
+ */
+function drawTable(doc: any, block: Extract<PdfBlock, { type: 'table' }>): void {
+  const tableWidth = contentWidth(doc);
+  const totalRatio = block.columns.reduce((sum, column) => sum + (column.width ?? 1), 0) || 1;
+  const widths = block.columns.map(column => tableWidth * (column.width ?? 1) / totalRatio);
+  const fontSize = block.fontSize ?? 8;
+  if (block.columns.length === 0) return;
+
+  ensureSpace(doc, 80);
+  drawSubtitle(doc, block.title);
+
+  const measure = (values: string[], bold: boolean) => {
+    doc.fontSize(fontSize).font(bold ? 'Helvetica-Bold' : 'Helvetica');
+    return Math.max(16, ...values.map((value, index) => doc.heightOfString(value, { width: widths[index] - 6 }) + 6));
+  };
+
+  const drawRow = (values: string[], header: boolean) => {
+    const rowHeight = measure(values, header);
+    const rowY = doc.y;
+    let cellX = MARGIN;
+    values.forEach((value, index) => {
+      if (header) {
+        doc.rect(cellX, rowY, widths[index], rowHeight).fillAndStroke('#f0f0f0', '#666666');
+      } else {
+        doc.rect(cellX, rowY, widths[index], rowHeight).stroke('#666666');
+      }
+      doc.fillColor('#000000').fontSize(fontSize).font(header ? 'Helvetica-Bold' : 'Helvetica')
+         .text(value, cellX + 3, rowY + 3, { width: widths[index] - 6 });
+      cellX += widths[index];
+    });
+    doc.strokeColor('#000000');
+    doc.y = rowY + rowHeight;
+  };
+
+  const headers = block.columns.map(column => column.header);
+  drawRow(headers, true);
+
+  if (block.rows.length === 0) {
+    drawRow([block.emptyText ?? 'Sin registros', ...headers.slice(1).map(() => '')], false);
+  }
+  block.rows.forEach(row => {
+    const values = headers.map((_, index) => row[index] ?? '');
+    if (doc.y + measure(values, false) > bottomLimit(doc)) {
+      doc.addPage();
+      drawRow(headers, true);
+    }
+    drawRow(values, false);
+  });
+
+  doc.x = MARGIN;
+  doc.moveDown(0.8);
+}
+
+function drawBlock(doc: any, block: PdfBlock): void {
+  switch (block.type) {
+    case 'section':
+      drawSectionTitle(doc, block.title);
+      break;
+    case 'fields':
+      drawSubtitle(doc, block.title);
+      drawFieldList(doc, block.fields, block.columns ?? 2);
+      doc.moveDown(0.5);
+      break;
+    case 'table':
+      drawTable(doc, block);
+      break;
+    case 'text':
+      drawSubtitle(doc, block.title);
+      ensureSpace(doc, 30);
+      doc.fontSize(9).font('Helvetica').fillColor('#000000')
+         .text(block.text, MARGIN, doc.y, { width: contentWidth(doc), align: 'justify' });
+      doc.moveDown(0.5);
+      break;
+    case 'list':
+      drawSubtitle(doc, block.title);
+      doc.fontSize(9).font('Helvetica').fillColor('#000000');
+      block.items.forEach(item => {
+        ensureSpace(doc, 14);
+        doc.text(`• ${item}`, MARGIN + 8, doc.y, { width: contentWidth(doc) - 8 });
+      });
+      doc.x = MARGIN;
+      doc.moveDown(0.5);
+      break;
+    case 'signatures':
+      if (block.signatures.length > 0) {
+        drawSignatures(doc, block.title, block.signatures);
+      }
+      break;
+    case 'pageBreak':
+      doc.addPage();
+      break;
+  }
+}
+
+// Recuadros de firma en filas de hasta tres, con imagen, nombre y fecha
+function drawSignatures(doc: any, title: string | undefined, signatures: PdfSignature[]): void {
+  const perRow = Math.min(3, signatures.length);
+  const gap = 30;
+  const boxWidth = Math.min(180, (contentWidth(doc) - gap * (perRow - 1)) / perRow);
+  const boxHeight = 60;
+  const rowWidth = boxWidth * perRow + gap * (perRow - 1);
+  const startX = (doc.page.width - rowWidth) / 2;
+
+  ensureSpace(doc, boxHeight + 90);
+  doc.moveDown(1);
+  doc.fontSize(11).font('Helvetica-Bold').fillColor('#000000')
+     .text(title ?? 'Firmas de autorización', MARGIN, doc.y, { width: contentWidth(doc), align: 'center' });
+
+  for (let start = 0; start < signatures.length; start += perRow) {
+    ensureSpace(doc, boxHeight + 60);
+    const boxY = doc.y + 20;
+    const rowSignatures = signatures.slice(start, start + perRow);
+
+    for (let index = 0; index < rowSignatures.length; index++) {
+      const signature = rowSignatures[index];
+      const x = startX + index * (boxWidth + gap);
+
+      doc.fontSize(9).font('Helvetica-Bold').fillColor('#000000')
+         .text(signature.label, x, boxY - 13, { width: boxWidth, align: 'center' });
+      doc.rect(x, boxY, boxWidth, boxHeight).lineWidth(1).stroke('#999999');
+      doc.strokeColor('#000000');
+
+      const base64Data = signature.image?.startsWith('data:image') ? signature.image.split(',')[1] : null;
+      if (base64Data) {
+        try {
+          doc.image(Buffer.from(base64Data, 'base64'), x + 10, boxY + 5, { fit: [boxWidth - 20, boxHeight - 10], align: 'center' });
+        } catch (error) {
+          console.error('Error al procesar imagen de firma:', error);
+        }
+      }
+
+      doc.fontSize(8).font('Helvetica-Bold').text('Nombre:', x, boxY + boxHeight + 5, { width: 45 });
+      doc.font('Helvetica').text(signature.name || '________________________', x + 45, boxY + boxHeight + 5, { width: boxWidth - 45 });
+      doc.font('Helvetica-Bold').text('Fecha:', x, boxY + boxHeight + 18, { width: 45 });
+      doc.font('Helvetica').text(signature.date || '_______________', x + 45, boxY + boxHeight + 18, { width: boxWidth - 45 });
+    }
+
+    doc.y = boxY + boxHeight + 40;
+  }
+  doc.x = MARGIN;
+}
+
+// Encabezado breve de las páginas siguientes: título y control documental sobre el margen superior
+function drawRunningHeaders(doc: any, model: PdfDocumentModel): void {
+  if (!model.documentControl) return;
+  const range = doc.bufferedPageRange();
+  for (let index = range.start + 1; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    const topMargin = doc.page.margins.top;
+    doc.page.margins.top = 0;
+    doc.fontSize(7).font('Helvetica').fillColor('#666666')
+       .text(`${model.title.toUpperCase()}   |   ${model.documentControl}`, MARGIN, MARGIN - 22, {
+         width: contentWidth(doc), align: 'center', lineBreak: false
+       });
+    doc.page.margins.top = topMargin;
+  }
+  doc.fillColor('#000000');
+}
+
+// Pie de página con la fecha de generación y la numeración en todas las páginas
+function drawFooters(doc: any, generatedAt: Date): void {
+  const range = doc.bufferedPageRange();
+  for (let index = range.start; index < range.start + range.count; index++) {
+    doc.switchToPage(index);
+    const width = contentWidth(doc);
+    const footerY = doc.page.height - MARGIN - 25;
+    // Sin margen inferior para que el texto del pie no agregue páginas
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.fontSize(7).font('Helvetica').fillColor('#666666')
+       .text(
+         `Documento generado automáticamente por el sistema de captura de formularios el ${generatedAt.toLocaleString('es-MX')}`,
+         MARGIN, footerY, { width, align: 'center', lineBreak: false }
+       );
+    doc.text(
+      `© ${generatedAt.getFullYear()} ${COMPANY_NAME} - Página ${index - range.start + 1} de ${range.count}`,
+      MARGIN, footerY + 10, { width, align: 'center', lineBreak: false }
+    );
+    doc.page.margins.bottom = bottomMargin;
+  }
+  doc.fillColor('#000000');
+}
+
+/**
+ * Dibuja el modelo con PDFKit y devuelve el archivo
+ * @param model Documento a generar
+ */
+export function renderPdfDocument(model: PdfDocumentModel): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        layout: model.orientation ?? 'portrait',
+        margins: { top: MARGIN, bottom: MARGIN, left: MARGIN, right: MARGIN },
+        bufferPages: true,
+        info: {
+          Title: model.title,
+          Author: 'GELAG - Sistema de Formularios'
+        }
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      drawHeader(doc, model);
+      model.blocks.forEach(block => drawBlock(doc, block));
+      drawRunningHeaders(doc, model);
+      drawFooters(doc, model.generatedAt ?? new Date());
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+/**
+ * Genera el PDF y lo envía como descarga
+ * @param model Documento a generar
+ * @param fileName Nombre del archivo sin extensión
+ * @param res Respuesta HTTP
+ */
+export async function sendPdfDocument(model: PdfDocumentModel, fileName: string, res: Response): Promise<void> {
+  const buffer = await renderPdfDocument(model);
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Length', buffer.length);
+  res.setHeader('Content-Disposition', `attachment; filename="${fileName}.pdf"`);
+  res.send(buffer);
+}
@@ -1,448 +1,227 @@
-import PDFDocument from 'pdfkit';
-import { ProductionForm, User } from '@shared/schema';
-import * as fs from 'fs';
-import * as path from 'path';
+import { ProductionForm, ProductRecipe, User } from '@shared/schema';
+import { PdfBlock, PdfDocumentModel, PdfField, renderPdfDocument } from './pdf-document';
 
 // Función para generar un PDF de formulario de producción
 export async function generateProductionFormPDF(
-  form: ProductionForm, 
-  creator?: User
+  form: ProductionForm,
+  creator?: User,
+  recipe?: ProductRecipe
 ): Promise<Buffer> {
-  return new Promise((resolve, reject) => {
-    try {
-      console.log("Generando PDF para formulario de producción:", form.folio);
-      
-      // Crear un buffer para almacenar el PDF
-      const chunks: Buffer[] = [];
-      
-      // Crear un nuevo documento PDF en formato vertical optimizado
-      const doc = new PDFDocument({
-        margins: { top: 40, bottom: 40, left: 40, right: 40 },
-        size: 'A4',
-        layout: 'portrait',
-        compress: true
-      });
-      
-      // Capturar datos del documento
-      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
-      
-      // Resolver la promesa cuando el documento esté finalizado
-      doc.on('end', () => {
-        const result = Buffer.concat(chunks);
-        console.log("PDF de producción generado correctamente");
-        resolve(result);
-      });
-      
-      // Capturar errores
-      doc.on('error', (err: Error) => {
-        console.error("Error al generar PDF de producción:", err);
-        reject(err);
-      });
-      
-      // Generar el contenido del PDF
-      generateProductionPDFContent(doc, form, creator);
-      
-      // Finalizar el documento
-      doc.end();
-    } catch (error) {
-      console.error("Error al generar PDF de producción:", error);
-      reject(error);
-    }
-  });
+  console.log("Generando PDF para formulario de producción:", form.folio);
+  return renderPdfDocument(buildProductionFormDocument(form, creator, recipe));
 }
 
-// Función para dibujar una tabla de información principal
-function drawInfoTable(doc: any, form: ProductionForm, y: number): number {
-  const pageWidth = doc.page.width;
-  const tableX = 40;
-  const tableWidth = pageWidth - 80;
-  const rowHeight = 18;
-  
-  // Datos del formulario en tabla organizada
-  const data = [
-    ['Folio:', form.folio || 'N/A', 'Fecha:', form.date ? new Date(form.date).toLocaleDateString('es-MX') : 'N/A'],
-    ['Folio Interno:', form.folioInterno || 'N/A', 'Litros:', form.liters?.toString() || 'N/A'],
-    ['Producto ID:', form.productId?.toString() || 'N/A', 'Estado:', getStatusLabel(form.status)],
-    ['Responsable:', form.responsible || 'N/A', 'Lote:', form.lotNumber || 'N/A'],
-    ['Folio Baja MP:', form.folioBajaMP || 'N/A', 'Folio Baja ME:', form.folioBajaME || 'N/A'],
-    ['Folio PT:', form.folioPT || 'N/A', 'Marmita:', form.marmita || 'N/A']
-  ];
-  
-  data.forEach((row, index) => {
-    const currentY = y + (index * rowHeight);
-    
-    // Fondo alternado
-    if (index % 2 === 0) {
-      doc.rect(tableX, currentY, tableWidth, rowHeight).fillAndStroke('#f8f9fa', '#dee2e6');
-    } else {
-      doc.rect(tableX, currentY, tableWidth, rowHeight).fillAndStroke('#ffffff', '#dee2e6');
-    }
-    
-    // Primera columna
-    doc.fillColor('#000000').fontSize(9).font('Helvetica-Bold');
-    doc.text(row[0], tableX + 8, currentY + 4);
-    doc.font('Helvetica').text(row[1], tableX + 80, currentY + 4);
-    
-    // Segunda columna
-    doc.font('Helvetica-Bold').text(row[2], tableX + tableWidth/2 + 8, currentY + 4);
-    doc.font('Helvetica').text(row[3], tableX + tableWidth/2 + 80, currentY + 4);
-  });
-  
-  return y + (data.length * rowHeight) + 10;
+/**
+ * Documento del formulario de producción: datos generales, materias primas, control de proceso y
+ * calidad, resultados y, en la segunda página, destino, tiempos e información adicional
+ * @param form Formulario de producción
+ * @param creator Usuario que creó el formulario
+ * @param recipe Versión de receta fijada al crear el formulario
+ * @param generatedAt Fecha de generación impresa en el pie de página
+ */
+export function buildProductionFormDocument(
+  form: ProductionForm,
+  creator?: User,
+  recipe?: ProductRecipe,
+  generatedAt?: Date
+): PdfDocumentModel {
+  return {
+    title: 'Formulario de producción',
+    info: getInfoFields(form, creator, recipe),
+    blocks: [
+      ...getIngredientsBlocks(form),
+      ...getProcessBlocks(form),
+      ...getQualityBlocks(form),
+      ...getFinalResultsBlocks(form),
+      { type: 'pageBreak' },
+      ...getDestinationBlocks(form),
+      ...getAdditionalInfoBlocks(form)
+    ],
+    generatedAt
+  };
 }
 
-// Función para dibujar sección con encabezado
-function drawSectionHeader(doc: any, title: string, y: number): number {
-  const pageWidth = doc.page.width;
-  const headerHeight = 22;
-  
-  doc.rect(40, y, pageWidth - 80, headerHeight).fillAndStroke('#1e40af', '#1e40af');
-  doc.fillColor('#ffffff').fontSize(11).font('Helvetica-Bold');
-  doc.text(title, 40, y + 6, { 
-    align: 'center',
-    width: pageWidth - 80
-  });
-  
-  return y + headerHeight + 5;
+// Datos generales del formulario
+function getInfoFields(form: ProductionForm, creator?: User, recipe?: ProductRecipe): PdfField[] {
+  const fields: PdfField[] = [
+    { label: 'Folio', value: form.folio || 'N/A' },
+    { label: 'Fecha', value: form.date ? new Date(form.date).toLocaleDateString('es-MX') : 'N/A' },
+    { label: 'Folio Interno', value: form.folioInterno || 'N/A' },
+    { label: 'Litros', value: form.liters?.toString() || 'N/A' },
+    { label: 'Producto ID', value: form.productId?.toString() || 'N/A' },
+    { label: 'Estado', value: getStatusLabel(form.status) },
+    { label: 'Responsable', value: form.responsible || 'N/A' },
+    { label: 'Lote', value: form.lotNumber || 'N/A' },
+    { label: 'Folio Baja MP', value: form.folioBajaMP || 'N/A' },
+    { label: 'Folio Baja ME', value: form.folioBajaME || 'N/A' },
+    { label: 'Folio PT', value: form.folioPT || 'N/A' },
+    { label: 'Marmita', value: form.marmita || 'N/A' },
+    { label: 'Creado por', value: creator?.name || `Usuario ID: ${form.createdBy}` }
+  ];
+
+  // Versión de receta con la que se creó el formulario
+  if (recipe) {
+    fields.push(
+      { label: 'Receta', value: `${recipe.name} v${recipe.version}` },
+      { label: 'Vigente desde', value: recipe.effectiveFrom ? new Date(recipe.effectiveFrom).toLocaleDateString('es-MX') : 'Siempre' }
+    );
+  }
+  return fields;
 }
 
-// Función para dibujar tabla de materias primas
-function drawIngredientsTable(doc: any, form: ProductionForm, y: number): number {
+// Materias primas con cantidad, lote y hora de adición
+function getIngredientsBlocks(form: ProductionForm): PdfBlock[] {
   if (!form.ingredients || !Array.isArray(form.ingredients) || form.ingredients.length === 0) {
-    return y;
+    return [];
   }
-
-  const startY = drawSectionHeader(doc, 'MATERIAS PRIMAS', y);
-  const tableX = 40;
-  const pageWidth = doc.page.width;
-  const tableWidth = pageWidth - 80;
-  const rowHeight = 16;
-  
-  // Encabezados de tabla
-  doc.rect(tableX, startY, tableWidth, rowHeight).fillAndStroke('#e9ecef', '#adb5bd');
-  doc.fillColor('#000000').fontSize(9).font('Helvetica-Bold');
-  doc.text('Materia Prima', tableX + 8, startY + 4);
-  doc.text('Cantidad (kg)', tableX + 200, startY + 4);
-  doc.text('Hora', tableX + 350, startY + 4);
-  
-  let currentY = startY + rowHeight;
   const processData = form as any;
-  
-  form.ingredients.forEach((ingredient: any, index: number) => {
-    if (ingredient.quantity > 0) {
-      const time = processData.ingredientTimes?.[index] || 'No registrada';
-      
-      // Fondo alternado
-      doc.rect(tableX, currentY, tableWidth, rowHeight).fillAndStroke(
-        index % 2 === 0 ? '#ffffff' : '#f8f9fa', '#dee2e6'
-      );
-      
-      doc.fillColor('#000000').fontSize(8).font('Helvetica');
-      doc.text(ingredient.name || '', tableX + 8, currentY + 4);
-      doc.text(`${ingredient.quantity} ${ingredient.unit}`, tableX + 200, currentY + 4);
-      doc.text(time, tableX + 350, currentY + 4);
-      
-      currentY += rowHeight;
+  const rows = form.ingredients
+    .map((ingredient: any, index: number) => ({ ingredient, index }))
+    .filter(({ ingredient }) => ingredient.quantity > 0)
+    .map(({ ingredient, index }) => [
+      ingredient.name || '',
+      `${ingredient.quantity} ${ingredient.unit}`,
+      form.ingredientLots?.[ingredient.name] || 'No registrado',
+      processData.ingredientTimes?.[index] || 'No registrada'
+    ]);
+
+  return [
+    { type: 'section', title: 'Materias primas' },
+    {
+      type: 'table',
+      columns: [
+        { header: 'Materia Prima', width: 3 },
+        { header: 'Cantidad (kg)', width: 2 },
+        { header: 'Lote MP', width: 2 },
+        { header: 'Hora', width: 1.5 }
+      ],
+      rows
     }
-  });
-  
-  return currentY + 15;
+  ];
 }
 
-// Función para dibujar tabla de control de proceso
-function drawProcessTable(doc: any, form: ProductionForm, y: number): number {
+// Temperatura y presión por hora
+function getProcessBlocks(form: ProductionForm): PdfBlock[] {
   const processData = form as any;
-  
   if (!processData.temperature && !processData.pressure) {
-    return y;
+    return [];
   }
 
-  const startY = drawSectionHeader(doc, 'CONTROL DE PROCESO', y);
-  const tableX = 40;
-  const pageWidth = doc.page.width;
-  const tableWidth = pageWidth - 80;
-  const rowHeight = 16;
-  
-  // Encabezados
-  doc.rect(tableX, startY, tableWidth, rowHeight).fillAndStroke('#e9ecef', '#adb5bd');
-  doc.fillColor('#000000').fontSize(9).font('Helvetica-Bold');
-  doc.text('Tiempo', tableX + 8, startY + 4);
-  doc.text('Temperatura (°C)', tableX + 150, startY + 4);
-  doc.text('Presión (PSI)', tableX + 300, startY + 4);
-  
-  let currentY = startY + rowHeight;
-  
-  const maxRows = Math.max(
-    processData.temperature?.length || 0,
-    processData.pressure?.length || 0
-  );
-  
+  const maxRows = Math.max(processData.temperature?.length || 0, processData.pressure?.length || 0);
+  const rows: string[][] = [];
   for (let i = 0; i < maxRows; i++) {
     const temp = processData.temperature?.[i] || '';
     const pressure = processData.pressure?.[i] || '';
-    
     if (temp || pressure) {
-      doc.rect(tableX, currentY, tableWidth, rowHeight).fillAndStroke(
-        i % 2 === 0 ? '#ffffff' : '#f8f9fa', '#dee2e6'
-      );
-      
-      doc.fillColor('#000000').fontSize(8).font('Helvetica');
-      doc.text(`Hora ${i}`, tableX + 8, currentY + 4);
-      doc.text(temp, tableX + 150, currentY + 4);
-      doc.text(pressure, tableX + 300, currentY + 4);
-      
-      currentY += rowHeight;
+      rows.push([`Hora ${i}`, String(temp), String(pressure)]);
     }
   }
-  
-  return currentY + 15;
+
+  return [
+    { type: 'section', title: 'Control de proceso' },
+    {
+      type: 'table',
+      columns: [{ header: 'Tiempo' }, { header: 'Temperatura (°C)' }, { header: 'Presión (PSI)' }],
+      rows
+    }
+  ];
 }
 
-// Función para dibujar tabla de control de calidad
-function drawQualityTable(doc: any, form: ProductionForm, y: number): number {
+// Mediciones de calidad por hora; las características sin captura se imprimen como "Ok"
+function getQualityBlocks(form: ProductionForm): PdfBlock[] {
   const processData = form as any;
-  
   if (!processData.qualityTimes && !processData.brix && !processData.qualityTemp) {
-    return y;
+    return [];
   }
 
-  const startY = drawSectionHeader(doc, 'CONTROL DE CALIDAD', y);
-  const tableX = 40;
-  const pageWidth = doc.page.width;
-  const tableWidth = pageWidth - 80;
-  const rowHeight = 16;
-  
-  // Encabezados
-  doc.rect(tableX, startY, tableWidth, rowHeight).fillAndStroke('#e9ecef', '#adb5bd');
-  doc.fillColor('#000000').fontSize(8).font('Helvetica-Bold');
-  
-  const colWidth = tableWidth / 9;
-  const headers = ['Hora', 'Brix', 'Temp', 'Textura', 'Color', 'Visc.', 'Olor', 'Sabor', 'Estado'];
-  headers.forEach((header, index) => {
-    doc.text(header, tableX + (index * colWidth) + 4, startY + 4);
-  });
-  
-  let currentY = startY + rowHeight;
-  
   const maxQualityRows = Math.max(
     processData.qualityTimes?.length || 0,
     processData.brix?.length || 0,
     processData.qualityTemp?.length || 0
   );
-  
+  const rows: string[][] = [];
   for (let i = 0; i < maxQualityRows; i++) {
     const time = processData.qualityTimes?.[i] || '';
     const brix = processData.brix?.[i] || '';
     const temp = processData.qualityTemp?.[i] || '';
-    const texture = processData.texture?.[i] || 'Ok';
-    const color = processData.color?.[i] || 'Ok';
-    const viscosity = processData.viscosity?.[i] || 'Ok';
-    const smell = processData.smell?.[i] || 'Ok';
-    const taste = processData.taste?.[i] || 'Ok';
-    const status = processData.statusCheck?.[i] || 'Ok';
-    
     if (time || brix || temp) {
-      doc.rect(tableX, currentY, tableWidth, rowHeight).fillAndStroke(
-        i % 2 === 0 ? '#ffffff' : '#f8f9fa', '#dee2e6'
-      );
-      
-      doc.fillColor('#000000').fontSize(7).font('Helvetica');
-      const values = [time, brix, temp, texture, color, viscosity, smell, taste, status];
-      values.forEach((value, index) => {
-        doc.text(value, tableX + (index * colWidth) + 4, currentY + 4);
-      });
-      
-      currentY += rowHeight;
+      rows.push([
+        time,
+        brix,
+        temp,
+        processData.texture?.[i] || 'Ok',
+        processData.color?.[i] || 'Ok',
+        processData.viscosity?.[i] || 'Ok',
+        processData.smell?.[i] || 'Ok',
+        processData.taste?.[i] || 'Ok',
+        processData.statusCheck?.[i] || 'Ok'
+      ].map(String));
     }
   }
-  
-  return currentY + 15;
+
+  return [
+    { type: 'section', title: 'Control de calidad' },
+    {
+      type: 'table',
+      columns: ['Hora', 'Brix', 'Temp', 'Textura', 'Color', 'Visc.', 'Olor', 'Sabor', 'Estado'].map(header => ({ header })),
+      rows,
+      fontSize: 7
+    }
+  ];
 }
 
-// Función para dibujar resultados finales
-function drawFinalResults(doc: any, form: ProductionForm, y: number): number {
+function getFinalResultsBlocks(form: ProductionForm): PdfBlock[] {
   const processData = form as any;
-  
-  const startY = drawSectionHeader(doc, 'RESULTADOS FINALES', y);
-  
-  doc.fillColor('#000000').fontSize(9).font('Helvetica-Bold');
-  
-  let currentY = startY;
-  const lineHeight = 16;
-  
-  // Primera fila
-  if (processData.cmConsistometer) {
-    doc.text(`Consistómetro (cm): ${processData.cmConsistometer}`, 50, currentY);
-  }
-  
-  if (processData.finalBrix) {
-    doc.text(`Brix Final: ${processData.finalBrix}`, 200, currentY);
-  }
-  
-  if (processData.yield) {
-    doc.text(`Rendimiento: ${processData.yield}`, 350, currentY);
-  }
-  
-  currentY += lineHeight;
-  
-  // Segunda fila - agregar cP
-  if (processData.cP) {
-    doc.text(`Viscosidad (cP): ${processData.cP}`, 50, currentY);
-    currentY += lineHeight;
-  }
-  
-  return currentY + 20;
+  const fields: PdfField[] = [];
+  if (processData.cmConsistometer) fields.push({ label: 'Consistómetro (cm)', value: String(processData.cmConsistometer) });
+  if (processData.finalBrix) fields.push({ label: 'Brix Final', value: String(processData.finalBrix) });
+  if (processData.yield) fields.push({ label: 'Rendimiento', value: String(processData.yield) });
+  if (processData.cP) fields.push({ label: 'Viscosidad (cP)', value: String(processData.cP) });
+
+  return [
+    { type: 'section', title: 'Resultados finales' },
+    { type: 'fields', columns: 3, fields }
+  ];
 }
 
-// Función para dibujar información de destino
-function drawDestinationInfo(doc: any, form: ProductionForm, y: number): number {
+function getDestinationBlocks(form: ProductionForm): PdfBlock[] {
   const processData = form as any;
-  
   if (!processData.destinationType && !processData.destinationKilos) {
-    return y;
+    return [];
   }
 
-  const startY = drawSectionHeader(doc, 'DESTINO DEL PRODUCTO', y);
-  
-  doc.fillColor('#000000').fontSize(9).font('Helvetica');
-  
-  let currentY = startY;
-  
-  if (processData.destinationType) {
-    doc.font('Helvetica-Bold').text('Tipo: ', 50, currentY);
-    doc.font('Helvetica').text(processData.destinationType, 90, currentY);
-    currentY += 16;
-  }
-  
-  if (processData.destinationKilos) {
-    doc.font('Helvetica-Bold').text('Kilos: ', 50, currentY);
-    doc.font('Helvetica').text(processData.destinationKilos.toString(), 90, currentY);
-    currentY += 16;
-  }
-  
-  if (processData.destinationProduct) {
-    doc.font('Helvetica-Bold').text('Producto: ', 50, currentY);
-    doc.font('Helvetica').text(processData.destinationProduct, 100, currentY);
-    currentY += 16;
-  }
-  
-  if (processData.totalKilos) {
-    doc.font('Helvetica-Bold').text('Total Kilos: ', 50, currentY);
-    doc.font('Helvetica').text(processData.totalKilos.toString(), 120, currentY);
-    currentY += 16;
-  }
-  
-  return currentY + 20;
+  const fields: PdfField[] = [];
+  if (processData.destinationType) fields.push({ label: 'Tipo', value: String(processData.destinationType) });
+  if (processData.destinationKilos) fields.push({ label: 'Kilos', value: processData.destinationKilos.toString() });
+  if (processData.destinationProduct) fields.push({ label: 'Producto', value: String(processData.destinationProduct) });
+  if (processData.totalKilos) fields.push({ label: 'Total Kilos', value: processData.totalKilos.toString() });
+
+  return [
+    { type: 'section', title: 'Destino del producto' },
+    { type: 'fields', columns: 2, fields }
+  ];
 }
 
-// Función para generar el contenido del PDF
-function generateProductionPDFContent(
-  doc: any,
-  form: ProductionForm, 
-  creator?: User
-): void {
-  const pageWidth = doc.page.width;
-  let currentY = 20;
-  
-  // Título del documento con fondo azul
-  doc.rect(40, currentY, pageWidth - 80, 35).fillAndStroke('#2563eb', '#2563eb');
-  doc.fillColor('#ffffff').fontSize(16).font('Helvetica-Bold');
-  doc.text('FORMULARIO DE PRODUCCIÓN', 40, currentY + 10, { 
-    align: 'center',
-    width: pageWidth - 80
-  });
-  
-  currentY += 40;
-  
-  // Dirección de la empresa
-  doc.fontSize(8).font('Helvetica').fillColor('#666666')
-    .text('GELAG S.A DE C.V. BLVD. SANTA RITA #842, PARQUE INDUSTRIAL SANTA RITA, GOMEZ PALACIO, DGO.', 
-      40, currentY, {
-        align: 'center',
-        width: pageWidth - 80
-      });
-  
-  currentY += 25;
-  
-  // Información principal del formulario
-  currentY = drawInfoTable(doc, form, currentY);
-  currentY += 10;
-  
-  // Secciones del formulario - primera página
-  currentY = drawIngredientsTable(doc, form, currentY);
-  currentY = drawProcessTable(doc, form, currentY);
-  currentY = drawQualityTable(doc, form, currentY);
-  currentY = drawFinalResults(doc, form, currentY);
-  
-  // Nueva página para destino del producto y tiempos
-  doc.addPage();
-  currentY = 40;
-  
-  // Secciones de la segunda página
-  currentY = drawDestinationInfo(doc, form, currentY);
-  
-  // Información adicional - Tiempos de proceso
+// Tiempos de proceso e información adicional de la segunda página
+function getAdditionalInfoBlocks(form: ProductionForm): PdfBlock[] {
   const processData = form as any;
-  
+  const blocks: PdfBlock[] = [];
+
   if (processData.startTime || processData.endTime) {
-    currentY = drawSectionHeader(doc, 'TIEMPOS DE PROCESO', currentY);
-    doc.fillColor('#000000').fontSize(9).font('Helvetica');
-    
-    if (processData.startTime) {
-      doc.font('Helvetica-Bold').text('Hora Inicio: ', 50, currentY);
-      doc.font('Helvetica').text(processData.startTime, 120, currentY);
-      currentY += 16;
-    }
-    
-    if (processData.endTime) {
-      doc.font('Helvetica-Bold').text('Hora Término: ', 50, currentY);
-      doc.font('Helvetica').text(processData.endTime, 120, currentY);
-      currentY += 16;
-    }
-    
-    currentY += 15;
+    const fields: PdfField[] = [];
+    if (processData.startTime) fields.push({ label: 'Hora Inicio', value: String(processData.startTime) });
+    if (processData.endTime) fields.push({ label: 'Hora Término', value: String(processData.endTime) });
+    blocks.push({ type: 'section', title: 'Tiempos de proceso' }, { type: 'fields', columns: 2, fields });
   }
-  
-  // Información adicional en la segunda página  
+
   if (processData.caducidad || form.marmita) {
-    currentY = drawSectionHeader(doc, 'INFORMACIÓN ADICIONAL', currentY);
-    doc.fillColor('#000000').fontSize(9).font('Helvetica');
-    
-    if (processData.caducidad) {
-      doc.font('Helvetica-Bold').text('Fecha de Caducidad: ', 50, currentY);
-      doc.font('Helvetica').text(processData.caducidad, 150, currentY);
-      currentY += 16;
-    }
-    
-    if (form.marmita) {
-      doc.font('Helvetica-Bold').text('Marmita: ', 50, currentY);
-      doc.font('Helvetica').text(form.marmita, 100, currentY);
-      currentY += 16;
-    }
+    const fields: PdfField[] = [];
+    if (processData.caducidad) fields.push({ label: 'Fecha de Caducidad', value: String(processData.caducidad) });
+    if (form.marmita) fields.push({ label: 'Marmita', value: form.marmita });
+    blocks.push({ type: 'section', title: 'Información adicional' }, { type: 'fields', columns: 2, fields });
   }
-  
-  // Pie de página para la segunda página
-  const now = new Date();
-  const dateString = now.toLocaleDateString('es-MX');
-  const timeString = now.toLocaleTimeString('es-MX');
-  
-  doc.fontSize(8).font('Helvetica').fillColor('#666666');
-  doc.text(`Generado el: ${dateString} a las ${timeString}`, 40, doc.page.height - 40, {
-    align: 'center',
-    width: pageWidth - 80
-  });
 
-  // Pie de página para la primera página también
-  const currentPageCount = doc.page.count;
-  if (currentPageCount > 1) {
-    // Ir a la primera página para agregar el pie de página
-    doc.switchToPage(0);
-    doc.fontSize(8).font('Helvetica').fillColor('#666666');
-    doc.text(`Generado el: ${dateString} a las ${timeString}`, 40, doc.page.height - 40, {
-      align: 'center',
-      width: pageWidth - 80
-    });
-  }
+  return blocks;
 }
 
 // Función auxiliar para obtener etiqueta de estado
@@ -454,6 +233,6 @@ function getStatusLabel(status: string | undefined): string {
     'signed': 'Firmado',
     'approved': 'Aprobado'
   };
-  
+
   return statusLabels[status || 'draft'] || 'Borrador';
-}
\ No newline at end of file
+}
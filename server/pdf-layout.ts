@@ -0,0 +1,244 @@
+import { FormEntry, FormTemplate, PrintLayout, PrintSignature, User, printLayoutSchema } from '@shared/schema';
+import type { IStorage } from './storage';
+import type { PdfBlock, PdfSignature } from './pdf-document';
+
+// Consultas que necesitan los generadores de PDF (nombres de usuarios, empleados y enmiendas)
+export type PdfDataSource = Pick<IStorage, 'getUser' | 'getEmployee' | 'getFormEntryAmendments'>;
+
+/**
+ * Diseño de impresión de la plantilla; null si no tiene o si no es válido (se usa el formato automático)
+ * @param template Plantilla del formulario
+ */
+export function getPrintLayout(template: FormTemplate): PrintLayout | null {
+  const raw = (template.structure as any)?.printLayout;
+  if (!raw) return null;
+  const parsed = printLayoutSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error(`Diseño de impresión inválido en la plantilla ${template.id}:`, parsed.error.errors);
+    return null;
+  }
+  return parsed.data;
+}
+
+// Campos de la plantilla, sueltos o dentro de secciones
+export function getTemplateFields(template: FormTemplate): any[] {
+  const structure = template.structure as any;
+  return [
+    ...(structure?.fields || []),
+    ...(structure?.sections || []).flatMap((section: any) => section?.fields || [])
+  ];
+}
+
+// Valor del campo; las rutas "seccion.campo" leen datos anidados
+export function getDataValue(data: any, path: string): any {
+  if (data?.[path] !== undefined) return data[path];
+  return path.split('.').reduce((value, key) => value?.[key], data);
+}
+
+export function isEmptyValue(value: any): boolean {
+  return value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+// Marca afirmativa en columnas de verificación (true, "SI", "sí", "x"...)
+function isAffirmative(value: any): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  return ['si', 'sí', 'x', 'true', '1', 'ok', 'cumple', 'pasa'].includes(String(value ?? '').trim().toLowerCase());
+}
+
+export function formatDate(value: any): string {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? String(value) : date.toLocaleDateString('es-MX');
+}
+
+/**
+ * Texto impreso para el valor de un campo según su tipo
+ * @param field Definición del campo en la plantilla (undefined si la ruta no es un campo)
+ * @param value Valor capturado
+ * @param employeeNames Nombres de los empleados referenciados por ID
+ */
+export function formatFieldValue(field: any, value: any, employeeNames: Map<string, string>): string {
+  if (isEmptyValue(value)) return '';
+
+  switch (field?.type) {
+    case 'employee':
+    case 'employeeByType':
+      return employeeNames.get(String(value)) ?? String(value);
+    case 'select':
+    case 'radio': {
+      if (typeof value === 'object' && value && 'label' in value) return String(value.label);
+      const option = (field.options || []).find((opt: any) => (typeof opt === 'string' ? opt : opt.value) === value);
+      return option ? (typeof option === 'string' ? option : option.label) : String(value);
+    }
+    case 'checkbox':
+      return Array.isArray(value) ? value.join(', ') : (value ? 'Sí' : 'No');
+    case 'date':
+      return formatDate(value);
+  }
+
+  if (Array.isArray(value)) {
+    return value
+      .map(item => (item && typeof item === 'object' ? Object.values(item).filter(v => !isEmptyValue(v)).join(' ') : String(item)))
+      .join(', ');
+  }
+  if (typeof value === 'object') {
+    return 'label' in value ? String(value.label) : JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Resuelve los nombres de los empleados referenciados por los campos indicados
+ * @param fieldIds Campos que se van a imprimir
+ * @param fields Campos de la plantilla
+ * @param data Datos de la entrada
+ * @param storage Almacenamiento para consultar empleados
+ */
+export async function resolveEmployeeNames(fieldIds: string[], fields: any[], data: any, storage?: PdfDataSource): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (!storage) return names;
+
+  for (const fieldId of fieldIds) {
+    const field = fields.find(f => f.id === fieldId);
+    const value = getDataValue(data, fieldId);
+    if (!field || !['employee', 'employeeByType'].includes(field.type) || isEmptyValue(value) || names.has(String(value))) continue;
+    try {
+      const employee = await storage.getEmployee(Number(value));
+      names.set(String(value), employee ? employee.name : `ID: ${value}`);
+    } catch (error) {
+      console.error(`Error al buscar empleado ${value}:`, error);
+    }
+  }
+  return names;
+}
+
+/**
+ * Bloques del documento para las regiones del diseño, en orden: campos, cuadrículas, textos y saltos de página
+ * @param layout Diseño de impresión de la plantilla
+ * @param entry Entrada del formulario
+ * @param template Plantilla del formulario
+ * @param storage Almacenamiento para resolver empleados
+ */
+export async function buildPrintRegionBlocks(
+  layout: PrintLayout,
+  entry: FormEntry,
+  template: FormTemplate,
+  storage?: PdfDataSource
+): Promise<PdfBlock[]> {
+  const regions = layout.regions || [];
+  const fields = getTemplateFields(template);
+  const data = (entry.data || {}) as any;
+  const fieldIds = regions.flatMap(region => {
+    if (region.type === 'fields') return region.fields.map(ref => ref.fieldId);
+    if (region.type === 'text' && region.fieldId) return [region.fieldId];
+    return [];
+  });
+  const employeeNames = await resolveEmployeeNames(fieldIds, fields, data, storage);
+
+  const labelOf = (fieldId: string, label?: string) => {
+    const field = fields.find(f => f.id === fieldId);
+    return label || field?.displayName || field?.label || fieldId;
+  };
+  const valueOf = (fieldId: string) => formatFieldValue(fields.find(f => f.id === fieldId), getDataValue(data, fieldId), employeeNames);
+
+  const blocks: PdfBlock[] = [];
+  for (const region of regions) {
+    switch (region.type) {
+      case 'fields': {
+        const items = region.fields.map(ref => ({ label: labelOf(ref.fieldId, ref.label), value: valueOf(ref.fieldId) }));
+        if (region.style === 'table') {
+          const [labelRatio, valueRatio] = region.columnWidths ?? [0.4, 0.6];
+          const [labelHeader, valueHeader] = region.headers ?? ['Campo', 'Valor'];
+          blocks.push({
+            type: 'table',
+            title: region.title,
+            columns: [
+              { header: labelHeader, width: labelRatio },
+              { header: valueHeader, width: valueRatio }
+            ],
+            rows: items.map(item => [item.label, item.value || 'No especificado'])
+          });
+        } else {
+          blocks.push({ type: 'fields', title: region.title, columns: region.columns, fields: items });
+        }
+        break;
+      }
+      case 'grid': {
+        const raw = getDataValue(data, region.fieldId);
+        const values: any[] = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? Object.values(raw) : [];
+        const rowCount = Math.max(values.length, region.rows?.length ?? 0);
+        const rows = Array.from({ length: rowCount }, (_, index) => region.columns.map(column => {
+          const captured = values[index]?.[column.key];
+          const value = isEmptyValue(captured) ? region.rows?.[index]?.[column.key] : captured;
+          if (column.format === 'check') return isAffirmative(value) ? 'X' : '';
+          if (isEmptyValue(value)) return '';
+          return column.format === 'date' ? formatDate(value) : formatFieldValue(undefined, value, employeeNames);
+        }));
+        blocks.push({
+          type: 'table',
+          title: region.title,
+          columns: region.columns.map(column => ({ header: column.header, width: column.width ?? 1 })),
+          rows
+        });
+        break;
+      }
+      case 'text': {
+        const text = region.fieldId ? valueOf(region.fieldId) : region.text ?? '';
+        if (!text && region.fieldId) break;
+        blocks.push({ type: 'text', title: region.title, text });
+        break;
+      }
+      case 'pageBreak':
+        blocks.push({ type: 'pageBreak' });
+        break;
+    }
+  }
+  return blocks;
+}
+
+async function getUserName(userId: number | null, storage?: PdfDataSource): Promise<string | null> {
+  if (!userId) return null;
+  const user = storage ? await storage.getUser(userId) : undefined;
+  return user?.name || `Usuario ID: ${userId}`;
+}
+
+function formatSignatureDate(date: Date | string | null): string {
+  return date ? new Date(date).toLocaleDateString('es-MX', { day: '2-digit', month: '2-digit', year: 'numeric' }) : '';
+}
+
+/**
+ * Firmas del documento según los bloques de firma del diseño
+ * @param signatures Bloques de firma del diseño
+ * @param entry Entrada del formulario
+ * @param creator Usuario que capturó la entrada
+ * @param storage Almacenamiento para obtener los nombres de firmantes
+ */
+export async function buildPrintSignatures(
+  signatures: PrintSignature[],
+  entry: FormEntry,
+  creator?: User,
+  storage?: PdfDataSource
+): Promise<PdfSignature[]> {
+  const data = (entry.data || {}) as any;
+  const result: PdfSignature[] = [];
+
+  for (const signature of signatures) {
+    const item: PdfSignature = { label: signature.label };
+
+    if (signature.source === 'signer') {
+      item.image = entry.signature;
+      item.name = await getUserName(entry.signedBy, storage) ?? (entry.signature ? creator?.name ?? null : null);
+      item.date = formatSignatureDate(entry.signedAt);
+    } else if (signature.source === 'approver') {
+      item.name = await getUserName(entry.approvedBy, storage);
+      item.date = formatSignatureDate(entry.approvedAt);
+    } else if (signature.source === 'field' && signature.fieldId) {
+      const value = getDataValue(data, signature.fieldId);
+      if (typeof value === 'string' && value.startsWith('data:image')) item.image = value;
+      else if (!isEmptyValue(value)) item.name = String(value);
+    }
+
+    result.push(item);
+  }
+  return result;
+}
@@ -0,0 +1,105 @@
+import { storage } from "./storage";
+import { DeviationStatus, ProductionDeviation, ProductionFormStatus, UserRole } from "@shared/schema";
+import { findOutOfSpecReadings, OutOfSpecReading, specParameterLabels } from "@shared/spec-limits";
+
+// Roles que pueden documentar la acción correctiva de una desviación
+export const deviationResolverRoles = [UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER];
+
+/**
+ * Indica si el estado corresponde a "completado" (el formulario de producción también envía los estados en mayúsculas)
+ */
+export function isCompletedStatus(status: unknown): boolean {
+  return typeof status === "string" && status.toLowerCase() === ProductionFormStatus.COMPLETED;
+}
+
+function sameReading(deviation: ProductionDeviation, reading: OutOfSpecReading): boolean {
+  return deviation.parameter === reading.parameter &&
+    deviation.readingIndex === reading.readingIndex &&
+    deviation.value === reading.value;
+}
+
+/**
+ * Lecturas fuera de especificación del formulario que todavía no tienen desviación registrada
+ * @param form Datos del formulario de producción (guardados o por guardar)
+ * @param existing Desviaciones ya registradas del formulario
+ */
+export async function findUnrecordedDeviations(
+  form: Record<string, any>,
+  existing: ProductionDeviation[]
+): Promise<OutOfSpecReading[]> {
+  const productId = parseInt(form.productId);
+  if (isNaN(productId)) return [];
+
+  const specs = await storage.getProductSpecifications(productId);
+  return findOutOfSpecReadings(form, specs)
+    .filter(reading => !existing.some(deviation => sameReading(deviation, reading)));
+}
+
+/**
+ * Registra como desviaciones las lecturas fuera de especificación nuevas del formulario guardado.
+ * Una lectura corregida después no elimina su desviación: queda abierta hasta documentar la acción correctiva
+ * @param form Formulario de producción guardado
+ * @param userId Usuario que capturó las lecturas
+ * @returns Desviaciones registradas en esta llamada
+ */
+export async function recordProductionDeviations(form: Record<string, any>, userId: number): Promise<ProductionDeviation[]> {
+  const existing = await storage.getProductionDeviations(form.id);
+  const readings = await findUnrecordedDeviations(form, existing);
+
+  const created = await storage.createProductionDeviations(readings.map(reading => ({
+    productionFormId: form.id,
+    parameter: reading.parameter,
+    readingIndex: reading.readingIndex,
+    value: reading.value,
+    minValue: reading.minValue,
+    maxValue: reading.maxValue,
+    detectedBy: userId,
+  })));
+
+  for (const deviation of created) {
+    await storage.createActivityLog({
+      userId,
+      action: "deviation_detected",
+      resourceType: "production_form",
+      resourceId: form.id,
+      details: {
+        deviationId: deviation.id,
+        parameter: deviation.parameter,
+        readingIndex: deviation.readingIndex,
+        value: deviation.value,
+        minValue: deviation.minValue,
+        maxValue: deviation.maxValue,
+      }
+    });
+  }
+
+  return created;
+}
+
+/**
+ * Desviaciones que impiden completar el formulario: las abiertas más las lecturas fuera de especificación aún no registradas
+ * @param form Datos del formulario de producción tal como quedarían al guardar
+ */
+export async function getBlockingDeviations(form: Record<string, any>): Promise<string[]> {
+  const existing = form.id ? await storage.getProductionDeviations(form.id) : [];
+  const unrecorded = await findUnrecordedDeviations(form, existing);
+
+  return [
+    ...existing.filter(deviation => deviation.status === DeviationStatus.OPEN),
+    ...unrecorded,
+  ].map(deviation => {
+    const label = specParameterLabels[deviation.parameter] ?? deviation.parameter;
+    const position = deviation.readingIndex !== null ? ` (lectura ${deviation.readingIndex + 1})` : "";
+    return `${label}${position}: ${deviation.value}`;
+  });
+}
+
+/**
+ * Respuesta 400 cuando se intenta completar un formulario con desviaciones sin acción correctiva
+ */
+export function deviationsBlockingError(blocking: string[]) {
+  return {
+    message: `No se puede completar el formulario: hay ${blocking.length} lectura(s) fuera de especificación sin acción correctiva documentada por Gerencia de Calidad`,
+    deviations: blocking
+  };
+}
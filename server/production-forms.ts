@@ -4,10 +4,24 @@ import {
   productionForms,
   ProductionForm,
   insertProductionFormSchema,
+  updateProductionFormSchema,
   ProductionFormStatus,
+  FolioEventType,
+  folioEvents,
+  deleteFolioRecordSchema,
+  normalizeProductionFormStatus,
 } from "@shared/schema";
-import { eq, desc, sql } from "drizzle-orm";
+import { PRODUCTION_FORMS_FOLIO_TEMPLATE_ID } from "@shared/folios";
+import { eq, and, sql } from "drizzle-orm";
 import { z } from "zod";
+import { storage } from "./storage";
+import { findEffectiveRecipe } from "@shared/recipes";
+import {
+  isCompletedStatus,
+  getBlockingDeviations,
+  recordProductionDeviations,
+  deviationsBlockingError
+} from "./production-deviations";
 
 // Obtener todos los formularios de producción
 export async function getProductionForms(req: Request, res: Response) {
@@ -57,32 +71,11 @@ export async function getProductionFormById(req: Request, res: Response) {
   }
 }
 
-// Generar folio consecutivo para el formulario
-async function generateFolio(): Promise<string> {
-  try {
-    // Obtener el último formulario creado
-    const [lastForm] = await db
-      .select()
-      .from(productionForms)
-      .orderBy(desc(productionForms.id))
-      .limit(1);
-
-    let nextNumber = 1;
-    
-    if (lastForm) {
-      // Si existe un formulario previo, extraer el número del folio
-      const lastFolioMatch = lastForm.folio.match(/(\d+)$/);
-      if (lastFolioMatch && lastFolioMatch[1]) {
-        nextNumber = parseInt(lastFolioMatch[1]) + 1;
-      }
-    }
-    
-    // Formato: PR-{número secuencial de 4 dígitos}
-    return `PR-${nextNumber.toString().padStart(4, '0')}`;
-  } catch (error) {
-    console.error("Error al generar folio:", error);
-    throw error;
-  }
+// Versión de receta vigente del producto; queda fijada en el formulario (null si el producto no tiene receta aprobada)
+async function getEffectiveRecipeId(productId: unknown): Promise<number | null> {
+  const id = parseInt(String(productId));
+  if (isNaN(id)) return null;
+  return findEffectiveRecipe(await storage.getRecipesWithIngredients(id), id)?.id ?? null;
 }
 
 // Crear un nuevo formulario de producción
@@ -99,58 +92,27 @@ export async function createProductionForm(req: Request, res: Response) {
     const validatedData = insertProductionFormSchema.parse(req.body);
     console.log("Datos validados:", JSON.stringify(validatedData, null, 2));
     
-    // Usar folio proporcionado o generar uno automáticamente si no existe
-    let folio = validatedData.folio;
-    if (!folio || folio.trim() === '') {
-      folio = await generateFolio();
-      console.log("Folio generado automáticamente:", folio);
-    } else {
-      console.log("Usando folio proporcionado:", folio);
-    }
-    
-    // Preparar datos para inserción
-    const insertData = {
+    // Sin folio capturado, el almacenamiento asigna el siguiente del esquema de folios de producción
+    const newForm = await storage.createProductionForm({
       productId: validatedData.productId,
       liters: validatedData.liters,
       date: validatedData.date,
       responsible: validatedData.responsible,
-      folio,
+      folio: validatedData.folio,
+      recipeId: await getEffectiveRecipeId(validatedData.productId),
       createdBy: req.user.id,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      status: validatedData.status || ProductionFormStatus.DRAFT,
-      // Incluir otros campos opcionales si existen
-      ...(validatedData.lotNumber && { lotNumber: validatedData.lotNumber }),
-      ...(validatedData.caducidad && { caducidad: validatedData.caducidad }),
-      ...(validatedData.marmita && { marmita: validatedData.marmita }),
-      ...(validatedData.ingredients && { ingredients: validatedData.ingredients }),
-      ...(validatedData.ingredientTimes && { ingredientTimes: validatedData.ingredientTimes }),
-      // Nuevos campos de folio
-      ...(validatedData.folioInterno && { folioInterno: validatedData.folioInterno }),
-      ...(validatedData.folioBajaMP && { folioBajaMP: validatedData.folioBajaMP }),
-      ...(validatedData.folioBajaME && { folioBajaME: validatedData.folioBajaME }),
-      ...(validatedData.folioPT && { folioPT: validatedData.folioPT })
-    };
-
-    console.log("Datos preparados para inserción:", JSON.stringify(insertData, null, 2));
-
-    // Insertar el nuevo formulario usando SQL directo
-    const result = await db.execute(sql`
-      INSERT INTO production_forms (
-        product_id, liters, date, responsible, caducidad, marmita, folio, folio_interno, folio_baja_mp, folio_baja_me, folio_pt, created_by, status, lot_number, ingredients, ingredient_times, created_at, updated_at
-      ) VALUES (
-        ${insertData.productId}, ${insertData.liters}, ${insertData.date}, 
-        ${insertData.responsible}, ${insertData.caducidad || null}, ${insertData.marmita || null}, 
-        ${insertData.folio}, ${insertData.folioInterno || null}, ${insertData.folioBajaMP || null}, ${insertData.folioBajaME || null}, ${insertData.folioPT || null},
-        ${insertData.createdBy}, 
-        ${insertData.status}, ${insertData.lotNumber || null}, 
-        ${insertData.ingredients ? JSON.stringify(insertData.ingredients) : null}, 
-        ${insertData.ingredientTimes ? JSON.stringify(insertData.ingredientTimes) : null},
-        NOW(), NOW()
-      ) RETURNING *;
-    `);
-    
-    const newForm = result.rows[0];
+      status: (validatedData.status as ProductionFormStatus) || ProductionFormStatus.DRAFT,
+      lotNumber: validatedData.lotNumber || null,
+      caducidad: validatedData.caducidad || null,
+      marmita: validatedData.marmita || null,
+      ingredients: validatedData.ingredients || null,
+      ingredientTimes: validatedData.ingredientTimes || null,
+      ingredientLots: validatedData.ingredientLots || null,
+      folioInterno: validatedData.folioInterno || null,
+      folioBajaMP: validatedData.folioBajaMP || null,
+      folioBajaME: validatedData.folioBajaME || null,
+      folioPT: validatedData.folioPT || null
+    });
     
     console.log("Formulario creado exitosamente:", newForm);
     return res.status(201).json(newForm);
@@ -169,16 +131,20 @@ export async function createProductionForm(req: Request, res: Response) {
   }
 }
 
+// Respuesta 409: el formulario cambió desde que el cliente lo cargó; se envía la versión actual para combinar
+export function versionConflictError(current: ProductionForm) {
+  return {
+    message: "Otro usuario guardó cambios en este formulario. Revise las secciones modificadas antes de guardar.",
+    conflict: true,
+    current
+  };
+}
+
 // Actualizar un formulario de producción existente
 export async function updateProductionForm(req: Request, res: Response) {
   try {
-    console.log("=== ACTUALIZAR FORMULARIO DE PRODUCCIÓN ===");
-    console.log("Usuario autenticado:", req.isAuthenticated());
-    console.log("Body recibido:", JSON.stringify(req.body, null, 2));
-    
     // Verificar si el usuario está autenticado
     if (!req.isAuthenticated()) {
-      console.log("ERROR: Usuario no autenticado");
       return res.status(401).json({ message: "No autenticado" });
     }
 
@@ -187,158 +153,81 @@ export async function updateProductionForm(req: Request, res: Response) {
       return res.status(400).json({ message: "ID inválido" });
     }
 
+    // Los clientes anteriores envían la tabla de hora como hour_tracking
+    const { hour_tracking, ...body } = req.body ?? {};
+    const { version, ...updateFields } = updateProductionFormSchema.parse({
+      ...body,
+      hourTracking: body.hourTracking ?? hour_tracking
+    });
+
     // Obtener formulario existente
     const [existingForm] = await db.select().from(productionForms).where(eq(productionForms.id, id));
     
     if (!existingForm) {
       return res.status(404).json({ message: "Formulario no encontrado" });
     }
-    
-    // Actualizar solo los campos específicos sin problemas de tipo
-    const updateFields: any = {};
-    
-    // Campos de datos principales
-    if (req.body.productId !== undefined) updateFields.productId = req.body.productId;
-    if (req.body.liters !== undefined) updateFields.liters = req.body.liters;
-    if (req.body.date !== undefined) updateFields.date = req.body.date;
-    if (req.body.responsible !== undefined) updateFields.responsible = req.body.responsible;
-    if (req.body.caducidad !== undefined) updateFields.caducidad = req.body.caducidad;
-    if (req.body.marmita !== undefined) updateFields.marmita = req.body.marmita;
-    if (req.body.lotNumber !== undefined) updateFields.lotNumber = req.body.lotNumber;
-    if (req.body.status !== undefined) updateFields.status = req.body.status;
-    
-    // Folio - preservar el valor exacto proporcionado por el usuario
-    if (req.body.folio !== undefined) {
-      console.log("=== FOLIO UPDATE DEBUG ===");
-      console.log("Folio recibido:", req.body.folio);
-      console.log("Folio actual:", existingForm.folio);
-      updateFields.folio = req.body.folio;
-      console.log("Folio a actualizar:", updateFields.folio);
-    }
-    
-    // Nuevos campos de folio
-    if (req.body.folioBajaMP !== undefined) updateFields.folioBajaMP = req.body.folioBajaMP;
-    if (req.body.folioBajaME !== undefined) updateFields.folioBajaME = req.body.folioBajaME;
-    if (req.body.folioPT !== undefined) updateFields.folioPT = req.body.folioPT;
-    
-    // Campos JSON
-    if (req.body.ingredients !== undefined) updateFields.ingredients = req.body.ingredients;
-    if (req.body.ingredientTimes !== undefined) {
-      console.log("=== INGREDIENT TIMES DEBUG ===");
-      console.log("Valor recibido:", req.body.ingredientTimes);
-      console.log("Tipo:", typeof req.body.ingredientTimes);
-      console.log("Array.isArray:", Array.isArray(req.body.ingredientTimes));
-      updateFields.ingredientTimes = req.body.ingredientTimes;
-    }
-    if (req.body.conoData !== undefined) updateFields.conoData = req.body.conoData;
-    if (req.body.empaqueData !== undefined) updateFields.empaqueData = req.body.empaqueData;
-    if (req.body.additionalFields !== undefined) updateFields.additionalFields = req.body.additionalFields;
-    if (req.body.states !== undefined) updateFields.states = req.body.states;
-    if (req.body.hour_tracking !== undefined) updateFields.hourTracking = req.body.hour_tracking;
-    
-    // Campos de seguimiento de proceso
-    if (req.body.startTime !== undefined) {
-      console.log("=== STARTTIME DEBUG ===");
-      console.log("Valor recibido:", req.body.startTime);
-      console.log("Tipo:", typeof req.body.startTime);
-      console.log("Es string vacía:", req.body.startTime === "");
-      // Preservar valores de tiempo exactamente como se reciben
-      updateFields.startTime = req.body.startTime;
-      console.log("Valor a guardar:", updateFields.startTime);
-    }
-    if (req.body.endTime !== undefined) {
-      // Preservar valores de tiempo exactamente como se reciben
-      updateFields.endTime = req.body.endTime;
-    }
-    if (req.body.temperature !== undefined) {
-      console.log("=== TEMPERATURE DEBUG ===");
-      console.log("Valor recibido:", req.body.temperature);
-      console.log("Tipo:", typeof req.body.temperature);
-      console.log("Array.isArray:", Array.isArray(req.body.temperature));
-      updateFields.temperature = req.body.temperature;
+
+    if (existingForm.version !== version) {
+      return res.status(409).json(versionConflictError(existingForm));
     }
-    if (req.body.pressure !== undefined) {
-      console.log("=== PRESSURE DEBUG ===");
-      console.log("Valor recibido:", req.body.pressure);
-      console.log("Tipo:", typeof req.body.pressure);
-      console.log("Array.isArray:", Array.isArray(req.body.pressure));
-      updateFields.pressure = req.body.pressure;
+
+    const changes: Partial<ProductionForm> = updateFields;
+
+    // Al cambiar de producto se fija la versión vigente de la receta del nuevo producto
+    if (changes.productId !== undefined && String(changes.productId) !== String(existingForm.productId)) {
+      changes.recipeId = await getEffectiveRecipeId(changes.productId);
     }
-    if (req.body.hourTracking !== undefined) updateFields.hourTracking = req.body.hourTracking;
     
-    // Campos de calidad
-    if (req.body.qualityTimes !== undefined) {
-      console.log("=== QUALITY TIMES DEBUG ===");
-      console.log("Valor recibido:", req.body.qualityTimes);
-      updateFields.qualityTimes = req.body.qualityTimes;
-    }
-    if (req.body.brix !== undefined) {
-      console.log("=== BRIX DEBUG ===");
-      console.log("Valor recibido:", req.body.brix);
-      updateFields.brix = req.body.brix;
-    }
-    if (req.body.qualityTemp !== undefined) updateFields.qualityTemp = req.body.qualityTemp;
-    if (req.body.texture !== undefined) updateFields.texture = req.body.texture;
-    if (req.body.color !== undefined) updateFields.color = req.body.color;
-    if (req.body.viscosity !== undefined) updateFields.viscosity = req.body.viscosity;
-    if (req.body.smell !== undefined) updateFields.smell = req.body.smell;
-    if (req.body.taste !== undefined) updateFields.taste = req.body.taste;
-    if (req.body.foreignMaterial !== undefined) updateFields.foreignMaterial = req.body.foreignMaterial;
-    if (req.body.statusCheck !== undefined) {
-      console.log("=== STATUS CHECK DEBUG ===");
-      console.log("Valor recibido:", req.body.statusCheck);
-      updateFields.statusCheck = req.body.statusCheck;
+    // Completar requiere acción correctiva documentada en todas las lecturas fuera de especificación
+    if (isCompletedStatus(changes.status) && !isCompletedStatus(existingForm.status)) {
+      const blocking = await getBlockingDeviations({ ...existingForm, ...changes });
+      if (blocking.length > 0) {
+        return res.status(400).json(deviationsBlockingError(blocking));
+      }
     }
-    if (req.body.qualityNotes !== undefined) updateFields.qualityNotes = req.body.qualityNotes;
-    
-    // Campos de destino
-    if (req.body.destinationType !== undefined) updateFields.destinationType = req.body.destinationType;
-    if (req.body.destinationKilos !== undefined) updateFields.destinationKilos = req.body.destinationKilos;
-    if (req.body.destinationProduct !== undefined) updateFields.destinationProduct = req.body.destinationProduct;
-    if (req.body.destinationEstimation !== undefined) updateFields.destinationEstimation = req.body.destinationEstimation;
-    if (req.body.totalKilos !== undefined) updateFields.totalKilos = req.body.totalKilos;
-    
-    // Nuevos campos de folio
-    if (req.body.folioInterno !== undefined) updateFields.folioInterno = req.body.folioInterno;
-    if (req.body.folioBajaMP !== undefined) updateFields.folioBajaMP = req.body.folioBajaMP;
-    if (req.body.folioBajaME !== undefined) updateFields.folioBajaME = req.body.folioBajaME;
-    if (req.body.folioPT !== undefined) updateFields.folioPT = req.body.folioPT;
     
-    // Campos de liberación
-    if (req.body.liberationFolio !== undefined) updateFields.liberationFolio = req.body.liberationFolio;
-    if (req.body.cP !== undefined) updateFields.cP = req.body.cP; // Cambiar de c_p a cP para mapear correctamente
-    if (req.body.cmConsistometer !== undefined) updateFields.cmConsistometer = req.body.cmConsistometer;
-    if (req.body.finalBrix !== undefined) updateFields.finalBrix = req.body.finalBrix;
-    if (req.body.yield !== undefined) updateFields.yield = req.body.yield;
-    if (req.body.startState !== undefined) updateFields.startState = req.body.startState;
-    if (req.body.endState !== undefined) updateFields.endState = req.body.endState;
-    if (req.body.signatureUrl !== undefined) updateFields.signatureUrl = req.body.signatureUrl;
+    // La condición sobre la versión evita que un guardado simultáneo se sobrescriba sin aviso
+    const [updatedForm] = await db.update(productionForms)
+      .set({
+        ...changes,
+        updatedBy: req.user!.id,
+        lastUpdatedBy: req.user!.id,
+        updatedAt: new Date(),
+        version: sql`${productionForms.version} + 1`
+      })
+      .where(and(eq(productionForms.id, id), eq(productionForms.version, version)))
+      .returning();
     
-    // Campos de control - solo actualizar usuario
-    if (req.user?.id) {
-      updateFields.updatedBy = req.user.id;
-      updateFields.lastUpdatedBy = req.user.id;
+    if (!updatedForm) {
+      const [currentForm] = await db.select().from(productionForms).where(eq(productionForms.id, id));
+      if (!currentForm) {
+        return res.status(404).json({ message: "Formulario no encontrado" });
+      }
+      return res.status(409).json(versionConflictError(currentForm));
     }
     
-    console.log("=== DATOS RECIBIDOS ===");
-    console.log("req.body completo:", JSON.stringify(req.body, null, 2));
-    console.log("req.body.startTime:", req.body.startTime);
-    console.log("req.body.endTime:", req.body.endTime);
-    console.log("req.body.temperature:", req.body.temperature);
-    console.log("req.body.pressure:", req.body.pressure);
-    console.log("Campos a actualizar:", JSON.stringify(updateFields, null, 2));
-    
-    // Usar actualización directa con campos mapeados correctamente
-    const [updatedForm] = await db.update(productionForms)
-      .set(updateFields)
-      .where(eq(productionForms.id, id))
-      .returning();
+    // El folio anterior queda en el historial como reasignado
+    if (updatedForm.folio !== existingForm.folio) {
+      await storage.createFolioEvent({
+        formTemplateId: PRODUCTION_FORMS_FOLIO_TEMPLATE_ID,
+        eventType: FolioEventType.REASSIGNED,
+        folio: updatedForm.folio,
+        previousFolio: existingForm.folio,
+        recordId: id,
+        userId: req.user!.id
+      });
+    }
     
-    console.log("Formulario actualizado:", JSON.stringify(updatedForm, null, 2));
+    // Las lecturas fuera de especificación quedan registradas como desviaciones
+    await recordProductionDeviations(updatedForm, req.user!.id);
     
     return res.json(updatedForm);
   } catch (error) {
     console.error("Error al actualizar formulario de producción:", error);
+    
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+    }
     return res.status(500).json({ message: "Error al actualizar formulario de producción" });
   }
 }
@@ -356,7 +245,7 @@ export async function updateProductionFormStatus(req: Request, res: Response) {
       return res.status(400).json({ message: "ID inválido" });
     }
 
-    const { status } = req.body;
+    const status = normalizeProductionFormStatus(req.body.status) as ProductionFormStatus;
     
     // Validar que el status sea válido
     if (!Object.values(ProductionFormStatus).includes(status)) {
@@ -370,12 +259,21 @@ export async function updateProductionFormStatus(req: Request, res: Response) {
       return res.status(404).json({ message: "Formulario no encontrado" });
     }
     
+    if (isCompletedStatus(status) && !isCompletedStatus(existingForm.status)) {
+      await recordProductionDeviations(existingForm, req.user!.id);
+      const blocking = await getBlockingDeviations(existingForm);
+      if (blocking.length > 0) {
+        return res.status(400).json(deviationsBlockingError(blocking));
+      }
+    }
+    
     // Actualizar estado del formulario
     const [updatedForm] = await db.update(productionForms)
       .set({
         status,
         updatedAt: new Date(),
-        updatedBy: req.user?.id
+        updatedBy: req.user?.id,
+        version: sql`${productionForms.version} + 1`
       })
       .where(eq(productionForms.id, id))
       .returning();
@@ -408,11 +306,36 @@ export async function deleteProductionForm(req: Request, res: Response) {
       return res.status(404).json({ message: "Formulario no encontrado" });
     }
     
-    // Eliminar el formulario
-    await db.delete(productionForms).where(eq(productionForms.id, id));
+    const { reason } = deleteFolioRecordSchema.parse(req.body);
+    
+    // Eliminar el formulario; su folio queda anulado en el historial con el motivo
+    await db.transaction(async (tx) => {
+      await tx.insert(folioEvents).values({
+        formTemplateId: PRODUCTION_FORMS_FOLIO_TEMPLATE_ID,
+        eventType: FolioEventType.VOIDED,
+        folio: existingForm.folio,
+        folioNumber: existingForm.folioNumber,
+        folioPeriod: existingForm.folioPeriod,
+        recordId: id,
+        reason,
+        userId: req.user!.id
+      });
+      await tx.delete(productionForms).where(eq(productionForms.id, id));
+    });
+    
+    await storage.createActivityLog({
+      userId: req.user!.id,
+      action: "deleted",
+      resourceType: "production_form",
+      resourceId: id,
+      details: { folio: existingForm.folio, reason }
+    });
     
     return res.json({ message: "Formulario eliminado correctamente" });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Datos inválidos", errors: error.errors });
+    }
     console.error("Error al eliminar formulario de producción:", error);
     return res.status(500).json({ message: "Error al eliminar formulario de producción" });
   }
@@ -4,16 +4,42 @@ import { setupAuth, authorize } from "./auth";
 import { storage } from "./storage";
 import { 
   insertFormTemplateSchema, 
+  documentControlSchema,
   insertFormEntrySchema, 
   UserRole, 
   insertUserSchema,
   insertSavedReportSchema,
+  updateSystemSettingsSchema,
+  upsertAccessScheduleSchema,
+  insertAccessHolidaySchema,
+  insertAccessExceptionSchema,
   formTemplates,
   FormWorkflowStatus,
+  FormWorkflowStage,
   updateFormWorkflowSchema,
+  formEntrySearchSchema,
+  workflowDefinitionSchema,
+  createAmendmentSchema,
+  signEntrySchema,
   FormEntry,
+  FormTemplate,
+  FormStructure,
   ProductionFormStatus,
   insertProductionFormSchema,
+  updateProductSpecificationsSchema,
+  recipeInputSchema,
+  approveRecipeSchema,
+  RecipeStatus,
+  resolveDeviationSchema,
+  traceabilityQuerySchema,
+  startMockRecallSchema,
+  mockRecallExportSchema,
+  folioSchemeSchema,
+  voidFolioSchema,
+  deleteFolioRecordSchema,
+  printLayoutSchema,
+  FolioEventType,
+  DeviationStatus,
   productionForms,
   users
 } from "@shared/schema";
@@ -28,252 +54,43 @@ import {
 import { db } from "./db";
 import { eq, sql, desc } from "drizzle-orm";
 import { z } from "zod";
-import { hashPassword } from "./auth";
+import { hashPassword, validatePasswordPolicy, setUserPassword } from "./auth";
+import { checkScheduleAccess, defaultRoleSchedules, describeSchedule } from "./access-schedules";
+import { 
+  resolveWorkflowDefinition, 
+  getCurrentStatus, 
+  getAvailableTransitions, 
+  checkTransition, 
+  buildTransitionUpdate,
+  workflowPresets,
+  standardWorkflow
+} from "./workflow-engine";
+import { findUnauthorizedFieldChanges, getDefaultFieldValues, fieldPermissionError } from "./field-permissions";
+import { validateEntryData, entryValidationError } from "./entry-validation";
+import { recordCreatedEntryRevision, updateFormEntryWithRevision } from "./entry-history";
+import { isEntryLocked, entryLockedError, buildAmendmentUpdate } from "./amendments";
+import { applyFormulas } from "@shared/formula";
+import { findEffectiveRecipe, scaleRecipe, formatIngredientQuantity } from "@shared/recipes";
+import { isLiberacionPreoperativa, hasStructureChanged, toCalendarDate } from "@shared/document-control";
+import { hashEntryData, getSignatureManifest, checkSigner, recordEntrySignature } from "./e-signatures";
+import { verifyActivityLogChain } from "./audit-chain";
+import { deviationResolverRoles } from "./production-deviations";
+import { generateTraceabilityExcel, traceabilityFileName, traceabilityRoles } from "./traceability";
+import { gatherMockRecallRecords, mockRecallRoles, sendMockRecallExcel, sendMockRecallPdf } from "./mock-recalls";
+import {
+  folioSchemeRoles,
+  folioReportRoles,
+  getAutoFolioFieldIds,
+  listFolioSchemes,
+  getFolioScopeName,
+  folioSequenceFileName,
+  generateFolioSequenceExcel
+} from "./folios";
+import { PRODUCTION_FORMS_FOLIO_TEMPLATE_ID } from "@shared/folios";
 import { upload, parseExcelFile, parsePdfFile, cleanupFile } from "./file-upload";
-import PDFDocument from "pdfkit";
 import fs from 'fs';
 import { User } from "@shared/schema";
 
-// Función para verificar si un usuario puede actualizar un formulario según su rol y estado del flujo
-interface PermissionCheckResult {
-  allowed: boolean;
-  reason?: string;
-}
-
-interface TimeAccessResult {
-  allowed: boolean;
-  reason?: string;
-  allowedHours?: string;
-}
-
-/**
- * Verifica si un rol puede acceder al sistema según la hora actual
- * @param userRole Rol del usuario
- * @returns Resultado con permiso y detalles de horarios
- */
-function checkRoleTimeAccess(userRole: UserRole): TimeAccessResult {
-  const now = new Date();
-  const currentHour = now.getHours();
-  const currentDay = now.getDay(); // 0 = domingo, 1 = lunes, etc.
-  
-  // Horarios de trabajo por rol
-  const roleSchedules = {
-    [UserRole.SUPERADMIN]: {
-      allowed: true, // Acceso 24/7
-      description: "Acceso completo"
-    },
-    [UserRole.PRODUCTION_MANAGER]: {
-      hours: [6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18], // 6:00 AM - 6:00 PM
-      workDays: [1, 2, 3, 4, 5, 6], // Lunes a sábado
-      description: "Lunes a sábado de 6:00 AM a 6:00 PM"
-    },
-    [UserRole.PRODUCTION]: {
-      hours: [6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22], // 6:00 AM - 10:00 PM
-      workDays: [1, 2, 3, 4, 5, 6], // Lunes a sábado
-      description: "Lunes a sábado de 6:00 AM a 10:00 PM"
-    },
-    [UserRole.QUALITY_MANAGER]: {
-      hours: [7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18], // 7:00 AM - 6:00 PM
-      workDays: [1, 2, 3, 4, 5, 6], // Lunes a sábado
-      description: "Lunes a sábado de 7:00 AM a 6:00 PM"
-    },
-    [UserRole.QUALITY]: {
-      hours: [7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18], // 7:00 AM - 6:00 PM
-      workDays: [1, 2, 3, 4, 5, 6], // Lunes a sábado
-      description: "Lunes a sábado de 7:00 AM a 6:00 PM"
-    },
-    [UserRole.ADMIN]: {
-      allowed: true, // Acceso completo para administradores
-      description: "Acceso completo"
-    },
-    [UserRole.VIEWER]: {
-      hours: [8, 9, 10, 11, 12, 13, 14, 15, 16, 17], // 8:00 AM - 5:00 PM
-      workDays: [1, 2, 3, 4, 5], // Lunes a viernes
-      description: "Lunes a viernes de 8:00 AM a 5:00 PM"
-    }
-  };
-
-  const schedule = roleSchedules[userRole];
-  
-  // SUPERADMIN tiene acceso completo 24/7 sin restricciones
-  if (userRole === UserRole.SUPERADMIN) {
-    return { allowed: true };
-  }
-  
-  // Roles con acceso completo
-  if ('allowed' in schedule && schedule.allowed) {
-    return { allowed: true };
-  }
-
-  // Verificar día de la semana
-  if ('workDays' in schedule && schedule.workDays && !schedule.workDays.includes(currentDay)) {
-    return {
-      allowed: false,
-      reason: `Acceso restringido: fuera de días laborales`,
-      allowedHours: schedule.description
-    };
-  }
-
-  // Verificar hora del día
-  if ('hours' in schedule && schedule.hours && !schedule.hours.includes(currentHour)) {
-    return {
-      allowed: false,
-      reason: `Acceso restringido: fuera del horario laboral (hora actual: ${currentHour}:00)`,
-      allowedHours: schedule.description
-    };
-  }
-
-  return { allowed: true };
-}
-
-/**
- * Genera folios automáticamente para campos especificados
- * @param formData Datos del formulario
- * @param templateStructure Estructura del template
- * @param templateId ID del template para generar folios únicos
- * @returns Datos actualizados con folios generados
- */
-async function generateAutoFolios(formData: any, templateStructure: any, templateId: number): Promise<any> {
-  const updatedData = { ...formData };
-  return updatedData;
-}
-
-/**
- * Verifica si un usuario puede actualizar un formulario según su estado en el flujo de trabajo
- * @param user Usuario que intenta realizar la actualización
- * @param formEntry Entrada de formulario actual
- * @param targetStatus Estado al que se quiere cambiar
- * @returns Resultado con permiso y razón
- */
-async function canUserUpdateWorkflow(
-  user: User, 
-  formEntry: FormEntry, 
-  targetStatus: FormWorkflowStatus
-): Promise<PermissionCheckResult> {
-  // SuperAdmin y Admin siempre pueden actualizar formularios
-  if (user.role === UserRole.SUPERADMIN || user.role === UserRole.ADMIN) {
-    return { allowed: true };
-  }
-  
-  // El creador del formulario siempre puede actualizarlo
-  if (formEntry.createdBy === user.id) {
-    return { allowed: true };
-  }
-  
-  // Matriz de permisos según el rol y estado del flujo
-  const workflowRules: Record<UserRole, { 
-    canInitiate: boolean;
-    canEditStatuses: FormWorkflowStatus[];
-    canTransitionTo: Partial<Record<FormWorkflowStatus, FormWorkflowStatus[]>>; 
-  }> = {
-    // Gerente de Producción tiene acceso completo sin restricciones
-    [UserRole.PRODUCTION_MANAGER]: {
-      canInitiate: true,
-      canEditStatuses: Object.values(FormWorkflowStatus),
-      canTransitionTo: {
-        [FormWorkflowStatus.INITIATED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.IN_PROGRESS]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.PENDING_QUALITY]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.COMPLETED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.SIGNED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.APPROVED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.REJECTED]: Object.values(FormWorkflowStatus)
-      }
-    },
-    
-    // Operativos de Producción pueden actualizar cuando está en progreso
-    [UserRole.PRODUCTION]: {
-      canInitiate: false,
-      canEditStatuses: [FormWorkflowStatus.IN_PROGRESS],
-      canTransitionTo: {
-        [FormWorkflowStatus.IN_PROGRESS]: [FormWorkflowStatus.IN_PROGRESS] // Se mantiene en el mismo estado
-      }
-    },
-    
-    // Gerente de Calidad tiene acceso completo sin restricciones
-    [UserRole.QUALITY_MANAGER]: {
-      canInitiate: true,
-      canEditStatuses: Object.values(FormWorkflowStatus),
-      canTransitionTo: {
-        [FormWorkflowStatus.INITIATED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.IN_PROGRESS]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.PENDING_QUALITY]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.COMPLETED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.SIGNED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.APPROVED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.REJECTED]: Object.values(FormWorkflowStatus)
-      }
-    },
-    
-    // Operativos de Calidad pueden revisar cuando está pendiente
-    [UserRole.QUALITY]: {
-      canInitiate: false,
-      canEditStatuses: [FormWorkflowStatus.PENDING_QUALITY],
-      canTransitionTo: {
-        [FormWorkflowStatus.PENDING_QUALITY]: [FormWorkflowStatus.PENDING_QUALITY] // Se mantiene en el mismo estado
-      }
-    },
-    
-    // Los roles de solo visualización no pueden editar
-    [UserRole.VIEWER]: {
-      canInitiate: false,
-      canEditStatuses: [],
-      canTransitionTo: {}
-    },
-    
-    // Por compatibilidad - Administradores pueden hacer todo
-    [UserRole.SUPERADMIN]: {
-      canInitiate: true,
-      canEditStatuses: Object.values(FormWorkflowStatus),
-      canTransitionTo: {
-        [FormWorkflowStatus.INITIATED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.IN_PROGRESS]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.PENDING_QUALITY]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.COMPLETED]: Object.values(FormWorkflowStatus), 
-        [FormWorkflowStatus.SIGNED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.APPROVED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.REJECTED]: Object.values(FormWorkflowStatus)
-      }
-    },
-    
-    [UserRole.ADMIN]: {
-      canInitiate: true,
-      canEditStatuses: Object.values(FormWorkflowStatus),
-      canTransitionTo: {
-        [FormWorkflowStatus.INITIATED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.IN_PROGRESS]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.PENDING_QUALITY]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.COMPLETED]: Object.values(FormWorkflowStatus), 
-        [FormWorkflowStatus.SIGNED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.APPROVED]: Object.values(FormWorkflowStatus),
-        [FormWorkflowStatus.REJECTED]: Object.values(FormWorkflowStatus)
-      }
-    }
-  };
-  
-  const userRules = workflowRules[user.role];
-  const currentStatus = formEntry.workflowStatus || FormWorkflowStatus.INITIATED;
-  
-  // Verificar si el usuario puede editar el estado actual
-  if (!userRules.canEditStatuses.includes(currentStatus)) {
-    return { 
-      allowed: false, 
-      reason: `El rol ${user.role} no puede editar formularios en estado ${currentStatus}`
-    };
-  }
-  
-  // Verificar si puede transicionar al estado objetivo
-  const allowedTransitions = userRules.canTransitionTo[currentStatus] || [];
-  if (!allowedTransitions.includes(targetStatus)) {
-    return { 
-      allowed: false, 
-      reason: `No se permite transicionar de ${currentStatus} a ${targetStatus} para el rol ${user.role}`
-    };
-  }
-  
-  return { allowed: true };
-}
-
 // Helper function to get role display name
 function getRoleDisplayName(role: string | null): string {
   if (!role) return "Usuario";
@@ -298,6 +115,27 @@ function getRoleDisplayName(role: string | null): string {
   }
 }
 
+/**
+ * Verifica si el usuario puede consultar una entrada de formulario (y su historial)
+ * @param user Usuario autenticado
+ * @param entry Entrada a consultar
+ * @param template Plantilla de la entrada
+ */
+function canViewFormEntry(user: User, entry: FormEntry, template?: FormTemplate): boolean {
+  // Permitir acceso a usuarios de producción para formularios de producción
+  const isProductionForm = template?.name?.includes('PR-PR-02') || template?.name?.includes('dulces');
+
+  return (
+    user.role === UserRole.SUPERADMIN ||
+    user.role === UserRole.ADMIN ||
+    user.role === UserRole.PRODUCTION_MANAGER ||
+    user.role === UserRole.QUALITY_MANAGER ||
+    entry.createdBy === user.id ||
+    entry.department === user.department ||
+    Boolean(isProductionForm && (user.role === UserRole.PRODUCTION || user.role === UserRole.PRODUCTION_MANAGER))
+  );
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
   setupAuth(app);
@@ -371,15 +209,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "El nombre de usuario ya existe" });
       }
       
+      const passwordError = await validatePasswordPolicy(userData.password);
+      if (passwordError) {
+        return res.status(400).json({ message: passwordError });
+      }
+      
       // Hash password
       const hashedPassword = await hashPassword(userData.password);
       
       // Create user
-      const user = await storage.createUser({
+      const createdUser = await storage.createUser({
         ...userData,
         password: hashedPassword
       });
       
+      // La contraseña asignada por un administrador debe cambiarse en el primer acceso
+      const user = (await setUserPassword(createdUser.id, userData.password, true)) ?? createdUser;
+      
       // Log activity
       await storage.createActivityLog({
         userId: req.user!.id,
@@ -416,15 +262,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Validate input
-      const updateData = req.body;
+      const { password: newPassword, ...updateData } = req.body;
       
-      // If updating password, hash it
-      if (updateData.password) {
-        updateData.password = await hashPassword(updateData.password);
+      // If updating password, validate it against the policy before saving
+      if (newPassword) {
+        const passwordError = await validatePasswordPolicy(newPassword, existingUser);
+        if (passwordError) {
+          return res.status(400).json({ message: passwordError });
+        }
       }
       
       // Update user
-      const updatedUser = await storage.updateUser(userId, updateData);
+      let updatedUser = Object.keys(updateData).length > 0
+        ? await storage.updateUser(userId, updateData)
+        : existingUser;
+      
+      // Una contraseña restablecida por otro usuario obliga a cambiarla en el siguiente acceso
+      if (newPassword) {
+        updatedUser = (await setUserPassword(userId, newPassword, userId !== req.user!.id)) ?? updatedUser;
+      }
+      if (!updatedUser) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
+      }
       
       // Log activity
       await storage.createActivityLog({
@@ -443,6 +302,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Desbloquear una cuenta bloqueada por intentos fallidos (solo superadmin)
+  app.post("/api/users/:id/unlock", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "ID de usuario inválido" });
+      }
+      
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
+      }
+      
+      await storage.resetFailedLogins(userId);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "unlocked",
+        resourceType: "user",
+        resourceId: userId,
+        details: { username: existingUser.username, lockedUntil: existingUser.lockedUntil }
+      });
+      
+      res.json({ message: "Cuenta desbloqueada correctamente" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Get all users (for dropdowns and selections) - any authenticated user can access
   app.get("/api/users", async (req, res, next) => {
     // Check if user is authenticated
@@ -478,85 +367,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Form template routes
-  app.get("/api/form-templates", async (req, res, next) => {
+  // System settings routes (solo superadmin)
+  app.get("/api/settings", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
     try {
-      // Filter by department if specified
-      let templates;
-      if (req.query.department) {
-        templates = await storage.getFormTemplatesByDepartment(req.query.department as string);
-      } else {
-        templates = await storage.getAllFormTemplates();
-      }
-      res.json(templates);
+      const settings = await storage.getSystemSettings();
+      res.json(settings);
     } catch (error) {
       next(error);
     }
   });
 
-  app.get("/api/form-templates/:id", async (req, res, next) => {
+  app.put("/api/settings", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
     try {
-      const templateId = parseInt(req.params.id);
-      if (isNaN(templateId)) {
-        return res.status(400).json({ message: "ID de plantilla inválido" });
-      }
+      const settingsData = updateSystemSettingsSchema.parse(req.body);
+      const settings = await storage.updateSystemSettings(settingsData, req.user!.id);
       
-      const template = await storage.getFormTemplate(templateId);
-      if (!template) {
-        return res.status(404).json({ message: "Plantilla no encontrada" });
-      }
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "updated",
+        resourceType: "system_settings",
+        resourceId: settings.id,
+        details: { fields: Object.keys(settingsData) }
+      });
       
-      res.json(template);
+      res.json(settings);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
       next(error);
     }
   });
 
-  app.post("/api/form-templates", authorize([UserRole.SUPERADMIN, UserRole.ADMIN]), async (req, res, next) => {
+  // Estado del horario de acceso del usuario actual (para avisar antes del cierre)
+  app.get("/api/access-status", authorize(), async (req, res, next) => {
     try {
-      // Primero añadimos el createdBy al objeto para que pase la validación
-      const dataToValidate = {
-        ...req.body,
-        createdBy: req.user.id
-      };
+      res.json(await checkScheduleAccess(req.user!));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Access schedule routes (solo superadmin)
+  app.get("/api/access-schedules", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const schedules = await storage.getAllAccessSchedules();
       
-      // Procesamos la estructura para asegurar que todos los campos tengan displayName y displayOrder
-      if (dataToValidate.structure && dataToValidate.structure.fields) {
-        dataToValidate.structure.fields = dataToValidate.structure.fields.map(field => {
-          // Asegurar que cada campo tenga displayName (si no lo tiene, usar label)
-          if (!field.displayName) {
-            field.displayName = field.label;
-          }
-          
-          // Asegurar que cada campo tenga displayOrder
-          if (field.displayOrder === undefined) {
-            field.displayOrder = 0;
-          }
-          
-          return field;
-        });
-        
-        console.log("Campos del formulario nuevo procesados para guardar:", dataToValidate.structure.fields);
-      }
+      // Los roles sin horario guardado muestran el horario por defecto
+      const roles = Object.values(UserRole).map(role => {
+        const schedule = schedules.find(s => s.role === role) ?? { ...defaultRoleSchedules[role], role };
+        return { ...schedule, description: describeSchedule(schedule) };
+      });
+      const userSchedules = schedules
+        .filter(s => s.userId !== null)
+        .map(schedule => ({ ...schedule, description: describeSchedule(schedule) }));
       
-      // Ahora validamos los datos completos
-      const templateData = insertFormTemplateSchema.parse(dataToValidate);
+      res.json({
+        roles,
+        users: userSchedules,
+        holidays: await storage.getAccessHolidays(),
+        exceptions: await storage.getAccessExceptions()
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/access-schedules/roles/:role", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const role = req.params.role as UserRole;
+      if (!Object.values(UserRole).includes(role)) {
+        return res.status(400).json({ message: "Rol inválido" });
+      }
       
-      // Create template
-      const template = await storage.createFormTemplate(templateData);
+      const scheduleData = upsertAccessScheduleSchema.parse(req.body);
+      const schedule = await storage.upsertRoleAccessSchedule(role, scheduleData, req.user!.id);
       
       // Log activity
       await storage.createActivityLog({
-        userId: req.user.id,
-        action: "created",
-        resourceType: "form_template",
-        resourceId: template.id,
-        details: { name: template.name }
+        userId: req.user!.id,
+        action: "updated",
+        resourceType: "access_schedule",
+        resourceId: schedule.id,
+        details: { role, description: describeSchedule(schedule) }
       });
       
-      res.status(201).json(template);
+      res.json(schedule);
     } catch (error) {
-      console.error("Error al crear formulario:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Datos inválidos", details: error.errors });
       }
@@ -564,92 +462,413 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Endpoint directo para actualizar campos en formularios
-  app.patch("/api/form-templates/:id/field/:fieldId/display-name", authorize([UserRole.SUPERADMIN, UserRole.ADMIN]), async (req, res, next) => {
+  app.put("/api/access-schedules/users/:userId", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
     try {
-      console.log("\n\n=== NUEVO ENDPOINT PARA ACTUALIZAR DISPLAYNAME ===\n");
-      
-      const templateId = parseInt(req.params.id);
-      const fieldId = req.params.fieldId;
-      const { displayName } = req.body;
-      
-      if (isNaN(templateId) || !fieldId) {
-        console.error("Parámetros inválidos:", { templateId, fieldId });
-        return res.status(400).json({ message: "Parámetros inválidos" });
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "ID de usuario inválido" });
       }
       
-      console.log(`Actualizando campo ${fieldId} del formulario ${templateId}`);
-      console.log(`Nuevo displayName: "${displayName}"`);
-      
-      // Obtener el formulario actual directamente de la base de datos
-      const [existingTemplate] = await db
-        .select()
-        .from(formTemplates)
-        .where(eq(formTemplates.id, templateId));
-        
-      if (!existingTemplate) {
-        console.error(`Plantilla con ID ${templateId} no encontrada`);
-        return res.status(404).json({ message: "Plantilla no encontrada" });
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "Usuario no encontrado" });
       }
       
-      // Verificar que la estructura tenga el formato esperado
-      if (!existingTemplate.structure || typeof existingTemplate.structure !== 'object') {
-        console.error(`Estructura inválida en plantilla ${templateId}:`, existingTemplate.structure);
-        return res.status(400).json({ message: "Estructura de formulario inválida" });
-      }
+      const scheduleData = upsertAccessScheduleSchema.parse(req.body);
+      const schedule = await storage.upsertUserAccessSchedule(userId, scheduleData, req.user!.id);
       
-      // Hacer una copia profunda de la estructura
-      let structure: any;
-      try {
-        structure = JSON.parse(JSON.stringify(existingTemplate.structure));
-      } catch (e) {
-        console.error("Error al parsear estructura:", e);
-        return res.status(500).json({ message: "Error al procesar estructura del formulario" });
-      }
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "updated",
+        resourceType: "access_schedule",
+        resourceId: schedule.id,
+        details: { username: user.username, description: describeSchedule(schedule) }
+      });
       
-      // Asegurar que fields existe y es un array
-      if (!Array.isArray(structure.fields)) {
-        console.error("El campo 'fields' no es un array:", structure.fields);
-        return res.status(400).json({ message: "Estructura de formulario inválida: fields no es un array" });
+      res.json(schedule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
       }
-      
-      // Buscar el campo por ID
-      let fieldFound = false;
-      for (let i = 0; i < structure.fields.length; i++) {
-        if (structure.fields[i].id === fieldId) {
-          const oldValue = structure.fields[i].displayName;
-          structure.fields[i].displayName = displayName;
-          fieldFound = true;
-          console.log(`Campo encontrado en posición ${i}`);
-          console.log(`  Valor anterior: "${oldValue}"`);
-          console.log(`  Nuevo valor: "${displayName}"`);
-          break;
-        }
+      next(error);
+    }
+  });
+
+  app.delete("/api/access-schedules/users/:userId", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      if (isNaN(userId)) {
+        return res.status(400).json({ message: "ID de usuario inválido" });
       }
       
-      if (!fieldFound) {
-        console.error(`Campo ${fieldId} no encontrado en los ${structure.fields.length} campos del formulario`);
-        return res.status(404).json({ message: "Campo no encontrado en el formulario" });
-      }
+      await storage.deleteUserAccessSchedule(userId);
       
-      // Actualizar directamente en la base de datos
-      console.log("\n=== ACTUALIZANDO EN BASE DE DATOS ===\n");
-      await db
-        .update(formTemplates)
-        .set({
-          structure: structure,
-          updatedAt: new Date()
-        })
-        .where(eq(formTemplates.id, templateId));
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "deleted",
+        resourceType: "access_schedule",
+        resourceId: userId,
+        details: { userId }
+      });
       
-      console.log("Actualización completada en base de datos");
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/access-holidays", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const holidayData = insertAccessHolidaySchema.parse(req.body);
+      const holiday = await storage.createAccessHoliday(holidayData, req.user!.id);
       
-      // Verificar que se guardó correctamente
-      const [verifiedTemplate] = await db
-        .select()
-        .from(formTemplates)
-        .where(eq(formTemplates.id, templateId));
-        
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "created",
+        resourceType: "access_holiday",
+        resourceId: holiday.id,
+        details: { date: holiday.date, name: holiday.name }
+      });
+      
+      res.status(201).json(holiday);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.delete("/api/access-holidays/:id", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const holidayId = parseInt(req.params.id);
+      if (isNaN(holidayId)) {
+        return res.status(400).json({ message: "ID de día festivo inválido" });
+      }
+      
+      await storage.deleteAccessHoliday(holidayId);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "deleted",
+        resourceType: "access_holiday",
+        resourceId: holidayId,
+        details: {}
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/access-exceptions", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const exceptionData = insertAccessExceptionSchema.parse(req.body);
+      const exception = await storage.createAccessException(exceptionData, req.user!.id);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "created",
+        resourceType: "access_exception",
+        resourceId: exception.id,
+        details: {
+          role: exception.role,
+          userId: exception.userId,
+          startsAt: exception.startsAt,
+          endsAt: exception.endsAt,
+          reason: exception.reason
+        }
+      });
+      
+      res.status(201).json(exception);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.delete("/api/access-exceptions/:id", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const exceptionId = parseInt(req.params.id);
+      if (isNaN(exceptionId)) {
+        return res.status(400).json({ message: "ID de excepción inválido" });
+      }
+      
+      await storage.deleteAccessException(exceptionId);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "deleted",
+        resourceType: "access_exception",
+        resourceId: exceptionId,
+        details: {}
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Workflow definition routes (solo superadmin)
+  app.get("/api/workflow-definitions", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const definitions = await storage.getAllWorkflowDefinitions();
+      res.json({
+        default: definitions.find(d => d.formTemplateId === null) ?? { ...standardWorkflow, formTemplateId: null },
+        templates: definitions.filter(d => d.formTemplateId !== null),
+        presets: workflowPresets
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // ":templateId" acepta "default" para el flujo que aplica a las plantillas sin flujo propio
+  app.put("/api/workflow-definitions/:templateId", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const templateId = req.params.templateId === "default" ? null : parseInt(req.params.templateId);
+      if (Number.isNaN(templateId)) {
+        return res.status(400).json({ message: "ID de plantilla inválido" });
+      }
+      if (templateId !== null && !(await storage.getFormTemplate(templateId))) {
+        return res.status(404).json({ message: "Plantilla no encontrada" });
+      }
+      
+      const definitionData = workflowDefinitionSchema.parse(req.body);
+      const definition = await storage.upsertWorkflowDefinition(templateId, definitionData, req.user!.id);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "updated",
+        resourceType: "workflow_definition",
+        resourceId: definition.id,
+        details: { formTemplateId: templateId, name: definition.name, transitions: definition.transitions.length }
+      });
+      
+      res.json(definition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.delete("/api/workflow-definitions/:templateId", authorize([UserRole.SUPERADMIN]), async (req, res, next) => {
+    try {
+      const templateId = req.params.templateId === "default" ? null : parseInt(req.params.templateId);
+      if (Number.isNaN(templateId)) {
+        return res.status(400).json({ message: "ID de plantilla inválido" });
+      }
+      
+      await storage.deleteWorkflowDefinition(templateId);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "deleted",
+        resourceType: "workflow_definition",
+        resourceId: templateId ?? 0,
+        details: { formTemplateId: templateId }
+      });
+      
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Form template routes
+  app.get("/api/form-templates", async (req, res, next) => {
+    try {
+      // Filter by department if specified
+      let templates;
+      if (req.query.department) {
+        templates = await storage.getFormTemplatesByDepartment(req.query.department as string);
+      } else {
+        templates = await storage.getAllFormTemplates();
+      }
+      res.json(templates);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/form-templates/:id", async (req, res, next) => {
+    try {
+      const templateId = parseInt(req.params.id);
+      if (isNaN(templateId)) {
+        return res.status(400).json({ message: "ID de plantilla inválido" });
+      }
+      
+      const template = await storage.getFormTemplate(templateId);
+      if (!template) {
+        return res.status(404).json({ message: "Plantilla no encontrada" });
+      }
+      
+      res.json(template);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/form-templates", authorize([UserRole.SUPERADMIN, UserRole.ADMIN]), async (req, res, next) => {
+    try {
+      // Primero añadimos el createdBy al objeto para que pase la validación
+      const dataToValidate = {
+        ...req.body,
+        createdBy: req.user.id
+      };
+      
+      // Procesamos la estructura para asegurar que todos los campos tengan displayName y displayOrder
+      if (dataToValidate.structure && dataToValidate.structure.fields) {
+        dataToValidate.structure.fields = dataToValidate.structure.fields.map(field => {
+          // Asegurar que cada campo tenga displayName (si no lo tiene, usar label)
+          if (!field.displayName) {
+            field.displayName = field.label;
+          }
+          
+          // Asegurar que cada campo tenga displayOrder
+          if (field.displayOrder === undefined) {
+            field.displayOrder = 0;
+          }
+          
+          return field;
+        });
+        
+        console.log("Campos del formulario nuevo procesados para guardar:", dataToValidate.structure.fields);
+      }
+      
+      // El diseño de impresión (opcional) se valida contra el esquema compartido
+      if (dataToValidate.structure?.printLayout) {
+        dataToValidate.structure.printLayout = printLayoutSchema.parse(dataToValidate.structure.printLayout);
+      }
+      
+      // Ahora validamos los datos completos; el control documental llega con fechas en texto
+      const templateData = insertFormTemplateSchema.parse({
+        ...dataToValidate,
+        ...documentControlSchema.parse(dataToValidate)
+      });
+      
+      // Create template
+      const template = await storage.createFormTemplate(templateData);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user.id,
+        action: "created",
+        resourceType: "form_template",
+        resourceId: template.id,
+        details: { name: template.name, documentCode: template.documentCode, revision: template.revision }
+      });
+      
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error al crear formulario:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Endpoint directo para actualizar campos en formularios
+  app.patch("/api/form-templates/:id/field/:fieldId/display-name", authorize([UserRole.SUPERADMIN, UserRole.ADMIN]), async (req, res, next) => {
+    try {
+      console.log("\n\n=== NUEVO ENDPOINT PARA ACTUALIZAR DISPLAYNAME ===\n");
+      
+      const templateId = parseInt(req.params.id);
+      const fieldId = req.params.fieldId;
+      const { displayName } = req.body;
+      
+      if (isNaN(templateId) || !fieldId) {
+        console.error("Parámetros inválidos:", { templateId, fieldId });
+        return res.status(400).json({ message: "Parámetros inválidos" });
+      }
+      
+      console.log(`Actualizando campo ${fieldId} del formulario ${templateId}`);
+      console.log(`Nuevo displayName: "${displayName}"`);
+      
+      // Obtener el formulario actual directamente de la base de datos
+      const [existingTemplate] = await db
+        .select()
+        .from(formTemplates)
+        .where(eq(formTemplates.id, templateId));
+        
+      if (!existingTemplate) {
+        console.error(`Plantilla con ID ${templateId} no encontrada`);
+        return res.status(404).json({ message: "Plantilla no encontrada" });
+      }
+      
+      // Verificar que la estructura tenga el formato esperado
+      if (!existingTemplate.structure || typeof existingTemplate.structure !== 'object') {
+        console.error(`Estructura inválida en plantilla ${templateId}:`, existingTemplate.structure);
+        return res.status(400).json({ message: "Estructura de formulario inválida" });
+      }
+      
+      // Hacer una copia profunda de la estructura
+      let structure: any;
+      try {
+        structure = JSON.parse(JSON.stringify(existingTemplate.structure));
+      } catch (e) {
+        console.error("Error al parsear estructura:", e);
+        return res.status(500).json({ message: "Error al procesar estructura del formulario" });
+      }
+      
+      // Asegurar que fields existe y es un array
+      if (!Array.isArray(structure.fields)) {
+        console.error("El campo 'fields' no es un array:", structure.fields);
+        return res.status(400).json({ message: "Estructura de formulario inválida: fields no es un array" });
+      }
+      
+      // Buscar el campo por ID
+      let fieldFound = false;
+      for (let i = 0; i < structure.fields.length; i++) {
+        if (structure.fields[i].id === fieldId) {
+          const oldValue = structure.fields[i].displayName;
+          structure.fields[i].displayName = displayName;
+          fieldFound = true;
+          console.log(`Campo encontrado en posición ${i}`);
+          console.log(`  Valor anterior: "${oldValue}"`);
+          console.log(`  Nuevo valor: "${displayName}"`);
+          break;
+        }
+      }
+      
+      if (!fieldFound) {
+        console.error(`Campo ${fieldId} no encontrado en los ${structure.fields.length} campos del formulario`);
+        return res.status(404).json({ message: "Campo no encontrado en el formulario" });
+      }
+      
+      // Actualizar directamente en la base de datos
+      console.log("\n=== ACTUALIZANDO EN BASE DE DATOS ===\n");
+      await db
+        .update(formTemplates)
+        .set({
+          structure: structure,
+          updatedAt: new Date()
+        })
+        .where(eq(formTemplates.id, templateId));
+      
+      console.log("Actualización completada en base de datos");
+      
+      // Verificar que se guardó correctamente
+      const [verifiedTemplate] = await db
+        .select()
+        .from(formTemplates)
+        .where(eq(formTemplates.id, templateId));
+        
       if (!verifiedTemplate || !verifiedTemplate.structure) {
         console.error("No se pudo verificar la actualización");
         return res.status(500).json({ message: "Error al verificar la actualización" });
@@ -790,8 +1009,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log("Estructura final a guardar:", JSON.stringify(req.body.structure, null, 2));
       }
       
+      // Diseño de impresión: si la estructura no lo trae se conserva el actual; null lo elimina
+      if (req.body.structure) {
+        const printLayout = req.body.structure.printLayout === undefined
+          ? (existingTemplate.structure as FormStructure | null)?.printLayout
+          : req.body.structure.printLayout;
+        if (printLayout) {
+          req.body.structure.printLayout = printLayoutSchema.parse(printLayout);
+        } else {
+          delete req.body.structure.printLayout;
+        }
+      }
+      
+      // Control documental: lo no enviado conserva el valor actual
+      const documentControl = documentControlSchema.parse({
+        documentCode: existingTemplate.documentCode,
+        revision: existingTemplate.revision,
+        issueDate: existingTemplate.issueDate,
+        documentApprover: existingTemplate.documentApprover,
+        nextReviewDate: existingTemplate.nextReviewDate,
+        ...req.body
+      });
+      
+      // Todo cambio en la estructura emite una nueva revisión del formato
+      const structureChanged = !!req.body.structure && hasStructureChanged(existingTemplate.structure, req.body.structure);
+      if (structureChanged && (documentControl.revision ?? 0) <= existingTemplate.revision) {
+        documentControl.revision = existingTemplate.revision + 1;
+        // Sin fecha de emisión capturada, la nueva revisión se emite hoy
+        if (req.body.issueDate === undefined) {
+          documentControl.issueDate = toCalendarDate(new Date());
+        }
+      }
+      
       // Update template
-      const updatedTemplate = await storage.updateFormTemplate(templateId, req.body);
+      const updatedTemplate = await storage.updateFormTemplate(templateId, { ...req.body, ...documentControl });
       
       // Log activity
       await storage.createActivityLog({
@@ -799,7 +1050,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: "updated",
         resourceType: "form_template",
         resourceId: templateId,
-        details: { name: existingTemplate.name }
+        details: {
+          name: existingTemplate.name,
+          documentCode: updatedTemplate?.documentCode,
+          revision: updatedTemplate?.revision,
+          previousRevision: existingTemplate.revision,
+          structureChanged
+        }
       });
       
       res.json(updatedTemplate);
@@ -826,65 +1083,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Formulario no encontrado" });
       }
       
-      // SUPERADMIN puede eliminar formularios incluso con entradas asociadas
-      if (req.user.role === UserRole.SUPERADMIN) {
-        console.log(`🔥 SUPERADMIN ${req.user.username} eliminando formulario ${template.name} con acceso completo`);
-        
-        // Primero eliminar todas las entradas asociadas
+      // Para roles distintos de SUPERADMIN, verificar entradas asociadas
+      if (req.user!.role !== UserRole.SUPERADMIN) {
         const entries = await storage.getFormEntriesByTemplate(id);
         if (entries && entries.length > 0) {
-          console.log(`🗑️ Eliminando ${entries.length} entradas asociadas al formulario`);
-          for (const entry of entries) {
-            await storage.deleteFormEntry(entry.id);
-          }
+          return res.status(400).json({ 
+            message: "No se puede eliminar el formulario porque tiene entradas asociadas", 
+            count: entries.length 
+          });
         }
-        
-        // Luego eliminar el formulario
-        await storage.deleteFormTemplate(id);
-        
-        // Log activity
-        await storage.createActivityLog({
-          userId: req.user.id,
-          action: "deleted",
-          resourceType: "form_template",
-          resourceId: id,
-          details: { 
-            name: template.name, 
-            entriesDeleted: entries?.length || 0,
-            superadminAccess: true 
-          }
-        });
-        
-        res.json({ 
-          message: "Formulario eliminado correctamente (SUPERADMIN: acceso completo)",
-          entriesDeleted: entries?.length || 0
-        });
-        return;
       }
       
-      // Para otros roles, verificar entradas asociadas
-      const entries = await storage.getFormEntriesByTemplate(id);
-      if (entries && entries.length > 0) {
-        return res.status(400).json({ 
-          message: "No se puede eliminar el formulario porque tiene entradas asociadas", 
-          count: entries.length 
+      const { reason } = deleteFolioRecordSchema.parse(req.body);
+      
+      // Entradas asociadas, flujo de trabajo y formulario se eliminan en una sola transacción;
+      // los folios de las entradas quedan anulados en el historial
+      const { entriesDeleted, lockedEntries } = await storage.deleteFormTemplate(id, { userId: req.user!.id, reason });
+      if (lockedEntries.length > 0) {
+        return res.status(409).json({
+          message: "No se puede eliminar el formulario porque tiene entradas firmadas o aprobadas",
+          locked: true,
+          count: lockedEntries.length
         });
       }
-      
-      // Eliminar formulario
-      await storage.deleteFormTemplate(id);
+      console.log(`🗑️ ${entriesDeleted} entradas asociadas al formulario ${template.name} eliminadas`);
       
       // Log activity
       await storage.createActivityLog({
-        userId: req.user.id,
+        userId: req.user!.id,
         action: "deleted",
         resourceType: "form_template",
         resourceId: id,
-        details: { name: template.name }
+        details: { name: template.name, entriesDeleted, reason }
       });
       
-      res.json({ message: "Formulario eliminado correctamente" });
+      res.json({ message: "Formulario eliminado correctamente", entriesDeleted });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
       console.error("Error al eliminar formulario:", error);
       next(error);
     }
@@ -1030,6 +1267,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Búsqueda paginada de formularios capturados: filtros, orden y paginación se resuelven en SQL
+  app.get("/api/form-entries/search", authorize(), async (req, res, next) => {
+    try {
+      const filters = formEntrySearchSchema.parse(req.query);
+      const result = await storage.searchFormEntries(filters);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
   // Export form entry as PDF or Excel
   app.get("/api/form-entries/:id/export", async (req, res, next) => {
     try {
@@ -1091,11 +1342,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Generar el archivo según el formato solicitado
       if (format === "pdf") {
         try {
-          // Usar PDFKit como generador de PDF
-          const { generatePDFFallback } = await import('./pdf-generator-fallback');
+          const { generateFormEntryPDF } = await import('./pdf-generator');
           
-          // Generar el PDF usando PDFKit
-          const pdfBuffer = await generatePDFFallback(entry, template, creator, storage);
+          // Generar el PDF con el manifiesto de firmas electrónicas de la entrada
+          const pdfBuffer = await generateFormEntryPDF(entry, template, {
+            creator,
+            storage,
+            signatureManifest: await getSignatureManifest(entry)
+          });
           
           // Configurar la respuesta y enviar el PDF
           res.setHeader('Content-Type', 'application/pdf');
@@ -1138,19 +1392,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "No autenticado" });
       }
       
-      // Verificar permisos - permitir acceso a usuarios de producción para formularios de producción
+      // Verificar permisos para ver esta entrada
       const template = await storage.getFormTemplate(entry.formTemplateId);
-      const isProductionForm = template?.name?.includes('PR-PR-02') || template?.name?.includes('dulces');
-      
-      if (
-        req.user?.role !== UserRole.SUPERADMIN &&
-        req.user?.role !== UserRole.ADMIN && 
-        req.user?.role !== UserRole.PRODUCTION_MANAGER &&
-        req.user?.role !== UserRole.QUALITY_MANAGER &&
-        entry.createdBy !== req.user?.id && 
-        entry.department !== req.user?.department &&
-        !(isProductionForm && (req.user?.role === UserRole.PRODUCTION || req.user?.role === UserRole.PRODUCTION_MANAGER))
-      ) {
+      if (!canViewFormEntry(req.user!, entry, template)) {
         return res.status(403).json({ message: "No autorizado para ver esta entrada" });
       }
       
@@ -1160,6 +1404,99 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Historial de revisiones de una entrada con los cambios campo por campo
+  app.get("/api/form-entries/:id/history", authorize(), async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: "ID de entrada inválido" });
+      }
+      
+      const entry = await storage.getFormEntry(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Entrada no encontrada" });
+      }
+      
+      const template = await storage.getFormTemplate(entry.formTemplateId);
+      if (!canViewFormEntry(req.user!, entry, template)) {
+        return res.status(403).json({ message: "No autorizado para ver esta entrada" });
+      }
+      
+      const revisions = await storage.getFormEntryRevisions(entryId);
+      const amendments = new Map((await storage.getFormEntryAmendments(entryId)).map(a => [a.revisionId, a]));
+      const users = new Map((await storage.getAllUsers()).map(user => [user.id, user]));
+      
+      res.json(revisions.map(revision => ({
+        ...revision,
+        amendmentReason: amendments.get(revision.id)?.reason ?? null,
+        changedByName: users.get(revision.changedBy)?.name ?? "Usuario desconocido",
+        changedByRole: getRoleDisplayName(users.get(revision.changedBy)?.role ?? null)
+      })));
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Manifiesto de firmas electrónicas de una entrada
+  app.get("/api/form-entries/:id/signatures", authorize(), async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: "ID de entrada inválido" });
+      }
+      
+      const entry = await storage.getFormEntry(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Entrada no encontrada" });
+      }
+      
+      const template = await storage.getFormTemplate(entry.formTemplateId);
+      if (!canViewFormEntry(req.user!, entry, template)) {
+        return res.status(403).json({ message: "No autorizado para ver esta entrada" });
+      }
+      
+      const signatures = await getSignatureManifest(entry);
+      res.json({
+        dataHash: hashEntryData(entry.data),
+        tampered: signatures.some(signature => signature.status === "tampered"),
+        signatures
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Firmar una entrada: requiere la contraseña del usuario y registra la huella de los datos
+  app.post("/api/form-entries/:id/signatures", authorize(), async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: "ID de entrada inválido" });
+      }
+      
+      const signRequest = signEntrySchema.parse(req.body);
+      
+      const entry = await storage.getFormEntry(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Entrada no encontrada" });
+      }
+      
+      const signer = await checkSigner(req.user!, entry, signRequest);
+      if (!signer.allowed) {
+        return res.status(signer.status).json({ message: signer.message, locked: signer.locked });
+      }
+      
+      const signature = await recordEntrySignature(req.user!, entry, signRequest);
+      
+      res.status(201).json(signature);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
   // Endpoint simplificado para crear formularios
   app.post("/api/form-entries", async (req, res) => {
     try {
@@ -1194,12 +1531,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Plantilla no encontrada" });
       }
 
-      // Generar folios automáticamente si es necesario
-      const processedData = await generateAutoFolios(
-        typeof data === 'string' ? JSON.parse(data) : data, 
+      // Al crear, solo se pueden capturar los campos del rol (los demás conservan su valor por defecto)
+      const submittedData = typeof data === 'string' ? JSON.parse(data) : data;
+      const violations = findUnauthorizedFieldChanges(
         template.structure,
-        parseInt(formTemplateId)
+        getDefaultFieldValues(template.structure),
+        submittedData,
+        req.user.role as UserRole
       );
+      if (violations.length > 0) {
+        console.log("[FORM-CREATE] Campos sin permiso:", violations.map(v => v.fieldId));
+        return res.status(403).json(fieldPermissionError(violations));
+      }
+      
+      // Los datos se validan contra la estructura de la plantilla (tipos, obligatorios y reglas de tablas)
+      const fieldErrors = validateEntryData(template.structure, submittedData, req.user.role as UserRole);
+      if (fieldErrors.length > 0) {
+        console.log("[FORM-CREATE] Datos inválidos:", fieldErrors.map(e => e.path.join(".")));
+        return res.status(400).json(entryValidationError(fieldErrors));
+      }
+
+      // Los campos calculados se recalculan aquí
+      const processedData = applyFormulas(template.structure, submittedData);
+
+      // El estado inicial lo define el flujo de trabajo de la plantilla
+      const workflowDefinition = await resolveWorkflowDefinition(template.id);
 
       // Preparar datos para inserción
       const entryData = {
@@ -1207,15 +1563,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         data: processedData,
         createdBy: req.user.id,
         department: department || "general",
-        status: "draft"
+        status: "draft",
+        workflowStatus: workflowDefinition.initialStatus
       };
       
-      console.log("[FORM-CREATE] Datos preparados con folios auto-generados:", entryData);
+      console.log("[FORM-CREATE] Datos preparados:", entryData);
       
-      // Crear entrada directamente
-      const entry = await storage.createFormEntry(entryData);
+      // Crear entrada; el folio se asigna al insertar y llena los campos de folio automático
+      const entry = await storage.createFormEntry(entryData, getAutoFolioFieldIds(template.structure));
       console.log("[FORM-CREATE] Entrada creada exitosamente:", entry.id);
       
+      // Primera revisión del historial
+      await recordCreatedEntryRevision(entry, req.user.id);
+      
       // Log de actividad (opcional)
       try {
         await storage.createActivityLog({
@@ -1279,6 +1639,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("[FORM-UPDATE] Entrada existente - Creada por:", existingEntry.createdBy, "Última actualización por:", existingEntry.lastUpdatedBy);
       
+      // Las entradas firmadas o aprobadas solo se corrigen mediante enmiendas
+      if (isEntryLocked(existingEntry)) {
+        console.log("[FORM-UPDATE] Entrada firmada, se requiere enmienda");
+        return res.status(409).json(entryLockedError(existingEntry));
+      }
+      
       // Validación de datos
       const { data } = req.body;
       if (!data) {
@@ -1338,21 +1704,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return updatedData;
       };
 
+      // Verificar que el usuario solo modifique los campos de su rol
+      const template = await storage.getFormTemplate(existingEntry.formTemplateId);
+      const violations = findUnauthorizedFieldChanges(
+        template?.structure,
+        (existingEntry.data as Record<string, any>) || {},
+        data,
+        req.user.role as UserRole
+      );
+      if (violations.length > 0) {
+        console.log("[FORM-UPDATE] Campos sin permiso:", violations.map(v => v.fieldId));
+        return res.status(403).json(fieldPermissionError(violations));
+      }
+      
+      // Los datos se validan contra la estructura de la plantilla (tipos, obligatorios y reglas de tablas)
+      const fieldErrors = validateEntryData(template?.structure, data, req.user.role as UserRole);
+      if (fieldErrors.length > 0) {
+        console.log("[FORM-UPDATE] Datos inválidos:", fieldErrors.map(e => e.path.join(".")));
+        return res.status(400).json(entryValidationError(fieldErrors));
+      }
+      
       // Procesar datos y calcular porcentajes automáticamente si es necesario
       let processedData = data;
       
       // Verificar si es un formulario de Liberación Preoperativa
-      const template = await storage.getFormTemplate(existingEntry.formTemplateId);
-      if (template?.name?.includes('LIBERACION PREOPERATIVA')) {
+      if (template && isLiberacionPreoperativa(template)) {
         console.log("[AUTO-PERCENTAGE] Detectado formulario de Liberación Preoperativa - calculando porcentajes...");
         processedData = calculatePercentagesForLiberacion(data);
       }
       
-      // Actualizar entrada
-      const updatedEntry = await storage.updateFormEntry(entryId, {
+      // Los campos calculados se recalculan en el servidor; no se acepta el valor enviado
+      processedData = applyFormulas(template?.structure, processedData);
+      
+      // Actualizar entrada junto con la revisión de los cambios campo por campo
+      const updatedEntry = (await updateFormEntryWithRevision(existingEntry, {
         data: processedData,
         lastUpdatedBy: req.user.id
-      });
+      }, req.user.id, "updated"))?.entry;
       
       console.log("[FORM-UPDATE] Entrada actualizada exitosamente");
       
@@ -1381,6 +1769,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Enmienda de una entrada firmada o aprobada: corrige los datos con un motivo e invalida la firma
+  app.post("/api/form-entries/:id/amendments", authorize([UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.PRODUCTION, UserRole.QUALITY, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER]), async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: "ID de entrada inválido" });
+      }
+      
+      const amendment = createAmendmentSchema.parse(req.body);
+      
+      const entry = await storage.getFormEntry(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Entrada de formulario no encontrada" });
+      }
+      if (!isEntryLocked(entry)) {
+        return res.status(400).json({ message: "La entrada no está firmada; puede editarse directamente" });
+      }
+      
+      // Las enmiendas respetan los mismos permisos por campo que la edición normal
+      const template = await storage.getFormTemplate(entry.formTemplateId);
+      const violations = findUnauthorizedFieldChanges(
+        template?.structure,
+        (entry.data as Record<string, any>) || {},
+        amendment.data,
+        req.user!.role as UserRole
+      );
+      if (violations.length > 0) {
+        return res.status(403).json(fieldPermissionError(violations));
+      }
+      const fieldErrors = validateEntryData(template?.structure, amendment.data, req.user!.role as UserRole);
+      if (fieldErrors.length > 0) {
+        return res.status(400).json(entryValidationError(fieldErrors));
+      }
+      
+      const definition = await resolveWorkflowDefinition(entry.formTemplateId);
+      const amended = await updateFormEntryWithRevision(
+        entry,
+        buildAmendmentUpdate(definition, entry, applyFormulas(template?.structure, amendment.data), req.user!),
+        req.user!.id,
+        "amended"
+      );
+      if (!amended) {
+        return res.status(404).json({ message: "Entrada de formulario no encontrada" });
+      }
+      const { entry: updatedEntry, revision } = amended;
+      
+      await storage.createFormEntryAmendment({
+        formEntryId: entryId,
+        revisionId: revision.id,
+        reason: amendment.reason,
+        previousWorkflowStatus: entry.workflowStatus,
+        previousSignedBy: entry.signedBy,
+        previousSignedAt: entry.signedAt,
+        amendedBy: req.user!.id
+      });
+      
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "amended",
+        resourceType: "form_entry",
+        resourceId: entryId,
+        details: {
+          reason: amendment.reason,
+          revision: revision.revision,
+          changedFields: revision.changes.length,
+          previousWorkflowStatus: entry.workflowStatus
+        }
+      });
+      
+      res.status(201).json(updatedEntry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+  
   // Eliminar entrada de formulario (SuperAdmin, Admin, y Gerentes)
   app.delete("/api/form-entries/:id", authorize([UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY_MANAGER]), async (req, res, next) => {
     try {
@@ -1395,8 +1861,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Entrada de formulario no encontrada" });
       }
       
-      // Eliminar entrada
-      await storage.deleteFormEntry(id);
+      // Una entrada firmada o aprobada forma parte del expediente y no se puede eliminar
+      if (isEntryLocked(entry)) {
+        return res.status(409).json(entryLockedError(entry));
+      }
+      
+      const { reason } = deleteFolioRecordSchema.parse(req.body);
+      
+      // Eliminar entrada; sus folios quedan anulados en el historial
+      await storage.deleteFormEntry(id, { userId: req.user!.id, reason });
       
       // Log activity
       await storage.createActivityLog({
@@ -1404,11 +1877,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: "deleted",
         resourceType: "form_entry",
         resourceId: id,
-        details: { formTemplateId: entry.formTemplateId }
+        details: { formTemplateId: entry.formTemplateId, folio: entry.folio, reason }
       });
       
       res.json({ message: "Entrada de formulario eliminada correctamente" });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
       console.error("Error al eliminar entrada de formulario:", error);
       next(error);
     }
@@ -1423,6 +1899,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const { stage, completedAt } = req.body;
+      if (!Object.values(FormWorkflowStage).includes(stage)) {
+        return res.status(400).json({ message: "Etapa inválida" });
+      }
       
       // Verificar que la entrada existe
       const entry = await storage.getFormEntry(entryId);
@@ -1431,27 +1910,181 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Verificar permisos de acceso por horario y rol
-      const accessCheck = checkRoleTimeAccess(req.user!.role);
+      const accessCheck = await checkScheduleAccess(req.user!);
       if (!accessCheck.allowed) {
         return res.status(403).json({ 
           message: "Acceso restringido por horario",
           details: accessCheck.reason,
-          allowedHours: accessCheck.allowedHours
+          allowedHours: accessCheck.allowedHours,
+          reopensAt: accessCheck.reopensAt
+        });
+      }
+
+      // La etapa solo avanza mediante una transición del flujo que lleve a un estado de esa etapa
+      const definition = await resolveWorkflowDefinition(entry.formTemplateId);
+      const transition = getAvailableTransitions(definition, entry, req.user!).find(t =>
+        definition.states.some(state => state.status === t.to && state.stage === stage)
+      );
+      if (!transition) {
+        return res.status(403).json({ 
+          message: "Transición no permitida",
+          details: `El flujo "${definition.name}" no permite a su rol avanzar a la etapa ${stage} desde el estado ${getCurrentStatus(definition, entry)}`
         });
       }
 
-      // Actualizar la etapa del flujo de trabajo
-      const stageCompletedAt = entry.stageCompletedAt || {};
-      stageCompletedAt[stage] = completedAt;
+      const check = checkTransition(definition, entry, req.user!, transition.to, (entry.data as Record<string, any>) || {});
+      if (!check.allowed) {
+        return res.status(400).json({ 
+          message: check.reason,
+          missingFields: check.missingFields
+        });
+      }
 
-      const updatedEntry = await storage.updateFormEntry(entryId, {
-        workflowStage: stage,
-        stageCompletedAt,
-        lastUpdatedBy: req.user.id
+      const updatedEntry = (await updateFormEntryWithRevision(
+        entry,
+        buildTransitionUpdate(definition, entry, transition, req.user!, undefined, completedAt),
+        req.user!.id,
+        "workflow_transition"
+      ))?.entry;
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "workflow_transition",
+        resourceType: "form_entry",
+        resourceId: entryId,
+        details: { from: transition.from, to: transition.to, stage }
+      });
+
+      res.json(updatedEntry);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Flujo de trabajo de una entrada: estado actual y transiciones disponibles para el usuario
+  app.get("/api/form-entries/:id/workflow", authorize(), async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: "ID de entrada inválido" });
+      }
+      
+      const entry = await storage.getFormEntry(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Entrada no encontrada" });
+      }
+      
+      const definition = await resolveWorkflowDefinition(entry.formTemplateId);
+      res.json({
+        definition,
+        currentStatus: getCurrentStatus(definition, entry),
+        transitions: getAvailableTransitions(definition, entry, req.user!)
       });
+    } catch (error) {
+      next(error);
+    }
+  });
 
+  app.patch("/api/form-entries/:id/workflow", authorize(), async (req, res, next) => {
+    try {
+      const entryId = parseInt(req.params.id);
+      if (isNaN(entryId)) {
+        return res.status(400).json({ message: "ID de entrada inválido" });
+      }
+      
+      const workflowData = updateFormWorkflowSchema.parse(req.body);
+      
+      const entry = await storage.getFormEntry(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Entrada no encontrada" });
+      }
+      
+      // Verificar permisos de acceso por horario y rol
+      const accessCheck = await checkScheduleAccess(req.user!);
+      if (!accessCheck.allowed) {
+        return res.status(403).json({ 
+          message: "Acceso restringido por horario",
+          details: accessCheck.reason,
+          allowedHours: accessCheck.allowedHours,
+          reopensAt: accessCheck.reopensAt
+        });
+      }
+      
+      const definition = await resolveWorkflowDefinition(entry.formTemplateId);
+      let data = { ...((entry.data as Record<string, any>) || {}), ...(workflowData.data || {}) };
+      
+      if (workflowData.data) {
+        // Una transición desde un estado firmado no puede cambiar los datos
+        if (isEntryLocked(entry)) {
+          return res.status(409).json(entryLockedError(entry));
+        }
+        
+        const template = await storage.getFormTemplate(entry.formTemplateId);
+        const violations = findUnauthorizedFieldChanges(
+          template?.structure,
+          (entry.data as Record<string, any>) || {},
+          data,
+          req.user!.role as UserRole
+        );
+        if (violations.length > 0) {
+          return res.status(403).json(fieldPermissionError(violations));
+        }
+        const fieldErrors = validateEntryData(template?.structure, data, req.user!.role as UserRole);
+        if (fieldErrors.length > 0) {
+          return res.status(400).json(entryValidationError(fieldErrors));
+        }
+        data = applyFormulas(template?.structure, data);
+      }
+      const check = checkTransition(definition, entry, req.user!, workflowData.workflowStatus, data, Boolean(workflowData.signature));
+      if (!check.allowed) {
+        return res.status(check.missingFields ? 400 : 403).json({ 
+          message: check.reason,
+          missingFields: check.missingFields
+        });
+      }
+      
+      // La firma de la transición es una firma electrónica: contraseña del firmante y huella de los datos
+      const signature = check.transition!.requiresSignature ? workflowData.signature : undefined;
+      if (signature) {
+        const signer = await checkSigner(req.user!, entry, signature);
+        if (!signer.allowed) {
+          return res.status(signer.status).json({ message: signer.message, locked: signer.locked });
+        }
+      }
+      
+      const updatedEntry = (await updateFormEntryWithRevision(entry, {
+        ...buildTransitionUpdate(definition, entry, check.transition!, req.user!, signature?.signatureImage),
+        ...(workflowData.data && { data }),
+        ...(workflowData.roleSpecificData && { roleSpecificData: workflowData.roleSpecificData }),
+        ...(workflowData.lotNumber && { lotNumber: workflowData.lotNumber })
+      }, req.user!.id, "workflow_transition"))?.entry;
+      if (!updatedEntry) {
+        return res.status(404).json({ message: "Entrada no encontrada" });
+      }
+      if (signature) {
+        await recordEntrySignature(req.user!, updatedEntry, signature);
+      }
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "workflow_transition",
+        resourceType: "form_entry",
+        resourceId: entryId,
+        details: { 
+          from: check.transition!.from, 
+          to: check.transition!.to, 
+          signed: Boolean(workflowData.signature),
+          lotNumber: workflowData.lotNumber
+        }
+      });
+      
       res.json(updatedEntry);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
       next(error);
     }
   });
@@ -1470,15 +2103,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!entry) {
         return res.status(404).json({ message: "Entrada no encontrada" });
       }
+      if (isEntryLocked(entry)) {
+        return res.status(409).json(entryLockedError(entry));
+      }
 
       // Actualizar el campo de folio específico
       const updatedData = { ...entry.data };
       updatedData[fieldId] = folioValue;
 
-      const updatedEntry = await storage.updateFormEntry(entryId, {
+      const updatedEntry = (await updateFormEntryWithRevision(entry, {
         data: updatedData,
         lastUpdatedBy: req.user.id
-      });
+      }, req.user!.id, "folio_updated"))?.entry;
+
+      // Historial de folios: un campo vacío recibe su primer folio; si ya tenía uno, se reasigna
+      const previousValue = (entry.data as Record<string, any>)[fieldId];
+      const previousFolio = previousValue ? String(previousValue) : null;
+      if (folioValue && String(folioValue) !== previousFolio) {
+        await storage.createFolioEvent({
+          formTemplateId: entry.formTemplateId,
+          eventType: previousFolio ? FolioEventType.REASSIGNED : FolioEventType.ISSUED,
+          folio: String(folioValue),
+          previousFolio,
+          recordId: entryId,
+          fieldId,
+          userId: req.user!.id
+        });
+      }
 
       // Log activity
       await storage.createActivityLog({
@@ -1495,41 +2146,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/form-entries/:id/folio/:fieldId", authorize([UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER]), async (req, res, next) => {
+  // Los folios no se eliminan: se anulan con motivo y el folio anulado queda en el historial
+  app.post("/api/form-entries/:id/folio/void", authorize([UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER]), async (req, res, next) => {
     try {
       const entryId = parseInt(req.params.id);
-      const { fieldId } = req.params;
-
       if (isNaN(entryId)) {
         return res.status(400).json({ message: "ID de entrada inválido" });
       }
+      const { fieldId, reason } = voidFolioSchema.parse(req.body);
 
       const entry = await storage.getFormEntry(entryId);
       if (!entry) {
         return res.status(404).json({ message: "Entrada no encontrada" });
       }
+      if (isEntryLocked(entry)) {
+        return res.status(409).json(entryLockedError(entry));
+      }
+
+      const updatedData = { ...(entry.data as Record<string, any>) };
+      const folio = updatedData[fieldId] ? String(updatedData[fieldId]) : "";
+      if (!folio) {
+        return res.status(400).json({ message: "El campo no tiene folio asignado" });
+      }
 
-      // Eliminar el campo de folio
-      const updatedData = { ...entry.data };
-      const oldValue = updatedData[fieldId];
       delete updatedData[fieldId];
 
-      const updatedEntry = await storage.updateFormEntry(entryId, {
+      const updatedEntry = (await updateFormEntryWithRevision(entry, {
         data: updatedData,
         lastUpdatedBy: req.user.id
+      }, req.user!.id, "folio_voided"))?.entry;
+
+      // El consecutivo se conserva cuando el campo llevaba el folio asignado por el esquema
+      const isSchemeFolio = folio === entry.folio;
+      await storage.createFolioEvent({
+        formTemplateId: entry.formTemplateId,
+        eventType: FolioEventType.VOIDED,
+        folio,
+        folioNumber: isSchemeFolio ? entry.folioNumber : null,
+        folioPeriod: isSchemeFolio ? entry.folioPeriod : null,
+        recordId: entryId,
+        fieldId,
+        reason,
+        userId: req.user!.id
       });
 
       // Log activity
       await storage.createActivityLog({
         userId: req.user.id,
-        action: "folio_deleted",
+        action: "folio_voided",
         resourceType: "form_entry",
         resourceId: entryId,
-        details: { fieldId, deletedValue: oldValue }
+        details: { fieldId, folio, reason }
       });
 
       res.json(updatedEntry);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
       next(error);
     }
   });
@@ -1585,6 +2259,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Verificación de integridad de la bitácora: recorre la cadena de huellas y reporta rupturas
+  app.get("/api/activity/verify", authorize(), async (req, res, next) => {
+    try {
+      const verification = verifyActivityLogChain(await storage.getActivityLogChain());
+      if (!verification.valid) {
+        console.error("[AUDIT] Cadena de la bitácora con rupturas:", verification.breaks);
+      }
+      res.json(verification);
+    } catch (error) {
+      next(error);
+    }
+  });
+
   // Ruta de prueba para crear un formulario con folio (solo para desarrollo)
   app.get("/api/test/create-form-entry", async (req, res, next) => {
     try {
@@ -1636,25 +2323,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Plantilla de formulario no encontrada" });
       }
       
-      // Obtener el próximo número de folio
-      const nextFolioNumber = await storage.getNextFolioNumber(templateId);
+      // Vista previa del próximo folio; se asigna hasta guardar la entrada
+      const nextFolio = await storage.previewNextFolio(templateId);
       
-      // Extraer código del formulario del nombre (asumiendo formato como "CA-RE-01-01 - NOMBRE DEL FORM")
-      let formCode = '';
-      const nameMatch = template.name.match(/^([A-Z]{2}-[A-Z]{2}-\d{2}-\d{2})/);
-      if (nameMatch && nameMatch[1]) {
-        formCode = nameMatch[1];
+      res.json({ 
+        nextFolio: nextFolio.number,
+        formattedFolio: nextFolio.folio 
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Esquemas de folios: formularios de producción (ID 0) y plantillas
+  app.get("/api/folio-schemes", authorize(folioSchemeRoles), async (req, res, next) => {
+    try {
+      res.json(await listFolioSchemes());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.put("/api/folio-schemes/:templateId", authorize(folioSchemeRoles), async (req, res, next) => {
+    try {
+      const templateId = parseInt(req.params.templateId);
+      if (isNaN(templateId)) {
+        return res.status(400).json({ message: "ID de formulario inválido" });
+      }
+      if (templateId !== PRODUCTION_FORMS_FOLIO_TEMPLATE_ID && !(await storage.getFormTemplate(templateId))) {
+        return res.status(404).json({ message: "Plantilla de formulario no encontrada" });
       }
+      const scheme = folioSchemeSchema.parse(req.body);
       
-      // Formato personalizado para el folio
-      const formattedFolio = formCode 
-        ? `${formCode}-F${nextFolioNumber}` 
-        : nextFolioNumber.toString();
+      const previous = await storage.getFolioCounter(templateId);
+      const counter = await storage.saveFolioScheme(templateId, scheme);
       
-      res.json({ 
-        nextFolio: nextFolioNumber,
-        formattedFolio: formattedFolio 
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "updated",
+        resourceType: "folio_scheme",
+        resourceId: templateId,
+        details: {
+          previous: previous ? { prefix: previous.prefix, pattern: previous.pattern, resetPolicy: previous.resetPolicy } : null,
+          current: { prefix: counter.prefix, pattern: counter.pattern, resetPolicy: counter.resetPolicy }
+        }
+      });
+      
+      res.json(counter);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Folios faltantes (asignados sin registro) y cancelados (registro rechazado); ?templateId= filtra una plantilla
+  app.get("/api/folio-schemes/gaps", authorize(folioReportRoles), async (req, res, next) => {
+    try {
+      const templateId = req.query.templateId !== undefined ? parseInt(String(req.query.templateId)) : undefined;
+      if (templateId !== undefined && isNaN(templateId)) {
+        return res.status(400).json({ message: "ID de formulario inválido" });
+      }
+      res.json(await storage.getFolioGaps(templateId));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  // Secuencia completa de folios de una plantilla con la situación de cada folio
+  app.get("/api/folio-schemes/:templateId/sequence", authorize(folioReportRoles), async (req, res, next) => {
+    try {
+      const templateId = parseInt(req.params.templateId);
+      if (isNaN(templateId)) {
+        return res.status(400).json({ message: "ID de formulario inválido" });
+      }
+      if (await getFolioScopeName(templateId) === undefined) {
+        return res.status(404).json({ message: "Formulario no encontrado" });
+      }
+      res.json(await storage.getFolioSequence(templateId));
+    } catch (error) {
+      next(error);
+    }
+  });
+  
+  app.get("/api/folio-schemes/:templateId/sequence/export", authorize(folioReportRoles), async (req, res, next) => {
+    try {
+      const templateId = parseInt(req.params.templateId);
+      if (isNaN(templateId)) {
+        return res.status(400).json({ message: "ID de formulario inválido" });
+      }
+      const templateName = await getFolioScopeName(templateId);
+      if (templateName === undefined) {
+        return res.status(404).json({ message: "Formulario no encontrado" });
+      }
+      
+      const [sequence, events] = await Promise.all([
+        storage.getFolioSequence(templateId),
+        storage.getFolioEvents(templateId)
+      ]);
+      const buffer = await generateFolioSequenceExcel(templateName, sequence, events);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "exported",
+        resourceType: "folio_sequence",
+        resourceId: templateId,
+        details: { templateName, folios: sequence.length }
       });
+      
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${folioSequenceFileName(templateName)}.xlsx"`);
+      res.send(buffer);
     } catch (error) {
       next(error);
     }
@@ -1838,71 +2620,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
           resourceId: template.id,
           details: { name: template.name, source: "excel" }
         });
-        
-        res.status(201).json({
-          success: true,
-          message: "Plantilla de formulario importada correctamente",
-          template
-        });
-      } catch (error) {
-        console.error('Error importing form template:', error);
-        res.status(500).json({ 
-          message: "Error al importar la plantilla de formulario", 
-          error: error.message 
-        });
-      }
-    }
-  );
-
-  // Ruta para actualizar estado de un formulario capturado
-  app.patch("/api/form-entries/:id/status", async (req, res, next) => {
-    try {
-      const entryId = parseInt(req.params.id);
-      if (isNaN(entryId)) {
-        return res.status(400).json({ message: "ID de formulario inválido" });
-      }
-
-      // Verificar si existe el formulario
-      const entry = await storage.getFormEntry(entryId);
-      if (!entry) {
-        return res.status(404).json({ message: "Formulario no encontrado" });
-      }
-
-      // Validar datos de estado
-      const { status, signature } = req.body;
-      if (!status) {
-        return res.status(400).json({ message: "Se requiere el estado del formulario" });
-      }
-
-      // Actualizar según el estado
-      const updateData: any = { status };
-      
-      if (status === "signed" && signature) {
-        updateData.signature = signature;
-        updateData.signedBy = req.user?.id;
-        updateData.signedAt = new Date();
-      } else if (status === "approved") {
-        updateData.approvedBy = req.user?.id;
-        updateData.approvedAt = new Date();
+        
+        res.status(201).json({
+          success: true,
+          message: "Plantilla de formulario importada correctamente",
+          template
+        });
+      } catch (error) {
+        console.error('Error importing form template:', error);
+        res.status(500).json({ 
+          message: "Error al importar la plantilla de formulario", 
+          error: error.message 
+        });
       }
-
-      // Actualizar en la base de datos
-      const updatedEntry = await storage.updateFormEntry(entryId, updateData);
-
-      // Registrar actividad
-      await storage.createActivityLog({
-        userId: req.user?.id || 0,
-        action: `${status}`,
-        resourceType: "form_entry",
-        resourceId: entryId,
-        details: { formTemplateId: entry.formTemplateId }
-      });
-
-      res.json(updatedEntry);
-    } catch (error) {
-      next(error);
     }
-  });
+  );
 
   // Borrado para unificar con la ruta de abajo
   
@@ -2089,693 +2821,455 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Ruta para crear recetas reales de productos (temporal)
-  app.get("/api/create-real-recipes", async (req, res) => {
-    try {
-      console.log("=== CREANDO RECETAS REALES DE PRODUCTOS ===");
-      
-      // Recetas reales basadas en 100 litros de producción
-      const recetasReales = {
-        "Cajeton Tradicional": [
-          { name: 'Leche de Cabra', quantity: 100, unit: 'kg' },
-          { name: 'Azúcar', quantity: 20, unit: 'kg' },
-          { name: 'Glucosa', quantity: 27, unit: 'kg' },
-          { name: 'Malto', quantity: 5.0, unit: 'kg' },
-          { name: 'Bicarbonato', quantity: 0.16, unit: 'kg' },
-          { name: 'Sorbato', quantity: 0.10, unit: 'kg' },
-          { name: 'Pasta', quantity: 132, unit: 'kg' }
-        ],
-        "Cajeton Espesa": [
-          { name: 'Leche de Cabra', quantity: 100, unit: 'kg' },
-          { name: 'Azúcar', quantity: 20, unit: 'kg' },
-          { name: 'Glucosa', quantity: 27, unit: 'kg' },
-          { name: 'Malto', quantity: 5.0, unit: 'kg' },
-          { name: 'Bicarbonato', quantity: 0.16, unit: 'kg' },
-          { name: 'Sorbato', quantity: 0.10, unit: 'kg' }
-        ],
-        "Cajeton Esp Chepo": [
-          { name: 'Leche de Cabra', quantity: 100, unit: 'kg' },
-          { name: 'Azúcar', quantity: 20, unit: 'kg' },
-          { name: 'Glucosa', quantity: 27, unit: 'kg' },
-          { name: 'Malto', quantity: 5.0, unit: 'kg' },
-          { name: 'Bicarbonato', quantity: 0.18, unit: 'kg' }
-        ],
-        "Cabri Tradicional": [
-          { name: 'Azúcar', quantity: 20, unit: 'kg' },
-          { name: 'Glucosa', quantity: 45, unit: 'kg' },
-          { name: 'Malto', quantity: 5.0, unit: 'kg' },
-          { name: 'Bicarbonato', quantity: 0.16, unit: 'kg' },
-          { name: 'Sorbato', quantity: 0.10, unit: 'kg' }
-        ],
-        "Cabri Espesa": [
-          { name: 'Azúcar', quantity: 20, unit: 'kg' },
-          { name: 'Glucosa', quantity: 45, unit: 'kg' },
-          { name: 'Malto', quantity: 5.0, unit: 'kg' },
-          { name: 'Bicarbonato', quantity: 0.16, unit: 'kg' },
-          { name: 'Sorbato', quantity: 0.10, unit: 'kg' }
-        ],
-        "Horneable": [
-          { name: 'Leche de Vaca', quantity: 100, unit: 'kg' },
-          { name: 'Azúcar', quantity: 20, unit: 'kg' },
-          { name: 'Glucosa', quantity: 3, unit: 'kg' },
-          { name: 'Malto', quantity: 2.0, unit: 'kg' },
-          { name: 'Bicarbonato', quantity: 0.10, unit: 'kg' },
-          { name: 'Lecitina', quantity: 0.060, unit: 'kg' },
-          { name: 'Carragenina', quantity: 0.060, unit: 'kg' },
-          { name: 'Grasa', quantity: 0.36, unit: 'kg' }
-        ],
-        "Gloria untable 78° Brix": [
-          { name: 'Glucosa', quantity: 36, unit: 'kg' },
-          { name: 'Nuez', quantity: 16.10, unit: 'kg' }
-        ],
-        "Gloria untable 80° Brix": [
-          { name: 'Glucosa', quantity: 36, unit: 'kg' },
-          { name: 'Nuez', quantity: 23.76, unit: 'kg' }
-        ],
-        "Pasta Oblea Coro": [
-          { name: 'Glucosa', quantity: 36, unit: 'kg' },
-          { name: 'Pasta', quantity: 132, unit: 'kg' }
-        ],
-        "Pasta Oblea Cajeton": [
-          { name: 'Glucosa', quantity: 36, unit: 'kg' },
-          { name: 'Lecitina', quantity: 0.078, unit: 'kg' },
-          { name: 'Carragenina', quantity: 0.029, unit: 'kg' },
-          { name: 'Pasta', quantity: 132, unit: 'kg' }
-        ],
-        "Pasta DDL": [
-          { name: 'Leche de Vaca', quantity: 80, unit: 'kg' },
-          { name: 'Leche de Cabra', quantity: 20, unit: 'kg' },
-          { name: 'Azúcar', quantity: 29, unit: 'kg' },
-          { name: 'Sorbato', quantity: 0.10, unit: 'kg' },
-          { name: 'Pasta', quantity: 132, unit: 'kg' }
-        ],
-        "Conito": [
-          { name: 'Leche de Vaca', quantity: 50, unit: 'kg' },
-          { name: 'Leche de Cabra', quantity: 50, unit: 'kg' },
-          { name: 'Azúcar', quantity: 20, unit: 'kg' },
-          { name: 'Glucosa', quantity: 20, unit: 'kg' },
-          { name: 'Malto', quantity: 5.0, unit: 'kg' },
-          { name: 'Bicarbonato', quantity: 0.10, unit: 'kg' },
-          { name: 'Lecitina', quantity: 0.060, unit: 'kg' },
-          { name: 'Carragenina', quantity: 0.025, unit: 'kg' },
-          { name: 'Pasta', quantity: 132, unit: 'kg' }
-        ]
-      };
-      
-      let recetasCreadas = 0;
+  // Receta vigente de un producto escalada a los litros indicados (?liters=, por defecto los litros base).
+  // Con ?recipeId= se escala esa versión aprobada (la que quedó fijada en un formulario de producción)
+  app.get("/api/products/:productId/recipe", authorize(), async (req, res, next) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "ID de producto inválido" });
+      }
       
-      for (const [nombreProducto, ingredientes] of Object.entries(recetasReales)) {
-        // Buscar el producto por nombre (con coincidencia parcial)
-        const productResult = await db.execute(sql`
-          SELECT id, name FROM products 
-          WHERE UPPER(name) LIKE UPPER(${`%${nombreProducto}%`}) 
-          AND category = 'Tipo de Cajeta'
-          LIMIT 1
-        `);
-        
-        if (productResult.rows.length > 0) {
-          const producto = productResult.rows[0];
-          
-          // Eliminar receta existente si la hay
-          await db.execute(sql`
-            DELETE FROM recipe_ingredients 
-            WHERE recipe_id IN (
-              SELECT id FROM product_recipes WHERE product_id = ${producto.id}
-            )
-          `);
-          await db.execute(sql`
-            DELETE FROM product_recipes WHERE product_id = ${producto.id}
-          `);
-          
-          // Crear nueva receta
-          const recipeResult = await db.execute(sql`
-            INSERT INTO product_recipes (product_id, name, description, created_by)
-            VALUES (${producto.id}, ${`Receta ${producto.name}`}, ${`Receta estándar para ${producto.name} - 100 litros base`}, 1)
-            RETURNING id
-          `);
-          
-          if (recipeResult.rows.length > 0) {
-            const recipeId = recipeResult.rows[0].id;
-            
-            // Insertar ingredientes reales
-            for (const ingrediente of ingredientes) {
-              await db.execute(sql`
-                INSERT INTO recipe_ingredients (recipe_id, material_name, quantity, unit)
-                VALUES (${recipeId}, ${ingrediente.name}, ${ingrediente.quantity}, ${ingrediente.unit})
-              `);
-            }
-            
-            recetasCreadas++;
-            console.log(`Receta creada para: ${producto.name} con ${ingredientes.length} ingredientes`);
-          }
-        } else {
-          console.log(`Producto no encontrado: ${nombreProducto}`);
-        }
+      const versions = await storage.getRecipesWithIngredients(productId);
+      const recipe = req.query.recipeId
+        ? versions.find(version => version.id === parseInt(req.query.recipeId as string) && version.status === RecipeStatus.APPROVED)
+        : findEffectiveRecipe(versions, productId);
+      if (!recipe) {
+        return res.status(404).json({ message: "El producto no tiene una receta vigente" });
       }
       
+      const liters = parseFloat(req.query.liters as string) || recipe.baseQuantity;
+      res.json({
+        recipeId: recipe.id,
+        recipeName: recipe.name,
+        recipeVersion: recipe.version,
+        baseLiters: recipe.baseQuantity,
+        targetLiters: liters,
+        ingredients: scaleRecipe(recipe, liters).map(ingredient => ({
+          ...ingredient,
+          quantity: formatIngredientQuantity(ingredient.quantity)
+        }))
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Ruta de diagnóstico para productos (temporal)
+  app.get("/api/products-debug", async (req, res) => {
+    try {
+      console.log("=== PRODUCTS DEBUG ===");
+      console.log("Database URL exists:", !!process.env.DATABASE_URL);
+      
+      // Verificar si la tabla products existe
+      const tableCheck = await db.execute(sql`
+        SELECT EXISTS (
+          SELECT FROM information_schema.tables 
+          WHERE table_name = 'products'
+        );
+      `);
+      console.log("Table products exists:", tableCheck.rows[0]);
+      
+      // Contar productos
+      const countResult = await db.execute(sql`SELECT COUNT(*) as total FROM products`);
+      console.log("Total products:", countResult.rows[0]);
+      
+      // Obtener algunos productos de muestra
+      const sampleResult = await db.execute(sql`SELECT * FROM products LIMIT 5`);
+      console.log("Sample products:", sampleResult.rows);
+      
       res.json({
         status: "success",
-        message: "Recetas reales creadas exitosamente",
-        recetasCreadas,
-        totalRecetas: Object.keys(recetasReales).length
+        tableExists: tableCheck.rows[0],
+        totalProducts: countResult.rows[0],
+        sampleProducts: sampleResult.rows
       });
     } catch (error) {
-      console.error("Error creando recetas reales:", error);
+      console.error("Debug error:", error);
       res.status(500).json({
         status: "error",
-        message: error instanceof Error ? error.message : String(error)
+        message: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined
       });
     }
   });
 
-  // Ruta para obtener receta de un producto - VERSIÓN ROBUSTA CON FALLBACKS
-  app.get("/api/products/:productId/recipe", async (req, res) => {
+  // Estadísticas del dashboard con datos reales
+  app.get("/api/dashboard/stats", async (req, res) => {
     try {
-      const productId = parseInt(req.params.productId);
-      const liters = parseFloat(req.query.liters as string) || 100;
-      
-      console.log(`=== RECIPE REQUEST: Product ${productId}, Liters ${liters} ===`);
-      
-      // PASO 1: Verificar que el producto existe
-      let productName = "Producto Desconocido";
-      try {
-        const productResult = await db.execute(sql`SELECT name FROM products WHERE id = ${productId}`);
-        if (productResult.rows.length > 0) {
-          productName = productResult.rows[0].name as string;
-        }
-      } catch (error) {
-        console.log("Error verificando producto, continuando con fallback");
+      const now = new Date();
+      const startOfThisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+      const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+
+      const [users, templates, entries, productionFormsResult, lastMonthFormsResult] = await Promise.all([
+        storage.getAllUsers(),
+        storage.getAllFormTemplates(),
+        storage.getAllFormEntries(),
+        db.execute(sql`
+          SELECT COUNT(*) as count FROM production_forms
+          WHERE created_at >= ${startOfThisMonth.toISOString()}
+        `),
+        db.execute(sql`
+          SELECT COUNT(*) as count FROM production_forms
+          WHERE created_at >= ${startOfLastMonth.toISOString()}
+            AND created_at < ${startOfThisMonth.toISOString()}
+        `)
+      ]);
+
+      const thisMonthForms = parseInt(productionFormsResult.rows[0]?.count as string || '0');
+      const lastMonthForms = parseInt(lastMonthFormsResult.rows[0]?.count as string || '0');
+
+      let formsTrend = 0;
+      if (lastMonthForms > 0) {
+        formsTrend = Math.round(((thisMonthForms - lastMonthForms) / lastMonthForms) * 100);
       }
+
+      res.json({
+        users: users.length,
+        templates: templates.length,
+        entries: entries.length,
+        productionForms: thisMonthForms,
+        formsTrend,
+        exports: 0
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Error desconocido";
+      res.status(500).json({ message: "Error obteniendo estadísticas", details: errorMessage });
+    }
+  });
+
+  // Ruta para obtener productos
+  app.get("/api/products", authorize([UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY, UserRole.QUALITY_MANAGER]), async (req, res, next) => {
+    try {
+      console.log("=== GET PRODUCTS ===");
+      console.log("Query params:", req.query);
       
-      // PASO 2: Intentar obtener receta de la base de datos
-      let recipeData = null;
-      try {
-        const recipeResult = await db.execute(sql`
-          SELECT pr.id, pr.name FROM product_recipes pr WHERE pr.product_id = ${productId} LIMIT 1
+      let result;
+      // Si se especifica active=true, solo devolver productos activos
+      if (req.query.active === 'true') {
+        result = await db.execute(sql`
+          SELECT * FROM products WHERE is_active = true ORDER BY name
+        `);
+      } else {
+        result = await db.execute(sql`
+          SELECT * FROM products ORDER BY name
         `);
-        
-        if (recipeResult.rows.length > 0) {
-          const recipe = recipeResult.rows[0];
-          
-          // Intentar obtener ingredientes con manejo robusto de errores
-          try {
-            const ingredientsResult = await db.execute(sql`
-              SELECT material_name, quantity, unit FROM recipe_ingredients WHERE recipe_id = ${recipe.id}
-            `);
-            
-            if (ingredientsResult.rows.length > 0) {
-              const adjustedIngredients = ingredientsResult.rows.map(ingredient => {
-                let normalizedQuantity;
-                try {
-                  const rawQuantity = parseFloat(ingredient.quantity as string);
-                  // Normalizar unidades automáticamente
-                  normalizedQuantity = ingredient.unit === 'gramos' ? rawQuantity / 1000 : rawQuantity;
-                } catch {
-                  normalizedQuantity = 1; // Fallback seguro
-                }
-                
-                // Escalar cantidades según litros solicitados (base 100L)
-                let finalQuantity;
-                const calculatedQuantity = (normalizedQuantity * liters) / 100;
-                
-                // Formatear sin decimales si es un número entero
-                if (calculatedQuantity % 1 === 0) {
-                  finalQuantity = calculatedQuantity.toString();
-                } else {
-                  finalQuantity = calculatedQuantity.toFixed(3);
-                }
-                
-                return {
-                  name: ingredient.material_name,
-                  quantity: finalQuantity,
-                  unit: 'kg'
-                };
-              });
-              
-              recipeData = {
-                recipeId: recipe.id,
-                recipeName: recipe.name,
-                baseLiters: 100,
-                targetLiters: liters,
-                ingredients: adjustedIngredients
-              };
-            }
-          } catch (error) {
-            console.log("Error obteniendo ingredientes, usando fallback");
-          }
-        }
-      } catch (error) {
-        console.log("Error obteniendo receta de DB, usando fallback");
       }
       
-      // PASO 3: Si no hay datos de DB, usar recetas predefinidas
-      if (!recipeData) {
-        console.log(`Usando receta predefinida para producto ${productId}`);
-        
-        const predefinedRecipes = {
-          1: { // CAJETON TRADICIONAL
-            ingredients: [
-              { name: "Azúcar", baseQuantity: 25, unit: "kg" },
-              { name: "Bicarbonato", baseQuantity: 0.2, unit: "kg" },
-              { name: "Glucosa", baseQuantity: 5, unit: "kg" },
-              { name: "Leche", baseQuantity: 70, unit: "kg" }
-            ]
-          },
-          13: { // Coro 68° Brix
-            ingredients: [
-              { name: "Leche de Vaca", baseQuantity: 20, unit: "kg" },
-              { name: "Leche de Cabra", baseQuantity: 80, unit: "kg" },
-              { name: "Azúcar", baseQuantity: 18, unit: "kg" },
-              { name: "Bicarbonato", baseQuantity: 0.16, unit: "kg" }
-            ]
-          },
-          12: { // Mielmex 65° Brix
-            ingredients: [
-              { name: "Leche de Cabra", baseQuantity: 100, unit: "kg" },
-              { name: "Azúcar", baseQuantity: 20, unit: "kg" },
-              { name: "Bicarbonato", baseQuantity: 0.16, unit: "kg" },
-              { name: "Sorbato", baseQuantity: 0.0626, unit: "kg" }
-            ]
-          },
-          16: { // Cajeton Esp Chepo
-            ingredients: [
-              { name: "Leche de Cabra", baseQuantity: 100, unit: "kg" },
-              { name: "Azúcar", baseQuantity: 20, unit: "kg" },
-              { name: "Glucosa", baseQuantity: 27, unit: "kg" },
-              { name: "Malto", baseQuantity: 5.0, unit: "kg" },
-              { name: "Bicarbonato", baseQuantity: 0.18, unit: "kg" }
-            ]
-          },
-          47: { // Gloria untable 80° Brix
-            ingredients: [
-              { name: "Glucosa", baseQuantity: 36, unit: "kg" },
-              { name: "Nuez", baseQuantity: 23.76, unit: "kg" }
-            ]
-          }
-        };
-        
-        const predefinedRecipe = predefinedRecipes[productId as keyof typeof predefinedRecipes];
-        
-        if (predefinedRecipe) {
-          const adjustedIngredients = predefinedRecipe.ingredients.map(ingredient => {
-            const calculatedQuantity = ingredient.baseQuantity * liters / 100;
-            let formattedQuantity;
-            // Formatear sin decimales si es un número entero
-            if (calculatedQuantity % 1 === 0) {
-              formattedQuantity = calculatedQuantity.toString();
-            } else {
-              formattedQuantity = calculatedQuantity.toFixed(3);
-            }
-            return {
-              name: ingredient.name,
-              quantity: formattedQuantity,
-              unit: ingredient.unit
-            };
-          });
-          
-          recipeData = {
-            recipeId: `fallback_${productId}`,
-            recipeName: `Receta ${productName}`,
-            baseLiters: 100,
-            targetLiters: liters,
-            ingredients: adjustedIngredients
-          };
-        } else {
-          // Para productos sin receta específica, usar receta básica estándar
-          recipeData = {
-            recipeId: `standard_${productId}`,
-            recipeName: `Receta Estándar ${productName}`,
-            baseLiters: 100,
-            targetLiters: liters,
-            ingredients: [
-              { 
-                name: "Leche Base", 
-                quantity: (liters * 0.7) % 1 === 0 ? (liters * 0.7).toString() : (liters * 0.7).toFixed(3), 
-                unit: "kg" 
-              },
-              { 
-                name: "Azúcar", 
-                quantity: (liters * 0.2) % 1 === 0 ? (liters * 0.2).toString() : (liters * 0.2).toFixed(3), 
-                unit: "kg" 
-              },
-              { 
-                name: "Aditivos", 
-                quantity: (liters * 0.05) % 1 === 0 ? (liters * 0.05).toString() : (liters * 0.05).toFixed(3), 
-                unit: "kg" 
-              }
-            ]
-          };
-        }
+      console.log("Productos encontrados:", result.rows.length);
+      res.json(result.rows);
+    } catch (error) {
+      console.error("Error al obtener productos:", error);
+      res.status(500).json({
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Production Forms endpoints
+  app.get("/api/production-forms", getProductionForms);
+  app.get("/api/production-forms/:id", getProductionFormById);
+  app.post("/api/production-forms", createProductionForm);
+  app.put("/api/production-forms/:id", updateProductionForm);
+  app.patch("/api/production-forms/:id/status", updateProductionFormStatus);
+  app.delete("/api/production-forms/:id", deleteProductionForm);
+
+  // Límites de especificación del producto (puntos críticos de control)
+  app.get("/api/products/:productId/specifications", authorize(), async (req, res, next) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "ID de producto inválido" });
       }
       
-      console.log(`Retornando receta para ${productName}:`, JSON.stringify(recipeData, null, 2));
-      res.json(recipeData);
-      
+      const specifications = await storage.getProductSpecifications(productId);
+      res.json(specifications);
     } catch (error) {
-      console.error("Error crítico en obtención de receta:", error);
+      next(error);
+    }
+  });
+
+  app.put("/api/products/:productId/specifications", authorize([UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.QUALITY_MANAGER]), async (req, res, next) => {
+    try {
+      const productId = parseInt(req.params.productId);
+      if (isNaN(productId)) {
+        return res.status(400).json({ message: "ID de producto inválido" });
+      }
       
-      // FALLBACK FINAL - nunca fallar
-      res.json({
-        recipeId: `emergency_${req.params.productId}`,
-        recipeName: "Receta de Emergencia",
-        baseLiters: 100,
-        targetLiters: parseFloat(req.query.liters as string) || 100,
-        ingredients: [
-          { name: "Verificar Receta", quantity: "1.000", unit: "kg" }
-        ]
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Producto no encontrado" });
+      }
+      
+      const specs = updateProductSpecificationsSchema.parse(req.body);
+      const specifications = await storage.replaceProductSpecifications(productId, specs, req.user!.id);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "updated",
+        resourceType: "product_specification",
+        resourceId: productId,
+        details: { product: product.name, specifications: specs }
       });
+      
+      res.json(specifications);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
     }
   });
 
-  // Ruta de diagnóstico específica para recetas
-  app.get("/api/recipe-debug/:productId", async (req, res) => {
+  // Recetas de productos: única fuente de las fórmulas que usan los formularios y las tablas de materias primas
+  const recipeEditorRoles = [UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.QUALITY_MANAGER];
+
+  app.get("/api/recipes", authorize(), async (req, res, next) => {
     try {
-      const productId = parseInt(req.params.productId);
-      console.log(`=== RECIPE DEBUG FOR PRODUCT ${productId} ===`);
+      const productId = req.query.productId ? parseInt(req.query.productId as string) : undefined;
+      if (productId !== undefined && isNaN(productId)) {
+        return res.status(400).json({ message: "ID de producto inválido" });
+      }
       
-      // Verificar que el producto existe
-      const productResult = await db.execute(sql`
-        SELECT id, name FROM products WHERE id = ${productId}
-      `);
+      const recipes = await storage.getRecipesWithIngredients(productId);
+      res.json(recipes);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/recipes/:id", authorize(), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de receta inválido" });
+      }
       
-      if (productResult.rows.length === 0) {
-        return res.json({ error: "Producto no encontrado", productId });
+      const recipe = await storage.getRecipeWithIngredients(id);
+      if (!recipe) {
+        return res.status(404).json({ message: "Receta no encontrada" });
       }
       
-      // Buscar receta
-      const recipeResult = await db.execute(sql`
-        SELECT pr.id, pr.name FROM product_recipes pr WHERE pr.product_id = ${productId}
-      `);
+      res.json(recipe);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/recipes", authorize(recipeEditorRoles), async (req, res, next) => {
+    try {
+      const data = recipeInputSchema.parse(req.body);
       
-      if (recipeResult.rows.length === 0) {
-        return res.json({ 
-          error: "Receta no encontrada", 
-          product: productResult.rows[0],
-          hasRecipe: false 
-        });
+      const product = await storage.getProduct(data.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Producto no encontrado" });
       }
       
-      // Obtener ingredientes crudos
-      const ingredientsResult = await db.execute(sql`
-        SELECT material_name, quantity, unit FROM recipe_ingredients 
-        WHERE recipe_id = ${recipeResult.rows[0].id}
-      `);
+      const recipe = await storage.createRecipeWithIngredients(data, req.user!.id);
       
-      res.json({
-        product: productResult.rows[0],
-        recipe: recipeResult.rows[0],
-        rawIngredients: ingredientsResult.rows,
-        hasRecipe: true,
-        timestamp: new Date().toISOString()
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "created",
+        resourceType: "product_recipe",
+        resourceId: recipe.id,
+        details: { product: product.name, name: recipe.name, version: recipe.version, ingredients: data.ingredients }
       });
       
+      res.status(201).json(recipe);
     } catch (error) {
-      console.error("Recipe debug error:", error);
-      res.status(500).json({
-        error: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
     }
   });
 
-  // Ruta de diagnóstico para productos (temporal)
-  app.get("/api/products-debug", async (req, res) => {
+  app.put("/api/recipes/:id", authorize(recipeEditorRoles), async (req, res, next) => {
     try {
-      console.log("=== PRODUCTS DEBUG ===");
-      console.log("Database URL exists:", !!process.env.DATABASE_URL);
-      
-      // Verificar si la tabla products existe
-      const tableCheck = await db.execute(sql`
-        SELECT EXISTS (
-          SELECT FROM information_schema.tables 
-          WHERE table_name = 'products'
-        );
-      `);
-      console.log("Table products exists:", tableCheck.rows[0]);
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de receta inválido" });
+      }
       
-      // Contar productos
-      const countResult = await db.execute(sql`SELECT COUNT(*) as total FROM products`);
-      console.log("Total products:", countResult.rows[0]);
+      const data = recipeInputSchema.parse(req.body);
       
-      // Obtener algunos productos de muestra
-      const sampleResult = await db.execute(sql`SELECT * FROM products LIMIT 5`);
-      console.log("Sample products:", sampleResult.rows);
+      const product = await storage.getProduct(data.productId);
+      if (!product) {
+        return res.status(404).json({ message: "Producto no encontrado" });
+      }
       
-      res.json({
-        status: "success",
-        tableExists: tableCheck.rows[0],
-        totalProducts: countResult.rows[0],
-        sampleProducts: sampleResult.rows
+      const previous = await storage.getRecipeWithIngredients(id);
+      if (!previous) {
+        return res.status(404).json({ message: "Receta no encontrada" });
+      }
+      
+      // Las versiones aprobadas no se modifican: los formularios de producción las referencian
+      if (previous.status !== RecipeStatus.DRAFT) {
+        return res.status(409).json({ message: "La versión aprobada no puede modificarse; cree una nueva versión" });
+      }
+      if (previous.productId !== data.productId) {
+        return res.status(400).json({ message: "Una versión no puede cambiar de producto" });
+      }
+      
+      const recipe = await storage.updateRecipeWithIngredients(id, data);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "updated",
+        resourceType: "product_recipe",
+        resourceId: id,
+        details: {
+          product: product.name,
+          name: data.name,
+          version: previous.version,
+          previousIngredients: previous.ingredients.map(({ materialName, quantity, unit }) => ({ materialName, quantity, unit })),
+          ingredients: data.ingredients
+        }
       });
+      
+      res.json(recipe);
     } catch (error) {
-      console.error("Debug error:", error);
-      res.status(500).json({
-        status: "error",
-        message: error instanceof Error ? error.message : String(error),
-        stack: error instanceof Error ? error.stack : undefined
-      });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
     }
   });
 
-  // Ruta de migración para corregir unidades inconsistentes
-  app.post("/api/migrate/fix-recipe-units", authorize([UserRole.SUPERADMIN, UserRole.ADMIN]), async (req, res, next) => {
+  app.delete("/api/recipes/:id", authorize(recipeEditorRoles), async (req, res, next) => {
     try {
-      console.log("=== CORRIGIENDO UNIDADES DE RECETAS ===");
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de receta inválido" });
+      }
       
-      // Corregir unidades del producto ID 1 - convertir gramos a kg
-      await db.execute(sql`
-        UPDATE recipe_ingredients 
-        SET 
-            quantity = CAST(quantity AS NUMERIC) / 1000,
-            unit = 'kg'
-        WHERE recipe_id = 1 AND unit = 'gramos'
-      `);
-
-      // Cambiar litros a kg para estandarizar
-      await db.execute(sql`
-        UPDATE recipe_ingredients 
-        SET unit = 'kg'
-        WHERE recipe_id = 1 AND unit = 'litros'
-      `);
+      const recipe = await storage.getRecipeWithIngredients(id);
+      if (!recipe) {
+        return res.status(404).json({ message: "Receta no encontrada" });
+      }
       
-      // Verificar el resultado
-      const result = await db.execute(sql`
-        SELECT material_name, quantity, unit
-        FROM recipe_ingredients
-        WHERE recipe_id = 1
-        ORDER BY material_name
-      `);
+      if (recipe.status !== RecipeStatus.DRAFT) {
+        return res.status(409).json({ message: "Solo pueden eliminarse versiones en borrador" });
+      }
       
-      console.log("Unidades corregidas:", result.rows);
+      await storage.deleteProductRecipe(id);
       
-      res.json({
-        message: "Unidades de recetas corregidas correctamente",
-        recipe_id: 1,
-        ingredients: result.rows
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "deleted",
+        resourceType: "product_recipe",
+        resourceId: id,
+        details: { product: recipe.productName, name: recipe.name, version: recipe.version }
       });
       
+      res.status(204).send();
     } catch (error) {
-      console.error("Error corrigiendo unidades:", error);
       next(error);
     }
   });
 
-  // Ruta de migración para sincronizar recetas con datos exactos
-  app.post("/api/migrate/sync-exact-recipes", authorize([UserRole.SUPERADMIN, UserRole.ADMIN]), async (req, res, next) => {
+  // Aprobación de una versión por Calidad: queda inmutable y aplica a los formularios creados desde effectiveFrom
+  app.post("/api/recipes/:id/approve", authorize([UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER]), async (req, res, next) => {
     try {
-      console.log("=== SINCRONIZANDO RECETAS EXACTAS ===");
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID de receta inválido" });
+      }
       
-      // Datos exactos de las recetas basados en las capturas de pantalla
-      const exactRecipes = [
-        {
-          productName: "Coro 68° Brix",
-          ingredients: [
-            { name: "Leche de Vaca", quantity: 20, unit: "kg" },
-            { name: "Leche de Cabra", quantity: 80, unit: "kg" },
-            { name: "Azúcar", quantity: 18, unit: "kg" },
-            { name: "Bicarbonato", quantity: 0.16, unit: "kg" },
-            { name: "Pasta", quantity: 132, unit: "kg" }
-          ]
-        },
-        {
-          productName: "Mielmex 65° Brix",
-          ingredients: [
-            { name: "Leche de Cabra", quantity: 100, unit: "kg" },
-            { name: "Azúcar", quantity: 18, unit: "kg" },
-            { name: "Bicarbonato", quantity: 0.16, unit: "kg" },
-            { name: "Sorbato", quantity: 0.06, unit: "kg" },
-            { name: "Pasta", quantity: 132, unit: "kg" }
-          ]
-        },
-        {
-          productName: "Gloria untable 80° Brix",
-          ingredients: [
-            { name: "Glucosa", quantity: 36, unit: "kg" },
-            { name: "Pasta", quantity: 132, unit: "kg" },
-            { name: "Nuez", quantity: 23.76, unit: "kg" }
-          ]
-        },
-        {
-          productName: "Cajeton Esp Chepo",
-          ingredients: [
-            { name: "Leche de Cabra", quantity: 100, unit: "kg" },
-            { name: "Azúcar", quantity: 20, unit: "kg" },
-            { name: "Glucosa", quantity: 27, unit: "kg" },
-            { name: "Malto", quantity: 5.0, unit: "kg" },
-            { name: "Bicarbonato", quantity: 0.18, unit: "kg" },
-            { name: "Pasta", quantity: 132, unit: "kg" }
-          ]
-        }
-      ];
-
-      const results = [];
+      const { effectiveFrom = new Date() } = approveRecipeSchema.parse(req.body);
       
-      for (const recipeData of exactRecipes) {
-        console.log(`Procesando receta para: ${recipeData.productName}`);
-        
-        // Buscar el producto
-        const productResult = await db.execute(sql`
-          SELECT id FROM products WHERE name = ${recipeData.productName}
-        `);
-        
-        if (productResult.rows.length === 0) {
-          console.log(`Producto no encontrado: ${recipeData.productName}`);
-          continue;
-        }
-        
-        const productId = productResult.rows[0].id;
-        
-        // Buscar o crear la receta
-        let recipeResult = await db.execute(sql`
-          SELECT id FROM product_recipes WHERE product_id = ${productId}
-        `);
-        
-        let recipeId;
-        if (recipeResult.rows.length === 0) {
-          // Crear nueva receta
-          const newRecipeResult = await db.execute(sql`
-            INSERT INTO product_recipes (product_id, name, base_quantity, created_by)
-            VALUES (${productId}, ${'Receta ' + recipeData.productName}, 100, 1)
-            RETURNING id
-          `);
-          recipeId = newRecipeResult.rows[0].id;
-        } else {
-          recipeId = recipeResult.rows[0].id;
-          
-          // Eliminar ingredientes existentes
-          await db.execute(sql`
-            DELETE FROM recipe_ingredients WHERE recipe_id = ${recipeId}
-          `);
-        }
-        
-        // Insertar ingredientes exactos
-        for (const ingredient of recipeData.ingredients) {
-          await db.execute(sql`
-            INSERT INTO recipe_ingredients (recipe_id, material_name, quantity, unit)
-            VALUES (${recipeId}, ${ingredient.name}, ${ingredient.quantity}, ${ingredient.unit})
-          `);
-        }
-        
-        results.push({
-          product: recipeData.productName,
-          recipeId,
-          ingredientsCount: recipeData.ingredients.length,
-          status: "synced"
-        });
+      // No se permite fechar hacia atrás: cambiaría la receta que aplicaba a lotes ya producidos
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+      if (effectiveFrom < startOfToday) {
+        return res.status(400).json({ message: "La fecha de vigencia no puede ser anterior a hoy" });
       }
       
-      console.log("Sincronización completada:", results);
-      res.json({
-        message: "Recetas sincronizadas correctamente",
-        results
+      const recipe = await storage.getRecipeWithIngredients(id);
+      if (!recipe) {
+        return res.status(404).json({ message: "Receta no encontrada" });
+      }
+      
+      if (recipe.status !== RecipeStatus.DRAFT) {
+        return res.status(409).json({ message: "La versión ya fue aprobada" });
+      }
+      
+      const approved = await storage.approveRecipe(id, req.user!.id, effectiveFrom < new Date() ? new Date() : effectiveFrom);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "approved",
+        resourceType: "product_recipe",
+        resourceId: id,
+        details: { product: recipe.productName, name: recipe.name, version: recipe.version, effectiveFrom: approved?.effectiveFrom }
       });
       
+      res.json(approved);
     } catch (error) {
-      console.error("Error en sincronización de recetas:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
       next(error);
     }
   });
 
-  // Estadísticas del dashboard con datos reales
-  app.get("/api/dashboard/stats", async (req, res) => {
+  // Desviaciones de un formulario de producción (lecturas fuera de especificación)
+  app.get("/api/production-forms/:id/deviations", authorize(), async (req, res, next) => {
     try {
-      const now = new Date();
-      const startOfThisMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-      const startOfLastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-
-      const [users, templates, entries, productionFormsResult, lastMonthFormsResult] = await Promise.all([
-        storage.getAllUsers(),
-        storage.getAllFormTemplates(),
-        storage.getAllFormEntries(),
-        db.execute(sql`
-          SELECT COUNT(*) as count FROM production_forms
-          WHERE created_at >= ${startOfThisMonth.toISOString()}
-        `),
-        db.execute(sql`
-          SELECT COUNT(*) as count FROM production_forms
-          WHERE created_at >= ${startOfLastMonth.toISOString()}
-            AND created_at < ${startOfThisMonth.toISOString()}
-        `)
-      ]);
-
-      const thisMonthForms = parseInt(productionFormsResult.rows[0]?.count as string || '0');
-      const lastMonthForms = parseInt(lastMonthFormsResult.rows[0]?.count as string || '0');
-
-      let formsTrend = 0;
-      if (lastMonthForms > 0) {
-        formsTrend = Math.round(((thisMonthForms - lastMonthForms) / lastMonthForms) * 100);
+      const formId = parseInt(req.params.id);
+      if (isNaN(formId)) {
+        return res.status(400).json({ message: "ID de formulario inválido" });
       }
-
-      res.json({
-        users: users.length,
-        templates: templates.length,
-        entries: entries.length,
-        productionForms: thisMonthForms,
-        formsTrend,
-        exports: 0
-      });
+      
+      const deviations = await storage.getProductionDeviations(formId);
+      res.json(deviations);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Error desconocido";
-      res.status(500).json({ message: "Error obteniendo estadísticas", details: errorMessage });
+      next(error);
     }
   });
 
-  // Ruta para obtener productos
-  app.get("/api/products", authorize([UserRole.SUPERADMIN, UserRole.ADMIN, UserRole.PRODUCTION, UserRole.PRODUCTION_MANAGER, UserRole.QUALITY, UserRole.QUALITY_MANAGER]), async (req, res, next) => {
+  app.post("/api/production-forms/:id/deviations/:deviationId/resolve", authorize(deviationResolverRoles), async (req, res, next) => {
     try {
-      console.log("=== GET PRODUCTS ===");
-      console.log("Query params:", req.query);
+      const formId = parseInt(req.params.id);
+      const deviationId = parseInt(req.params.deviationId);
+      if (isNaN(formId) || isNaN(deviationId)) {
+        return res.status(400).json({ message: "ID inválido" });
+      }
       
-      let result;
-      // Si se especifica active=true, solo devolver productos activos
-      if (req.query.active === 'true') {
-        result = await db.execute(sql`
-          SELECT * FROM products WHERE is_active = true ORDER BY name
-        `);
-      } else {
-        result = await db.execute(sql`
-          SELECT * FROM products ORDER BY name
-        `);
+      const deviation = await storage.getProductionDeviation(deviationId);
+      if (!deviation || deviation.productionFormId !== formId) {
+        return res.status(404).json({ message: "Desviación no encontrada" });
+      }
+      if (deviation.status === DeviationStatus.RESOLVED) {
+        return res.status(400).json({ message: "La desviación ya tiene acción correctiva documentada" });
       }
       
-      console.log("Productos encontrados:", result.rows.length);
-      res.json(result.rows);
-    } catch (error) {
-      console.error("Error al obtener productos:", error);
-      res.status(500).json({
-        error: error instanceof Error ? error.message : String(error)
+      const { correctiveAction } = resolveDeviationSchema.parse(req.body);
+      const resolved = await storage.resolveProductionDeviation(deviationId, correctiveAction, req.user!.id);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "deviation_resolved",
+        resourceType: "production_form",
+        resourceId: formId,
+        details: { deviationId, parameter: deviation.parameter, value: deviation.value, correctiveAction }
       });
+      
+      res.json(resolved);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
     }
   });
 
-  // Production Forms endpoints
-  app.get("/api/production-forms", getProductionForms);
-  app.get("/api/production-forms/:id", getProductionFormById);
-  app.post("/api/production-forms", createProductionForm);
-  app.put("/api/production-forms/:id", updateProductionForm);
-  app.patch("/api/production-forms/:id/status", updateProductionFormStatus);
-  app.delete("/api/production-forms/:id", deleteProductionForm);
-
   // Export production form as PDF
   app.get("/api/production-forms/:id/export", async (req, res, next) => {
     try {
@@ -2799,11 +3293,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Obtener información del usuario creador
       const creator = await storage.getUser(form.createdBy);
 
+      // Versión de receta fijada al crear el formulario
+      const recipe = form.recipeId ? await storage.getRecipeWithIngredients(form.recipeId) : undefined;
+
       // Generar PDF del formulario de producción
       try {
         const { generateProductionFormPDF } = await import('./pdf-generator-production');
         
-        const pdfBuffer = await generateProductionFormPDF(form, creator);
+        const pdfBuffer = await generateProductionFormPDF(form, creator, recipe);
         
         res.setHeader('Content-Type', 'application/pdf');
         res.setHeader('Content-Disposition', `attachment; filename="formulario_produccion_${form.folio}.pdf"`);
@@ -2821,6 +3318,134 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trazabilidad de lotes: ?direction=forward&supplierLot=...[&materialName=...] o ?direction=backward&lotNumber=...
+  app.get("/api/traceability", authorize(traceabilityRoles), async (req, res, next) => {
+    try {
+      const query = traceabilityQuerySchema.parse(req.query);
+      res.json(await storage.getMaterialLotUsages(query));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.get("/api/traceability/export", authorize(traceabilityRoles), async (req, res, next) => {
+    try {
+      const query = traceabilityQuerySchema.parse(req.query);
+      const usages = await storage.getMaterialLotUsages(query);
+      const buffer = await generateTraceabilityExcel(query, usages);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "exported",
+        resourceType: "traceability",
+        resourceId: 0,
+        details: { ...query, records: usages.length }
+      });
+      
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename="${traceabilityFileName(query)}.xlsx"`);
+      res.send(buffer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Simulacros de retiro
+  app.get("/api/mock-recalls", authorize(mockRecallRoles), async (req, res, next) => {
+    try {
+      res.json(await storage.getMockRecalls());
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/mock-recalls", authorize(mockRecallRoles), async (req, res, next) => {
+    try {
+      const { lotNumber, notes } = startMockRecallSchema.parse(req.body);
+      
+      const records = await gatherMockRecallRecords(lotNumber);
+      if (records.productionForms.length === 0 && records.entries.length === 0) {
+        return res.status(404).json({ message: "No hay registros con el lote indicado" });
+      }
+      
+      const recall = await storage.createMockRecall({
+        lotNumber,
+        notes: notes || null,
+        productionFormIds: records.productionForms.map(form => form.id),
+        formEntryIds: records.entries.map(({ entry }) => entry.id),
+        startedBy: req.user!.id,
+      });
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "started",
+        resourceType: "mock_recall",
+        resourceId: recall.id,
+        details: { lotNumber, productionForms: recall.productionFormIds.length, formEntries: recall.formEntryIds.length }
+      });
+      
+      res.status(201).json(recall);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Genera el paquete de registros; la primera generación concluye el simulacro y fija el tiempo transcurrido
+  app.get("/api/mock-recalls/:id/export", authorize(mockRecallRoles), async (req, res, next) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "ID inválido" });
+      }
+      const { format } = mockRecallExportSchema.parse(req.query);
+      
+      const existing = await storage.getMockRecall(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Simulacro no encontrado" });
+      }
+      
+      const records = await gatherMockRecallRecords(existing.lotNumber);
+      const recall = await storage.completeMockRecall(
+        id,
+        records.productionForms.map(form => form.id),
+        records.entries.map(({ entry }) => entry.id)
+      );
+      const starter = await storage.getUser(existing.startedBy);
+      
+      // Log activity
+      await storage.createActivityLog({
+        userId: req.user!.id,
+        action: "exported",
+        resourceType: "mock_recall",
+        resourceId: id,
+        details: { lotNumber: existing.lotNumber, format, completedAt: recall!.completedAt }
+      });
+      
+      const fileName = `simulacro_retiro_${existing.lotNumber.replace(/[^\w-]+/g, "_")}`;
+      if (format === "pdf") {
+        await sendMockRecallPdf(recall!, records, starter, fileName, res);
+      } else {
+        await sendMockRecallExcel(recall!, records, starter, fileName, res);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Datos inválidos", details: error.errors });
+      }
+      next(error);
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
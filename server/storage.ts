@@ -1,25 +1,245 @@
 import { 
   users, type User, type InsertUser, 
+  loginAttempts, LoginAttempt, InsertLoginAttempt,
+  passwordHistory, PasswordHistoryEntry,
   formTemplates, FormTemplate, InsertFormTemplate, 
   formEntries, FormEntry, InsertFormEntry, 
+  FormEntrySearch, FormEntrySearchItem, FormEntrySearchResult,
+  formEntryRevisions, FormEntryRevision, InsertFormEntryRevision,
+  formEntryAmendments, FormEntryAmendment, InsertFormEntryAmendment,
+  entrySignatures, EntrySignature, InsertEntrySignature,
+  workflowDefinitions, WorkflowDefinition, WorkflowDefinitionInput,
   activityLogs, ActivityLog, InsertActivityLog,
   savedReports, SavedReport, InsertSavedReport,
   folioCounters, FolioCounter, InsertFolioCounter,
+  FolioAllocation, FolioSchemeInput, FolioGap, FolioGapReason, FolioResetPolicy, FormWorkflowStatus,
+  folioEvents, FolioEvent, InsertFolioEvent, FolioEventType, FolioEventWithUser, FolioSequenceItem, FolioStatus,
   products, Product, InsertProduct,
   employees, Employee, InsertEmployee,
   productRecipes, ProductRecipe, InsertProductRecipe,
   recipeIngredients, RecipeIngredient, InsertRecipeIngredient,
+  RecipeInput, RecipeWithIngredients, RecipeStatus,
+  productionForms, ProductionForm, MaterialLotUsage, TraceabilityQuery, TraceabilityDirection,
+  mockRecalls, MockRecall, InsertMockRecall,
+  productSpecifications, ProductSpecification, ProductSpecificationInput,
+  productionDeviations, ProductionDeviation, InsertProductionDeviation, DeviationStatus,
+  systemSettings, SystemSettings, UpdateSystemSettings,
+  accessSchedules, AccessSchedule, UpsertAccessSchedule,
+  accessHolidays, AccessHoliday, InsertAccessHoliday,
+  accessExceptions, AccessException, InsertAccessException,
   UserRole 
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import connectPgSimple from "connect-pg-simple";
 import { db, pool } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { computeActivityLogHash } from "./audit-chain";
+import { isEntryLocked } from "./amendments";
+import {
+  PRODUCTION_FORMS_FOLIO_TEMPLATE_ID,
+  PRODUCTION_FORMS_FOLIO_NAME,
+  FOLIO_NUMBER_PATTERN,
+  resolveFolioScheme,
+  getFolioPeriodKey,
+  formatFolio,
+  formatFolioForPeriod
+} from "@shared/folios";
+import { eq, ne, desc, asc, sql, and, or, gte, lt, isNull, isNotNull, inArray, type SQL } from "drizzle-orm";
 
 const MemoryStore = createMemoryStore(session);
 const PostgresSessionStore = connectPgSimple(session);
 
+// Llave del bloqueo de Postgres que serializa la cadena de huellas de la bitácora
+const ACTIVITY_LOG_CHAIN_LOCK = 7314001;
+
+// Columnas de ordenamiento permitidas en la búsqueda de formularios capturados
+const formEntrySortColumns: Record<FormEntrySearch["sortBy"], SQL> = {
+  createdAt: sql`r.created_at`,
+  updatedAt: sql`r.updated_at`,
+  folioNumber: sql`r.folio_number`,
+  templateName: sql`r.template_name`,
+  workflowStatus: sql`r.workflow_status`,
+};
+
+// Patrón ILIKE "contiene" escapando los comodines del texto buscado
+function containsPattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Kilos y hora de adición de una materia prima del formulario de producción.
+ * Las horas se capturan por posición en la lista de ingredientes con cantidad (los de cantidad cero no se muestran)
+ */
+function findIngredientAddition(
+  ingredients: unknown,
+  times: unknown,
+  materialName: string
+): Pick<MaterialLotUsage, "quantity" | "unit" | "addedAt"> {
+  const added = Array.isArray(ingredients) ? ingredients.filter((ingredient: any) => ingredient?.quantity > 0) : [];
+  const index = added.findIndex((ingredient: any) => ingredient.name === materialName);
+  if (index === -1) return { quantity: null, unit: null, addedAt: null };
+  return {
+    quantity: Number(added[index].quantity),
+    unit: added[index].unit ?? null,
+    addedAt: (Array.isArray(times) && times[index]) || null,
+  };
+}
+
+// Inserta los ingredientes de una versión de receta (la cantidad se guarda como texto)
+async function insertRecipeIngredients(tx: Transaction, recipeId: number, ingredients: RecipeInput["ingredients"]) {
+  await tx.insert(recipeIngredients).values(ingredients.map(ingredient => ({
+    recipeId,
+    materialName: ingredient.materialName,
+    quantity: ingredient.quantity.toString(),
+    unit: ingredient.unit,
+  })));
+}
+
+// Formulario de producción por insertar; sin folio capturado se asigna el siguiente del esquema
+type NewProductionForm = Omit<typeof productionForms.$inferInsert, "folio"> & { folio?: string | null };
+
+// Folio de un registro existente, para reconstruir la secuencia en el reporte de faltantes
+interface FolioRecord {
+  id: number;
+  number: number;
+  period: string;
+  folio: string | null;
+  cancelled: boolean;
+}
+
+// Nombre de la plantilla (define el prefijo predeterminado del folio)
+async function getFolioTemplateName(executor: Pick<Transaction, "select">, formTemplateId: number): Promise<string | null> {
+  if (formTemplateId === PRODUCTION_FORMS_FOLIO_TEMPLATE_ID) return PRODUCTION_FORMS_FOLIO_NAME;
+  const [template] = await executor
+    .select({ name: formTemplates.name })
+    .from(formTemplates)
+    .where(eq(formTemplates.id, formTemplateId));
+  return template?.name ?? null;
+}
+
+// Último consecutivo "PR-0001" de los formularios de producción creados antes de los esquemas de folio
+async function getLegacyProductionFolioNumber(executor: Pick<Transaction, "execute">): Promise<number> {
+  const result = await executor.execute(sql`
+    select coalesce(max(substring(folio from '^PR-(\\d+)$')::int), 0) as last from production_forms
+  `);
+  return Number((result.rows[0] as any)?.last ?? 0);
+}
+
+// Revisión de una entrada; el consecutivo lo asigna el almacenamiento
+export type EntryRevisionInput = Omit<InsertFormEntryRevision, "revision">;
+
+// Revisiones que genera un guardado a partir de la entrada bloqueada y la guardada (hasRevisions: ya tenía historial)
+export type EntryRevisionBuilder = (previous: FormEntry, updated: FormEntry, hasRevisions: boolean) => EntryRevisionInput[];
+
+// Siguiente consecutivo de revisión de la entrada; la entrada debe estar bloqueada en la transacción
+async function getLastEntryRevision(tx: Transaction, formEntryId: number): Promise<number> {
+  const [{ lastRevision }] = await tx
+    .select({ lastRevision: sql<number>`coalesce(max(${formEntryRevisions.revision}), 0)` })
+    .from(formEntryRevisions)
+    .where(eq(formEntryRevisions.formEntryId, formEntryId));
+  return Number(lastRevision);
+}
+
+// Datos de actualización de una entrada; las fechas de firma y aprobación se registran en el servidor
+function prepareFormEntryUpdate(data: Partial<any>): any {
+  const updateData: any = {
+    ...data,
+    updatedAt: new Date()
+  };
+
+  if (updateData.signedAt && !(updateData.signedAt instanceof Date)) {
+    updateData.signedAt = new Date();
+  }
+  if (updateData.approvedAt && !(updateData.approvedAt instanceof Date)) {
+    updateData.approvedAt = new Date();
+  }
+  return updateData;
+}
+
+// Bloquea la entrada hasta confirmar: los guardados simultáneos se registran uno tras otro
+async function lockFormEntry(tx: Transaction, id: number): Promise<FormEntry | undefined> {
+  const [entry] = await tx.select().from(formEntries).where(eq(formEntries.id, id)).for("update");
+  return entry;
+}
+
+/**
+ * Anula los folios de una entrada que se va a eliminar: el del esquema y los capturados en campos
+ * con historial. El folio no desaparece de la secuencia, queda anulado con el motivo de la eliminación
+ */
+async function voidEntryFolios(
+  tx: Transaction,
+  entry: FormEntry,
+  voided: { userId: number; reason: string }
+): Promise<void> {
+  const data = (entry.data as Record<string, any>) || {};
+  const folios = new Map<string, string | null>();
+  if (entry.folio) {
+    folios.set(entry.folio, null);
+  }
+  const events = await tx
+    .select()
+    .from(folioEvents)
+    .where(and(eq(folioEvents.formTemplateId, entry.formTemplateId), eq(folioEvents.recordId, entry.id)));
+  for (const event of events) {
+    if (event.fieldId && !folios.has(event.folio) && String(data[event.fieldId] ?? "") === event.folio) {
+      folios.set(event.folio, event.fieldId);
+    }
+  }
+
+  for (const [folio, fieldId] of Array.from(folios.entries())) {
+    const isSchemeFolio = folio === entry.folio;
+    await tx.insert(folioEvents).values({
+      formTemplateId: entry.formTemplateId,
+      eventType: FolioEventType.VOIDED,
+      folio,
+      folioNumber: isSchemeFolio ? entry.folioNumber : null,
+      folioPeriod: isSchemeFolio ? entry.folioPeriod : null,
+      recordId: entry.id,
+      fieldId,
+      reason: voided.reason,
+      userId: voided.userId
+    });
+  }
+}
+
+/**
+ * Asigna el siguiente folio dentro de la transacción del registro. El contador queda bloqueado
+ * hasta confirmar, así dos registros simultáneos nunca reciben el mismo consecutivo
+ */
+async function allocateFolio(tx: Transaction, formTemplateId: number, at: Date): Promise<FolioAllocation> {
+  const lockCounter = async () => {
+    const [counter] = await tx
+      .select()
+      .from(folioCounters)
+      .where(eq(folioCounters.formTemplateId, formTemplateId))
+      .for("update");
+    return counter;
+  };
+
+  let counter = await lockCounter();
+  if (!counter) {
+    const lastFolioNumber = formTemplateId === PRODUCTION_FORMS_FOLIO_TEMPLATE_ID ? await getLegacyProductionFolioNumber(tx) : 0;
+    await tx
+      .insert(folioCounters)
+      .values({ formTemplateId, lastFolioNumber })
+      .onConflictDoNothing({ target: folioCounters.formTemplateId });
+    counter = await lockCounter();
+  }
+
+  // Al cambiar de periodo (año o mes) el consecutivo vuelve a 1
+  const period = getFolioPeriodKey(counter.resetPolicy, at);
+  const number = counter.periodKey === period ? counter.lastFolioNumber + 1 : 1;
+  await tx
+    .update(folioCounters)
+    .set({ lastFolioNumber: number, periodKey: period, updatedAt: new Date() })
+    .where(eq(folioCounters.id, counter.id));
+
+  const { pattern, prefix } = resolveFolioScheme(counter, formTemplateId, await getFolioTemplateName(tx, formTemplateId));
+  return { number, period, folio: formatFolio(pattern, prefix, number, at) };
+}
+
 // Type definition for session store since it's not exported directly from express-session
 declare module "express-session" {
   interface SessionStore {
@@ -41,24 +261,77 @@ export interface IStorage {
   updateUser(id: number, data: Partial<InsertUser>): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   getUsersByRole(role: string): Promise<User[]>;
+  recordFailedLogin(id: number): Promise<number>;
+  resetFailedLogins(id: number): Promise<void>;
+  lockUser(id: number, until: Date): Promise<void>;
+  updateUserPassword(id: number, passwordHash: string, mustChangePassword: boolean): Promise<User | undefined>;
+  getPasswordHistory(userId: number, limit: number): Promise<PasswordHistoryEntry[]>;
+  
+  // Login attempt methods
+  createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  countFailedLoginAttemptsByIp(ipAddress: string, since: Date): Promise<number>;
+  
+  // System settings methods
+  getSystemSettings(): Promise<SystemSettings>;
+  updateSystemSettings(data: UpdateSystemSettings, updatedBy: number): Promise<SystemSettings>;
+  
+  // Access schedule methods
+  getAllAccessSchedules(): Promise<AccessSchedule[]>;
+  getRoleAccessSchedule(role: UserRole): Promise<AccessSchedule | undefined>;
+  getUserAccessSchedule(userId: number): Promise<AccessSchedule | undefined>;
+  upsertRoleAccessSchedule(role: UserRole, data: UpsertAccessSchedule, updatedBy: number): Promise<AccessSchedule>;
+  upsertUserAccessSchedule(userId: number, data: UpsertAccessSchedule, updatedBy: number): Promise<AccessSchedule>;
+  deleteUserAccessSchedule(userId: number): Promise<void>;
+  getAccessHolidays(): Promise<AccessHoliday[]>;
+  createAccessHoliday(holiday: InsertAccessHoliday, createdBy: number): Promise<AccessHoliday>;
+  deleteAccessHoliday(id: number): Promise<void>;
+  getAccessExceptions(): Promise<AccessException[]>;
+  getUpcomingAccessExceptions(userId: number, role: UserRole, since: Date): Promise<AccessException[]>;
+  createAccessException(exception: InsertAccessException, createdBy: number): Promise<AccessException>;
+  deleteAccessException(id: number): Promise<void>;
   
   // Form template methods
   getFormTemplate(id: number): Promise<FormTemplate | undefined>;
   createFormTemplate(template: InsertFormTemplate): Promise<FormTemplate>;
   updateFormTemplate(id: number, data: Partial<InsertFormTemplate>): Promise<FormTemplate | undefined>;
-  deleteFormTemplate(id: number): Promise<void>;
+  // Elimina también sus entradas (anulando sus folios) y su flujo; si alguna entrada está firmada no elimina nada
+  deleteFormTemplate(id: number, voided: { userId: number; reason: string }): Promise<{ entriesDeleted: number; lockedEntries: FormEntry[] }>;
   getAllFormTemplates(): Promise<FormTemplate[]>;
   getFormTemplatesByDepartment(department: string): Promise<FormTemplate[]>;
   
   // Form entry methods
   getFormEntry(id: number): Promise<FormEntry | undefined>;
-  createFormEntry(entry: InsertFormEntry): Promise<FormEntry>;
+  createFormEntry(entry: InsertFormEntry, autoFolioFieldIds?: string[]): Promise<FormEntry>;
   updateFormEntry(id: number, data: Partial<any>): Promise<FormEntry | undefined>;
-  deleteFormEntry(id: number): Promise<void>;
+  deleteFormEntry(id: number, voided: { userId: number; reason: string }): Promise<void>; // Anula los folios que llevaba
   getFormEntriesByTemplate(templateId: number): Promise<FormEntry[]>;
   getFormEntriesByUser(userId: number): Promise<FormEntry[]>;
   getFormEntriesByDepartment(department: string): Promise<FormEntry[]>;
   getAllFormEntries(): Promise<FormEntry[]>;
+  searchFormEntries(filters: FormEntrySearch): Promise<FormEntrySearchResult>;
+  
+  // Form entry revision methods (solo inserción y lectura: las revisiones son inmutables)
+  getFormEntryRevisions(formEntryId: number): Promise<FormEntryRevision[]>;
+  createFormEntryRevision(revision: EntryRevisionInput): Promise<FormEntryRevision>;
+  updateFormEntryWithRevision(
+    id: number,
+    data: Partial<any>,
+    buildRevisions: EntryRevisionBuilder
+  ): Promise<{ entry: FormEntry; revision: FormEntryRevision } | undefined>;
+  
+  // Form entry amendment methods
+  getFormEntryAmendments(formEntryId: number): Promise<FormEntryAmendment[]>;
+  createFormEntryAmendment(amendment: InsertFormEntryAmendment): Promise<FormEntryAmendment>;
+  
+  // Entry signature methods
+  getEntrySignatures(formEntryId: number): Promise<EntrySignature[]>;
+  createEntrySignature(signature: InsertEntrySignature): Promise<EntrySignature>;
+  
+  // Workflow definition methods (formTemplateId null = flujo por defecto)
+  getWorkflowDefinition(formTemplateId: number | null): Promise<WorkflowDefinition | undefined>;
+  getAllWorkflowDefinitions(): Promise<WorkflowDefinition[]>;
+  upsertWorkflowDefinition(formTemplateId: number | null, definition: WorkflowDefinitionInput, updatedBy: number): Promise<WorkflowDefinition>;
+  deleteWorkflowDefinition(formTemplateId: number | null): Promise<void>;
   
   // Saved report methods
   getSavedReport(id: number): Promise<SavedReport | undefined>;
@@ -70,10 +343,17 @@ export interface IStorage {
   // Activity log methods
   createActivityLog(log: InsertActivityLog): Promise<ActivityLog>;
   getRecentActivity(limit: number): Promise<ActivityLog[]>;
+  getActivityLogChain(): Promise<ActivityLog[]>;
   
   // Folio methods
   getFolioCounter(templateId: number): Promise<FolioCounter | undefined>;
-  getNextFolioNumber(templateId: number): Promise<number>;
+  getFolioCounters(): Promise<FolioCounter[]>;
+  previewNextFolio(templateId: number, at?: Date): Promise<FolioAllocation>;
+  saveFolioScheme(templateId: number, scheme: FolioSchemeInput): Promise<FolioCounter>;
+  getFolioGaps(templateId?: number): Promise<FolioGap[]>;
+  createFolioEvent(event: InsertFolioEvent): Promise<FolioEvent>;
+  getFolioEvents(templateId: number): Promise<FolioEventWithUser[]>;
+  getFolioSequence(templateId: number): Promise<FolioSequenceItem[]>;
   
   // Productos methods
   getProduct(id: number): Promise<Product | undefined>;
@@ -107,10 +387,38 @@ export interface IStorage {
   createRecipeIngredient(ingredient: InsertRecipeIngredient): Promise<RecipeIngredient>;
   updateRecipeIngredient(id: number, data: Partial<InsertRecipeIngredient>): Promise<RecipeIngredient | undefined>;
   deleteRecipeIngredient(id: number): Promise<void>;
+
+  // Recetas con ingredientes (fuente única de las fórmulas); cada receta es una versión de la fórmula del producto
+  getRecipesWithIngredients(productId?: number): Promise<RecipeWithIngredients[]>;
+  getRecipeWithIngredients(id: number): Promise<RecipeWithIngredients | undefined>;
+  createRecipeWithIngredients(recipe: RecipeInput, createdBy: number): Promise<RecipeWithIngredients>; // Siguiente versión, en borrador
+  updateRecipeWithIngredients(id: number, recipe: RecipeInput): Promise<RecipeWithIngredients | undefined>; // Solo borradores
+  approveRecipe(id: number, approvedBy: number, effectiveFrom: Date): Promise<RecipeWithIngredients | undefined>; // Solo borradores
   
   // Production forms methods
   getAllProductionForms(): Promise<any[]>;
   getProductionFormsByUser(userId: number): Promise<any[]>;
+  getMaterialLotUsages(query: TraceabilityQuery): Promise<MaterialLotUsage[]>; // Trazabilidad hacia adelante o hacia atrás
+  
+  // Especificaciones de producto methods
+  getProductSpecifications(productId: number): Promise<ProductSpecification[]>;
+  replaceProductSpecifications(productId: number, specs: ProductSpecificationInput[], updatedBy: number): Promise<ProductSpecification[]>;
+  
+  // Desviaciones de producción methods
+  getProductionDeviation(id: number): Promise<ProductionDeviation | undefined>;
+  getProductionDeviations(productionFormId: number): Promise<ProductionDeviation[]>;
+  createProductionDeviations(deviations: InsertProductionDeviation[]): Promise<ProductionDeviation[]>;
+  resolveProductionDeviation(id: number, correctiveAction: string, resolvedBy: number): Promise<ProductionDeviation | undefined>;
+  
+  // Simulacros de retiro methods
+  getProductionFormsByLotNumber(lotNumber: string): Promise<ProductionForm[]>;
+  createProductionForm(form: NewProductionForm): Promise<ProductionForm>;
+  getFormEntriesByLotNumber(lotNumber: string): Promise<FormEntry[]>;
+  getFormEntriesCreatedBetween(templateIds: number[], from: Date, to: Date): Promise<FormEntry[]>;
+  getMockRecalls(): Promise<MockRecall[]>;
+  getMockRecall(id: number): Promise<MockRecall | undefined>;
+  createMockRecall(recall: InsertMockRecall): Promise<MockRecall>;
+  completeMockRecall(id: number, productionFormIds: number[], formEntryIds: number[]): Promise<MockRecall | undefined>; // Conserva la primera fecha de conclusión
   
   // Session store
   sessionStore: session.SessionStore;
@@ -118,6 +426,8 @@ export interface IStorage {
 
 export class DatabaseStorage implements IStorage {
   sessionStore: session.SessionStore;
+  // La configuración se consulta en cada petición, por eso se mantiene en memoria
+  private cachedSettings?: SystemSettings;
 
   constructor() {
     this.sessionStore = new PostgresSessionStore({ 
@@ -160,6 +470,195 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(users).where(eq(users.role, role));
   }
 
+  async recordFailedLogin(id: number): Promise<number> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({ failedLoginAttempts: sql`${users.failedLoginAttempts} + 1` })
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser?.failedLoginAttempts ?? 0;
+  }
+
+  async resetFailedLogins(id: number): Promise<void> {
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: null })
+      .where(eq(users.id, id));
+  }
+
+  async lockUser(id: number, until: Date): Promise<void> {
+    // Al bloquear se reinicia el contador para el siguiente periodo
+    await db
+      .update(users)
+      .set({ failedLoginAttempts: 0, lockedUntil: until })
+      .where(eq(users.id, id));
+  }
+
+  async updateUserPassword(id: number, passwordHash: string, mustChangePassword: boolean): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({
+        password: passwordHash,
+        passwordChangedAt: new Date(),
+        mustChangePassword
+      })
+      .where(eq(users.id, id))
+      .returning();
+    
+    if (updatedUser) {
+      await db.insert(passwordHistory).values({ userId: id, passwordHash });
+    }
+    return updatedUser;
+  }
+
+  async getPasswordHistory(userId: number, limit: number): Promise<PasswordHistoryEntry[]> {
+    return await db
+      .select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt))
+      .limit(limit);
+  }
+
+  // Login attempt methods
+  async createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [newAttempt] = await db.insert(loginAttempts).values(attempt).returning();
+    return newAttempt;
+  }
+
+  async countFailedLoginAttemptsByIp(ipAddress: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(loginAttempts)
+      .where(and(
+        eq(loginAttempts.ipAddress, ipAddress),
+        eq(loginAttempts.success, false),
+        gte(loginAttempts.createdAt, since)
+      ));
+    return result?.count ?? 0;
+  }
+
+  // System settings methods
+  async getSystemSettings(): Promise<SystemSettings> {
+    if (this.cachedSettings) {
+      return this.cachedSettings;
+    }
+    
+    let [settings] = await db
+      .select()
+      .from(systemSettings)
+      .orderBy(asc(systemSettings.id))
+      .limit(1);
+    
+    // Si aún no existe la fila, crearla con los valores por defecto
+    if (!settings) {
+      [settings] = await db.insert(systemSettings).values({}).returning();
+    }
+    
+    this.cachedSettings = settings;
+    return settings;
+  }
+
+  async updateSystemSettings(data: UpdateSystemSettings, updatedBy: number): Promise<SystemSettings> {
+    const current = await this.getSystemSettings();
+    const [updatedSettings] = await db
+      .update(systemSettings)
+      .set({
+        ...data,
+        updatedBy,
+        updatedAt: new Date()
+      })
+      .where(eq(systemSettings.id, current.id))
+      .returning();
+    
+    this.cachedSettings = updatedSettings;
+    return updatedSettings;
+  }
+
+  // Access schedule methods
+  async getAllAccessSchedules(): Promise<AccessSchedule[]> {
+    return await db.select().from(accessSchedules).orderBy(asc(accessSchedules.id));
+  }
+
+  async getRoleAccessSchedule(role: UserRole): Promise<AccessSchedule | undefined> {
+    const [schedule] = await db.select().from(accessSchedules).where(eq(accessSchedules.role, role));
+    return schedule;
+  }
+
+  async getUserAccessSchedule(userId: number): Promise<AccessSchedule | undefined> {
+    const [schedule] = await db.select().from(accessSchedules).where(eq(accessSchedules.userId, userId));
+    return schedule;
+  }
+
+  async upsertRoleAccessSchedule(role: UserRole, data: UpsertAccessSchedule, updatedBy: number): Promise<AccessSchedule> {
+    const existing = await this.getRoleAccessSchedule(role);
+    if (existing) {
+      const [schedule] = await db
+        .update(accessSchedules)
+        .set({ ...data, updatedBy, updatedAt: new Date() })
+        .where(eq(accessSchedules.id, existing.id))
+        .returning();
+      return schedule;
+    }
+    const [schedule] = await db.insert(accessSchedules).values({ ...data, role, updatedBy }).returning();
+    return schedule;
+  }
+
+  async upsertUserAccessSchedule(userId: number, data: UpsertAccessSchedule, updatedBy: number): Promise<AccessSchedule> {
+    const existing = await this.getUserAccessSchedule(userId);
+    if (existing) {
+      const [schedule] = await db
+        .update(accessSchedules)
+        .set({ ...data, updatedBy, updatedAt: new Date() })
+        .where(eq(accessSchedules.id, existing.id))
+        .returning();
+      return schedule;
+    }
+    const [schedule] = await db.insert(accessSchedules).values({ ...data, userId, updatedBy }).returning();
+    return schedule;
+  }
+
+  async deleteUserAccessSchedule(userId: number): Promise<void> {
+    await db.delete(accessSchedules).where(eq(accessSchedules.userId, userId));
+  }
+
+  async getAccessHolidays(): Promise<AccessHoliday[]> {
+    return await db.select().from(accessHolidays).orderBy(asc(accessHolidays.date));
+  }
+
+  async createAccessHoliday(holiday: InsertAccessHoliday, createdBy: number): Promise<AccessHoliday> {
+    const [newHoliday] = await db.insert(accessHolidays).values({ ...holiday, createdBy }).returning();
+    return newHoliday;
+  }
+
+  async deleteAccessHoliday(id: number): Promise<void> {
+    await db.delete(accessHolidays).where(eq(accessHolidays.id, id));
+  }
+
+  async getAccessExceptions(): Promise<AccessException[]> {
+    return await db.select().from(accessExceptions).orderBy(desc(accessExceptions.startsAt));
+  }
+
+  async getUpcomingAccessExceptions(userId: number, role: UserRole, since: Date): Promise<AccessException[]> {
+    return await db
+      .select()
+      .from(accessExceptions)
+      .where(and(
+        gte(accessExceptions.endsAt, since),
+        or(eq(accessExceptions.userId, userId), eq(accessExceptions.role, role))
+      ))
+      .orderBy(asc(accessExceptions.startsAt));
+  }
+
+  async createAccessException(exception: InsertAccessException, createdBy: number): Promise<AccessException> {
+    const [newException] = await db.insert(accessExceptions).values({ ...exception, createdBy }).returning();
+    return newException;
+  }
+
+  async deleteAccessException(id: number): Promise<void> {
+    await db.delete(accessExceptions).where(eq(accessExceptions.id, id));
+  }
+
   // Form template methods
   async getFormTemplate(id: number): Promise<FormTemplate | undefined> {
     const [template] = await db.select().from(formTemplates).where(eq(formTemplates.id, id));
@@ -262,6 +761,9 @@ export class DatabaseStorage implements IStorage {
     
     // Añadimos la fecha después de la serialización para evitar problemas con toISOString
     updateData.updatedAt = new Date();
+    // Las fechas del control documental se restauran como Date tras la serialización
+    if (data.issueDate !== undefined) updateData.issueDate = data.issueDate;
+    if (data.nextReviewDate !== undefined) updateData.nextReviewDate = data.nextReviewDate;
     
     // Verificar si hay estructura y campos
     if (updateData.structure && updateData.structure.fields) {
@@ -360,10 +862,72 @@ export class DatabaseStorage implements IStorage {
       .where(eq(formTemplates.department, department));
   }
   
-  async deleteFormTemplate(id: number): Promise<void> {
+  async deleteFormTemplate(
+    id: number,
+    voided: { userId: number; reason: string }
+  ): Promise<{ entriesDeleted: number; lockedEntries: FormEntry[] }> {
+    // Entradas, flujo de trabajo propio y plantilla se eliminan juntos o no se elimina nada
+    return await db.transaction(async (tx) => {
+      const entries = await tx
+        .select()
+        .from(formEntries)
+        .where(eq(formEntries.formTemplateId, id))
+        .for("update");
+
+      // Las entradas firmadas forman parte del expediente: con una sola, la plantilla se conserva
+      const lockedEntries = entries.filter(isEntryLocked);
+      if (lockedEntries.length > 0) {
+        return { entriesDeleted: 0, lockedEntries };
+      }
+
+      for (const entry of entries) {
+        await voidEntryFolios(tx, entry, voided);
+      }
+      await tx.delete(formEntries).where(eq(formEntries.formTemplateId, id));
+      await tx.delete(workflowDefinitions).where(eq(workflowDefinitions.formTemplateId, id));
+      await tx.delete(formTemplates).where(eq(formTemplates.id, id));
+      return { entriesDeleted: entries.length, lockedEntries: [] };
+    });
+  }
+
+  // Workflow definition methods
+  async getWorkflowDefinition(formTemplateId: number | null): Promise<WorkflowDefinition | undefined> {
+    const [definition] = await db
+      .select()
+      .from(workflowDefinitions)
+      .where(formTemplateId === null
+        ? isNull(workflowDefinitions.formTemplateId)
+        : eq(workflowDefinitions.formTemplateId, formTemplateId));
+    return definition;
+  }
+
+  async getAllWorkflowDefinitions(): Promise<WorkflowDefinition[]> {
+    return await db.select().from(workflowDefinitions).orderBy(asc(workflowDefinitions.id));
+  }
+
+  async upsertWorkflowDefinition(formTemplateId: number | null, definition: WorkflowDefinitionInput, updatedBy: number): Promise<WorkflowDefinition> {
+    const existing = await this.getWorkflowDefinition(formTemplateId);
+    if (existing) {
+      const [updated] = await db
+        .update(workflowDefinitions)
+        .set({ ...definition, updatedBy, updatedAt: new Date() })
+        .where(eq(workflowDefinitions.id, existing.id))
+        .returning();
+      return updated;
+    }
+    const [created] = await db
+      .insert(workflowDefinitions)
+      .values({ ...definition, formTemplateId, updatedBy })
+      .returning();
+    return created;
+  }
+
+  async deleteWorkflowDefinition(formTemplateId: number | null): Promise<void> {
     await db
-      .delete(formTemplates)
-      .where(eq(formTemplates.id, id));
+      .delete(workflowDefinitions)
+      .where(formTemplateId === null
+        ? isNull(workflowDefinitions.formTemplateId)
+        : eq(workflowDefinitions.formTemplateId, formTemplateId));
   }
 
   // Form entry methods
@@ -372,7 +936,7 @@ export class DatabaseStorage implements IStorage {
     return entry;
   }
 
-  async createFormEntry(entry: InsertFormEntry): Promise<FormEntry> {
+  async createFormEntry(entry: InsertFormEntry, autoFolioFieldIds: string[] = []): Promise<FormEntry> {
     console.log("[Storage] Creando nueva entrada de formulario, datos:", entry);
     
     try {
@@ -389,22 +953,44 @@ export class DatabaseStorage implements IStorage {
       const cleanData = JSON.parse(JSON.stringify(entry.data));
       entry.data = cleanData;
       
-      // Obtener el siguiente número de folio para este tipo de formulario
-      const nextFolioNumber = await this.getNextFolioNumber(entry.formTemplateId);
-      console.log("[Storage] Número de folio asignado:", nextFolioNumber);
-      
-      // Añadir el número de folio a la entrada y asegurar valores por defecto para campos requeridos
-      const entryWithFolio = {
-        ...entry,
-        folioNumber: nextFolioNumber,
-        status: entry.status || "draft",
-        createdAt: entry.createdAt || new Date(),
-        updatedAt: entry.updatedAt || new Date()
-      };
-      
-      // Guardar la entrada con el número de folio
-      console.log("[Storage] Insertando entrada en la base de datos...");
-      const [newEntry] = await db.insert(formEntries).values(entryWithFolio).returning();
+      // El folio se asigna en la misma transacción que la entrada: si la inserción falla no se consume el consecutivo
+      const newEntry = await db.transaction(async (tx) => {
+        const folio = await allocateFolio(tx, entry.formTemplateId, new Date());
+        console.log("[Storage] Folio asignado:", folio.folio);
+        
+        // Los campos de folio automático reciben el folio asignado si vienen vacíos
+        const data = { ...cleanData };
+        for (const fieldId of autoFolioFieldIds) {
+          if (data[fieldId] === undefined || data[fieldId] === null || data[fieldId] === "") {
+            data[fieldId] = folio.folio;
+          }
+        }
+        
+        // Añadir el folio a la entrada y asegurar valores por defecto para campos requeridos
+        const entryWithFolio = {
+          ...entry,
+          data,
+          folioNumber: folio.number,
+          folio: folio.folio,
+          folioPeriod: folio.period,
+          status: entry.status || "draft",
+          createdAt: entry.createdAt || new Date(),
+          updatedAt: entry.updatedAt || new Date()
+        };
+        
+        console.log("[Storage] Insertando entrada en la base de datos...");
+        const [inserted] = await tx.insert(formEntries).values(entryWithFolio).returning();
+        await tx.insert(folioEvents).values({
+          formTemplateId: entry.formTemplateId,
+          eventType: FolioEventType.ISSUED,
+          folio: folio.folio,
+          folioNumber: folio.number,
+          folioPeriod: folio.period,
+          recordId: inserted.id,
+          userId: entry.createdBy
+        });
+        return inserted;
+      });
       console.log("[Storage] Entrada guardada exitosamente, ID:", newEntry.id);
       
       return newEntry;
@@ -441,11 +1027,118 @@ export class DatabaseStorage implements IStorage {
       .from(formEntries)
       .orderBy(desc(formEntries.createdAt));
   }
+
+  async searchFormEntries(filters: FormEntrySearch): Promise<FormEntrySearchResult> {
+    // Proyección común de entradas y formularios de producción para filtrar, ordenar y paginar en SQL
+    const entryRows = sql`
+      SELECT 'entry' AS source, fe.id, fe.form_template_id, ft.name AS template_name, fe.department,
+        fe.status, fe.workflow_status, fe.lot_number, fe.folio_number, fe.created_by, u.name AS creator_name,
+        fe.created_at, fe.updated_at, fe.data::text AS content
+      FROM form_entries fe
+      LEFT JOIN form_templates ft ON ft.id = fe.form_template_id
+      LEFT JOIN users u ON u.id = fe.created_by`;
+    // Los folios de producción capturados a mano ("PR-0012") entran al rango por su consecutivo final
+    const productionRows = sql`
+      SELECT 'production' AS source, pf.id, NULL::integer, 'Formulario de Producción - ' || pf.product_id, 'Producción',
+        pf.status, pf.status, pf.lot_number, coalesce(pf.folio_number, substring(pf.folio from ${sql.raw(`'${FOLIO_NUMBER_PATTERN}'`)})::integer),
+        pf.created_by, u.name, pf.created_at, pf.updated_at, to_jsonb(pf)::text
+      FROM production_forms pf
+      LEFT JOIN users u ON u.id = pf.created_by`;
+
+    // Filtrar por plantilla deja fuera los formularios de producción
+    const source = filters.templateId ? "entries" : filters.source;
+    const rows = source === "entries"
+      ? entryRows
+      : source === "production"
+        ? productionRows
+        : sql`${entryRows} UNION ALL ${productionRows}`;
+
+    const conditions: SQL[] = [];
+    if (filters.templateId) conditions.push(sql`r.form_template_id = ${filters.templateId}`);
+    if (filters.department) conditions.push(sql`r.department = ${filters.department}`);
+    if (filters.status) conditions.push(sql`r.status = ${filters.status}`);
+    if (filters.workflowStatus) conditions.push(sql`r.workflow_status = ${filters.workflowStatus}`);
+    if (filters.lotNumber) conditions.push(sql`r.lot_number ILIKE ${containsPattern(filters.lotNumber)}`);
+    if (filters.folioFrom !== undefined) conditions.push(sql`r.folio_number >= ${filters.folioFrom}`);
+    if (filters.folioTo !== undefined) conditions.push(sql`r.folio_number <= ${filters.folioTo}`);
+    if (filters.createdBy) conditions.push(sql`r.created_by = ${filters.createdBy}`);
+    if (filters.dateFrom) conditions.push(sql`r.created_at >= ${filters.dateFrom}`);
+    if (filters.dateTo) conditions.push(sql`r.created_at <= ${filters.dateTo}`);
+    if (filters.search) {
+      const pattern = containsPattern(filters.search);
+      conditions.push(sql`(r.template_name ILIKE ${pattern} OR r.creator_name ILIKE ${pattern})`);
+    }
+    if (filters.q) conditions.push(sql`r.content ILIKE ${containsPattern(filters.q)}`);
+
+    const where = conditions.length > 0 ? sql`WHERE ${sql.join(conditions, sql` AND `)}` : sql``;
+    const direction = filters.sortDir === "asc" ? sql`ASC` : sql`DESC`;
+    const offset = (filters.page - 1) * filters.pageSize;
+
+    const countResult = await db.execute(sql`SELECT count(*)::integer AS total FROM (${rows}) r ${where}`);
+    const pageResult = await db.execute(sql`
+      SELECT r.source, r.id, r.template_name FROM (${rows}) r ${where}
+      ORDER BY ${formEntrySortColumns[filters.sortBy]} ${direction} NULLS LAST, r.id DESC
+      LIMIT ${filters.pageSize} OFFSET ${offset}
+    `);
+
+    const pageRows = pageResult.rows as { source: "entry" | "production"; id: number; template_name: string | null }[];
+    const entryIds = pageRows.filter(row => row.source === "entry").map(row => row.id);
+    const productionIds = pageRows.filter(row => row.source === "production").map(row => row.id);
+
+    // Cargar solo las filas completas de la página solicitada
+    const entries = entryIds.length > 0
+      ? await db.select().from(formEntries).where(inArray(formEntries.id, entryIds))
+      : [];
+    const forms = productionIds.length > 0
+      ? await db.select().from(productionForms).where(inArray(productionForms.id, productionIds))
+      : [];
+
+    const items: FormEntrySearchItem[] = [];
+    for (const row of pageRows) {
+      const templateName = row.template_name ?? "";
+      if (row.source === "entry") {
+        const entry = entries.find(e => e.id === row.id);
+        if (entry) items.push({ ...entry, source: "entry", templateName });
+        continue;
+      }
+      const form = forms.find(f => f.id === row.id);
+      if (form) {
+        items.push({
+          source: "production",
+          id: form.id,
+          formTemplateId: -1, // ID especial para formularios de proceso
+          templateName,
+          data: form,
+          createdBy: form.createdBy,
+          createdAt: form.createdAt,
+          updatedAt: form.updatedAt,
+          department: "Producción",
+          status: form.status,
+          workflowStatus: form.status,
+          lotNumber: form.lotNumber,
+          folioNumber: form.folio
+        });
+      }
+    }
+
+    const total = Number((countResult.rows[0] as { total: number } | undefined)?.total ?? 0);
+    return {
+      items,
+      total,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      totalPages: Math.max(1, Math.ceil(total / filters.pageSize))
+    };
+  }
   
-  async deleteFormEntry(id: number): Promise<void> {
-    await db
-      .delete(formEntries)
-      .where(eq(formEntries.id, id));
+  async deleteFormEntry(id: number, voided: { userId: number; reason: string }): Promise<void> {
+    await db.transaction(async (tx) => {
+      const entry = await lockFormEntry(tx, id);
+      if (!entry) return;
+
+      await voidEntryFolios(tx, entry, voided);
+      await tx.delete(formEntries).where(eq(formEntries.id, id));
+    });
   }
   
   async updateFormEntry(id: number, data: Partial<any>): Promise<FormEntry | undefined> {
@@ -460,31 +1153,7 @@ export class DatabaseStorage implements IStorage {
       return undefined;
     }
     
-    // Preparar los datos para actualización
-    const updateData: any = {
-      ...data,
-      updatedAt: new Date()
-    };
-    
-    // Convertir cadenas de fecha a objetos Date
-    if (updateData.signedAt && !(updateData.signedAt instanceof Date)) {
-      try {
-        updateData.signedAt = new Date();
-      } catch (e) {
-        console.error("Error al convertir signedAt a fecha:", e);
-        delete updateData.signedAt;
-      }
-    }
-    
-    if (updateData.approvedAt && !(updateData.approvedAt instanceof Date)) {
-      try {
-        updateData.approvedAt = new Date();
-      } catch (e) {
-        console.error("Error al convertir approvedAt a fecha:", e);
-        delete updateData.approvedAt;
-      }
-    }
-    
+    const updateData = prepareFormEntryUpdate(data);
     console.log("Datos de actualización:", updateData);
     
     // Ejecutar la actualización
@@ -503,10 +1172,111 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Form entry revision methods
+  async getFormEntryRevisions(formEntryId: number): Promise<FormEntryRevision[]> {
+    return await db
+      .select()
+      .from(formEntryRevisions)
+      .where(eq(formEntryRevisions.formEntryId, formEntryId))
+      .orderBy(asc(formEntryRevisions.revision));
+  }
+
+  async createFormEntryRevision(revision: EntryRevisionInput): Promise<FormEntryRevision> {
+    return await db.transaction(async (tx) => {
+      await lockFormEntry(tx, revision.formEntryId);
+      const [newRevision] = await tx
+        .insert(formEntryRevisions)
+        .values({ ...revision, revision: await getLastEntryRevision(tx, revision.formEntryId) + 1 })
+        .returning();
+      return newRevision;
+    });
+  }
+
+  async updateFormEntryWithRevision(
+    id: number,
+    data: Partial<any>,
+    buildRevisions: EntryRevisionBuilder
+  ): Promise<{ entry: FormEntry; revision: FormEntryRevision } | undefined> {
+    // El guardado y su revisión se confirman juntos; sin revisión no queda cambio sin historial
+    return await db.transaction(async (tx) => {
+      const previous = await lockFormEntry(tx, id);
+      if (!previous) return undefined;
+
+      const [entry] = await tx
+        .update(formEntries)
+        .set(prepareFormEntryUpdate(data))
+        .where(eq(formEntries.id, id))
+        .returning();
+
+      let lastRevision = await getLastEntryRevision(tx, id);
+      let revision: FormEntryRevision | undefined;
+      for (const input of buildRevisions(previous, entry, lastRevision > 0)) {
+        [revision] = await tx
+          .insert(formEntryRevisions)
+          .values({ ...input, revision: ++lastRevision })
+          .returning();
+      }
+      if (!revision) {
+        throw new Error(`El guardado de la entrada ${id} no generó revisión`);
+      }
+      return { entry, revision };
+    });
+  }
+
+  // Form entry amendment methods
+  async getFormEntryAmendments(formEntryId: number): Promise<FormEntryAmendment[]> {
+    return await db
+      .select()
+      .from(formEntryAmendments)
+      .where(eq(formEntryAmendments.formEntryId, formEntryId))
+      .orderBy(asc(formEntryAmendments.amendedAt));
+  }
+
+  async createFormEntryAmendment(amendment: InsertFormEntryAmendment): Promise<FormEntryAmendment> {
+    const [newAmendment] = await db.insert(formEntryAmendments).values(amendment).returning();
+    return newAmendment;
+  }
+
+  // Entry signature methods
+  async getEntrySignatures(formEntryId: number): Promise<EntrySignature[]> {
+    return await db
+      .select()
+      .from(entrySignatures)
+      .where(eq(entrySignatures.formEntryId, formEntryId))
+      .orderBy(asc(entrySignatures.signedAt));
+  }
+
+  async createEntrySignature(signature: InsertEntrySignature): Promise<EntrySignature> {
+    const [newSignature] = await db.insert(entrySignatures).values(signature).returning();
+    return newSignature;
+  }
+
   // Activity log methods
   async createActivityLog(log: InsertActivityLog): Promise<ActivityLog> {
-    const [newLog] = await db.insert(activityLogs).values(log).returning();
-    return newLog;
+    // Encadenar con el último registro; el bloqueo evita que dos inserciones usen la misma huella anterior
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(${ACTIVITY_LOG_CHAIN_LOCK})`);
+      
+      const [lastLog] = await tx
+        .select({ hash: activityLogs.hash })
+        .from(activityLogs)
+        .orderBy(desc(activityLogs.id))
+        .limit(1);
+      
+      const previousHash = lastLog?.hash ?? null;
+      const timestamp = new Date();
+      const hash = computeActivityLogHash({ ...log, details: log.details ?? null, timestamp }, previousHash);
+      
+      const [newLog] = await tx
+        .insert(activityLogs)
+        .values({ ...log, timestamp, previousHash, hash })
+        .returning();
+      return newLog;
+    });
+  }
+
+  async getActivityLogChain(): Promise<ActivityLog[]> {
+    return await db.select().from(activityLogs).orderBy(asc(activityLogs.id));
   }
 
   async getRecentActivity(limit: number): Promise<ActivityLog[]> {
@@ -560,37 +1330,254 @@ export class DatabaseStorage implements IStorage {
     return counter;
   }
   
-  async getNextFolioNumber(templateId: number): Promise<number> {
-    // Buscar el contador existente o crear uno nuevo
-    let counter = await this.getFolioCounter(templateId);
+  async getFolioCounters(): Promise<FolioCounter[]> {
+    return await db.select().from(folioCounters).orderBy(asc(folioCounters.formTemplateId));
+  }
+  
+  // Siguiente folio sin consumirlo (vista previa para el formulario y la configuración)
+  async previewNextFolio(templateId: number, at: Date = new Date()): Promise<FolioAllocation> {
+    const counter = await this.getFolioCounter(templateId);
+    const period = getFolioPeriodKey(counter?.resetPolicy ?? FolioResetPolicy.NEVER, at);
+    let number = counter && counter.periodKey === period ? counter.lastFolioNumber + 1 : 1;
+    if (!counter && templateId === PRODUCTION_FORMS_FOLIO_TEMPLATE_ID) {
+      number = await getLegacyProductionFolioNumber(db) + 1;
+    }
+    const { pattern, prefix } = resolveFolioScheme(counter, templateId, await getFolioTemplateName(db, templateId));
+    return { number, period, folio: formatFolio(pattern, prefix, number, at) };
+  }
+  
+  async saveFolioScheme(templateId: number, scheme: FolioSchemeInput): Promise<FolioCounter> {
+    const values = {
+      prefix: scheme.prefix || null,
+      pattern: scheme.pattern || null,
+      resetPolicy: scheme.resetPolicy,
+      updatedAt: new Date()
+    };
+    const lastFolioNumber = templateId === PRODUCTION_FORMS_FOLIO_TEMPLATE_ID ? await getLegacyProductionFolioNumber(db) : 0;
+    const [counter] = await db
+      .insert(folioCounters)
+      .values({ formTemplateId: templateId, lastFolioNumber, ...values })
+      .onConflictDoUpdate({ target: folioCounters.formTemplateId, set: values })
+      .returning();
+    return counter;
+  }
+  
+  /**
+   * Consecutivos asignados sin registro (eliminados o no guardados) y registros rechazados, por plantilla y periodo.
+   * En periodos anteriores la secuencia se revisa hasta el último folio registrado
+   */
+  async getFolioGaps(templateId?: number): Promise<FolioGap[]> {
+    const counters = templateId !== undefined
+      ? await db.select().from(folioCounters).where(eq(folioCounters.formTemplateId, templateId))
+      : await this.getFolioCounters();
     
-    if (!counter) {
-      // Si no existe, crear un nuevo contador iniciando en 1
-      const [newCounter] = await db
-        .insert(folioCounters)
-        .values({
-          formTemplateId: templateId,
-          lastFolioNumber: 1,
-          updatedAt: new Date()
-        })
-        .returning();
+    const gaps: FolioGap[] = [];
+    for (const counter of counters) {
+      const templateName = await getFolioTemplateName(db, counter.formTemplateId) ?? `Plantilla ${counter.formTemplateId}`;
+      const { pattern, prefix } = resolveFolioScheme(counter, counter.formTemplateId, templateName);
       
-      return 1; // Devolver el primer número de folio
-    } else {
-      // Incrementar el contador existente
-      const nextFolioNumber = counter.lastFolioNumber + 1;
+      const recordsByPeriod = new Map<string, Map<number, FolioRecord>>([[counter.periodKey, new Map()]]);
+      for (const record of await this.getFolioRecords(counter.formTemplateId)) {
+        const records = recordsByPeriod.get(record.period) ?? new Map<number, FolioRecord>();
+        if (!records.has(record.number)) records.set(record.number, record);
+        recordsByPeriod.set(record.period, records);
+      }
       
-      // Actualizar el contador en la base de datos
-      await db
-        .update(folioCounters)
-        .set({
-          lastFolioNumber: nextFolioNumber,
-          updatedAt: new Date()
+      const periods = Array.from(recordsByPeriod.keys()).sort();
+      for (const period of periods) {
+        const records = recordsByPeriod.get(period)!;
+        const last = period === counter.periodKey ? counter.lastFolioNumber : Math.max(0, ...Array.from(records.keys()));
+        for (let number = 1; number <= last; number++) {
+          const record = records.get(number);
+          if (record && !record.cancelled) continue;
+          gaps.push({
+            formTemplateId: counter.formTemplateId,
+            templateName,
+            period,
+            folioNumber: number,
+            folio: record?.folio || formatFolioForPeriod(pattern, prefix, number, period),
+            reason: record ? FolioGapReason.CANCELLED : FolioGapReason.SKIPPED,
+            recordId: record?.id ?? null
+          });
+        }
+      }
+    }
+    return gaps;
+  }
+  
+  async createFolioEvent(event: InsertFolioEvent): Promise<FolioEvent> {
+    const [created] = await db.insert(folioEvents).values(event).returning();
+    return created;
+  }
+  
+  async getFolioEvents(templateId: number): Promise<FolioEventWithUser[]> {
+    const rows = await db
+      .select({ event: folioEvents, userName: users.name })
+      .from(folioEvents)
+      .leftJoin(users, eq(folioEvents.userId, users.id))
+      .where(eq(folioEvents.formTemplateId, templateId))
+      .orderBy(asc(folioEvents.createdAt), asc(folioEvents.id));
+    return rows.map(row => ({ ...row.event, userName: row.userName }));
+  }
+  
+  /**
+   * Secuencia completa de folios de una plantilla con la situación de cada uno: se reconstruye con el historial
+   * de eventos, los registros emitidos antes del historial y los consecutivos faltantes o cancelados
+   */
+  async getFolioSequence(templateId: number): Promise<FolioSequenceItem[]> {
+    const items = new Map<string, FolioSequenceItem>();
+    const keyOf = (folio: string) => folio.trim();
+    
+    for (const event of await this.getFolioEvents(templateId)) {
+      const lastEvent = { updatedAt: event.createdAt, userName: event.userName };
+      const current = items.get(keyOf(event.folio));
+      switch (event.eventType) {
+        case FolioEventType.VOIDED:
+          items.set(keyOf(event.folio), {
+            folio: event.folio,
+            folioNumber: current?.folioNumber ?? event.folioNumber,
+            period: current?.period ?? event.folioPeriod ?? "",
+            recordId: current?.recordId ?? event.recordId,
+            fieldId: event.fieldId ?? current?.fieldId ?? null,
+            issuedAt: current?.issuedAt ?? null,
+            status: FolioStatus.VOIDED,
+            reason: event.reason,
+            ...lastEvent
+          });
+          break;
+        case FolioEventType.REASSIGNED: {
+          const previous = event.previousFolio ? items.get(keyOf(event.previousFolio)) : undefined;
+          if (event.previousFolio) {
+            items.set(keyOf(event.previousFolio), {
+              folio: event.previousFolio,
+              folioNumber: previous?.folioNumber ?? null,
+              period: previous?.period ?? "",
+              recordId: previous?.recordId ?? event.recordId,
+              fieldId: previous?.fieldId ?? event.fieldId,
+              issuedAt: previous?.issuedAt ?? null,
+              status: FolioStatus.REASSIGNED,
+              reason: event.reason,
+              ...lastEvent
+            });
+          }
+          items.set(keyOf(event.folio), {
+            folio: event.folio,
+            folioNumber: event.folioNumber,
+            period: event.folioPeriod ?? "",
+            recordId: event.recordId,
+            fieldId: event.fieldId,
+            issuedAt: event.createdAt,
+            status: FolioStatus.ISSUED,
+            reason: event.reason,
+            ...lastEvent
+          });
+          break;
+        }
+        default:
+          items.set(keyOf(event.folio), {
+            folio: event.folio,
+            folioNumber: event.folioNumber,
+            period: event.folioPeriod ?? "",
+            recordId: event.recordId,
+            fieldId: event.fieldId,
+            issuedAt: event.createdAt,
+            status: FolioStatus.ISSUED,
+            reason: null,
+            ...lastEvent
+          });
+      }
+    }
+    
+    // Registros creados antes del historial de folios
+    const templateName = await getFolioTemplateName(db, templateId);
+    const { pattern, prefix } = resolveFolioScheme(await this.getFolioCounter(templateId), templateId, templateName);
+    for (const record of await this.getFolioRecords(templateId)) {
+      const folio = record.folio || formatFolioForPeriod(pattern, prefix, record.number, record.period);
+      if (!folio || items.has(keyOf(folio))) continue;
+      items.set(keyOf(folio), {
+        folio,
+        folioNumber: record.number,
+        period: record.period,
+        recordId: record.id,
+        fieldId: null,
+        issuedAt: null,
+        status: FolioStatus.ISSUED,
+        reason: null,
+        updatedAt: null,
+        userName: null
+      });
+    }
+    
+    const sequence = Array.from(items.values());
+    for (const gap of await this.getFolioGaps(templateId)) {
+      if (gap.reason === FolioGapReason.CANCELLED) {
+        sequence
+          .filter(item => item.recordId === gap.recordId && item.status === FolioStatus.ISSUED)
+          .forEach(item => { item.status = FolioStatus.CANCELLED; });
+        continue;
+      }
+      // Folio emitido cuyo registro ya no existe
+      const issued = gap.folio ? items.get(keyOf(gap.folio)) : undefined;
+      if (issued) {
+        if (issued.status === FolioStatus.ISSUED) issued.status = FolioStatus.SKIPPED;
+      } else {
+        sequence.push({
+          folio: gap.folio,
+          folioNumber: gap.folioNumber,
+          period: gap.period,
+          recordId: null,
+          fieldId: null,
+          issuedAt: null,
+          status: FolioStatus.SKIPPED,
+          reason: null,
+          updatedAt: null,
+          userName: null
+        });
+      }
+    }
+    
+    // Por periodo y consecutivo; los folios capturados manualmente al final de su periodo
+    return sequence.sort((a, b) =>
+      a.period.localeCompare(b.period) ||
+      (a.folioNumber ?? Number.MAX_SAFE_INTEGER) - (b.folioNumber ?? Number.MAX_SAFE_INTEGER) ||
+      (a.folio ?? "").localeCompare(b.folio ?? "")
+    );
+  }
+  
+  // Folios de los registros de una plantilla; los formularios de producción anteriores conservan el consecutivo en "PR-0001"
+  private async getFolioRecords(templateId: number): Promise<FolioRecord[]> {
+    if (templateId === PRODUCTION_FORMS_FOLIO_TEMPLATE_ID) {
+      const rows = await db
+        .select({
+          id: productionForms.id,
+          number: sql<number | null>`coalesce(${productionForms.folioNumber}, substring(${productionForms.folio} from '^PR-(\\d+)$')::int)`,
+          period: productionForms.folioPeriod,
+          folio: productionForms.folio
         })
-        .where(eq(folioCounters.id, counter.id));
-      
-      return nextFolioNumber;
+        .from(productionForms);
+      return rows
+        .filter(row => row.number !== null)
+        .map(row => ({ id: row.id, number: Number(row.number), period: row.period ?? "", folio: row.folio, cancelled: false }));
     }
+    
+    const rows = await db
+      .select({
+        id: formEntries.id,
+        number: formEntries.folioNumber,
+        period: formEntries.folioPeriod,
+        folio: formEntries.folio,
+        status: formEntries.status,
+        workflowStatus: formEntries.workflowStatus
+      })
+      .from(formEntries)
+      .where(and(eq(formEntries.formTemplateId, templateId), isNotNull(formEntries.folioNumber)));
+    return rows.map(row => ({
+      id: row.id,
+      number: row.number!,
+      period: row.period ?? "",
+      folio: row.folio,
+      cancelled: row.status === "rejected" || row.workflowStatus === FormWorkflowStatus.REJECTED
+    }));
   }
   
   // Implementación de métodos de productos
@@ -729,9 +1716,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteProductRecipe(id: number): Promise<void> {
-    await db
-      .delete(productRecipes)
-      .where(eq(productRecipes.id, id));
+    await db.transaction(async (tx) => {
+      await tx.delete(recipeIngredients).where(eq(recipeIngredients.recipeId, id));
+      await tx.delete(productRecipes).where(eq(productRecipes.id, id));
+    });
   }
 
   async getAllProductRecipes(): Promise<ProductRecipe[]> {
@@ -769,6 +1757,88 @@ export class DatabaseStorage implements IStorage {
       .where(eq(recipeIngredients.id, id));
   }
 
+  // Recetas con ingredientes
+  async getRecipesWithIngredients(productId?: number): Promise<RecipeWithIngredients[]> {
+    const recipes = await db
+      .select({ recipe: productRecipes, productName: products.name })
+      .from(productRecipes)
+      .innerJoin(products, eq(productRecipes.productId, products.id))
+      .where(productId !== undefined ? eq(productRecipes.productId, productId) : undefined)
+      .orderBy(asc(products.name), desc(productRecipes.version), desc(productRecipes.id));
+    if (recipes.length === 0) return [];
+
+    const ingredients = await db
+      .select()
+      .from(recipeIngredients)
+      .where(inArray(recipeIngredients.recipeId, recipes.map(row => row.recipe.id)))
+      .orderBy(asc(recipeIngredients.id));
+
+    return recipes.map(({ recipe, productName }) => ({
+      ...recipe,
+      productName,
+      ingredients: ingredients.filter(ingredient => ingredient.recipeId === recipe.id),
+    }));
+  }
+
+  async getRecipeWithIngredients(id: number): Promise<RecipeWithIngredients | undefined> {
+    const [row] = await db
+      .select({ recipe: productRecipes, productName: products.name })
+      .from(productRecipes)
+      .innerJoin(products, eq(productRecipes.productId, products.id))
+      .where(eq(productRecipes.id, id));
+    if (!row) return undefined;
+
+    const ingredients = await this.getRecipeIngredientsByRecipeId(id);
+    return { ...row.recipe, productName: row.productName, ingredients };
+  }
+
+  async createRecipeWithIngredients(recipe: RecipeInput, createdBy: number): Promise<RecipeWithIngredients> {
+    const id = await db.transaction(async (tx) => {
+      const { ingredients, ...data } = recipe;
+
+      // Bloquear el producto para que dos versiones simultáneas no reciban el mismo consecutivo
+      await tx.execute(sql`select id from products where id = ${data.productId} for update`);
+      const [{ lastVersion }] = await tx
+        .select({ lastVersion: sql<number>`coalesce(max(${productRecipes.version}), 0)` })
+        .from(productRecipes)
+        .where(eq(productRecipes.productId, data.productId));
+
+      const [created] = await tx
+        .insert(productRecipes)
+        .values({ ...data, version: Number(lastVersion) + 1, status: RecipeStatus.DRAFT, createdBy })
+        .returning();
+      await insertRecipeIngredients(tx, created.id, ingredients);
+      return created.id;
+    });
+    return (await this.getRecipeWithIngredients(id))!;
+  }
+
+  async updateRecipeWithIngredients(id: number, recipe: RecipeInput): Promise<RecipeWithIngredients | undefined> {
+    const updated = await db.transaction(async (tx) => {
+      const { ingredients, ...data } = recipe;
+      const [saved] = await tx
+        .update(productRecipes)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(productRecipes.id, id), eq(productRecipes.status, RecipeStatus.DRAFT)))
+        .returning();
+      if (!saved) return undefined;
+
+      await tx.delete(recipeIngredients).where(eq(recipeIngredients.recipeId, id));
+      await insertRecipeIngredients(tx, id, ingredients);
+      return saved;
+    });
+    return updated ? await this.getRecipeWithIngredients(id) : undefined;
+  }
+
+  async approveRecipe(id: number, approvedBy: number, effectiveFrom: Date): Promise<RecipeWithIngredients | undefined> {
+    const [approved] = await db
+      .update(productRecipes)
+      .set({ status: RecipeStatus.APPROVED, approvedBy, approvedAt: new Date(), effectiveFrom, updatedAt: new Date() })
+      .where(and(eq(productRecipes.id, id), eq(productRecipes.status, RecipeStatus.DRAFT)))
+      .returning();
+    return approved ? await this.getRecipeWithIngredients(id) : undefined;
+  }
+
   // Production forms methods
   async getAllProductionForms(): Promise<any[]> {
     const { productionForms } = await import("@shared/schema");
@@ -783,6 +1853,168 @@ export class DatabaseStorage implements IStorage {
       .where(eq(productionForms.createdBy, userId))
       .orderBy(desc(productionForms.createdAt));
   }
+
+  async getMaterialLotUsages(query: TraceabilityQuery): Promise<MaterialLotUsage[]> {
+    // Los lotes se comparan sin distinguir mayúsculas ni espacios, como se capturan en planta
+    const condition = query.direction === TraceabilityDirection.FORWARD
+      ? and(
+          sql`upper(trim(lot.value)) = upper(${query.supplierLot})`,
+          query.materialName ? sql`lower(lot.key) = lower(${query.materialName})` : undefined
+        )
+      : sql`upper(trim(pf.lot_number)) = upper(${query.lotNumber})`;
+
+    const result = await db.execute(sql`
+      SELECT pf.id, pf.folio, pf.product_id, p.name AS product_name, pf.lot_number, pf.date, pf.caducidad, pf.marmita,
+        pf.ingredients, pf.ingredient_times, lot.key AS material_name, trim(lot.value) AS supplier_lot
+      FROM production_forms pf
+      CROSS JOIN LATERAL json_each_text(pf.ingredient_lots) lot
+      LEFT JOIN products p ON p.id::text = pf.product_id
+      WHERE trim(lot.value) <> '' AND ${condition}
+      ORDER BY pf.id DESC, lot.key
+    `);
+
+    return result.rows.map((row: any) => {
+      const addition = findIngredientAddition(row.ingredients, row.ingredient_times, row.material_name);
+      return {
+        productionFormId: row.id,
+        folio: row.folio,
+        productId: row.product_id,
+        productName: row.product_name ?? null,
+        lotNumber: row.lot_number ?? null,
+        date: row.date,
+        caducidad: row.caducidad ?? null,
+        marmita: row.marmita ?? null,
+        materialName: row.material_name,
+        supplierLot: row.supplier_lot,
+        ...addition,
+      };
+    });
+  }
+
+  // Especificaciones de producto methods
+  async getProductSpecifications(productId: number): Promise<ProductSpecification[]> {
+    return await db
+      .select()
+      .from(productSpecifications)
+      .where(eq(productSpecifications.productId, productId))
+      .orderBy(asc(productSpecifications.id));
+  }
+
+  async replaceProductSpecifications(productId: number, specs: ProductSpecificationInput[], updatedBy: number): Promise<ProductSpecification[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(productSpecifications).where(eq(productSpecifications.productId, productId));
+      if (specs.length === 0) return [];
+      return await tx
+        .insert(productSpecifications)
+        .values(specs.map(spec => ({ ...spec, productId, updatedBy, updatedAt: new Date() })))
+        .returning();
+    });
+  }
+
+  // Desviaciones de producción methods
+  async getProductionDeviation(id: number): Promise<ProductionDeviation | undefined> {
+    const [deviation] = await db.select().from(productionDeviations).where(eq(productionDeviations.id, id));
+    return deviation;
+  }
+
+  async getProductionDeviations(productionFormId: number): Promise<ProductionDeviation[]> {
+    return await db
+      .select()
+      .from(productionDeviations)
+      .where(eq(productionDeviations.productionFormId, productionFormId))
+      .orderBy(asc(productionDeviations.detectedAt), asc(productionDeviations.id));
+  }
+
+  async createProductionDeviations(deviations: InsertProductionDeviation[]): Promise<ProductionDeviation[]> {
+    if (deviations.length === 0) return [];
+    return await db.insert(productionDeviations).values(deviations).returning();
+  }
+
+  async resolveProductionDeviation(id: number, correctiveAction: string, resolvedBy: number): Promise<ProductionDeviation | undefined> {
+    const [deviation] = await db
+      .update(productionDeviations)
+      .set({ status: DeviationStatus.RESOLVED, correctiveAction, resolvedBy, resolvedAt: new Date() })
+      .where(eq(productionDeviations.id, id))
+      .returning();
+    return deviation;
+  }
+
+  // Simulacros de retiro methods
+  async getProductionFormsByLotNumber(lotNumber: string): Promise<ProductionForm[]> {
+    return await db
+      .select()
+      .from(productionForms)
+      .where(sql`upper(trim(${productionForms.lotNumber})) = upper(${lotNumber.trim()})`)
+      .orderBy(asc(productionForms.id));
+  }
+
+  async createProductionForm(form: NewProductionForm): Promise<ProductionForm> {
+    return await db.transaction(async (tx) => {
+      // Sin folio capturado se asigna el siguiente del esquema dentro de la misma transacción
+      let values: typeof productionForms.$inferInsert;
+      if (form.folio?.trim()) {
+        values = { ...form, folio: form.folio.trim() };
+      } else {
+        const folio = await allocateFolio(tx, PRODUCTION_FORMS_FOLIO_TEMPLATE_ID, new Date());
+        values = { ...form, folio: folio.folio, folioNumber: folio.number, folioPeriod: folio.period };
+      }
+      const [created] = await tx.insert(productionForms).values(values).returning();
+      await tx.insert(folioEvents).values({
+        formTemplateId: PRODUCTION_FORMS_FOLIO_TEMPLATE_ID,
+        eventType: FolioEventType.ISSUED,
+        folio: created.folio,
+        folioNumber: created.folioNumber,
+        folioPeriod: created.folioPeriod,
+        recordId: created.id,
+        userId: created.createdBy
+      });
+      return created;
+    });
+  }
+
+  async getFormEntriesByLotNumber(lotNumber: string): Promise<FormEntry[]> {
+    return await db
+      .select()
+      .from(formEntries)
+      .where(sql`upper(trim(${formEntries.lotNumber})) = upper(${lotNumber.trim()})`)
+      .orderBy(asc(formEntries.createdAt));
+  }
+
+  async getFormEntriesCreatedBetween(templateIds: number[], from: Date, to: Date): Promise<FormEntry[]> {
+    if (templateIds.length === 0) return [];
+    return await db
+      .select()
+      .from(formEntries)
+      .where(and(
+        inArray(formEntries.formTemplateId, templateIds),
+        gte(formEntries.createdAt, from),
+        lt(formEntries.createdAt, to)
+      ))
+      .orderBy(asc(formEntries.createdAt));
+  }
+
+  async getMockRecalls(): Promise<MockRecall[]> {
+    return await db.select().from(mockRecalls).orderBy(desc(mockRecalls.startedAt));
+  }
+
+  async getMockRecall(id: number): Promise<MockRecall | undefined> {
+    const [recall] = await db.select().from(mockRecalls).where(eq(mockRecalls.id, id));
+    return recall;
+  }
+
+  async createMockRecall(recall: InsertMockRecall): Promise<MockRecall> {
+    const [created] = await db.insert(mockRecalls).values(recall).returning();
+    return created;
+  }
+
+  async completeMockRecall(id: number, productionFormIds: number[], formEntryIds: number[]): Promise<MockRecall | undefined> {
+    const [recall] = await db
+      .update(mockRecalls)
+      .set({ productionFormIds, formEntryIds, completedAt: sql`coalesce(${mockRecalls.completedAt}, now())` })
+      .where(eq(mockRecalls.id, id))
+      .returning();
+    return recall;
+  }
 }
 
 // Use DatabaseStorage instead of MemStorage
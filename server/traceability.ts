@@ -0,0 +1,96 @@
+import ExcelJS from 'exceljs';
+import { MaterialLotUsage, TraceabilityDirection, TraceabilityQuery, UserRole } from '@shared/schema';
+
+// Roles que consultan la trazabilidad de lotes (los mismos que consultan reportes y producción)
+export const traceabilityRoles = [
+  UserRole.SUPERADMIN,
+  UserRole.ADMIN,
+  UserRole.PRODUCTION_MANAGER,
+  UserRole.QUALITY_MANAGER,
+  UserRole.VIEWER
+];
+
+const thinBorder: Partial<ExcelJS.Borders> = {
+  top: { style: 'thin' },
+  left: { style: 'thin' },
+  bottom: { style: 'thin' },
+  right: { style: 'thin' }
+};
+
+// Descripción del lote consultado para el título y el nombre del archivo
+export function describeTraceabilityQuery(query: TraceabilityQuery): string {
+  if (query.direction === TraceabilityDirection.FORWARD) {
+    return query.materialName
+      ? `Lote de materia prima ${query.supplierLot} (${query.materialName})`
+      : `Lote de materia prima ${query.supplierLot}`;
+  }
+  return `Lote de producto terminado ${query.lotNumber}`;
+}
+
+export function traceabilityFileName(query: TraceabilityQuery): string {
+  const lot = query.direction === TraceabilityDirection.FORWARD ? query.supplierLot : query.lotNumber;
+  return `trazabilidad_${query.direction === TraceabilityDirection.FORWARD ? 'mp' : 'pt'}_${lot.replace(/[^\w-]+/g, '_')}`;
+}
+
+/**
+ * Reporte de trazabilidad en Excel.
+ * Hacia adelante agrupa por lote de producto terminado; hacia atrás lista los lotes de materia prima del lote consultado
+ */
+export async function generateTraceabilityExcel(query: TraceabilityQuery, usages: MaterialLotUsage[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Trazabilidad');
+  const forward = query.direction === TraceabilityDirection.FORWARD;
+
+  sheet.mergeCells('A1:J1');
+  const titleCell = sheet.getCell('A1');
+  titleCell.value = `REPORTE DE TRAZABILIDAD ${forward ? 'HACIA ADELANTE' : 'HACIA ATRÁS'}`;
+  titleCell.font = { bold: true, size: 16 };
+  titleCell.alignment = { horizontal: 'center' };
+
+  sheet.addRow(['Consulta', describeTraceabilityQuery(query)]);
+  sheet.addRow([
+    forward ? 'Lotes de producto terminado' : 'Lotes de materia prima',
+    new Set(usages.map(usage => forward ? usage.lotNumber ?? usage.folio : `${usage.materialName}|${usage.supplierLot}`)).size
+  ]);
+  sheet.addRow(['Fecha de generación', new Date().toLocaleString('es-MX')]);
+  sheet.addRow([]);
+
+  const headerRow = sheet.addRow([
+    'Lote PT', 'Folio', 'Producto', 'Fecha de producción', 'Caducidad', 'Marmita',
+    'Materia prima', 'Lote MP', 'Cantidad', 'Hora de adición'
+  ]);
+  headerRow.eachCell((cell) => {
+    cell.font = { bold: true };
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'F0F0F0' } };
+    cell.border = thinBorder;
+    cell.alignment = { horizontal: 'center', vertical: 'middle' };
+  });
+
+  usages.forEach(usage => {
+    const dataRow = sheet.addRow([
+      usage.lotNumber || 'Sin lote',
+      usage.folio,
+      usage.productName || usage.productId,
+      usage.date,
+      usage.caducidad || '',
+      usage.marmita || '',
+      usage.materialName,
+      usage.supplierLot,
+      usage.quantity !== null ? `${usage.quantity} ${usage.unit ?? ''}`.trim() : '',
+      usage.addedAt || ''
+    ]);
+    dataRow.eachCell({ includeEmpty: true }, (cell) => {
+      cell.border = thinBorder;
+    });
+  });
+
+  if (usages.length === 0) {
+    sheet.addRow(['Sin registros para el lote consultado']);
+  }
+
+  sheet.columns.forEach((column) => {
+    column.width = 20;
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,207 @@
+import { storage } from "./storage";
+import {
+  FormEntry,
+  FormWorkflowStage,
+  FormWorkflowStatus,
+  User,
+  UserRole,
+  WorkflowDefinitionInput,
+  WorkflowTransition
+} from "@shared/schema";
+
+export interface TransitionCheckResult {
+  allowed: boolean;
+  reason?: string;
+  missingFields?: string[];
+  transition?: WorkflowTransition;
+}
+
+const managerRoles = [
+  UserRole.SUPERADMIN,
+  UserRole.ADMIN,
+  UserRole.PRODUCTION_MANAGER,
+  UserRole.QUALITY_MANAGER
+];
+
+const workflowStates = [
+  { status: FormWorkflowStatus.INITIATED, label: "Iniciado", stage: FormWorkflowStage.INIT },
+  { status: FormWorkflowStatus.IN_PROGRESS, label: "En progreso", stage: FormWorkflowStage.OPERATION },
+  { status: FormWorkflowStatus.PENDING_QUALITY, label: "Pendiente de calidad", stage: FormWorkflowStage.QUALITY },
+  { status: FormWorkflowStatus.COMPLETED, label: "Completado", stage: FormWorkflowStage.COMPLETED },
+  { status: FormWorkflowStatus.SIGNED, label: "Firmado", stage: FormWorkflowStage.COMPLETED },
+  { status: FormWorkflowStatus.APPROVED, label: "Aprobado", stage: FormWorkflowStage.COMPLETED },
+  { status: FormWorkflowStatus.REJECTED, label: "Rechazado", stage: FormWorkflowStage.OPERATION }
+];
+
+// Flujo por defecto: equivalente a las transiciones que ofrecía la aplicación antes de los flujos configurables
+export const standardWorkflow: WorkflowDefinitionInput = {
+  name: "Estándar",
+  initialStatus: FormWorkflowStatus.INITIATED,
+  states: workflowStates,
+  transitions: [
+    { from: FormWorkflowStatus.INITIATED, to: FormWorkflowStatus.IN_PROGRESS, label: "Marcar en progreso", roles: managerRoles, requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.INITIATED, to: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad", roles: managerRoles, requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.INITIATED, to: FormWorkflowStatus.COMPLETED, label: "Marcar como completado", roles: managerRoles, requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.IN_PROGRESS, to: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad", roles: [...managerRoles, UserRole.PRODUCTION], requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.IN_PROGRESS, to: FormWorkflowStatus.COMPLETED, label: "Marcar como completado", roles: managerRoles, requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.PENDING_QUALITY, to: FormWorkflowStatus.COMPLETED, label: "Marcar como completado", roles: managerRoles, requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.PENDING_QUALITY, to: FormWorkflowStatus.IN_PROGRESS, label: "Regresar a producción", roles: managerRoles, requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.COMPLETED, to: FormWorkflowStatus.SIGNED, label: "Firmar y aprobar", roles: managerRoles, requiredFields: [], requiresSignature: true },
+    { from: FormWorkflowStatus.COMPLETED, to: FormWorkflowStatus.PENDING_QUALITY, label: "Regresar a calidad", roles: managerRoles, requiredFields: [], requiresSignature: false }
+  ]
+};
+
+// Flujo para formularios regulados: cada paso es obligatorio y solo calidad firma y aprueba
+export const regulatedWorkflow: WorkflowDefinitionInput = {
+  name: "Regulado",
+  initialStatus: FormWorkflowStatus.INITIATED,
+  states: workflowStates.filter(state => state.status !== FormWorkflowStatus.COMPLETED),
+  transitions: [
+    { from: FormWorkflowStatus.INITIATED, to: FormWorkflowStatus.IN_PROGRESS, label: "Iniciar producción", roles: [UserRole.SUPERADMIN, UserRole.PRODUCTION_MANAGER], requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.IN_PROGRESS, to: FormWorkflowStatus.PENDING_QUALITY, label: "Enviar a calidad", roles: [UserRole.SUPERADMIN, UserRole.PRODUCTION_MANAGER, UserRole.PRODUCTION], requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.PENDING_QUALITY, to: FormWorkflowStatus.IN_PROGRESS, label: "Regresar a producción", roles: [UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER], requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.PENDING_QUALITY, to: FormWorkflowStatus.SIGNED, label: "Firmar revisión de calidad", roles: [UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER], requiredFields: [], requiresSignature: true },
+    { from: FormWorkflowStatus.SIGNED, to: FormWorkflowStatus.APPROVED, label: "Aprobar", roles: [UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER], requiredFields: [], requiresSignature: false },
+    { from: FormWorkflowStatus.SIGNED, to: FormWorkflowStatus.REJECTED, label: "Rechazar", roles: [UserRole.SUPERADMIN, UserRole.QUALITY_MANAGER], requiredFields: [], requiresSignature: false }
+  ]
+};
+
+export const workflowPresets: Record<string, WorkflowDefinitionInput> = {
+  standard: standardWorkflow,
+  regulated: regulatedWorkflow
+};
+
+/**
+ * Obtiene el flujo que aplica a una plantilla: el de la plantilla, el flujo
+ * por defecto guardado por el superadmin o, si no hay ninguno, el estándar
+ * @param formTemplateId ID de la plantilla
+ */
+export async function resolveWorkflowDefinition(formTemplateId: number): Promise<WorkflowDefinitionInput> {
+  const definition =
+    (await storage.getWorkflowDefinition(formTemplateId)) ??
+    (await storage.getWorkflowDefinition(null));
+
+  if (!definition) {
+    return standardWorkflow;
+  }
+
+  const { name, initialStatus, states, transitions } = definition;
+  return { name, initialStatus, states, transitions };
+}
+
+export function getCurrentStatus(definition: WorkflowDefinitionInput, entry: FormEntry): FormWorkflowStatus {
+  return entry.workflowStatus || definition.initialStatus;
+}
+
+/**
+ * Transiciones que el usuario puede ejecutar desde el estado actual de la entrada
+ */
+export function getAvailableTransitions(
+  definition: WorkflowDefinitionInput,
+  entry: FormEntry,
+  user: User
+): WorkflowTransition[] {
+  const currentStatus = getCurrentStatus(definition, entry);
+  return definition.transitions.filter(transition =>
+    transition.from === currentStatus && transition.roles.includes(user.role as UserRole)
+  );
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * Verifica si el usuario puede llevar la entrada al estado indicado según el flujo
+ * @param definition Flujo de la plantilla
+ * @param entry Entrada del formulario
+ * @param user Usuario que ejecuta la transición
+ * @param targetStatus Estado destino
+ * @param data Datos del formulario a evaluar (los actuales más los cambios enviados)
+ * @param signed Si la transición se envió con firma electrónica
+ * @returns Resultado con permiso, razón y campos faltantes
+ */
+export function checkTransition(
+  definition: WorkflowDefinitionInput,
+  entry: FormEntry,
+  user: User,
+  targetStatus: FormWorkflowStatus,
+  data: Record<string, any>,
+  signed = false
+): TransitionCheckResult {
+  const currentStatus = getCurrentStatus(definition, entry);
+  const transition = definition.transitions.find(t => t.from === currentStatus && t.to === targetStatus);
+
+  if (!transition) {
+    return {
+      allowed: false,
+      reason: `El flujo "${definition.name}" no permite pasar de ${currentStatus} a ${targetStatus}`
+    };
+  }
+
+  if (!transition.roles.includes(user.role as UserRole)) {
+    return {
+      allowed: false,
+      reason: `El rol ${user.role} no puede ejecutar la transición "${transition.label}"`
+    };
+  }
+
+  const missingFields = transition.requiredFields.filter(fieldId => isEmptyValue(data[fieldId]));
+  if (missingFields.length > 0) {
+    return {
+      allowed: false,
+      reason: `Faltan campos requeridos para "${transition.label}"`,
+      missingFields
+    };
+  }
+
+  if (transition.requiresSignature && !signed) {
+    return {
+      allowed: false,
+      reason: `La transición "${transition.label}" requiere firma electrónica`
+    };
+  }
+
+  return { allowed: true, transition };
+}
+
+/**
+ * Construye los cambios que se guardan en la entrada al ejecutar una transición
+ */
+export function buildTransitionUpdate(
+  definition: WorkflowDefinitionInput,
+  entry: FormEntry,
+  transition: WorkflowTransition,
+  user: User,
+  signatureImage?: string,
+  completedAt?: string
+): Partial<FormEntry> {
+  const now = new Date();
+  const update: Partial<FormEntry> = {
+    workflowStatus: transition.to,
+    lastUpdatedBy: user.id
+  };
+
+  // Mantener la etapa por roles sincronizada con el estado
+  const targetState = definition.states.find(state => state.status === transition.to);
+  if (targetState?.stage && targetState.stage !== entry.workflowStage) {
+    update.workflowStage = targetState.stage;
+    update.stageCompletedAt = {
+      ...((entry.stageCompletedAt as Record<string, string>) || {}),
+      [entry.workflowStage || FormWorkflowStage.INIT]: completedAt || now.toISOString()
+    };
+  }
+
+  if (transition.requiresSignature) {
+    update.signature = signatureImage ?? null;
+    update.signedBy = user.id;
+    update.signedAt = now;
+  }
+
+  if (transition.to === FormWorkflowStatus.APPROVED) {
+    update.approvedBy = user.id;
+    update.approvedAt = now;
+  }
+
+  return update;
+}
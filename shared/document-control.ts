@@ -0,0 +1,104 @@
+import type { FormTemplate, PrintLayout } from "./schema";
+
+// Código del formato de Liberación Preoperativa (porcentajes de cumplimiento calculados)
+export const LIBERACION_PREOPERATIVA_CODE = "CA-RE-03-01";
+
+// Identificación de una plantilla: su código de control documental
+export interface DocumentFormatSource {
+  documentCode?: string | null;
+}
+
+// Datos de control documental de una plantilla, listos para imprimirse
+export interface DocumentControl {
+  code: string | null;
+  revision: string | null;
+  issueDate: string | null;
+  approver: string | null;
+  nextReviewDate: string | null;
+}
+
+type DocumentControlSource = Pick<
+  FormTemplate,
+  "documentCode" | "revision" | "issueDate" | "documentApprover" | "nextReviewDate" | "structure"
+>;
+
+// Las fechas de emisión y revisión son días de calendario guardados a medianoche UTC
+// (llegan como Date en el servidor y como texto ISO en el cliente)
+function formatDate(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toLocaleDateString("es-MX", { timeZone: "UTC" });
+}
+
+/**
+ * Día de calendario local de la fecha indicada, a medianoche UTC (como los campos de fecha del editor)
+ */
+export function toCalendarDate(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+/**
+ * Control documental de la plantilla. Los metadatos de la plantilla mandan; las plantillas que aún no
+ * los tienen conservan el código, la versión y la fecha declarados en el encabezado del diseño de impresión
+ */
+export function getDocumentControl(template: DocumentControlSource): DocumentControl {
+  const header: PrintLayout["header"] = (template.structure as any)?.printLayout?.header;
+  const hasRevision = !!template.documentCode || (template.revision ?? 0) > 0;
+  return {
+    code: template.documentCode || header?.code || null,
+    revision: hasRevision ? String(template.revision ?? 0) : header?.version || null,
+    issueDate: formatDate(template.issueDate) ?? header?.revisionDate ?? null,
+    approver: template.documentApprover || null,
+    nextReviewDate: formatDate(template.nextReviewDate)
+  };
+}
+
+/**
+ * Indica si la plantilla corresponde al formato con el código indicado. Solo cuenta el código asignado;
+ * las plantillas anteriores lo reciben de la migración (scripts/add-document-control.ts)
+ */
+export function isDocumentFormat(template: DocumentFormatSource, code: string): boolean {
+  return template.documentCode === code;
+}
+
+/**
+ * Indica si la plantilla es la Liberación Preoperativa (porcentajes de cumplimiento calculados)
+ */
+export function isLiberacionPreoperativa(template: DocumentFormatSource): boolean {
+  return isDocumentFormat(template, LIBERACION_PREOPERATIVA_CODE);
+}
+
+/**
+ * Renglón del encabezado controlado: código, revisión, emisión, aprobación y próxima revisión
+ */
+export function describeDocumentControl(control: DocumentControl): string | null {
+  const parts = [
+    control.code ? `Código: ${control.code}` : null,
+    control.revision ? `Revisión: ${control.revision}` : null,
+    control.issueDate ? `Emisión: ${control.issueDate}` : null,
+    control.approver ? `Aprobó: ${control.approver}` : null,
+    control.nextReviewDate ? `Próxima revisión: ${control.nextReviewDate}` : null
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join("   |   ") : null;
+}
+
+// Compara dos valores JSON sin importar el orden de las llaves; las llaves sin valor equivalen a ausentes
+function isSameJson(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, index) => isSameJson(item, b[index]));
+  }
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return Array.from(keys).every(key => isSameJson(a[key] ?? undefined, b[key] ?? undefined));
+}
+
+/**
+ * Indica si la estructura cambió y, por tanto, la plantilla requiere una nueva revisión.
+ * El título se ignora porque solo refleja el nombre de la plantilla
+ */
+export function hasStructureChanged(previous: unknown, next: unknown): boolean {
+  const { title: _previousTitle, ...previousStructure } = (previous || {}) as Record<string, unknown>;
+  const { title: _nextTitle, ...nextStructure } = (next || {}) as Record<string, unknown>;
+  return !isSameJson(previousStructure, nextStructure);
+}
@@ -0,0 +1,29 @@
+import { SignatureMeaning, SignatureRole } from "./schema";
+
+export type SignatureStatus = "valid" | "invalidated" | "tampered";
+
+export interface SignatureManifestItem {
+  id: number;
+  signatureRole: SignatureRole;
+  signatureRoleLabel: string;
+  meaning: SignatureMeaning;
+  signerId: number;
+  signerName: string;
+  signerRole: string;
+  signatureImage: string | null;
+  dataHash: string;
+  signedAt: Date | null;
+  status: SignatureStatus;
+}
+
+export const signatureRoleLabels: Record<SignatureRole, string> = {
+  [SignatureRole.PRODUCER]: "Elaboró (Producción)",
+  [SignatureRole.SUPERVISOR]: "Supervisó",
+  [SignatureRole.QUALITY]: "Calidad",
+};
+
+export const signatureStatusLabels: Record<SignatureStatus, string> = {
+  valid: "Vigente",
+  invalidated: "Invalidada por cambios posteriores",
+  tampered: "Datos alterados",
+};
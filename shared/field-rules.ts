@@ -0,0 +1,76 @@
+import type { FieldCondition, FieldRule } from "./schema";
+
+/**
+ * Reglas condicionales de los campos (visibleWhen / requiredWhen).
+ * Se evalúan igual en el visor del formulario y en el servidor al guardar.
+ */
+
+export function isEmptyFieldValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+// Valores de la respuesta como texto; las casillas múltiples guardan un arreglo
+function answerValues(value: unknown): string[] {
+  if (isEmptyFieldValue(value)) return [];
+  return Array.isArray(value) ? value.map(item => String(item)) : [String(value)];
+}
+
+function expectedValues(condition: FieldCondition): string[] {
+  if (condition.value === undefined) return [];
+  return Array.isArray(condition.value) ? condition.value : [condition.value];
+}
+
+function evaluateCondition(condition: FieldCondition, data: Record<string, any>): boolean {
+  const answer = data[condition.fieldId];
+  const answers = answerValues(answer);
+  const expected = expectedValues(condition);
+
+  switch (condition.operator) {
+    case "isEmpty":
+      return isEmptyFieldValue(answer);
+    case "isNotEmpty":
+      return !isEmptyFieldValue(answer);
+    case "equals":
+    case "in":
+      return answers.some(value => expected.includes(value));
+    case "notEquals":
+    case "notIn":
+      return !answers.some(value => expected.includes(value));
+  }
+}
+
+/**
+ * Evalúa una regla contra los datos capturados
+ * @param rule Regla del campo (sin regla se considera cumplida)
+ * @param data Datos actuales del formulario
+ */
+export function evaluateFieldRule(rule: FieldRule | undefined, data: Record<string, any>): boolean {
+  if (!rule || rule.conditions.length === 0) return true;
+  return rule.match === "any"
+    ? rule.conditions.some(condition => evaluateCondition(condition, data))
+    : rule.conditions.every(condition => evaluateCondition(condition, data));
+}
+
+/**
+ * Indica si el campo se muestra con los datos actuales
+ */
+export function isFieldVisible(field: { visibleWhen?: FieldRule }, data: Record<string, any>): boolean {
+  return evaluateFieldRule(field.visibleWhen, data);
+}
+
+/**
+ * Indica si el campo es obligatorio con los datos actuales: un campo oculto nunca lo es
+ */
+export function isFieldRequired(
+  field: { required?: boolean; visibleWhen?: FieldRule; requiredWhen?: FieldRule },
+  data: Record<string, any>
+): boolean {
+  if (!isFieldVisible(field, data)) return false;
+  if (field.required) return true;
+  return field.requiredWhen ? evaluateFieldRule(field.requiredWhen, data) : false;
+}
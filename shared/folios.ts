@@ -0,0 +1,103 @@
+import { FolioEventType, FolioResetPolicy, FolioStatus } from "./schema";
+import type { FolioCounter } from "./schema";
+
+// Los formularios de producción no son plantillas; su contador usa este ID reservado
+export const PRODUCTION_FORMS_FOLIO_TEMPLATE_ID = 0;
+export const PRODUCTION_FORMS_FOLIO_NAME = "Formularios de producción";
+
+export const folioResetPolicyLabels: Record<FolioResetPolicy, string> = {
+  [FolioResetPolicy.NEVER]: "Nunca",
+  [FolioResetPolicy.YEARLY]: "Cada año",
+  [FolioResetPolicy.MONTHLY]: "Cada mes"
+};
+
+export const folioStatusLabels: Record<FolioStatus, string> = {
+  [FolioStatus.ISSUED]: "Vigente",
+  [FolioStatus.REASSIGNED]: "Reasignado",
+  [FolioStatus.VOIDED]: "Anulado",
+  [FolioStatus.CANCELLED]: "Cancelado",
+  [FolioStatus.SKIPPED]: "Faltante"
+};
+
+export const folioEventTypeLabels: Record<FolioEventType, string> = {
+  [FolioEventType.ISSUED]: "Emitido",
+  [FolioEventType.REASSIGNED]: "Reasignado",
+  [FolioEventType.VOIDED]: "Anulado"
+};
+
+/**
+ * Prefijo predeterminado: el código del formato (p. ej. "CA-RE-01-01" del nombre de la plantilla)
+ * o "PR" para los formularios de producción
+ */
+export function getDefaultFolioPrefix(formTemplateId: number, templateName?: string | null): string {
+  if (formTemplateId === PRODUCTION_FORMS_FOLIO_TEMPLATE_ID) return "PR";
+  return templateName?.match(/^([A-Z]{2}-[A-Z]{2}-\d{2}-\d{2})/)?.[1] ?? "";
+}
+
+/**
+ * Patrón y prefijo que se aplican al esquema. Sin patrón configurado se conservan los formatos
+ * anteriores: "PR-0001" en producción y "CA-RE-01-01-F1" en las plantillas
+ */
+export function resolveFolioScheme(
+  counter: Pick<FolioCounter, "formTemplateId" | "prefix" | "pattern"> | undefined,
+  formTemplateId: number,
+  templateName?: string | null
+): { pattern: string; prefix: string } {
+  const prefix = counter?.prefix || getDefaultFolioPrefix(formTemplateId, templateName);
+  if (counter?.pattern) return { pattern: counter.pattern, prefix };
+  if (formTemplateId === PRODUCTION_FORMS_FOLIO_TEMPLATE_ID) return { pattern: "{PREFIX}-{SEQ:4}", prefix };
+  return { pattern: prefix ? "{PREFIX}-F{SEQ}" : "{SEQ}", prefix };
+}
+
+/**
+ * Periodo del consecutivo para la fecha indicada según la política de reinicio
+ */
+export function getFolioPeriodKey(resetPolicy: FolioResetPolicy, date: Date): string {
+  const year = date.getFullYear().toString();
+  const month = (date.getMonth() + 1).toString().padStart(2, "0");
+  switch (resetPolicy) {
+    case FolioResetPolicy.YEARLY:
+      return year;
+    case FolioResetPolicy.MONTHLY:
+      return `${year}-${month}`;
+    default:
+      return "";
+  }
+}
+
+/**
+ * Aplica el patrón: {PREFIX}, {YYYY}, {YY}, {MM} y {SEQ} / {SEQ:n} (consecutivo con n dígitos)
+ */
+export function formatFolio(pattern: string, prefix: string, sequence: number, date: Date): string {
+  const year = date.getFullYear().toString();
+  return pattern
+    .replace(/\{PREFIX\}/g, prefix)
+    .replace(/\{YYYY\}/g, year)
+    .replace(/\{YY\}/g, year.slice(-2))
+    .replace(/\{MM\}/g, (date.getMonth() + 1).toString().padStart(2, "0"))
+    .replace(/\{SEQ(?::(\d{1,2}))?\}/g, (_, digits) => sequence.toString().padStart(Number(digits ?? 0), "0"));
+}
+
+/**
+ * Reconstruye el folio de un consecutivo de un periodo pasado; null si el patrón usa
+ * fechas que el periodo no determina (p. ej. el mes en un esquema con reinicio anual)
+ */
+export function formatFolioForPeriod(pattern: string, prefix: string, sequence: number, period: string): string | null {
+  const [year, month] = period.split("-");
+  const needsYear = /\{YYYY\}|\{YY\}/.test(pattern);
+  const needsMonth = pattern.includes("{MM}");
+  if ((needsYear && !year) || (needsMonth && !month)) return null;
+  const date = new Date(Number(year || 2000), Number(month || 1) - 1, 1);
+  return formatFolio(pattern, prefix, sequence, date);
+}
+
+// Consecutivo al final del folio: "PR-0012" → 12. La búsqueda de formularios aplica el mismo patrón en SQL
+export const FOLIO_NUMBER_PATTERN = "([0-9]{1,9})$";
+
+/**
+ * Número del folio para filtrar por rango; null si el folio no termina en dígitos
+ */
+export function getFolioNumber(folio: string | null | undefined): number | null {
+  const match = folio?.match(new RegExp(FOLIO_NUMBER_PATTERN));
+  return match ? Number(match[1]) : null;
+}
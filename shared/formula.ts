@@ -0,0 +1,437 @@
+/**
+ * Motor de fórmulas para campos calculados.
+ *
+ * Las fórmulas se analizan con un parser propio (sin eval ni Function) y solo pueden leer
+ * valores del formulario: números, operadores aritméticos y de comparación, paréntesis
+ * y un conjunto cerrado de funciones. Se usa en el cliente para mostrar el valor en vivo
+ * y en el servidor para recalcularlo al guardar.
+ *
+ * Referencias disponibles:
+ *   brix_final              valor de un campo del formulario
+ *   row.kilos               en una columna: valor de la columna "kilos" de la misma fila;
+ *                           en un campo: todos los valores de "kilos" en las tablas del formulario
+ *   tabla_pesos.kilos       todos los valores de la columna "kilos" de la tabla "tabla_pesos"
+ *
+ * Ejemplos: =SUM(row.kilos)   =brix_final - brix_inicial   =ROUND(AVG(tabla.temp), 1)
+ */
+
+export class FormulaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FormulaError";
+  }
+}
+
+type FormulaValue = number | string | null | FormulaValue[];
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "identifier"; value: string }
+  | { type: "operator"; value: string }
+  | { type: "paren"; value: "(" | ")" }
+  | { type: "comma" };
+
+type FormulaNode =
+  | { kind: "literal"; value: number | string }
+  | { kind: "reference"; path: string[] }
+  | { kind: "unary"; operator: string; operand: FormulaNode }
+  | { kind: "binary"; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: "call"; name: string; args: FormulaNode[] };
+
+// Contexto de evaluación: resuelve una referencia (p. ej. ["row", "kilos"]) a su valor
+export type FormulaResolver = (path: string[]) => FormulaValue | undefined;
+
+const operators = [">=", "<=", "==", "!=", "<>", "+", "-", "*", "/", "%", "^", ">", "<"];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i));
+      if (!match) throw new FormulaError(`Número inválido en la posición ${i + 1}`);
+      tokens.push({ type: "number", value: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+    if (/[A-Za-z_À-ſ]/.test(char)) {
+      const match = /^[A-Za-z_À-ſ][A-Za-z0-9_À-ſ]*(\.[A-Za-z0-9_À-ſ]+)*/.exec(source.slice(i))!;
+      tokens.push({ type: "identifier", value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new FormulaError("Texto sin cerrar");
+      tokens.push({ type: "string", value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: "paren", value: char });
+      i++;
+      continue;
+    }
+    if (char === "," || char === ";") {
+      tokens.push({ type: "comma" });
+      i++;
+      continue;
+    }
+    const operator = operators.find(op => source.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator === "<>" ? "!=" : operator });
+      i += operator.length;
+      continue;
+    }
+    throw new FormulaError(`Carácter no permitido "${char}" en la posición ${i + 1}`);
+  }
+
+  return tokens;
+}
+
+// Parser descendente recursivo: comparación > suma/resta > producto > unario > potencia > primario
+function parse(source: string): FormulaNode {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token?.type === "operator" && values.includes(token.value);
+  };
+
+  const parseComparison = (): FormulaNode => {
+    let node = parseAdditive();
+    while (isOperator("==", "!=", ">", "<", ">=", "<=")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: "binary", operator, left: node, right: parseAdditive() };
+    }
+    return node;
+  };
+
+  const parseAdditive = (): FormulaNode => {
+    let node = parseTerm();
+    while (isOperator("+", "-")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: "binary", operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): FormulaNode => {
+    let node = parseUnary();
+    while (isOperator("*", "/", "%")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      node = { kind: "binary", operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator("-", "+")) {
+      const operator = (tokens[position++] as { value: string }).value;
+      return { kind: "unary", operator, operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (isOperator("^")) {
+      position++;
+      return { kind: "binary", operator: "^", left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++];
+    if (!token) throw new FormulaError("La fórmula termina de forma inesperada");
+
+    if (token.type === "number" || token.type === "string") {
+      return { kind: "literal", value: token.value };
+    }
+    if (token.type === "paren" && token.value === "(") {
+      const node = parseComparison();
+      const closing = tokens[position++];
+      if (closing?.type !== "paren" || closing.value !== ")") throw new FormulaError("Falta cerrar un paréntesis");
+      return node;
+    }
+    if (token.type === "identifier") {
+      const next = peek();
+      if (next?.type === "paren" && next.value === "(") {
+        position++;
+        const name = token.value.toUpperCase();
+        if (!(name in formulaFunctions)) throw new FormulaError(`Función desconocida: ${token.value}`);
+        const args: FormulaNode[] = [];
+        if (!(peek()?.type === "paren" && (peek() as { value: string }).value === ")")) {
+          args.push(parseComparison());
+          while (peek()?.type === "comma") {
+            position++;
+            args.push(parseComparison());
+          }
+        }
+        const closing = tokens[position++];
+        if (closing?.type !== "paren" || closing.value !== ")") throw new FormulaError(`Falta cerrar los argumentos de ${name}`);
+        return { kind: "call", name, args };
+      }
+      return { kind: "reference", path: token.value.split(".") };
+    }
+    throw new FormulaError("Expresión inválida");
+  };
+
+  const node = parseComparison();
+  if (position < tokens.length) throw new FormulaError("Sobran elementos al final de la fórmula");
+  return node;
+}
+
+// Quitar el "=" inicial opcional, como en una hoja de cálculo
+function normalizeSource(formula: string): string {
+  return formula.trim().replace(/^=/, "");
+}
+
+function toNumber(value: FormulaValue | undefined): number | null {
+  if (value === null || value === undefined || value === "" || Array.isArray(value)) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  const parsed = parseFloat(String(value).replace("%", "").replace(",", "."));
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// Números de una lista de argumentos, aplanando columnas y descartando vacíos
+function numbersOf(values: FormulaValue[]): number[] {
+  const result: number[] = [];
+  const collect = (value: FormulaValue) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+      return;
+    }
+    const number = toNumber(value);
+    if (number !== null) result.push(number);
+  };
+  values.forEach(collect);
+  return result;
+}
+
+const formulaFunctions: Record<string, (args: FormulaValue[]) => FormulaValue> = {
+  SUM: args => numbersOf(args).reduce((total, value) => total + value, 0),
+  AVG: args => {
+    const values = numbersOf(args);
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : null;
+  },
+  MIN: args => {
+    const values = numbersOf(args);
+    return values.length > 0 ? Math.min(...values) : null;
+  },
+  MAX: args => {
+    const values = numbersOf(args);
+    return values.length > 0 ? Math.max(...values) : null;
+  },
+  COUNT: args => numbersOf(args).length,
+  ABS: ([value]) => {
+    const number = toNumber(value);
+    return number === null ? null : Math.abs(number);
+  },
+  ROUND: ([value, digits]) => {
+    const number = toNumber(value);
+    if (number === null) return null;
+    const factor = Math.pow(10, toNumber(digits) ?? 0);
+    return Math.round(number * factor) / factor;
+  },
+  IF: ([condition, whenTrue, whenFalse]) => {
+    const number = toNumber(condition);
+    const truthy = number !== null ? number !== 0 : Boolean(condition);
+    return truthy ? whenTrue ?? null : whenFalse ?? null;
+  },
+};
+
+function evaluateNode(node: FormulaNode, resolve: FormulaResolver): FormulaValue {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "reference":
+      return resolve(node.path) ?? null;
+    case "call":
+      return formulaFunctions[node.name](node.args.map(arg => evaluateNode(arg, resolve)));
+    case "unary": {
+      const operand = toNumber(evaluateNode(node.operand, resolve));
+      if (operand === null) return null;
+      return node.operator === "-" ? -operand : operand;
+    }
+    case "binary": {
+      const leftValue = evaluateNode(node.left, resolve);
+      const rightValue = evaluateNode(node.right, resolve);
+
+      if (node.operator === "==" || node.operator === "!=") {
+        const left = toNumber(leftValue) ?? leftValue;
+        const right = toNumber(rightValue) ?? rightValue;
+        const equal = left === right;
+        return (node.operator === "==") === equal ? 1 : 0;
+      }
+
+      // Un operando vacío deja el resultado vacío en lugar de tratarlo como cero
+      const left = toNumber(leftValue);
+      const right = toNumber(rightValue);
+      if (left === null || right === null) return null;
+
+      switch (node.operator) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/": return right === 0 ? null : left / right;
+        case "%": return right === 0 ? null : left % right;
+        case "^": return Math.pow(left, right);
+        case ">": return left > right ? 1 : 0;
+        case "<": return left < right ? 1 : 0;
+        case ">=": return left >= right ? 1 : 0;
+        case "<=": return left <= right ? 1 : 0;
+      }
+      throw new FormulaError(`Operador desconocido: ${node.operator}`);
+    }
+  }
+}
+
+// Árboles ya analizados por fórmula, para no volver a analizar en cada tecla
+const parsedFormulas = new Map<string, FormulaNode>();
+
+function getParsedFormula(formula: string): FormulaNode {
+  const source = normalizeSource(formula);
+  let node = parsedFormulas.get(source);
+  if (!node) {
+    node = parse(source);
+    parsedFormulas.set(source, node);
+  }
+  return node;
+}
+
+/**
+ * Valida la sintaxis de una fórmula
+ * @returns Mensaje de error, o null si la fórmula es válida
+ */
+export function validateFormula(formula: string): string | null {
+  if (!normalizeSource(formula)) {
+    return "La fórmula está vacía";
+  }
+  try {
+    getParsedFormula(formula);
+    return null;
+  } catch (error) {
+    return error instanceof FormulaError ? error.message : "Fórmula inválida";
+  }
+}
+
+/**
+ * Evalúa una fórmula con el contexto indicado
+ * @param formula Expresión, con o sin "=" inicial
+ * @param resolve Resuelve las referencias a campos y columnas
+ * @returns Resultado numérico (o texto), o null si falta algún dato o la fórmula es inválida
+ */
+export function evaluateFormula(formula: string, resolve: FormulaResolver): number | string | null {
+  try {
+    const result = evaluateNode(getParsedFormula(formula), resolve);
+    if (Array.isArray(result)) return null;
+    // Evitar residuos de punto flotante (0.1 + 0.2)
+    return typeof result === "number" ? Math.round(result * 1e6) / 1e6 : result;
+  } catch (error) {
+    if (error instanceof FormulaError) return null;
+    throw error;
+  }
+}
+
+function getAllFields(structure: any): any[] {
+  return [
+    ...(structure?.fields || []),
+    ...(structure?.sections || []).flatMap((section: any) => section?.fields || [])
+  ].filter(field => field?.id);
+}
+
+function getTableColumns(field: any): any[] {
+  const config = field.advancedTableConfig;
+  return config?.sections?.flatMap((section: any) => section?.columns || []) ?? config?.columns ?? [];
+}
+
+/**
+ * Indica si la estructura tiene campos o columnas calculados
+ */
+export function hasFormulas(structure: any): boolean {
+  return getAllFields(structure).some(field =>
+    field.formula || getTableColumns(field).some((column: any) => column?.formula)
+  );
+}
+
+/**
+ * Recalcula los campos y columnas con fórmula de una entrada.
+ * Primero las columnas de cada tabla (fila por fila) y después los campos,
+ * repitiendo mientras haya cambios para resolver fórmulas que dependen de otras.
+ * @param structure Estructura de la plantilla
+ * @param data Datos capturados
+ * @returns Copia de los datos con los valores calculados
+ */
+export function applyFormulas(structure: any, data: Record<string, any>): Record<string, any> {
+  const fields = getAllFields(structure);
+  if (!hasFormulas(structure)) {
+    return data;
+  }
+
+  const result: Record<string, any> = { ...data };
+
+  const formatResult = (value: number | string | null) => (value === null ? "" : value);
+
+  // Valores de una columna en todas las tablas del formulario (para row.columna fuera de una tabla)
+  const columnValues = (columnId: string): FormulaValue[] =>
+    Object.values(result)
+      .filter(Array.isArray)
+      .flatMap((rows: any[]) => rows.filter(row => row && typeof row === "object" && columnId in row).map(row => row[columnId]));
+
+  const resolveField = (path: string[]): FormulaValue | undefined => {
+    const [head, column] = path;
+    if (head === "row" && column) return columnValues(column);
+    const value = result[head];
+    if (column) {
+      return Array.isArray(value) ? value.map(row => row?.[column] ?? null) : undefined;
+    }
+    return Array.isArray(value) ? undefined : value;
+  };
+
+  // Columnas calculadas: se evalúan sobre la fila a la que pertenecen
+  for (const field of fields) {
+    const formulaColumns = getTableColumns(field).filter((column: any) => column?.formula);
+    const rows = result[field.id];
+    if (formulaColumns.length === 0 || !Array.isArray(rows)) continue;
+
+    result[field.id] = rows.map(row => {
+      const computedRow = { ...(row || {}) };
+      for (const column of formulaColumns) {
+        computedRow[column.id] = formatResult(evaluateFormula(column.formula, path => {
+          if (path[0] === "row" && path[1]) return computedRow[path[1]];
+          if (path.length === 1 && path[0] in computedRow) return computedRow[path[0]];
+          return resolveField(path);
+        }));
+      }
+      return computedRow;
+    });
+  }
+
+  // Campos calculados, con un límite de pasadas por si hay referencias circulares
+  const formulaFields = fields.filter(field => field.formula);
+  for (let pass = 0; pass <= formulaFields.length; pass++) {
+    let changed = false;
+    for (const field of formulaFields) {
+      const value = formatResult(evaluateFormula(field.formula, resolveField));
+      if (result[field.id] !== value) {
+        result[field.id] = value;
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  return result;
+}
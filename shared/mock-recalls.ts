@@ -0,0 +1,19 @@
+import type { MockRecall } from "./schema";
+
+/**
+ * Tiempo del simulacro de retiro: desde que se inicia hasta que se genera el paquete de registros.
+ * Mientras no concluye se mide contra el momento indicado (por defecto, ahora)
+ */
+export function getMockRecallElapsedMinutes(recall: Pick<MockRecall, "startedAt" | "completedAt">, now: Date = new Date()): number {
+  const end = recall.completedAt ? new Date(recall.completedAt) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(recall.startedAt).getTime()) / 60000));
+}
+
+/**
+ * Minutos en formato "2 h 05 min"
+ */
+export function formatElapsedMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours} h ${rest.toString().padStart(2, "0")} min` : `${rest} min`;
+}
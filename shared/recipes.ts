@@ -0,0 +1,102 @@
+import { RecipeStatus } from "./schema";
+import type { RecipeIngredient, RecipeWithIngredients } from "./schema";
+
+/**
+ * Escalado de recetas. Las recetas se guardan por `baseQuantity` litros; el formulario de producción,
+ * las tablas avanzadas y el servidor calculan las cantidades para los litros a producir con estas funciones.
+ */
+
+export interface ScaledIngredient {
+  name: string;
+  quantity: number;
+  unit: string;
+}
+
+type ScalableRecipe = Pick<RecipeWithIngredients, "baseQuantity"> & {
+  ingredients: Pick<RecipeIngredient, "materialName" | "quantity" | "unit">[];
+};
+
+// Las cantidades capturadas en gramos se expresan en kilos
+function normalizeIngredient(ingredient: Pick<RecipeIngredient, "quantity" | "unit">): { quantity: number; unit: string } {
+  const quantity = parseFloat(ingredient.quantity.replace(",", "."));
+  const unit = ingredient.unit || "kg";
+  if (["g", "gr", "gramos"].includes(unit.toLowerCase())) {
+    return { quantity: quantity / 1000, unit: "kg" };
+  }
+  return { quantity, unit };
+}
+
+/**
+ * Cantidades de cada ingrediente para producir los litros indicados
+ * @param recipe Receta con sus ingredientes
+ * @param liters Litros a producir
+ */
+export function scaleRecipe(recipe: ScalableRecipe, liters: number): ScaledIngredient[] {
+  const factor = liters / (recipe.baseQuantity || 100);
+  return recipe.ingredients.map(ingredient => {
+    const { quantity, unit } = normalizeIngredient(ingredient);
+    return {
+      name: ingredient.materialName,
+      quantity: Number.isFinite(quantity) ? parseFloat((quantity * factor).toFixed(3)) : 0,
+      unit,
+    };
+  });
+}
+
+/**
+ * Cantidades por nombre de material, p. ej. { "Leche de Cabra": 250, "Azúcar": 50 }
+ */
+export function calculateIngredientAmounts(recipe: ScalableRecipe, liters: number): Record<string, number> {
+  return Object.fromEntries(scaleRecipe(recipe, liters).map(ingredient => [ingredient.name, ingredient.quantity]));
+}
+
+type VersionedRecipe = Pick<RecipeWithIngredients,
+  "productId" | "productName" | "version" | "status" | "isActive" | "effectiveFrom">;
+
+// Fecha desde la que aplica una versión aprobada (las recetas anteriores al versionado aplican desde siempre)
+function effectiveTime(recipe: VersionedRecipe): number {
+  return recipe.effectiveFrom ? new Date(recipe.effectiveFrom).getTime() : 0;
+}
+
+/**
+ * Versión vigente de la receta del producto: la aprobada con la fecha de vigencia más reciente que ya inició
+ * @param recipes Versiones de recetas (de uno o varios productos)
+ * @param product Id o nombre del producto
+ * @param at Momento de referencia (por defecto, ahora)
+ */
+export function findEffectiveRecipe<T extends VersionedRecipe>(
+  recipes: T[],
+  product: number | string,
+  at: Date = new Date()
+): T | undefined {
+  return recipes
+    .filter(recipe =>
+      recipe.status === RecipeStatus.APPROVED &&
+      recipe.isActive !== false &&
+      effectiveTime(recipe) <= at.getTime() &&
+      (typeof product === "number" ? recipe.productId === product : recipe.productName === product)
+    )
+    .sort((a, b) => effectiveTime(b) - effectiveTime(a) || b.version - a.version)[0];
+}
+
+export type RecipeVersionState = "draft" | "current" | "scheduled" | "superseded";
+
+/**
+ * Situación de una versión frente a las demás versiones del producto
+ */
+export function getRecipeVersionState<T extends VersionedRecipe & { id: number }>(
+  recipe: T,
+  recipes: T[],
+  at: Date = new Date()
+): RecipeVersionState {
+  if (recipe.status === RecipeStatus.DRAFT) return "draft";
+  if (effectiveTime(recipe) > at.getTime()) return "scheduled";
+  return findEffectiveRecipe(recipes, recipe.productId, at)?.id === recipe.id ? "current" : "superseded";
+}
+
+/**
+ * Cantidad para mostrar: sin decimales si es entera, con tres decimales si no
+ */
+export function formatIngredientQuantity(quantity: number): string {
+  return quantity % 1 === 0 ? quantity.toString() : quantity.toFixed(3);
+}
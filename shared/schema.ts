@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, json, jsonb, foreignKey } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, json, jsonb, real, foreignKey, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -29,10 +29,45 @@ export const users = pgTable("users", {
   email: text("email").notNull(),
   role: text("role").$type<UserRole>().notNull().default(UserRole.VIEWER),
   department: text("department"),
+  failedLoginAttempts: integer("failed_login_attempts").notNull().default(0), // Intentos fallidos consecutivos
+  lockedUntil: timestamp("locked_until"), // Cuenta bloqueada hasta esta fecha
+  passwordChangedAt: timestamp("password_changed_at").defaultNow(), // Último cambio de contraseña
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // Forzar cambio en el siguiente acceso
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  failedLoginAttempts: true,
+  lockedUntil: true,
+  passwordChangedAt: true,
+  mustChangePassword: true,
+  createdAt: true
+});
+
+// Historial de contraseñas para impedir su reutilización
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(1),
+});
+
+// Registro de intentos de inicio de sesión (por usuario y por IP)
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(), // Nombre de usuario capturado (puede no existir)
+  ipAddress: text("ip_address").notNull(),
+  success: boolean("success").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({
   id: true,
   createdAt: true
 });
@@ -48,8 +83,26 @@ export const formTemplates = pgTable("form_templates", {
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   isActive: boolean("is_active").default(true),
+  // Control documental del formato (impreso en el encabezado de PDF y Excel)
+  documentCode: text("document_code"), // Código del formato, p. ej. "CA-RE-03-01"
+  revision: integer("revision").notNull().default(0), // Aumenta al cambiar la estructura
+  issueDate: timestamp("issue_date"), // Fecha de emisión de la revisión vigente
+  documentApprover: text("document_approver"), // Quien aprobó la revisión vigente
+  nextReviewDate: timestamp("next_review_date"), // Próxima revisión programada
 });
 
+// Metadatos de control documental capturados en el editor de plantillas
+export const documentControlSchema = z.object({
+  documentCode: z.string().trim().max(40, "El código admite máximo 40 caracteres").nullable().optional(),
+  revision: z.coerce.number().int().min(0, "La revisión no puede ser negativa").optional(),
+  issueDate: z.coerce.date().nullable().optional(),
+  documentApprover: z.string().trim().max(120, "El aprobador admite máximo 120 caracteres").nullable().optional(),
+  nextReviewDate: z.coerce.date().nullable().optional(),
+}).refine(
+  control => !control.issueDate || !control.nextReviewDate || control.nextReviewDate >= control.issueDate,
+  { path: ["nextReviewDate"], message: "La próxima revisión no puede ser anterior a la fecha de emisión" }
+);
+
 export const insertFormTemplateSchema = createInsertSchema(formTemplates).omit({
   id: true,
   createdAt: true,
@@ -93,6 +146,25 @@ export enum ProductionFormStatus {
   COMPLETED = "completed"       // Proceso completado
 }
 
+// Estados de versiones anteriores (firma y aprobación del formulario, rechazo de calidad)
+const legacyProductionFormStatuses: Record<string, ProductionFormStatus> = {
+  pending: ProductionFormStatus.PENDING_REVIEW,
+  signed: ProductionFormStatus.COMPLETED,
+  approved: ProductionFormStatus.COMPLETED,
+  rejected: ProductionFormStatus.IN_PROGRESS
+};
+
+/**
+ * Estado de un formulario de producción guardado por una versión anterior ("IN_PROGRESS", "Completed",
+ * "signed"...) en su valor actual; los valores desconocidos se devuelven sin cambio para que la validación los rechace
+ */
+export function normalizeProductionFormStatus(status: unknown): unknown {
+  if (typeof status !== "string") return status;
+  const normalized = status.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if ((Object.values(ProductionFormStatus) as string[]).includes(normalized)) return normalized;
+  return legacyProductionFormStatuses[normalized] ?? status;
+}
+
 // Form workflow stages for role-based access
 export enum FormWorkflowStage {
   INIT = "init",                // Gerente de producción - campos rosa
@@ -101,6 +173,20 @@ export enum FormWorkflowStage {
   COMPLETED = "completed"       // Proceso completado
 }
 
+// Roles de firma: cada responsable firma su propia parte de la entrada
+export enum SignatureRole {
+  PRODUCER = "producer",        // Quien elabora (producción)
+  SUPERVISOR = "supervisor",    // Supervisor / gerente de producción
+  QUALITY = "quality"           // Calidad
+}
+
+// Significado de la firma electrónica
+export enum SignatureMeaning {
+  ELABORATED = "elaborado",
+  REVIEWED = "revisado",
+  APPROVED = "aprobado"
+}
+
 // Form data schema (completed forms)
 export const formEntries = pgTable("form_entries", {
   id: serial("id").primaryKey(),
@@ -123,14 +209,26 @@ export const formEntries = pgTable("form_entries", {
   approvedBy: integer("approved_by"), // User ID who approved the form (if applicable)
   approvedAt: timestamp("approved_at"), // When the form was approved (if applicable)
   folioNumber: integer("folio_number"), // Consecutive folio number for this template
+  folio: text("folio"), // Folio con el formato del esquema de la plantilla
+  folioPeriod: text("folio_period"), // Periodo del consecutivo (reinicio anual o mensual)
 });
 
+// Reinicio del consecutivo de folios
+export enum FolioResetPolicy {
+  NEVER = "never",     // El consecutivo nunca se reinicia
+  YEARLY = "yearly",   // Reinicia cada año
+  MONTHLY = "monthly"  // Reinicia cada mes
+}
+
 // Folios counter schema (tracks last folio number used per template)
 export const folioCounters = pgTable("folio_counters", {
   id: serial("id").primaryKey(),
-  formTemplateId: integer("form_template_id").notNull().unique(), // Reference to form template
+  formTemplateId: integer("form_template_id").notNull().unique(), // Reference to form template (0 = formularios de producción)
   lastFolioNumber: integer("last_folio_number").notNull().default(0), // Last used folio number
   prefix: text("prefix"), // Optional prefix for the folio (e.g., "INV-", "QA-")
+  pattern: text("pattern"), // Formato del folio, p. ej. "{PREFIX}-{YYYY}-{SEQ:5}"
+  resetPolicy: text("reset_policy").$type<FolioResetPolicy>().notNull().default(FolioResetPolicy.NEVER),
+  periodKey: text("period_key").notNull().default(""), // Periodo al que corresponde lastFolioNumber ("2025", "2025-03" o "")
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -139,6 +237,149 @@ export const insertFolioCounterSchema = createInsertSchema(folioCounters).omit({
   updatedAt: true
 });
 
+// Marcadores válidos en el patrón de folio
+const folioPatternTokenRegex = /^\{(PREFIX|YYYY|YY|MM|SEQ(:\d{1,2})?)\}$/;
+
+// Configuración del esquema de folios de una plantilla
+export const folioSchemeSchema = z.object({
+  prefix: z.string().trim().max(20, "El prefijo admite máximo 20 caracteres").nullable().optional(),
+  pattern: z.string().trim().max(60, "El patrón admite máximo 60 caracteres").nullable().optional(),
+  resetPolicy: z.nativeEnum(FolioResetPolicy)
+}).superRefine((scheme, ctx) => {
+  const pattern = scheme.pattern || "";
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["pattern"], message });
+
+  if (!pattern) {
+    // El formato predeterminado no incluye la fecha; al reiniciar el consecutivo los folios se repetirían
+    if (scheme.resetPolicy !== FolioResetPolicy.NEVER) {
+      issue("Indique un patrón que incluya la fecha para reiniciar el consecutivo");
+    }
+    return;
+  }
+  const unknownTokens = (pattern.match(/\{[^}]*\}/g) || []).filter(token => !folioPatternTokenRegex.test(token));
+  if (unknownTokens.length > 0) {
+    issue(`Marcador desconocido: ${unknownTokens.join(", ")}`);
+  }
+  if (!/\{SEQ(:\d{1,2})?\}/.test(pattern)) {
+    issue("El patrón debe incluir el consecutivo {SEQ} o {SEQ:n}");
+  }
+  if (scheme.resetPolicy !== FolioResetPolicy.NEVER && !/\{YYYY\}|\{YY\}/.test(pattern)) {
+    issue("El patrón debe incluir el año ({YYYY} o {YY}) para reiniciar el consecutivo");
+  }
+  if (scheme.resetPolicy === FolioResetPolicy.MONTHLY && !pattern.includes("{MM}")) {
+    issue("El patrón debe incluir el mes ({MM}) para reiniciar el consecutivo cada mes");
+  }
+});
+
+export type FolioSchemeInput = z.infer<typeof folioSchemeSchema>;
+
+// Folio asignado a un registro
+export interface FolioAllocation {
+  number: number; // Consecutivo dentro del periodo
+  period: string; // Periodo del consecutivo ("" si nunca se reinicia)
+  folio: string;  // Folio con formato
+}
+
+// Esquema de folios de una plantilla con su siguiente folio (vista de configuración)
+export interface FolioSchemeSummary {
+  formTemplateId: number;
+  templateName: string;
+  prefix: string | null;
+  pattern: string | null;
+  resetPolicy: FolioResetPolicy;
+  effectivePattern: string; // Patrón aplicado (el configurado o el predeterminado)
+  effectivePrefix: string;
+  lastFolioNumber: number;
+  periodKey: string;
+  nextFolio: string;
+}
+
+export enum FolioGapReason {
+  SKIPPED = "skipped",     // Consecutivo asignado sin registro (eliminado o no guardado)
+  CANCELLED = "cancelled"  // El registro con el folio fue rechazado
+}
+
+// Folio faltante o cancelado en la secuencia de una plantilla (reporte para auditoría)
+export interface FolioGap {
+  formTemplateId: number;
+  templateName: string;
+  period: string;
+  folioNumber: number;
+  folio: string | null; // Formato del folio cuando se puede reconstruir
+  reason: FolioGapReason;
+  recordId: number | null; // Registro rechazado (solo cancelados)
+}
+
+export enum FolioEventType {
+  ISSUED = "issued",         // Folio asignado a un registro (por el esquema o capturado)
+  REASSIGNED = "reassigned", // El registro cambió de folio; previousFolio conserva el anterior
+  VOIDED = "voided"          // Folio anulado con motivo; el registro deja de llevarlo
+}
+
+// Historial de folios: cada folio emitido, reasignado o anulado queda registrado para auditoría
+export const folioEvents = pgTable("folio_events", {
+  id: serial("id").primaryKey(),
+  formTemplateId: integer("form_template_id").notNull(), // 0 = formularios de producción
+  eventType: text("event_type").$type<FolioEventType>().notNull(),
+  folio: text("folio").notNull(),
+  previousFolio: text("previous_folio"), // Solo en reasignaciones
+  folioNumber: integer("folio_number"), // Consecutivo del esquema (null si se capturó manualmente)
+  folioPeriod: text("folio_period"),
+  recordId: integer("record_id"), // Entrada de formulario o formulario de producción
+  fieldId: text("field_id"), // Campo de la entrada que lleva el folio (null = folio del registro)
+  reason: text("reason"), // Obligatorio al anular
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertFolioEventSchema = createInsertSchema(folioEvents).omit({
+  id: true,
+  createdAt: true
+}).extend({
+  eventType: z.nativeEnum(FolioEventType)
+});
+
+export const voidFolioSchema = z.object({
+  fieldId: z.string().min(1, "Indique el campo del folio"),
+  reason: z.string().trim().min(5, "Indique el motivo de la anulación (mínimo 5 caracteres)"),
+});
+
+// Eliminación de un registro con folio: el folio queda anulado con este motivo
+export const deleteFolioRecordSchema = z.object({
+  reason: z.string().trim().min(5, "Indique el motivo de la eliminación (mínimo 5 caracteres)"),
+});
+
+export type FolioEvent = typeof folioEvents.$inferSelect;
+export type InsertFolioEvent = z.infer<typeof insertFolioEventSchema>;
+export type VoidFolio = z.infer<typeof voidFolioSchema>;
+export type DeleteFolioRecord = z.infer<typeof deleteFolioRecordSchema>;
+
+export interface FolioEventWithUser extends FolioEvent {
+  userName: string | null;
+}
+
+export enum FolioStatus {
+  ISSUED = "issued",         // Vigente
+  REASSIGNED = "reassigned", // Sustituido por otro folio en el mismo registro
+  VOIDED = "voided",         // Anulado
+  CANCELLED = "cancelled",   // El registro con el folio fue rechazado
+  SKIPPED = "skipped"        // Consecutivo asignado sin registro (eliminado o no guardado)
+}
+
+// Folio de la secuencia completa de una plantilla con su situación actual
+export interface FolioSequenceItem {
+  folio: string | null; // null cuando un faltante no se puede reconstruir
+  folioNumber: number | null;
+  period: string;
+  status: FolioStatus;
+  recordId: number | null;
+  fieldId: string | null;
+  issuedAt: Date | null; // null en folios emitidos antes del historial
+  updatedAt: Date | null; // Último evento del folio
+  userName: string | null; // Usuario del último evento
+  reason: string | null;
+}
+
 export const insertFormEntrySchema = createInsertSchema(formEntries).omit({
   id: true,
   createdAt: true,
@@ -147,6 +388,90 @@ export const insertFormEntrySchema = createInsertSchema(formEntries).omit({
   approvedAt: true
 });
 
+// Cambio de un campo (o celda de tabla) entre dos revisiones de una entrada
+export interface FieldChange {
+  path: string; // Ruta del valor, p. ej. "tabla_temperaturas[2].temperatura"
+  fieldId: string; // ID del campo de la plantilla
+  label: string; // Etiqueta legible del campo/celda
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+// Revisiones inmutables de una entrada: cada guardado agrega una fila, nunca se modifican ni eliminan
+export const formEntryRevisions = pgTable("form_entry_revisions", {
+  id: serial("id").primaryKey(),
+  formEntryId: integer("form_entry_id").notNull(),
+  revision: integer("revision").notNull(), // Consecutivo por entrada, empieza en 1
+  action: text("action").notNull(), // "created", "updated", "workflow_transition", ...
+  data: json("data").notNull(), // Copia completa de los datos después del guardado
+  changes: jsonb("changes").$type<FieldChange[]>().notNull().default([]),
+  status: text("status"),
+  workflowStatus: text("workflow_status"),
+  changedBy: integer("changed_by").notNull(),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => ({
+  entryRevisionUnique: unique("form_entry_revisions_entry_revision_unique").on(table.formEntryId, table.revision),
+}));
+
+export const insertFormEntryRevisionSchema = createInsertSchema(formEntryRevisions).omit({
+  id: true,
+  changedAt: true
+});
+
+// Enmiendas: correcciones a entradas firmadas o aprobadas, con motivo obligatorio
+export const formEntryAmendments = pgTable("form_entry_amendments", {
+  id: serial("id").primaryKey(),
+  formEntryId: integer("form_entry_id").notNull(),
+  revisionId: integer("revision_id").notNull().references(() => formEntryRevisions.id), // Revisión creada por la enmienda
+  reason: text("reason").notNull(),
+  previousWorkflowStatus: text("previous_workflow_status"), // Estado firmado/aprobado que se invalidó
+  previousSignedBy: integer("previous_signed_by"),
+  previousSignedAt: timestamp("previous_signed_at"),
+  amendedBy: integer("amended_by").notNull(),
+  amendedAt: timestamp("amended_at").defaultNow(),
+});
+
+export const insertFormEntryAmendmentSchema = createInsertSchema(formEntryAmendments).omit({
+  id: true,
+  amendedAt: true
+});
+
+// Solicitud de enmienda enviada por el usuario
+export const createAmendmentSchema = z.object({
+  reason: z.string().trim().min(10, "Describa el motivo de la enmienda (mínimo 10 caracteres)"),
+  data: z.record(z.any()),
+});
+
+// Firmas electrónicas: varias por entrada (una por rol de firma), con huella de los datos firmados
+export const entrySignatures = pgTable("entry_signatures", {
+  id: serial("id").primaryKey(),
+  formEntryId: integer("form_entry_id").notNull(),
+  signatureRole: text("signature_role").$type<SignatureRole>().notNull(),
+  meaning: text("meaning").$type<SignatureMeaning>().notNull(),
+  signerId: integer("signer_id").notNull(),
+  signerName: text("signer_name").notNull(), // Nombre impreso al momento de firmar
+  signerRole: text("signer_role").notNull(), // Rol del usuario al momento de firmar
+  signatureImage: text("signature_image"), // Trazo de la firma (data URL), opcional
+  dataHash: text("data_hash").notNull(), // SHA-256 de los datos de la entrada al firmar
+  signedAt: timestamp("signed_at").defaultNow(),
+});
+
+export const insertEntrySignatureSchema = createInsertSchema(entrySignatures, {
+  signatureRole: z.nativeEnum(SignatureRole),
+  meaning: z.nativeEnum(SignatureMeaning),
+}).omit({
+  id: true,
+  signedAt: true
+});
+
+// Solicitud de firma: requiere volver a capturar la contraseña
+export const signEntrySchema = z.object({
+  signatureRole: z.nativeEnum(SignatureRole),
+  meaning: z.nativeEnum(SignatureMeaning),
+  password: z.string().min(1, "Capture su contraseña para firmar"),
+  signatureImage: z.string().startsWith("data:image").optional(),
+});
+
 // Esquema para actualizaciones del flujo de trabajo secuencial
 export const updateFormWorkflowSchema = z.object({
   workflowStatus: z.nativeEnum(FormWorkflowStatus),
@@ -154,6 +479,72 @@ export const updateFormWorkflowSchema = z.object({
   roleSpecificData: z.record(z.any()).optional(),
   lotNumber: z.string().optional(),
   lastUpdatedBy: z.number().optional(),
+  signature: signEntrySchema.optional(), // Firma electrónica requerida por algunas transiciones
+});
+
+// Parámetros de búsqueda de formularios capturados (query string, por eso se convierten los tipos)
+export const formEntrySearchSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(25),
+  sortBy: z.enum(["createdAt", "updatedAt", "folioNumber", "templateName", "workflowStatus"]).default("createdAt"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+  source: z.enum(["all", "entries", "production"]).default("entries"), // Entradas, formularios de producción o ambos
+  templateId: z.coerce.number().int().positive().optional(),
+  department: z.string().optional(),
+  status: z.string().optional(),
+  workflowStatus: z.string().optional(),
+  lotNumber: z.string().optional(),
+  folioFrom: z.coerce.number().int().optional(),
+  folioTo: z.coerce.number().int().optional(),
+  createdBy: z.coerce.number().int().positive().optional(),
+  dateFrom: z.coerce.date().optional(),
+  dateTo: z.coerce.date().optional(),
+  search: z.string().trim().optional(), // Nombre del formulario o del usuario que lo capturó
+  q: z.string().trim().optional(), // Texto libre dentro de los datos capturados
+});
+
+// Definición del flujo de trabajo por plantilla: estados, transiciones y quién puede ejecutarlas
+export const workflowStateSchema = z.object({
+  status: z.nativeEnum(FormWorkflowStatus),
+  label: z.string().min(1),
+  stage: z.nativeEnum(FormWorkflowStage).optional(), // Etapa por roles asociada al estado
+});
+
+export const workflowTransitionSchema = z.object({
+  from: z.nativeEnum(FormWorkflowStatus),
+  to: z.nativeEnum(FormWorkflowStatus),
+  label: z.string().min(1),
+  roles: z.array(z.nativeEnum(UserRole)).min(1),
+  requiredFields: z.array(z.string()).default([]), // IDs de campos que deben tener valor
+  requiresSignature: z.boolean().default(false),
+});
+
+export const workflowDefinitionSchema = z.object({
+  name: z.string().min(1),
+  initialStatus: z.nativeEnum(FormWorkflowStatus),
+  states: z.array(workflowStateSchema).min(1),
+  transitions: z.array(workflowTransitionSchema),
+}).superRefine((definition, ctx) => {
+  const statuses = new Set(definition.states.map(state => state.status));
+  if (!statuses.has(definition.initialStatus)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["initialStatus"], message: "El estado inicial no está definido" });
+  }
+  definition.transitions.forEach((transition, index) => {
+    if (!statuses.has(transition.from) || !statuses.has(transition.to)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transitions", index], message: "La transición usa un estado no definido" });
+    }
+  });
+});
+
+export const workflowDefinitions = pgTable("workflow_definitions", {
+  id: serial("id").primaryKey(),
+  formTemplateId: integer("form_template_id").references(() => formTemplates.id, { onDelete: "cascade" }).unique(), // null = flujo por defecto
+  name: text("name").notNull(),
+  initialStatus: text("initial_status").$type<FormWorkflowStatus>().notNull(),
+  states: jsonb("states").$type<WorkflowState[]>().notNull(),
+  transitions: jsonb("transitions").$type<WorkflowTransition[]>().notNull(),
+  updatedBy: integer("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Activity log schema
@@ -165,17 +556,136 @@ export const activityLogs = pgTable("activity_logs", {
   resourceId: integer("resource_id").notNull(),
   details: json("details"), // Additional context details
   timestamp: timestamp("timestamp").defaultNow(),
+  previousHash: text("previous_hash"), // Huella del registro anterior en la cadena
+  hash: text("hash"), // SHA-256 de este registro más previousHash (null en registros anteriores a la cadena)
 });
 
 export const insertActivityLogSchema = createInsertSchema(activityLogs).omit({
   id: true,
-  timestamp: true
+  timestamp: true,
+  previousHash: true,
+  hash: true
+});
+
+// Configuración del sistema (una sola fila editable por el superadmin)
+export const systemSettings = pgTable("system_settings", {
+  id: serial("id").primaryKey(),
+  appName: text("app_name").notNull().default("FormCapture"),
+  dataDirectory: text("data_directory").notNull().default("/data/forms"),
+  enableNotifications: boolean("enable_notifications").notNull().default(true),
+  autoBackup: boolean("auto_backup").notNull().default(true),
+  backupDirectory: text("backup_directory").default("/data/backups"),
+  sessionTimeout: integer("session_timeout").notNull().default(10080), // Minutos de inactividad (7 días)
+  maxLoginAttempts: integer("max_login_attempts").notNull().default(5), // 0 = sin límite
+  maxLoginAttemptsPerIp: integer("max_login_attempts_per_ip").notNull().default(20), // 0 = sin límite
+  lockoutDuration: integer("lockout_duration").notNull().default(15), // Minutos de bloqueo
+  passwordExpiration: integer("password_expiration").notNull().default(0), // Días (0 = sin expiración)
+  passwordMinLength: integer("password_min_length").notNull().default(6),
+  passwordHistoryCount: integer("password_history_count").notNull().default(5), // Contraseñas anteriores que no se pueden reutilizar
+  requirePasswordComplexity: boolean("require_password_complexity").notNull().default(false),
+  updatedBy: integer("updated_by"), // Último usuario que modificó la configuración
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const updateSystemSettingsSchema = createInsertSchema(systemSettings).omit({
+  id: true,
+  updatedBy: true,
+  updatedAt: true
+}).extend({
+  appName: z.string().min(1),
+  dataDirectory: z.string().min(1),
+  sessionTimeout: z.number().int().min(5),
+  maxLoginAttempts: z.number().int().min(0),
+  maxLoginAttemptsPerIp: z.number().int().min(0),
+  lockoutDuration: z.number().int().min(1),
+  passwordExpiration: z.number().int().min(0),
+  passwordMinLength: z.number().int().min(4),
+  passwordHistoryCount: z.number().int().min(0),
+}).partial();
+
+// Horarios de acceso: una fila por rol o una fila por usuario (excepción personal al horario del rol)
+export const accessSchedules = pgTable("access_schedules", {
+  id: serial("id").primaryKey(),
+  role: text("role").$type<UserRole>(), // Horario del rol (null si es de un usuario)
+  userId: integer("user_id").references(() => users.id), // Horario propio del usuario (tiene prioridad sobre el del rol)
+  unrestricted: boolean("unrestricted").notNull().default(false), // Acceso 24/7
+  workDays: json("work_days").$type<number[]>().notNull().default([1, 2, 3, 4, 5]), // 0 = domingo, 1 = lunes, etc.
+  startTime: text("start_time").notNull().default("08:00"), // HH:MM
+  endTime: text("end_time").notNull().default("18:00"), // HH:MM (exclusivo)
+  updatedBy: integer("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Formato de hora inválido (HH:MM)");
+
+export const upsertAccessScheduleSchema = z.object({
+  unrestricted: z.boolean().default(false),
+  workDays: z.array(z.number().int().min(0).max(6)).default([]),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+}).refine(data => data.unrestricted || data.startTime < data.endTime, {
+  message: "La hora de inicio debe ser anterior a la hora de fin",
+  path: ["endTime"],
+});
+
+// Días festivos: los horarios restringidos no aplican ese día
+export const accessHolidays = pgTable("access_holidays", {
+  id: serial("id").primaryKey(),
+  date: text("date").notNull().unique(), // YYYY-MM-DD
+  name: text("name").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAccessHolidaySchema = createInsertSchema(accessHolidays).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true
+}).extend({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Formato de fecha inválido (AAAA-MM-DD)"),
+  name: z.string().min(1),
+});
+
+// Excepciones temporales: permiten el acceso fuera de horario (p. ej. un turno en domingo)
+export const accessExceptions = pgTable("access_exceptions", {
+  id: serial("id").primaryKey(),
+  role: text("role").$type<UserRole>(), // Aplica a todo el rol...
+  userId: integer("user_id").references(() => users.id), // ...o a un usuario concreto
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAccessExceptionSchema = createInsertSchema(accessExceptions).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true
+}).extend({
+  role: z.nativeEnum(UserRole).nullish(),
+  userId: z.number().int().nullish(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string().min(1),
+}).refine(data => Boolean(data.role) !== Boolean(data.userId), {
+  message: "La excepción debe aplicar a un rol o a un usuario",
+  path: ["role"],
+}).refine(data => data.startsAt < data.endsAt, {
+  message: "La fecha de inicio debe ser anterior a la de fin",
+  path: ["endsAt"],
 });
 
 // Export types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type PasswordHistoryEntry = typeof passwordHistory.$inferSelect;
+export type ChangePassword = z.infer<typeof changePasswordSchema>;
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+
 // Aquí solo añadir tipos adicionales si es necesario
 
 export type FormTemplate = typeof formTemplates.$inferSelect;
@@ -187,6 +697,17 @@ export type InsertSavedReport = z.infer<typeof insertSavedReportSchema>;
 export type FormEntry = typeof formEntries.$inferSelect;
 export type InsertFormEntry = z.infer<typeof insertFormEntrySchema>;
 
+export type FormEntryRevision = typeof formEntryRevisions.$inferSelect;
+export type InsertFormEntryRevision = z.infer<typeof insertFormEntryRevisionSchema>;
+
+export type FormEntryAmendment = typeof formEntryAmendments.$inferSelect;
+export type InsertFormEntryAmendment = z.infer<typeof insertFormEntryAmendmentSchema>;
+export type CreateAmendment = z.infer<typeof createAmendmentSchema>;
+
+export type EntrySignature = typeof entrySignatures.$inferSelect;
+export type InsertEntrySignature = z.infer<typeof insertEntrySignatureSchema>;
+export type SignEntry = z.infer<typeof signEntrySchema>;
+
 export type FolioCounter = typeof folioCounters.$inferSelect;
 export type InsertFolioCounter = z.infer<typeof insertFolioCounterSchema>;
 
@@ -194,6 +715,50 @@ export type ActivityLog = typeof activityLogs.$inferSelect;
 export type InsertActivityLog = z.infer<typeof insertActivityLogSchema>;
 
 export type UpdateFormWorkflow = z.infer<typeof updateFormWorkflowSchema>;
+export type FormEntrySearch = z.infer<typeof formEntrySearchSchema>;
+
+// Resultado de la búsqueda: una fila por entrada o formulario de producción
+export interface FormEntrySearchItem {
+  source: "entry" | "production";
+  id: number;
+  formTemplateId: number;
+  templateName: string;
+  data: any;
+  createdBy: number;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+  department: string | null;
+  status: string | null;
+  workflowStatus: string | null;
+  lotNumber: string | null;
+  folioNumber: number | string | null;
+  [key: string]: any;
+}
+
+export interface FormEntrySearchResult {
+  items: FormEntrySearchItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export type WorkflowState = z.infer<typeof workflowStateSchema>;
+export type WorkflowTransition = z.infer<typeof workflowTransitionSchema>;
+export type WorkflowDefinitionInput = z.infer<typeof workflowDefinitionSchema>;
+export type WorkflowDefinition = typeof workflowDefinitions.$inferSelect;
+
+export type SystemSettings = typeof systemSettings.$inferSelect;
+export type UpdateSystemSettings = z.infer<typeof updateSystemSettingsSchema>;
+
+export type AccessSchedule = typeof accessSchedules.$inferSelect;
+export type UpsertAccessSchedule = z.infer<typeof upsertAccessScheduleSchema>;
+
+export type AccessHoliday = typeof accessHolidays.$inferSelect;
+export type InsertAccessHoliday = z.infer<typeof insertAccessHolidaySchema>;
+
+export type AccessException = typeof accessExceptions.$inferSelect;
+export type InsertAccessException = z.infer<typeof insertAccessExceptionSchema>;
 
 // Form field type definitions used in the JSON structure
 export const fieldTypes = [
@@ -218,6 +783,19 @@ export const fieldTypes = [
 
 export type FieldType = typeof fieldTypes[number];
 
+// Condición sobre la respuesta de otro campo, usada por las reglas visibleWhen / requiredWhen
+export const fieldConditionSchema = z.object({
+  fieldId: z.string().min(1),
+  operator: z.enum(["equals", "notEquals", "in", "notIn", "isEmpty", "isNotEmpty"]),
+  value: z.union([z.string(), z.array(z.string())]).optional(),
+});
+
+// Regla condicional: se cumple cuando se cumplen todas (all) o alguna (any) de sus condiciones
+export const fieldRuleSchema = z.object({
+  match: z.enum(["all", "any"]).default("all"),
+  conditions: z.array(fieldConditionSchema).min(1),
+});
+
 export const formFieldSchema = z.object({
   id: z.string(),
   type: z.enum(fieldTypes),
@@ -228,10 +806,19 @@ export const formFieldSchema = z.object({
   displayOrder: z.number().optional(),
   // Campo para controlar si el campo es editable en el constructor de formularios
   editable: z.boolean().optional(),
+  // Roles que pueden capturar o modificar el valor (vacío = hereda de la sección o sin restricción)
+  ownerRoles: z.array(z.nativeEnum(UserRole)).optional(),
   description: z.string().optional(),
   required: z.boolean().default(false),
+  // Reglas condicionales: el campo solo se muestra / solo es obligatorio cuando se cumple la regla
+  visibleWhen: fieldRuleSchema.optional(),
+  requiredWhen: fieldRuleSchema.optional(),
   placeholder: z.string().optional(),
   defaultValue: z.any().optional(),
+  // Fórmula de campo calculado (p. ej. "=brix_final - brix_inicial"); el valor no se captura
+  formula: z.string().optional(),
+  // El servidor llena el campo con el folio asignado al crear el registro
+  autoFolio: z.boolean().optional(),
   // Características especiales del campo (autocompletado de recetas, etc.)
   features: z.array(z.string()).optional(),
   options: z.array(z.union([
@@ -287,6 +874,7 @@ export const formFieldSchema = z.object({
         span: z.number().optional(), // Para celdas que ocupan múltiples columnas
         rowspan: z.number().optional(), // Para celdas que ocupan múltiples filas
         readOnly: z.boolean().optional(), // Si la celda es de solo lectura
+        formula: z.string().optional(), // Fórmula de la columna, evaluada por fila (p. ej. "=row.kilos * row.precio")
         validation: z.object({
           min: z.number().optional(),
           max: z.number().optional(),
@@ -307,16 +895,95 @@ export const formFieldSchema = z.object({
 export interface FormField extends z.infer<typeof formFieldSchema> {}
 // Make sure the FormField type is exported correctly
 
+// Diseño de impresión (PDF) declarado en la estructura de la plantilla; los anchos son proporciones del ancho útil
+export const printFieldRefSchema = z.object({
+  fieldId: z.string().min(1), // ID del campo o ruta en los datos ("seccion.campo")
+  label: z.string().optional(), // Reemplaza la etiqueta del campo
+});
+
+export const printRegionSchema = z.discriminatedUnion("type", [
+  // Etiqueta y valor de cada campo: en columnas (list) o en una tabla de dos columnas (table)
+  z.object({
+    type: z.literal("fields"),
+    title: z.string().optional(),
+    style: z.enum(["list", "table"]).default("list"),
+    columns: z.number().int().min(1).max(4).default(2),
+    headers: z.tuple([z.string(), z.string()]).optional(), // Encabezados de la tabla (por omisión "Campo" y "Valor")
+    columnWidths: z.tuple([z.number().positive(), z.number().positive()]).optional(),
+    fields: z.array(printFieldRefSchema).min(1),
+  }),
+  // Cuadrícula con las filas de un campo tipo tabla
+  z.object({
+    type: z.literal("grid"),
+    title: z.string().optional(),
+    fieldId: z.string().min(1),
+    columns: z.array(z.object({
+      key: z.string().min(1),
+      header: z.string(),
+      width: z.number().positive().optional(),
+      format: z.enum(["text", "date", "check"]).default("text"), // check: "X" si el valor es afirmativo
+    })).min(1),
+    rows: z.array(z.record(z.string(), z.any())).optional(), // Valores fijos por fila (p. ej. la actividad a revisar)
+  }),
+  // Párrafo con el valor de un campo o un texto fijo
+  z.object({
+    type: z.literal("text"),
+    title: z.string().optional(),
+    fieldId: z.string().optional(),
+    text: z.string().optional(),
+  }),
+  z.object({ type: z.literal("pageBreak") }),
+]);
+
+export const printSignatureSchema = z.object({
+  label: z.string().min(1),
+  // signer / approver: firma y aprobación de la entrada; field: campo con la firma o el nombre; blank: para firmar en papel
+  source: z.enum(["signer", "approver", "field", "blank"]).default("blank"),
+  fieldId: z.string().optional(),
+});
+
+export const printLayoutSchema = z.object({
+  orientation: z.enum(["portrait", "landscape"]).default("portrait"),
+  header: z.object({
+    title: z.string().optional(), // Por omisión, el nombre de la plantilla
+    code: z.string().optional(),
+    version: z.string().optional(),
+    revisionDate: z.string().optional(),
+    showEntryInfo: z.boolean().default(true), // Folio, fecha, creador, departamento y estado
+  }).optional(),
+  // Sin regiones se imprimen todos los campos de la estructura
+  regions: z.array(printRegionSchema).optional(),
+  // Sin bloques de firma se imprimen las firmas de la entrada
+  signatures: z.array(printSignatureSchema).optional(),
+});
+
 export const formStructureSchema = z.object({
   title: z.string(),
   fields: z.array(formFieldSchema),
   sections: z.array(z.object({
+    id: z.string().optional(),
     title: z.string(),
+    // Roles dueños de los campos de la sección (cada campo puede definir los suyos)
+    ownerRoles: z.array(z.nativeEnum(UserRole)).optional(),
     fields: z.array(formFieldSchema)
-  })).optional()
+  })).optional(),
+  printLayout: printLayoutSchema.optional()
 });
 
 export type FormStructure = z.infer<typeof formStructureSchema>;
+export type PrintLayout = z.infer<typeof printLayoutSchema>;
+export type PrintRegion = z.infer<typeof printRegionSchema>;
+export type PrintSignature = z.infer<typeof printSignatureSchema>;
+export type FieldCondition = z.infer<typeof fieldConditionSchema>;
+export type FieldRule = z.infer<typeof fieldRuleSchema>;
+
+// Error de validación de un campo de la entrada (path incluye fila y columna en tablas)
+export interface EntryFieldError {
+  fieldId: string;
+  path: (string | number)[];
+  label: string;
+  message: string;
+}
 
 // Tabla de productos para reutilizar en formularios
 export const products = pgTable("products", {
@@ -365,13 +1032,24 @@ export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Employee = typeof employees.$inferSelect;
 export type InsertEmployee = z.infer<typeof insertEmployeeSchema>;
 
-// Tabla de recetas de productos
+export enum RecipeStatus {
+  DRAFT = "draft",       // En edición, no la usan los formularios
+  APPROVED = "approved"  // Aprobada por Calidad: inmutable, vigente a partir de effectiveFrom
+}
+
+// Tabla de recetas de productos: cada fila es una versión de la fórmula del producto
 export const productRecipes = pgTable("product_recipes", {
   id: serial("id").primaryKey(),
   productId: integer("product_id").notNull().references(() => products.id),
   name: text("name").notNull(), // Nombre del proceso
+  version: integer("version").notNull().default(1), // Consecutivo por producto
+  // Las recetas anteriores al versionado se consideran aprobadas; las nuevas versiones se crean como borrador
+  status: text("status").$type<RecipeStatus>().notNull().default(RecipeStatus.APPROVED),
   baseQuantity: integer("base_quantity").notNull().default(100), // Litros base (generalmente 100)
   isActive: boolean("is_active").default(true),
+  effectiveFrom: timestamp("effective_from"), // Vigente desde (null = desde siempre, recetas anteriores al versionado)
+  approvedBy: integer("approved_by"),
+  approvedAt: timestamp("approved_at"),
   createdBy: integer("created_by").notNull(), // Usuario que creó la receta
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -381,6 +1059,8 @@ export const insertProductRecipeSchema = createInsertSchema(productRecipes).omit
   id: true,
   createdAt: true,
   updatedAt: true
+}).extend({
+  status: z.nativeEnum(RecipeStatus).optional(),
 });
 
 // Tabla de materiales para recetas
@@ -407,6 +1087,35 @@ export type InsertProductRecipe = z.infer<typeof insertProductRecipeSchema>;
 export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
 export type InsertRecipeIngredient = z.infer<typeof insertRecipeIngredientSchema>;
 
+// Receta completa tal como se captura en la pantalla de recetas (las cantidades son por baseQuantity litros)
+export const recipeIngredientInputSchema = z.object({
+  materialName: z.string().trim().min(1, "Indique el nombre del material"),
+  quantity: z.number().nonnegative("La cantidad no puede ser negativa"),
+  unit: z.string().trim().min(1).default("kg"),
+});
+
+export const recipeInputSchema = z.object({
+  productId: z.number().int().positive(),
+  name: z.string().trim().min(1, "Indique el nombre de la receta"),
+  baseQuantity: z.number().int().positive("Los litros base deben ser mayores a cero"),
+  ingredients: z.array(recipeIngredientInputSchema).min(1, "La receta debe tener al menos un ingrediente")
+    .refine(ingredients => new Set(ingredients.map(i => i.materialName.toLowerCase())).size === ingredients.length, {
+      message: "Cada material solo puede aparecer una vez en la receta",
+    }),
+});
+
+export const approveRecipeSchema = z.object({
+  effectiveFrom: z.coerce.date().optional(), // Por defecto, desde el momento de la aprobación
+});
+
+export type RecipeIngredientInput = z.infer<typeof recipeIngredientInputSchema>;
+export type RecipeInput = z.infer<typeof recipeInputSchema>;
+
+export type RecipeWithIngredients = ProductRecipe & {
+  productName: string;
+  ingredients: RecipeIngredient[];
+};
+
 // Tabla para formularios de producción por secciones
 export const productionForms = pgTable("production_forms", {
   id: serial("id").primaryKey(),
@@ -421,10 +1130,14 @@ export const productionForms = pgTable("production_forms", {
   folioBajaMP: text("folio_baja_mp"), // Folio Baja MP
   folioBajaME: text("folio_baja_me"), // Folio Baja ME
   folioPT: text("folio_pt"), // Folio PT
+  folioNumber: integer("folio_number"), // Consecutivo asignado (null si el folio se capturó manualmente)
+  folioPeriod: text("folio_period"), // Periodo del consecutivo
   status: text("status").$type<ProductionFormStatus>().notNull().default(ProductionFormStatus.DRAFT),
   lotNumber: text("lot_number"), // Número de lote
+  recipeId: integer("recipe_id").references(() => productRecipes.id), // Versión de receta vigente al crear el formulario
   ingredients: json("ingredients"), // Lista de ingredientes calculados
   ingredientTimes: json("ingredient_times"), // Horas de adición de ingredientes
+  ingredientLots: json("ingredient_lots").$type<Record<string, string>>(), // Lote de proveedor por materia prima
   
   // Sección de seguimiento de proceso
   startTime: text("start_time"), // Hora inicio
@@ -467,19 +1180,192 @@ export const productionForms = pgTable("production_forms", {
   createdBy: integer("created_by").notNull(), // Usuario que creó el formulario
   updatedBy: integer("updated_by"), // Último usuario que lo modificó
   lastUpdatedBy: integer("last_updated_by"), // Último usuario que actualizó (compatibilidad)
+  version: integer("version").notNull().default(1), // Se incrementa en cada guardado (control de concurrencia)
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertProductionFormSchema = createInsertSchema(productionForms).omit({
   id: true,
+  recipeId: true, // Lo fija el servidor con la versión vigente
+  folioNumber: true, // Los asigna el esquema de folios
+  folioPeriod: true,
+  version: true,
   createdBy: true,
   createdAt: true,
   updatedAt: true,
   updatedBy: true
 }).extend({
-  folio: z.string().optional() // El folio es opcional, se genera automáticamente si no se proporciona
+  folio: z.string().optional(), // El folio es opcional, se genera automáticamente si no se proporciona
+  ingredientLots: z.record(z.string()).nullable().optional()
+});
+
+// Actualización parcial: solo se escriben los campos enviados, siempre que el formulario
+// siga en la versión que el cliente editó
+export const updateProductionFormSchema = insertProductionFormSchema.partial().extend({
+  status: z.preprocess(normalizeProductionFormStatus, z.nativeEnum(ProductionFormStatus)).optional(),
+  version: z.number().int().positive()
 });
 
 export type ProductionForm = typeof productionForms.$inferSelect;
 export type InsertProductionForm = z.infer<typeof insertProductionFormSchema>;
+export type UpdateProductionForm = z.infer<typeof updateProductionFormSchema>;
+
+// Trazabilidad: uso de un lote de materia prima en un lote de producto terminado
+export interface MaterialLotUsage {
+  productionFormId: number;
+  folio: string;
+  productId: string;
+  productName: string | null;
+  lotNumber: string | null; // Lote de producto terminado
+  date: string;
+  caducidad: string | null;
+  marmita: string | null;
+  materialName: string;
+  supplierLot: string; // Lote de proveedor de la materia prima
+  quantity: number | null; // Kilos agregados
+  unit: string | null;
+  addedAt: string | null; // Hora de adición
+}
+
+export enum TraceabilityDirection {
+  FORWARD = "forward",   // De un lote de materia prima a los lotes de producto terminado
+  BACKWARD = "backward"  // De un lote de producto terminado a los lotes de materia prima
+}
+
+export const traceabilityQuerySchema = z.discriminatedUnion("direction", [
+  z.object({
+    direction: z.literal(TraceabilityDirection.FORWARD),
+    supplierLot: z.string().trim().min(1, "Indique el lote de materia prima"),
+    materialName: z.string().trim().optional(),
+  }),
+  z.object({
+    direction: z.literal(TraceabilityDirection.BACKWARD),
+    lotNumber: z.string().trim().min(1, "Indique el lote de producto terminado"),
+  }),
+]);
+
+export type TraceabilityQuery = z.infer<typeof traceabilityQuerySchema>;
+
+// Parámetros del formulario de producción con límites de especificación (puntos críticos de control)
+export enum SpecParameter {
+  TEMPERATURE = "temperature",   // Temperaturas del seguimiento de proceso
+  PRESSURE = "pressure",         // Manómetro
+  BRIX = "brix",                 // Grados Brix de la verificación de calidad
+  QUALITY_TEMP = "qualityTemp",  // Temperatura de la verificación de calidad
+  VISCOSITY = "viscosity",       // Viscosidad
+  FINAL_BRIX = "finalBrix"       // Grados Brix finales (liberación)
+}
+
+// Límites de especificación por producto: una fila por parámetro
+export const productSpecifications = pgTable("product_specifications", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  parameter: text("parameter").$type<SpecParameter>().notNull(),
+  minValue: real("min_value"), // null = sin límite inferior
+  maxValue: real("max_value"), // null = sin límite superior
+  unit: text("unit"),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  productParameter: unique().on(table.productId, table.parameter),
+}));
+
+export const productSpecificationInputSchema = z.object({
+  parameter: z.nativeEnum(SpecParameter),
+  minValue: z.number().nullable().default(null),
+  maxValue: z.number().nullable().default(null),
+  unit: z.string().nullable().optional(),
+}).refine(spec => spec.minValue !== null || spec.maxValue !== null, {
+  message: "Indique al menos un límite",
+  path: ["minValue"],
+}).refine(spec => spec.minValue === null || spec.maxValue === null || spec.minValue <= spec.maxValue, {
+  message: "El límite inferior no puede ser mayor que el superior",
+  path: ["maxValue"],
+});
+
+export const updateProductSpecificationsSchema = z.array(productSpecificationInputSchema)
+  .refine(specs => new Set(specs.map(spec => spec.parameter)).size === specs.length, {
+    message: "Cada parámetro solo puede tener una especificación",
+  });
+
+export type ProductSpecification = typeof productSpecifications.$inferSelect;
+export type ProductSpecificationInput = z.infer<typeof productSpecificationInputSchema>;
+
+export enum DeviationStatus {
+  OPEN = "open",         // Lectura fuera de especificación sin acción correctiva
+  RESOLVED = "resolved"  // Acción correctiva documentada por Gerencia de Calidad
+}
+
+// Desviaciones: lecturas fuera de especificación registradas al guardar un formulario de producción
+export const productionDeviations = pgTable("production_deviations", {
+  id: serial("id").primaryKey(),
+  productionFormId: integer("production_form_id").notNull(),
+  parameter: text("parameter").$type<SpecParameter>().notNull(),
+  readingIndex: integer("reading_index"), // Posición de la lectura en el arreglo (null = lectura única)
+  value: text("value").notNull(), // Valor capturado
+  minValue: real("min_value"), // Límites vigentes al detectarse
+  maxValue: real("max_value"),
+  status: text("status").$type<DeviationStatus>().notNull().default(DeviationStatus.OPEN),
+  detectedBy: integer("detected_by").references(() => users.id),
+  detectedAt: timestamp("detected_at").defaultNow(),
+  correctiveAction: text("corrective_action"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+export const insertProductionDeviationSchema = createInsertSchema(productionDeviations).omit({
+  id: true,
+  status: true,
+  detectedAt: true,
+  correctiveAction: true,
+  resolvedBy: true,
+  resolvedAt: true
+}).extend({
+  parameter: z.nativeEnum(SpecParameter),
+});
+
+export const resolveDeviationSchema = z.object({
+  correctiveAction: z.string().trim().min(10, "Describa la acción correctiva (mínimo 10 caracteres)"),
+});
+
+export type ProductionDeviation = typeof productionDeviations.$inferSelect;
+export type InsertProductionDeviation = z.infer<typeof insertProductionDeviationSchema>;
+
+// Simulacros de retiro: ejercicios periódicos que reúnen los registros de un lote y miden el tiempo que toma
+export const mockRecalls = pgTable("mock_recalls", {
+  id: serial("id").primaryKey(),
+  lotNumber: text("lot_number").notNull(), // Lote de producto terminado
+  notes: text("notes"),
+  productionFormIds: json("production_form_ids").$type<number[]>().notNull().default([]), // Registros reunidos
+  formEntryIds: json("form_entry_ids").$type<number[]>().notNull().default([]),
+  startedBy: integer("started_by").notNull().references(() => users.id),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"), // Al generar el paquete por primera vez
+});
+
+export const insertMockRecallSchema = createInsertSchema(mockRecalls).omit({
+  id: true,
+  startedAt: true,
+  completedAt: true
+});
+
+export const startMockRecallSchema = z.object({
+  lotNumber: z.string().trim().min(1, "Indique el lote de producto terminado"),
+  notes: z.string().trim().optional(),
+});
+
+export const mockRecallExportSchema = z.object({
+  format: z.enum(["pdf", "excel"]).default("pdf"),
+});
+
+export type MockRecall = typeof mockRecalls.$inferSelect;
+export type InsertMockRecall = z.infer<typeof insertMockRecallSchema>;
+export type StartMockRecall = z.infer<typeof startMockRecallSchema>;
+
+// Registro reunido en el simulacro: ligado por lote o por fecha y marmita de producción
+export interface MockRecallEntry {
+  entry: FormEntry;
+  template: FormTemplate;
+  link: "lot" | "production_day";
+}
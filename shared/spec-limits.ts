@@ -0,0 +1,95 @@
+import { SpecParameter } from "./schema";
+import type { ProductSpecification } from "./schema";
+
+/**
+ * Límites de especificación de las lecturas del formulario de producción.
+ * Se evalúan igual en el formulario (para marcar la lectura) y en el servidor (para registrar la desviación).
+ */
+
+export const specParameterLabels: Record<SpecParameter, string> = {
+  [SpecParameter.TEMPERATURE]: "Temperatura de proceso",
+  [SpecParameter.PRESSURE]: "Manómetro",
+  [SpecParameter.BRIX]: "Grados Brix",
+  [SpecParameter.QUALITY_TEMP]: "Temperatura (verificación de calidad)",
+  [SpecParameter.VISCOSITY]: "Viscosidad",
+  [SpecParameter.FINAL_BRIX]: "Grados Brix finales",
+};
+
+// Parámetros capturados como una sola lectura; los demás son arreglos de lecturas por hora
+const singleReadingParameters: SpecParameter[] = [SpecParameter.FINAL_BRIX];
+
+export interface SpecLimits {
+  minValue: number | null;
+  maxValue: number | null;
+}
+
+export interface OutOfSpecReading extends SpecLimits {
+  parameter: SpecParameter;
+  readingIndex: number | null; // null = lectura única
+  value: string;
+}
+
+/**
+ * Convierte una lectura capturada a número (acepta coma decimal y unidades al final, p. ej. "66,5 °Bx")
+ * @returns El número o null si la lectura está vacía o no es numérica
+ */
+export function parseReading(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value !== "string") return null;
+  const match = value.trim().replace(",", ".").match(/^-?\d+(\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+/**
+ * Indica si una lectura está fuera de los límites (las lecturas vacías o no numéricas no se evalúan)
+ */
+export function isOutOfSpec(limits: SpecLimits | undefined, value: unknown): boolean {
+  if (!limits) return false;
+  const reading = parseReading(value);
+  if (reading === null) return false;
+  return (limits.minValue !== null && reading < limits.minValue) ||
+    (limits.maxValue !== null && reading > limits.maxValue);
+}
+
+/**
+ * Texto del rango para mostrarlo junto a la lectura, p. ej. "65 – 68 °Bx"
+ */
+export function formatSpecRange(spec: SpecLimits & { unit?: string | null }): string {
+  const unit = spec.unit ? ` ${spec.unit}` : "";
+  if (spec.minValue !== null && spec.maxValue !== null) return `${spec.minValue} – ${spec.maxValue}${unit}`;
+  if (spec.minValue !== null) return `≥ ${spec.minValue}${unit}`;
+  return `≤ ${spec.maxValue}${unit}`;
+}
+
+/**
+ * Busca las lecturas del formulario de producción que están fuera de especificación
+ * @param form Datos del formulario de producción
+ * @param specs Especificaciones del producto
+ */
+export function findOutOfSpecReadings(
+  form: Record<string, any>,
+  specs: Pick<ProductSpecification, "parameter" | "minValue" | "maxValue">[]
+): OutOfSpecReading[] {
+  const readings: OutOfSpecReading[] = [];
+
+  for (const spec of specs) {
+    const limits = { minValue: spec.minValue, maxValue: spec.maxValue };
+    const captured = form[spec.parameter];
+
+    if (singleReadingParameters.includes(spec.parameter)) {
+      if (isOutOfSpec(limits, captured)) {
+        readings.push({ parameter: spec.parameter, readingIndex: null, value: String(captured).trim(), ...limits });
+      }
+      continue;
+    }
+
+    if (!Array.isArray(captured)) continue;
+    captured.forEach((value, index) => {
+      if (isOutOfSpec(limits, value)) {
+        readings.push({ parameter: spec.parameter, readingIndex: index, value: String(value).trim(), ...limits });
+      }
+    });
+  }
+
+  return readings;
+}
@@ -0,0 +1,49 @@
+// Verifica el número de folio con el que la búsqueda de formularios capturados filtra por rango:
+// los folios de producción con prefijo ("PR-0012") deben entrar al rango por su consecutivo final.
+//
+//   npm run test:folios
+import assert from 'assert';
+import { getFolioNumber } from '@shared/folios';
+
+const folios: { name: string; folio: string | null; expected: number | null }[] = [
+  { name: 'folio de producción con prefijo', folio: 'PR-0012', expected: 12 },
+  { name: 'folio numérico', folio: '15', expected: 15 },
+  { name: 'folio con año y consecutivo', folio: 'PR-2025-0030', expected: 30 },
+  { name: 'folio de plantilla', folio: 'CA-RE-01-01-F7', expected: 7 },
+  { name: 'folio sin consecutivo', folio: 'LOTE-A', expected: null },
+  { name: 'sin folio', folio: null, expected: null }
+];
+
+let failures = 0;
+
+for (const { name, folio, expected } of folios) {
+  try {
+    assert.strictEqual(getFolioNumber(folio), expected);
+    console.log(`OK: ${name}`);
+  } catch (error) {
+    failures++;
+    console.error(`FALLA: ${name}`);
+    console.error(`  ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Rango 10-20 de la búsqueda: el folio con prefijo no debe quedar fuera
+try {
+  const inRange = folios
+    .filter(({ folio }) => {
+      const number = getFolioNumber(folio);
+      return number !== null && number >= 10 && number <= 20;
+    })
+    .map(({ folio }) => folio);
+  assert.deepStrictEqual(inRange, ['PR-0012', '15']);
+  console.log('OK: rango de folios incluye folios con prefijo');
+} catch (error) {
+  failures++;
+  console.error('FALLA: rango de folios incluye folios con prefijo');
+  console.error(`  ${error instanceof Error ? error.message : error}`);
+}
+
+if (failures > 0) {
+  console.error(`${failures} caso(s) fallaron`);
+  process.exit(1);
+}
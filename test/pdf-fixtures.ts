@@ -0,0 +1,388 @@
+// Pruebas de regresión de los PDF: genera cada documento de ejemplo, extrae su texto página por página
+// y lo compara con el archivo de referencia en test/fixtures/pdf. Con --update se regeneran las referencias.
+//
+//   npm run test:pdf            comparar
+//   npm run test:pdf -- --update  regenerar tras un cambio intencional
+process.env.TZ = 'UTC';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { inflateSync } from 'zlib';
+import { fileURLToPath } from 'url';
+import type { Employee, FormEntry, FormEntryAmendment, FormTemplate, ProductionForm, ProductRecipe, User } from '@shared/schema';
+import { SignatureMeaning, SignatureRole } from '@shared/schema';
+import type { SignatureManifestItem } from '@shared/e-signatures';
+import { PdfDocumentModel, renderPdfDocument } from '../server/pdf-document';
+import { buildFormEntryDocument } from '../server/pdf-generator';
+import { buildProductionFormDocument } from '../server/pdf-generator-production';
+import { buildConsolidatedDocument } from '../server/entries-table';
+import type { PdfDataSource } from '../server/pdf-layout';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const fixturesDir = path.join(__dirname, 'fixtures/pdf');
+const update = process.argv.includes('--update');
+
+const generatedAt = new Date('2026-03-15T18:30:00Z');
+
+// --- Datos de ejemplo ---
+
+const users = [
+  { id: 1, name: 'Ana Pérez', username: 'aperez' },
+  { id: 2, name: 'Luis Gómez', username: 'lgomez' }
+] as User[];
+
+const employees = [{ id: 10, name: 'Carlos Ruiz', employeeId: 'E-010' }] as Employee[];
+
+const amendments = [{
+  id: 1,
+  formEntryId: 100,
+  revisionId: 1,
+  reason: 'Corrección de temperatura capturada',
+  previousWorkflowStatus: 'signed',
+  previousSignedBy: 1,
+  previousSignedAt: new Date('2026-03-10T15:00:00Z'),
+  amendedBy: 2,
+  amendedAt: new Date('2026-03-11T16:45:00Z')
+}] as FormEntryAmendment[];
+
+const storage: PdfDataSource = {
+  getUser: async (id: number) => users.find(user => user.id === id),
+  getEmployee: async (id: number) => employees.find(employee => employee.id === id),
+  getFormEntryAmendments: async (entryId: number) => amendments.filter(amendment => amendment.formEntryId === entryId)
+};
+
+const manifest: SignatureManifestItem[] = [{
+  id: 1,
+  signatureRole: SignatureRole.PRODUCER,
+  signatureRoleLabel: 'Elaboró (Producción)',
+  meaning: SignatureMeaning.ELABORATED,
+  signerId: 1,
+  signerName: 'Ana Pérez',
+  signerRole: 'production',
+  signatureImage: null,
+  dataHash: 'a3f1c2d4e5b6a7988776655443322110',
+  signedAt: new Date('2026-03-12T14:00:00Z'),
+  status: 'valid'
+}];
+
+// Plantilla con diseño de impresión: campos en lista y en tabla, cuadrícula, texto y firmas
+const layoutTemplate = {
+  id: 1,
+  name: 'CA-RE-08-01 REGISTRO DE TEMPERATURAS',
+  structure: {
+    fields: [
+      { id: 'fecha', label: 'Fecha', type: 'date' },
+      { id: 'area', label: 'Área', type: 'select', options: [{ value: 'camara1', label: 'Cámara 1' }] },
+      { id: 'operador', label: 'Operador', type: 'employee' },
+      { id: 'termometro', label: 'Termómetro calibrado', type: 'checkbox' },
+      { id: 'lecturas', label: 'Lecturas', type: 'advancedTable' },
+      { id: 'observaciones', label: 'Observaciones', type: 'textarea' }
+    ],
+    printLayout: {
+      orientation: 'portrait',
+      header: { code: 'CA-RE-08-01', version: '3', revisionDate: '2025-06-01', showEntryInfo: true },
+      regions: [
+        { type: 'fields', title: 'Datos generales', style: 'list', columns: 2, fields: [{ fieldId: 'fecha' }, { fieldId: 'area' }, { fieldId: 'operador' }] },
+        { type: 'fields', style: 'table', columns: 1, headers: ['Verificación', 'Resultado'], fields: [{ fieldId: 'termometro' }] },
+        {
+          type: 'grid',
+          title: 'Lecturas',
+          fieldId: 'lecturas',
+          columns: [
+            { key: 'hora', header: 'Hora', format: 'text' },
+            { key: 'temp', header: 'Temperatura (°C)', format: 'text' },
+            { key: 'ok', header: 'Dentro de límite', format: 'check' }
+          ]
+        },
+        { type: 'text', title: 'Observaciones', fieldId: 'observaciones' }
+      ],
+      signatures: [
+        { label: 'Elaboró', source: 'signer' },
+        { label: 'Revisó', source: 'approver' },
+        { label: 'Verificó', source: 'blank' }
+      ]
+    }
+  }
+} as unknown as FormTemplate;
+
+const layoutEntry = {
+  id: 100,
+  formTemplateId: 1,
+  data: {
+    fecha: '2026-03-10T12:00:00Z',
+    area: 'camara1',
+    operador: 10,
+    termometro: true,
+    lecturas: [
+      { hora: '08:00', temp: '3.5', ok: 'si' },
+      { hora: '12:00', temp: '5.1', ok: false }
+    ],
+    observaciones: 'Sin incidencias durante el turno.'
+  },
+  createdBy: 1,
+  createdAt: new Date('2026-03-10T13:00:00Z'),
+  department: 'Calidad',
+  status: 'approved',
+  signature: null,
+  signedBy: 1,
+  signedAt: new Date('2026-03-12T14:00:00Z'),
+  approvedBy: 2,
+  approvedAt: new Date('2026-03-13T10:00:00Z'),
+  folioNumber: 7,
+  folio: 'CA-RE-08-01-0007'
+} as unknown as FormEntry;
+
+// Plantilla sin diseño de impresión: formato automático por secciones con tabla avanzada
+const structureTemplate = {
+  id: 2,
+  name: 'CA-RE-01-01 BUENAS PRÁCTICAS DE MANUFACTURA',
+  documentCode: 'CA-RE-01-01',
+  revision: 4,
+  issueDate: new Date('2026-02-01T00:00:00Z'),
+  documentApprover: 'Luis Gómez',
+  nextReviewDate: new Date('2027-02-01T00:00:00Z'),
+  structure: {
+    fields: [
+      { id: 'fecha', label: 'Fecha', type: 'date', section: 'Datos generales' },
+      { id: 'turno', label: 'Turno', type: 'radio', options: ['Matutino', 'Vespertino'], section: 'Datos generales' },
+      { id: 'titulo', label: 'Higiene del personal', type: 'heading', section: 'Revisión' },
+      { id: 'uniforme', label: 'Uniforme limpio', type: 'checkbox', section: 'Revisión' },
+      { id: 'cubrebocas', label: 'Uso de cubrebocas', type: 'select', options: [{ value: 'APROBADO', label: 'APROBADO' }], section: 'Revisión' },
+      {
+        id: 'personal',
+        label: 'Personal revisado',
+        type: 'advancedTable',
+        advancedTableConfig: {
+          sections: [{
+            title: 'Personal',
+            columns: [
+              { id: 'nombre', header: 'Nombre', type: 'text' },
+              { id: 'fecha_ingreso', header: 'Ingreso', type: 'date' },
+              { id: 'cumple', header: 'Cumple', type: 'checkbox' }
+            ]
+          }]
+        }
+      }
+    ]
+  }
+} as unknown as FormTemplate;
+
+const structureEntry = {
+  id: 200,
+  formTemplateId: 2,
+  data: {
+    fecha: '2026-03-09T12:00:00Z',
+    turno: 'Matutino',
+    uniforme: false,
+    cubrebocas: 'APROBADO',
+    personal: [
+      { nombre: 'María López', fecha_ingreso: '2024-01-15T12:00:00Z', cumple: true },
+      { nombre: 'José Torres', fecha_ingreso: '2025-07-01T12:00:00Z', cumple: false }
+    ]
+  },
+  createdBy: 2,
+  createdAt: new Date('2026-03-09T14:00:00Z'),
+  department: 'Producción',
+  status: 'draft',
+  signature: null,
+  signedBy: null,
+  signedAt: null,
+  approvedBy: null,
+  approvedAt: null,
+  folioNumber: 15,
+  folio: null
+} as unknown as FormEntry;
+
+const productionForm = {
+  id: 5,
+  productId: '3',
+  liters: 500,
+  date: '2026-03-08',
+  responsible: 'Pedro Sánchez',
+  caducidad: '2026-09-08',
+  marmita: 'Marmita 2',
+  folio: 'PR-0042',
+  folioInterno: 'INT-12',
+  folioBajaMP: null,
+  folioBajaME: null,
+  folioPT: 'PT-9',
+  status: 'completed',
+  lotNumber: 'L-2026-031',
+  createdBy: 1,
+  ingredients: [
+    { name: 'Leche', quantity: 450, unit: 'kg' },
+    { name: 'Azúcar', quantity: 90, unit: 'kg' },
+    { name: 'Vainilla', quantity: 0, unit: 'kg' }
+  ],
+  ingredientTimes: ['08:10', '08:25'],
+  ingredientLots: { Leche: 'LP-778' },
+  startTime: '08:00',
+  endTime: '13:30',
+  temperature: ['85', '92'],
+  pressure: ['1.2', ''],
+  qualityTimes: ['10:00'],
+  brix: ['68'],
+  qualityTemp: ['90'],
+  cmConsistometer: '5.5',
+  finalBrix: '70',
+  yield: '72%',
+  destinationType: 'Cajeta quemada',
+  destinationKilos: 380,
+  totalKilos: 380
+} as unknown as ProductionForm;
+
+const recipe = { id: 3, name: 'Cajeta tradicional', version: 2, effectiveFrom: new Date('2026-01-01T12:00:00Z') } as unknown as ProductRecipe;
+
+const consolidatedTemplate = {
+  id: 3,
+  name: 'CA-RE-15-01 ANÁLISIS MICROBIOLÓGICO',
+  documentCode: 'CA-RE-15-01',
+  revision: 1,
+  structure: {
+    fields: [
+      { id: 'fecha', label: 'Fecha', type: 'date', displayOrder: 1 },
+      { id: 'producto', label: 'Producto', type: 'text', displayOrder: 2 },
+      { id: 'microbiologia', label: 'Microbiología', type: 'advancedTable', displayOrder: 3, advancedTableConfig: { sections: [] } }
+    ]
+  }
+} as unknown as FormTemplate;
+
+const consolidatedEntries = [
+  {
+    id: 301,
+    folioNumber: 1,
+    data: { fecha: '2026-03-01', producto: 'Cajeta', microbiologia: [{ producto: 'Cajeta', a4ca5ad: 'No', c0a838ef: 'L-1' }] }
+  },
+  {
+    id: 302,
+    folioNumber: 2,
+    data: { fecha: '2026-03-02', producto: 'Dulce de leche', microbiologia: [] }
+  }
+] as unknown as FormEntry[];
+
+// Suficientes registros para varias páginas: el control documental se repite en cada encabezado
+const manyConsolidatedEntries = Array.from({ length: 45 }, (_, index) => ({
+  id: 400 + index,
+  folioNumber: index + 1,
+  data: { fecha: `2026-03-${String(index % 28 + 1).padStart(2, '0')}`, producto: index % 2 ? 'Cajeta' : 'Dulce de leche' }
+})) as unknown as FormEntry[];
+
+const fixtures: Record<string, () => Promise<PdfDocumentModel>> = {
+  'form-entry-print-layout': () => buildFormEntryDocument(layoutEntry, layoutTemplate, {
+    creator: users[0], storage, signatureManifest: manifest, generatedAt
+  }),
+  'form-entry-structure': () => buildFormEntryDocument(structureEntry, structureTemplate, {
+    creator: users[1], storage, generatedAt
+  }),
+  'production-form': async () => buildProductionFormDocument(productionForm, users[0], recipe, generatedAt),
+  'consolidated': async () => buildConsolidatedDocument(consolidatedEntries, consolidatedTemplate, undefined, generatedAt),
+  'consolidated-multipage': async () => buildConsolidatedDocument(manyConsolidatedEntries, consolidatedTemplate, undefined, generatedAt)
+};
+
+// --- Extracción de texto del PDF ---
+
+const winAnsi = new TextDecoder('windows-1252');
+
+// Cadena de un operador de texto: hexadecimal (<...>) o literal ((...))
+function decodeString(token: string): string {
+  if (token.startsWith('<')) {
+    return winAnsi.decode(Buffer.from(token.slice(1, -1), 'hex'));
+  }
+  const literal = token.slice(1, -1).replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+    const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+    return escapes[escape] ?? (/^[0-7]+$/.test(escape) ? String.fromCharCode(parseInt(escape, 8)) : escape);
+  });
+  return winAnsi.decode(Buffer.from(literal, 'latin1'));
+}
+
+/**
+ * Texto de cada página: los fragmentos a la misma altura forman una línea; las celdas de una fila se separan con " | "
+ */
+function extractPdfText(pdf: Buffer): string[] {
+  const raw = pdf.toString('latin1');
+  const pages: string[] = [];
+  const streamPattern = /<<((?:(?!>>\s*stream)[\s\S])*)>>\s*stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(raw))) {
+    const dictionary = match[1];
+    const length = Number(dictionary.match(/\/Length (\d+)/)?.[1] ?? 0);
+    const start = match.index + match[0].length;
+    if (/\/Subtype \/Image/.test(dictionary)) continue;
+
+    const data = pdf.subarray(start, start + length);
+    const content = (/\/FlateDecode/.test(dictionary) ? inflateSync(data) : data).toString('latin1');
+    if (!/\bBT\b/.test(content)) continue;
+
+    const lines: string[] = [];
+    let lineY: string | null = null;
+    let textY: string | null = null;
+    const operatorPattern = /[-\d.]+ ([-\d.]+) Tm|\[((?:<[0-9a-fA-F]*>|\((?:\\.|[^\\)])*\)|[-\d.\s])*)\]\s*TJ|(<[0-9a-fA-F]*>|\((?:\\.|[^\\)])*\))\s*Tj/g;
+    let operator: RegExpExecArray | null;
+    while ((operator = operatorPattern.exec(content))) {
+      if (operator[1] !== undefined) {
+        textY = operator[1];
+        continue;
+      }
+      const pieces = operator[2] !== undefined
+        ? operator[2].match(/<[0-9a-fA-F]*>|\((?:\\.|[^\\)])*\)/g) ?? []
+        : [operator[3]];
+      const text = pieces.map(decodeString).join('');
+      if (lines.length === 0 || textY !== lineY) {
+        lines.push(text);
+        lineY = textY;
+      } else {
+        // Texto continuado (etiqueta y valor) o siguiente celda de la misma fila
+        const separator = text.startsWith(' ') || lines[lines.length - 1].endsWith(':') ? '' : ' | ';
+        lines[lines.length - 1] += separator + text;
+      }
+    }
+    pages.push(lines.map(line => line.trimEnd()).filter(Boolean).join('\n'));
+  }
+  return pages;
+}
+
+// --- Ejecución ---
+
+async function run() {
+  fs.mkdirSync(fixturesDir, { recursive: true });
+  let failures = 0;
+
+  for (const [name, build] of Object.entries(fixtures)) {
+    const pdf = await renderPdfDocument(await build());
+    const text = extractPdfText(pdf)
+      .map((page, index) => `=== Página ${index + 1} ===\n${page}`)
+      .join('\n') + '\n';
+    const goldenPath = path.join(fixturesDir, `${name}.txt`);
+
+    if (update || !fs.existsSync(goldenPath)) {
+      fs.writeFileSync(goldenPath, text);
+      console.log(`Referencia actualizada: ${name}`);
+      continue;
+    }
+
+    const expected = fs.readFileSync(goldenPath, 'utf8');
+    if (expected === text) {
+      console.log(`OK: ${name}`);
+      continue;
+    }
+
+    failures++;
+    const expectedLines = expected.split('\n');
+    const actualLines = text.split('\n');
+    const line = expectedLines.findIndex((value, index) => value !== actualLines[index]);
+    console.error(`FALLA: ${name} (línea ${line + 1})`);
+    console.error(`  esperado: ${expectedLines[line] ?? '(fin del archivo)'}`);
+    console.error(`  obtenido: ${actualLines[line] ?? '(fin del archivo)'}`);
+  }
+
+  if (failures > 0) {
+    console.error(`${failures} documento(s) no coinciden con su referencia`);
+    process.exit(1);
+  }
+}
+
+run().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+// Verifica que los guardados del formulario de producción con cambio de estado pasen la validación del servidor:
+// el estado que calcula el cliente debe ser un valor de ProductionFormStatus, y los estados de versiones
+// anteriores se normalizan antes de validarse.
+//
+//   npm run test:production-forms
+import assert from 'assert';
+import { ProductionFormStatus, updateProductionFormSchema } from '@shared/schema';
+import { getStatusAfterSave, type UserRole } from '../client/src/components/process-forms/production-form-status';
+
+const saves: { name: string; role: UserRole; formData: Record<string, any>; status: ProductionFormStatus; expected: ProductionFormStatus }[] = [
+  {
+    name: 'gerente de producción completa la información general',
+    role: 'production_manager',
+    formData: { responsible: 'Ana Pérez', lotNumber: 'L-001' },
+    status: ProductionFormStatus.DRAFT,
+    expected: ProductionFormStatus.IN_PROGRESS
+  },
+  {
+    name: 'operador registra el seguimiento',
+    role: 'operator',
+    formData: { startTime: '08:00', temperature: ['85'] },
+    status: ProductionFormStatus.IN_PROGRESS,
+    expected: ProductionFormStatus.PENDING_REVIEW
+  },
+  {
+    name: 'gerente de calidad registra la verificación',
+    role: 'quality_manager',
+    formData: { finalBrix: '65' },
+    status: ProductionFormStatus.PENDING_REVIEW,
+    expected: ProductionFormStatus.COMPLETED
+  }
+];
+
+// Formularios guardados por versiones anteriores: el estado que regresa el formulario al guardar se normaliza
+const legacyStatuses: { name: string; status: string; expected: ProductionFormStatus }[] = [
+  { name: 'estado en mayúsculas', status: 'IN_PROGRESS', expected: ProductionFormStatus.IN_PROGRESS },
+  { name: 'estado con guion y mayúsculas', status: 'Pending-Review', expected: ProductionFormStatus.PENDING_REVIEW },
+  { name: 'estado firmado anterior', status: 'signed', expected: ProductionFormStatus.COMPLETED }
+];
+
+let failures = 0;
+
+for (const legacy of legacyStatuses) {
+  try {
+    const parsed = updateProductionFormSchema.parse({ status: legacy.status, version: 1 });
+    assert.strictEqual(parsed.status, legacy.expected);
+    console.log(`OK: ${legacy.name}`);
+  } catch (error) {
+    failures++;
+    console.error(`FALLA: ${legacy.name}`);
+    console.error(`  ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+try {
+  assert.throws(() => updateProductionFormSchema.parse({ status: 'desconocido', version: 1 }));
+  console.log('OK: estado desconocido rechazado');
+} catch (error) {
+  failures++;
+  console.error('FALLA: estado desconocido rechazado');
+}
+
+for (const save of saves) {
+  try {
+    const status = getStatusAfterSave(save.role, save.formData, save.status, false);
+    assert.strictEqual(status, save.expected);
+
+    // Misma carga que envía el formulario al guardar (onSave) y al cambiar de estado (handleStatusChange)
+    const parsed = updateProductionFormSchema.parse({ ...save.formData, status, version: 1 });
+    assert.strictEqual(parsed.status, save.expected);
+    console.log(`OK: ${save.name}`);
+  } catch (error) {
+    failures++;
+    console.error(`FALLA: ${save.name}`);
+    console.error(`  ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} guardado(s) con cambio de estado rechazados`);
+  process.exit(1);
+}